@@ -1,5 +1,6 @@
 import { PrismaClient } from "@prisma/client";
 import bcrypt from "bcryptjs";
+import { DEFAULT_PRICE_BOOK, getPriceTables } from "../src/lib/design/price-book";
 
 const prisma = new PrismaClient();
 
@@ -222,6 +223,7 @@ async function seedModuleCatalog() {
         type: "opening",
         widthFt: 3,
         heightFt: 4,
+        sillFt: 3,
         minSpacingFt: 2,
       },
       priceRuleJson: {
@@ -236,6 +238,7 @@ async function seedModuleCatalog() {
         type: "opening",
         widthFt: 3,
         heightFt: 7,
+        sillFt: 0,
         requiresEdge: true,
       },
       priceRuleJson: {
@@ -273,6 +276,8 @@ async function seedModuleCatalog() {
         footprintAnchor: "center",
         mount: "floor",
         minClearanceFt: { front: 2, back: 2, left: 0, right: 0 },
+        clearanceLevel: "error",  // Level for door swing conflicts
+        opening: { widthFt: 3, heightFt: 80 / 12, sillFt: 0 },  // 36x80 slab
       },
       priceRuleJson: {
         baseCents: 35000,
@@ -288,11 +293,30 @@ async function seedModuleCatalog() {
         footprintAnchor: "center",
         mount: "floor",
         minClearanceFt: { front: 3, back: 2, left: 0, right: 0 },
+        clearanceLevel: "error",  // Level for door swing conflicts
+        opening: { widthFt: 3, heightFt: 80 / 12, sillFt: 0 },  // 36x80 prehung
       },
       priceRuleJson: {
         baseCents: 95000,
       },
     },
+    // Stairs (stacked compositions: rises from the level it sits on to the one above)
+    {
+      key: "fixture-stair-straight",
+      name: "Straight Stair",
+      category: "shell-structure",
+      schemaJson: {
+        type: "fixture",
+        footprintFt: { length: 10, width: 3 },
+        footprintAnchor: "front-left",
+        mount: "floor",
+        minClearanceFt: { front: 3, back: 0, left: 0, right: 0 },
+        clearanceLevel: "error",
+      },
+      priceRuleJson: {
+        baseCents: 420000,
+      },
+    },
     // Bath fixtures
     {
       key: "fixture-toilet",
@@ -305,6 +329,8 @@ async function seedModuleCatalog() {
         mount: "floor",
         utilities: ["water", "waste"],
         minClearanceFt: { front: 1.5, back: 0.5, left: 0.5, right: 0.5 },
+        clearanceLevel: "error",
+        clearanceShareGroup: "bath",
       },
       priceRuleJson: {
         baseCents: 45000,
@@ -321,6 +347,8 @@ async function seedModuleCatalog() {
         mount: "floor",
         utilities: ["water", "waste", "vent"],
         minClearanceFt: { front: 1, back: 0.5, left: 0.5, right: 0.5 },
+        clearanceLevel: "warning",
+        clearanceShareGroup: "bath",
       },
       priceRuleJson: {
         baseCents: 125000,
@@ -337,6 +365,8 @@ async function seedModuleCatalog() {
         mount: "wall",
         utilities: ["water", "waste"],
         minClearanceFt: { front: 2, back: 0.5, left: 0.5, right: 0.5 },
+        clearanceLevel: "warning",
+        clearanceShareGroup: "bath",
       },
       priceRuleJson: {
         baseCents: 85000,
@@ -353,6 +383,8 @@ async function seedModuleCatalog() {
         mount: "wall",
         utilities: ["water", "waste"],
         minClearanceFt: { front: 2, back: 0.5, left: 0.5, right: 0.5 },
+        clearanceLevel: "warning",
+        clearanceShareGroup: "bath",
       },
       priceRuleJson: {
         baseCents: 95000,
@@ -370,6 +402,8 @@ async function seedModuleCatalog() {
         mount: "floor",
         utilities: ["water", "waste"],
         minClearanceFt: { front: 2.5, back: 0.5, left: 0.5, right: 0.5 },
+        clearanceLevel: "warning",
+        clearanceShareGroup: "kitchen-aisle",
       },
       priceRuleJson: {
         baseCents: 65000,
@@ -386,6 +420,8 @@ async function seedModuleCatalog() {
         mount: "floor",
         utilities: ["power"],
         minClearanceFt: { front: 2, back: 0.5, left: 0.5, right: 0.5 },
+        clearanceLevel: "warning",
+        clearanceShareGroup: "kitchen-aisle",
       },
       priceRuleJson: {
         baseCents: 125000,
@@ -402,6 +438,8 @@ async function seedModuleCatalog() {
         mount: "floor",
         utilities: ["power", "vent"],
         minClearanceFt: { front: 2.5, back: 0.5, left: 0.5, right: 0.5 },
+        clearanceLevel: "error",
+        clearanceShareGroup: "kitchen-aisle",
       },
       priceRuleJson: {
         baseCents: 95000,
@@ -417,6 +455,8 @@ async function seedModuleCatalog() {
         footprintAnchor: "front-left",
         mount: "floor",
         minClearanceFt: { front: 2.5, back: 0.5, left: 0.5, right: 0.5 },
+        clearanceLevel: "warning",
+        clearanceShareGroup: "kitchen-aisle",
       },
       priceRuleJson: {
         baseCents: 45000,
@@ -433,6 +473,8 @@ async function seedModuleCatalog() {
         footprintAnchor: "front-left",
         mount: "floor",
         minClearanceFt: { front: 2.5, back: 0.5, left: 0.5, right: 0.5 },
+        clearanceLevel: "warning",
+        clearanceShareGroup: "kitchen-aisle",
       },
       priceRuleJson: {
         baseCents: 55000,
@@ -618,6 +660,8 @@ async function seedModuleCatalog() {
         mount: "floor",
         utilities: ["water", "waste", "power"],
         minClearanceFt: { front: 2.5, back: 0.5, left: 0.5, right: 0.5 },
+        clearanceLevel: "warning",
+        clearanceShareGroup: "kitchen-aisle",
       },
       priceRuleJson: {
         baseCents: 75000,
@@ -634,6 +678,8 @@ async function seedModuleCatalog() {
         mount: "floor",
         utilities: ["water", "waste", "power"],
         minClearanceFt: { front: 2, back: 1, left: 0.5, right: 0.5 },
+        clearanceLevel: "warning",
+        clearanceShareGroup: "laundry",
       },
       priceRuleJson: {
         baseCents: 95000,
@@ -650,6 +696,8 @@ async function seedModuleCatalog() {
         mount: "floor",
         utilities: ["power", "vent"],
         minClearanceFt: { front: 2, back: 1, left: 0.5, right: 0.5 },
+        clearanceLevel: "warning",
+        clearanceShareGroup: "laundry",
       },
       priceRuleJson: {
         baseCents: 85000,
@@ -666,6 +714,8 @@ async function seedModuleCatalog() {
         mount: "floor",
         utilities: ["water", "waste"],
         minClearanceFt: { front: 2, back: 0.5, left: 0.5, right: 0.5 },
+        clearanceLevel: "warning",
+        clearanceShareGroup: "bath",
       },
       priceRuleJson: {
         baseCents: 145000,
@@ -682,6 +732,7 @@ async function seedModuleCatalog() {
         footprintAnchor: "center",
         mount: "wall",
         minClearanceFt: { front: 0, back: 0, left: 1, right: 1 },
+        opening: { widthFt: 2, heightFt: 3, sillFt: 3.5 },  // Width x height x sill height (ft)
       },
       priceRuleJson: {
         baseCents: 50000, // $350 window + $150 framing = $500
@@ -697,6 +748,7 @@ async function seedModuleCatalog() {
         footprintAnchor: "center",
         mount: "wall",
         minClearanceFt: { front: 0, back: 0, left: 1, right: 1 },
+        opening: { widthFt: 3, heightFt: 4, sillFt: 3 },  // Width x height x sill height (ft)
       },
       priceRuleJson: {
         baseCents: 60000, // $450 window + $150 framing = $600
@@ -775,6 +827,8 @@ async function seedModuleCatalog() {
         mount: "wall",
         utilities: ["water", "waste"],
         minClearanceFt: { front: 2.5, back: 0.5, left: 0.5, right: 0.5 },
+        clearanceLevel: "warning",
+        clearanceShareGroup: "bath",
       },
       priceRuleJson: {
         baseCents: 185000,
@@ -840,6 +894,37 @@ async function seedModuleCatalog() {
         baseCents: 95000,
       },
     },
+    // Life-safety and ventilation (checked by the residential code rules)
+    {
+      key: "fixture-exhaust-fan",
+      name: "Bath Exhaust Fan",
+      category: "fixture-bath",
+      schemaJson: {
+        type: "fixture",
+        footprintFt: { length: 1, width: 1 },
+        footprintAnchor: "center",
+        mount: "wall",
+        utilities: ["power", "vent"],
+      },
+      priceRuleJson: {
+        baseCents: 22000,
+      },
+    },
+    {
+      key: "fixture-smoke-alarm",
+      name: "Smoke Alarm",
+      category: "interior",
+      schemaJson: {
+        type: "fixture",
+        footprintFt: { length: 0.5, width: 0.5 },
+        footprintAnchor: "center",
+        mount: "wall",
+        utilities: ["power"],
+      },
+      priceRuleJson: {
+        baseCents: 6500,
+      },
+    },
   ];
 
   for (const module of modules) {
@@ -856,11 +941,26 @@ async function seedModuleCatalog() {
   }
 }
 
+async function seedPriceBook() {
+  // Versions are edited from the admin; only create the first one, never overwrite it
+  await prisma.priceBook.upsert({
+    where: { version: DEFAULT_PRICE_BOOK.version },
+    update: {},
+    create: {
+      version: DEFAULT_PRICE_BOOK.version,
+      name: DEFAULT_PRICE_BOOK.name,
+      effectiveAt: new Date(DEFAULT_PRICE_BOOK.effectiveAt),
+      pricesJson: getPriceTables(DEFAULT_PRICE_BOOK),
+    },
+  });
+}
+
 async function main() {
   await seedModels();
   await seedAdmin();
   await seedModuleCatalog();
-  console.log("Database seeded with demo models, admin user, and module catalog.");
+  await seedPriceBook();
+  console.log("Database seeded with demo models, admin user, module catalog, and price book.");
 }
 
 main()
@@ -8,7 +8,7 @@ export const metadata: Metadata = {
 };
 
 type ThankYouPageProps = {
-  searchParams?: { type?: string };
+  searchParams: Promise<{ type?: string; quote?: string }>;
 };
 
 const messages: Record<string, { title: string; description: string }> = {
@@ -32,13 +32,22 @@ const messages: Record<string, { title: string; description: string }> = {
   },
 };
 
-export default function ThankYouPage({ searchParams }: ThankYouPageProps) {
-  const type = searchParams?.type ?? "lead";
+export default async function ThankYouPage({ searchParams }: ThankYouPageProps) {
+  const params = await searchParams;
+  const type = params.type ?? "lead";
   const message = messages[type] ?? messages.lead;
 
   return (
     <PageContainer className="flex min-h-[60vh] flex-col items-center justify-center gap-6 text-center">
       <SectionTitle eyebrow="Thank You" title={message.title} subtitle={message.description} align="center" />
+      {type === "quote" && params.quote && (
+        <Link
+          href={`/design?quote=${encodeURIComponent(params.quote)}`}
+          className="rounded-full bg-forest px-5 py-2.5 text-sm font-semibold text-white hover:bg-forest/90"
+        >
+          Start a design with your site details
+        </Link>
+      )}
       <Link href="/" className="text-sm font-semibold text-forest hover:text-forest/80">
         Back to home →
       </Link>
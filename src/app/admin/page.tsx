@@ -1,12 +1,24 @@
 import Link from "next/link";
 import type { Metadata } from "next";
 import type { ReactNode } from "react";
+import { AdminDiscountForm } from "@/components/AdminDiscountForm";
+import { AdminDiscountToggle } from "@/components/AdminDiscountToggle";
 import { AdminLoginForm } from "@/components/AdminLoginForm";
 import { AdminLogoutButton } from "@/components/AdminLogoutButton";
+import { AdminOpeningForm } from "@/components/AdminOpeningForm";
+import { AdminPriceBookForm } from "@/components/AdminPriceBookForm";
+import { AdminRequoteButton } from "@/components/AdminRequoteButton";
 import { AdminTable } from "@/components/AdminTable";
 import { PageContainer } from "@/components/layout/PageContainer";
 import { SectionTitle } from "@/components/ui/SectionTitle";
 import { formatCurrencyCents, formatDateTime } from "@/lib/format";
+import { entriesToCatalogMap } from "@/lib/design/catalog-utils";
+import { formatDiscountValue } from "@/lib/design/discounts";
+import { discountFromRow } from "@/lib/design/discount-store";
+import { OPENING_KIND_LABELS, formatInches, getOpeningKind, getOpeningSpec } from "@/lib/design/openings";
+import { DEFAULT_PRICE_BOOK, getPriceTables, priceBookFromRow } from "@/lib/design/price-book";
+import { diffQuotes, isQuoteExpired, type QuoteSnapshot } from "@/lib/design/quote";
+import { getQuoteSnapshots } from "@/lib/design/quote-store";
 import prisma from "@/lib/db";
 import { getAdminSession } from "@/lib/auth";
 
@@ -21,6 +33,7 @@ type AdminPageSearchParams = {
   consultModel?: string;
   reservationStatus?: string;
   designStatus?: string;
+  submission?: string;
 };
 
 const VIEWS = [
@@ -29,6 +42,9 @@ const VIEWS = [
   { key: "consultations", label: "Consultations" },
   { key: "reservations", label: "Reservations" },
   { key: "designs", label: "Custom Designs" },
+  { key: "openings", label: "Windows & Doors" },
+  { key: "pricing", label: "Price Book" },
+  { key: "discounts", label: "Discounts" },
 ] as const;
 
 type ViewKey = (typeof VIEWS)[number]["key"];
@@ -73,13 +89,17 @@ export default async function AdminPage({ searchParams }: { searchParams?: Admin
   const consultModelFilter = searchParams?.consultModel ?? "all";
   const reservationStatusFilter = searchParams?.reservationStatus ?? "all";
   const designStatusFilter = searchParams?.designStatus ?? "all";
+  const selectedSubmissionId = searchParams?.submission;
 
-  const [leadCount, quoteCount, consultationCount, reservationCount, designSubmissionCount, models] = await Promise.all([
+  const [leadCount, quoteCount, consultationCount, reservationCount, designSubmissionCount, openingCount, priceBookCount, discountCount, models] = await Promise.all([
     prisma.lead.count(),
     prisma.quoteRequest.count(),
     prisma.consultationRequest.count(),
     prisma.reservation.count(),
     prisma.designSubmission.count(),
+    prisma.moduleCatalog.count({ where: { category: "opening" } }),
+    prisma.priceBook.count(),
+    prisma.discount.count(),
     prisma.model.findMany({ select: { slug: true, name: true } }),
   ]);
 
@@ -203,12 +223,26 @@ export default async function AdminPage({ searchParams }: { searchParams?: Admin
               header: "Water",
               render: (quote) => quote.waterPreference ?? "—",
             },
+            {
+              key: "septicSituation",
+              header: "Septic",
+              render: (quote) => quote.septicSituation ?? "—",
+            },
             {
               key: "message",
               header: "Notes",
               render: (quote) =>
                 quote.message ? <span className="block max-w-xs text-sm text-foreground/80">{quote.message}</span> : "—",
             },
+            {
+              key: "id",
+              header: "Design",
+              render: (quote) => (
+                <Link href={`/design?quote=${quote.id}`} className="text-sm font-semibold text-forest hover:text-forest/80">
+                  Start design →
+                </Link>
+              ),
+            },
           ]}
           data={quotes}
           emptyMessage="No quote requests yet."
@@ -344,10 +378,17 @@ export default async function AdminPage({ searchParams }: { searchParams?: Admin
             user: { select: { email: true } },
           },
         },
+        quotes: {
+          select: { grandTotalCents: true, priceBookVersion: true, expiresAt: true },
+          orderBy: { createdAt: "desc" },
+          take: 1,
+        },
       },
       orderBy: { createdAt: "desc" },
       take: 200,
     });
+    const selectedSubmission = submissions.find((submission) => submission.id === selectedSubmissionId);
+    const selectedQuotes = selectedSubmission ? await getQuoteSnapshots(selectedSubmission.id) : [];
 
     content = (
       <div className="space-y-4">
@@ -357,6 +398,14 @@ export default async function AdminPage({ searchParams }: { searchParams?: Admin
           active={designStatusFilter}
           getHref={(value) => adminUrl({ view: "designs", designStatus: value })}
         />
+        {selectedSubmission && (
+          <QuoteHistory
+            submissionId={selectedSubmission.id}
+            designName={selectedSubmission.design?.name ?? "Untitled design"}
+            quotes={selectedQuotes}
+            closeHref={adminUrl({ view: "designs", designStatus: designStatusFilter })}
+          />
+        )}
         <AdminTable
           columns={[
             {
@@ -384,6 +433,30 @@ export default async function AdminPage({ searchParams }: { searchParams?: Admin
               header: "Estimate",
               render: (submission) => formatCurrencyCents(submission.design?.priceCents ?? 0),
             },
+            {
+              key: "quote",
+              header: "Quote",
+              render: (submission) => {
+                const [quote] = submission.quotes;
+                const href = adminUrl({ view: "designs", designStatus: designStatusFilter, submission: submission.id });
+                if (!quote) {
+                  return (
+                    <Link href={href} className="text-sm font-semibold text-forest hover:underline">
+                      Not quoted
+                    </Link>
+                  );
+                }
+                const expired = quote.expiresAt <= new Date();
+                return (
+                  <Link href={href} className="block hover:underline">
+                    <span className="font-semibold text-forest">{formatCurrencyCents(quote.grandTotalCents)}</span>
+                    <span className={`block text-xs ${expired ? "text-red-600" : "text-foreground/60"}`}>
+                      {expired ? "Expired" : "Valid until"} {formatDateTime(quote.expiresAt)} · v{quote.priceBookVersion}
+                    </span>
+                  </Link>
+                );
+              },
+            },
             { key: "status", header: "Status" },
             {
               key: "notes",
@@ -399,12 +472,204 @@ export default async function AdminPage({ searchParams }: { searchParams?: Admin
     );
   }
 
+  if (view === "openings") {
+    const entries = await prisma.moduleCatalog.findMany({
+      where: { category: "opening" },
+      orderBy: { name: "asc" },
+    });
+    const catalog = entriesToCatalogMap(
+      entries.map((m) => ({
+        id: m.id,
+        key: m.key,
+        name: m.name,
+        category: m.category,
+        schemaJson: m.schemaJson as Record<string, unknown>,
+        priceRuleJson: m.priceRuleJson as Record<string, unknown>,
+        createdAt: m.createdAt.toISOString(),
+      }))
+    );
+    const openings = Object.values(catalog).map((item) => ({
+      ...item,
+      kind: getOpeningKind({ catalogKey: item.key }),
+      spec: getOpeningSpec(item),
+    }));
+
+    content = (
+      <div className="space-y-4">
+        <AdminOpeningForm />
+        <AdminTable
+          columns={[
+            { key: "label", header: "Name" },
+            {
+              key: "kind",
+              header: "Type",
+              render: (opening) => (opening.kind ? OPENING_KIND_LABELS[opening.kind] : "—"),
+            },
+            {
+              key: "spec",
+              header: "Size (W × H)",
+              render: (opening) => `${formatInches(opening.spec.widthFt)} × ${formatInches(opening.spec.heightFt)}`,
+            },
+            {
+              key: "sill",
+              header: "Sill",
+              render: (opening) => (opening.kind === "window" ? formatInches(opening.spec.sillFt) : "—"),
+            },
+            {
+              key: "priceRule",
+              header: "Price",
+              render: (opening) => formatCurrencyCents(opening.priceRule.baseCents),
+            },
+            { key: "key", header: "Key" },
+          ]}
+          data={openings}
+          emptyMessage="No windows or doors in the catalog yet."
+        />
+      </div>
+    );
+  }
+
+  if (view === "pricing") {
+    const [rows, pricedDesigns] = await Promise.all([
+      prisma.priceBook.findMany({ orderBy: { version: "desc" } }),
+      prisma.design.groupBy({ by: ["priceBookVersion"], _count: { _all: true } }),
+    ]);
+    const designCounts = new Map<number | null, number>(
+      pricedDesigns.map((group) => [group.priceBookVersion, group._count._all])
+    );
+    const now = new Date();
+    // Newest effective date that has passed wins; ties go to the later version
+    const active = rows
+      .filter((row) => row.effectiveAt <= now)
+      .sort((a, b) => b.effectiveAt.getTime() - a.effectiveAt.getTime() || b.version - a.version)[0];
+    const versions = rows.map((row) => ({
+      ...row,
+      status: row === active ? "Active" : row.effectiveAt > now ? "Scheduled" : "Superseded",
+      designCount: designCounts.get(row.version) ?? 0,
+    }));
+    const latest = rows[0] ? priceBookFromRow(rows[0]) : DEFAULT_PRICE_BOOK;
+
+    content = (
+      <div className="space-y-4">
+        <AdminTable
+          columns={[
+            { key: "version", header: "Version", render: (book) => `v${book.version}` },
+            { key: "name", header: "Name" },
+            { key: "effectiveAt", header: "Effective", render: (book) => formatDateTime(book.effectiveAt) },
+            {
+              key: "status",
+              header: "Status",
+              render: (book) => (
+                <span
+                  className={`rounded-full px-2 py-0.5 text-xs font-semibold ${
+                    book.status === "Active"
+                      ? "bg-forest/10 text-forest"
+                      : book.status === "Scheduled"
+                        ? "bg-amber-100 text-amber-800"
+                        : "bg-surface-muted text-foreground/60"
+                  }`}
+                >
+                  {book.status}
+                </span>
+              ),
+            },
+            { key: "designCount", header: "Designs priced" },
+            {
+              key: "notes",
+              header: "Notes",
+              render: (book) =>
+                book.notes ? <span className="block max-w-xs text-sm text-foreground/80">{book.notes}</span> : "—",
+            },
+          ]}
+          data={versions}
+          emptyMessage="No price books saved yet. Estimates use the built-in prices until one is."
+        />
+        <AdminPriceBookForm initialPrices={getPriceTables(latest)} />
+      </div>
+    );
+  }
+
+  if (view === "discounts") {
+    const rows = await prisma.discount.findMany({ orderBy: { createdAt: "desc" } });
+    const now = new Date();
+    const discounts = rows.map((row) => ({
+      ...discountFromRow(row),
+      active: row.active,
+      startsAt: row.startsAt,
+      endsAt: row.endsAt,
+      status: !row.active
+        ? "Disabled"
+        : row.startsAt && row.startsAt > now
+          ? "Scheduled"
+          : row.endsAt && row.endsAt <= now
+            ? "Ended"
+            : "Running",
+    }));
+
+    content = (
+      <div className="space-y-4">
+        <AdminTable
+          columns={[
+            { key: "label", header: "Label" },
+            {
+              key: "code",
+              header: "Promo code",
+              render: (discount) =>
+                discount.code ? (
+                  <span className="font-mono text-sm">{discount.code}</span>
+                ) : (
+                  <span className="text-sm text-foreground/60">All quotes</span>
+                ),
+            },
+            { key: "value", header: "Discount", render: (discount) => formatDiscountValue(discount) },
+            {
+              key: "startsAt",
+              header: "Runs",
+              render: (discount) =>
+                `${discount.startsAt ? formatDateTime(discount.startsAt) : "Now"} – ${
+                  discount.endsAt ? formatDateTime(discount.endsAt) : "No end"
+                }`,
+            },
+            {
+              key: "status",
+              header: "Status",
+              render: (discount) => (
+                <span
+                  className={`rounded-full px-2 py-0.5 text-xs font-semibold ${
+                    discount.status === "Running"
+                      ? "bg-forest/10 text-forest"
+                      : discount.status === "Scheduled"
+                        ? "bg-amber-100 text-amber-800"
+                        : "bg-surface-muted text-foreground/60"
+                  }`}
+                >
+                  {discount.status}
+                </span>
+              ),
+            },
+            {
+              key: "active",
+              header: "Actions",
+              render: (discount) => <AdminDiscountToggle discountId={discount.id} active={discount.active} />,
+            },
+          ]}
+          data={discounts}
+          emptyMessage="No discounts yet."
+        />
+        <AdminDiscountForm />
+      </div>
+    );
+  }
+
   const counts: Record<ViewKey, number> = {
     leads: leadCount,
     quotes: quoteCount,
     consultations: consultationCount,
     reservations: reservationCount,
     designs: designSubmissionCount,
+    openings: openingCount,
+    pricing: priceBookCount,
+    discounts: discountCount,
   };
 
   return (
@@ -447,6 +712,90 @@ export default async function AdminPage({ searchParams }: { searchParams?: Admin
   );
 }
 
+function QuoteHistory({
+  submissionId,
+  designName,
+  quotes,
+  closeHref,
+}: {
+  submissionId: string;
+  designName: string;
+  quotes: QuoteSnapshot[];
+  closeHref: string;
+}): ReactNode {
+  const [latest, previous] = quotes;
+  const diff = latest && previous ? diffQuotes(previous.bom, latest.bom) : [];
+  const formatDelta = (cents: number) =>
+    cents === 0 ? "—" : `${cents > 0 ? "+" : "−"}${formatCurrencyCents(Math.abs(cents))}`;
+
+  return (
+    <div className="space-y-4 rounded-2xl border border-surface-muted/60 bg-white p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Quotes for {designName}</h3>
+          <p className="text-sm text-foreground/60">
+            Each quote is frozen when it is made. Re-quoting prices the same design with the active price book.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <AdminRequoteButton submissionId={submissionId} />
+          <Link href={closeHref} className="text-sm font-semibold text-foreground/60 hover:text-foreground">
+            Close
+          </Link>
+        </div>
+      </div>
+
+      <AdminTable
+        columns={[
+          { key: "createdAt", header: "Quoted", render: (quote) => formatDateTime(new Date(quote.createdAt)) },
+          { key: "requestedBy", header: "By" },
+          { key: "priceBookVersion", header: "Price book", render: (quote) => `v${quote.priceBookVersion}` },
+          { key: "catalogVersion", header: "Catalog" },
+          { key: "grandTotalCents", header: "Total", render: (quote) => formatCurrencyCents(quote.grandTotalCents) },
+          {
+            key: "expiresAt",
+            header: "Expires",
+            render: (quote) => (
+              <span className={isQuoteExpired(quote) ? "text-red-600" : undefined}>
+                {formatDateTime(new Date(quote.expiresAt))}
+              </span>
+            ),
+          },
+        ]}
+        data={quotes}
+        emptyMessage="No quote on file. Re-quote to price this submission."
+      />
+
+      {diff.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-foreground">Latest vs previous quote</h4>
+          <AdminTable
+            columns={[
+              { key: "label", header: "Line" },
+              { key: "previousCents", header: "Previous", render: (line) => formatCurrencyCents(line.previousCents) },
+              { key: "nextCents", header: "Latest", render: (line) => formatCurrencyCents(line.nextCents) },
+              {
+                key: "deltaCents",
+                header: "Change",
+                render: (line) => (
+                  <span
+                    className={
+                      line.deltaCents > 0 ? "text-red-600" : line.deltaCents < 0 ? "text-forest" : "text-foreground/50"
+                    }
+                  >
+                    {formatDelta(line.deltaCents)}
+                  </span>
+                ),
+              },
+            ]}
+            data={diff}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
 function FilterPills({
   label,
   options,
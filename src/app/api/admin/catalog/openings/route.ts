@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { getAdminSession } from "@/lib/auth";
+import { openingCatalogSchema, type OpeningCatalogInput } from "@/lib/validation";
+
+export const dynamic = "force-dynamic";
+
+// Clearances match the seeded windows and doors
+const CLEARANCES: Record<OpeningCatalogInput["kind"], Record<string, unknown>> = {
+  window: { minClearanceFt: { front: 0, back: 0, left: 1, right: 1 } },
+  "exterior-door": { minClearanceFt: { front: 3, back: 2, left: 0, right: 0 }, clearanceLevel: "error" },
+  "interior-door": { minClearanceFt: { front: 2, back: 2, left: 0, right: 0 }, clearanceLevel: "error" },
+};
+
+// Adds a window or door size to the catalog, or updates the one already saved
+// at that size. The key carries the kind and size so BOM and rendering pick it
+// up like the seeded entries.
+export async function POST(request: Request) {
+  const session = await getAdminSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const json = await request.json();
+    const parsed = openingCatalogSchema.safeParse(json);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid opening", details: parsed.error.flatten() },
+        { status: 400 },
+      );
+    }
+
+    const { kind, name, widthIn, heightIn, sillIn, priceDollars, uFactor } = parsed.data;
+    const key = `fixture-${kind}-${widthIn}x${heightIn}`;
+    const schemaJson = {
+      type: "fixture",
+      footprintFt: { length: widthIn / 12, width: 0.5 },
+      footprintAnchor: "center",
+      mount: kind === "window" ? "wall" : "floor",
+      ...CLEARANCES[kind],
+      opening: { widthFt: widthIn / 12, heightFt: heightIn / 12, sillFt: sillIn / 12, uFactor },
+    };
+    const priceRuleJson = { baseCents: Math.round(priceDollars * 100) };
+
+    const entry = await prisma.moduleCatalog.upsert({
+      where: { key },
+      update: { name, schemaJson, priceRuleJson },
+      create: { key, name, category: "opening", schemaJson, priceRuleJson },
+    });
+
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error("Error saving catalog opening", error);
+    return NextResponse.json({ error: "Failed to save opening" }, { status: 500 });
+  }
+}
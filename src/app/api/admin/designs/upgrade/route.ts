@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { getAdminSession } from "@/lib/auth";
+import { upgradeStoredDesigns } from "@/lib/design/design-upgrade";
+
+export const dynamic = "force-dynamic";
+
+// Upgrades every stored design to the current schema version.
+// Pass ?dryRun=1 to see what would change without writing.
+export async function POST(request: Request) {
+  const session = await getAdminSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const dryRun = searchParams.get("dryRun") === "1";
+
+  try {
+    const report = await upgradeStoredDesigns({ dryRun });
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error("Error upgrading designs", error);
+    return NextResponse.json({ error: "Failed to upgrade designs" }, { status: 500 });
+  }
+}
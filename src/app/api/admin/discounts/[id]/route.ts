@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { getAdminSession } from "@/lib/auth";
+import { discountUpdateSchema } from "@/lib/validation";
+
+export const dynamic = "force-dynamic";
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+// Turns a discount on or off. Quotes already taken keep the discount they got.
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const session = await getAdminSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const json = await request.json();
+    const parsed = discountUpdateSchema.safeParse(json);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid discount update", details: parsed.error.flatten() },
+        { status: 400 },
+      );
+    }
+
+    const existing = await prisma.discount.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: "Discount not found" }, { status: 404 });
+    }
+
+    const discount = await prisma.discount.update({
+      where: { id },
+      data: { active: parsed.data.active },
+    });
+
+    return NextResponse.json({ discount });
+  } catch (error) {
+    console.error("Error updating discount", error);
+    return NextResponse.json({ error: "Failed to update discount" }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { getAdminSession } from "@/lib/auth";
+import { normalizePromoCode } from "@/lib/design/discounts";
+import { discountSchema } from "@/lib/validation";
+
+export const dynamic = "force-dynamic";
+
+// Creates a discount. Fixed amounts arrive in dollars and are stored in cents;
+// promo codes are stored upper-case so lookups ignore case.
+export async function POST(request: Request) {
+  const session = await getAdminSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const json = await request.json();
+    const parsed = discountSchema.safeParse(json);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid discount", details: parsed.error.flatten() },
+        { status: 400 },
+      );
+    }
+
+    const { label, code, kind, value, startsAt, endsAt } = parsed.data;
+    const promoCode = code ? normalizePromoCode(code) : null;
+
+    if (promoCode && (await prisma.discount.findUnique({ where: { code: promoCode } }))) {
+      return NextResponse.json({ error: `Promo code ${promoCode} already exists` }, { status: 409 });
+    }
+
+    const discount = await prisma.discount.create({
+      data: {
+        label,
+        code: promoCode,
+        kind,
+        value: kind === "fixed" ? Math.round(value * 100) : value,
+        startsAt: startsAt ? new Date(startsAt) : null,
+        endsAt: endsAt ? new Date(endsAt) : null,
+      },
+    });
+
+    return NextResponse.json({ discount }, { status: 201 });
+  } catch (error) {
+    console.error("Error saving discount", error);
+    return NextResponse.json({ error: "Failed to save discount" }, { status: 500 });
+  }
+}
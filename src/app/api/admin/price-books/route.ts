@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { getAdminSession } from "@/lib/auth";
+import { priceBookSchema } from "@/lib/validation";
+
+export const dynamic = "force-dynamic";
+
+// Saves a new price book version. Earlier versions stay as they are so saved
+// designs can still be re-priced with the book that produced their price.
+export async function POST(request: Request) {
+  const session = await getAdminSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const json = await request.json();
+    const parsed = priceBookSchema.safeParse(json);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid price book", details: parsed.error.flatten() },
+        { status: 400 },
+      );
+    }
+
+    const { name, notes, effectiveAt, prices } = parsed.data;
+    const latest = await prisma.priceBook.findFirst({
+      select: { version: true },
+      orderBy: { version: "desc" },
+    });
+
+    const priceBook = await prisma.priceBook.create({
+      data: {
+        version: (latest?.version ?? 0) + 1,
+        name,
+        notes: notes ?? null,
+        effectiveAt: effectiveAt ? new Date(effectiveAt) : new Date(),
+        pricesJson: prices,
+      },
+    });
+
+    return NextResponse.json({ priceBook }, { status: 201 });
+  } catch (error) {
+    console.error("Error saving price book", error);
+    return NextResponse.json({ error: "Failed to save price book" }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { getAdminSession } from "@/lib/auth";
+import { getApplicableDiscounts } from "@/lib/design/discount-store";
+import { migrateDesign } from "@/lib/design/migrations";
+import { getActivePriceBook } from "@/lib/design/price-book-store";
+import { diffQuotes } from "@/lib/design/quote";
+import { createQuoteSnapshot, getQuoteSnapshots } from "@/lib/design/quote-store";
+import type { BOMSelections } from "@/types/bom";
+import { DEFAULT_BOM_SELECTIONS } from "@/types/bom";
+
+export const dynamic = "force-dynamic";
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+// Re-quotes a submission at today's prices: the design and selections as last
+// quoted, the current catalog, the active price book and the discounts running
+// today. The previous snapshot is kept; the response carries the new one and
+// the diff against it.
+export async function POST(_: Request, { params }: RouteParams) {
+  const session = await getAdminSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const submission = await prisma.designSubmission.findUnique({ where: { id }, include: { design: true } });
+  if (!submission) {
+    return NextResponse.json({ error: "Submission not found" }, { status: 404 });
+  }
+
+  try {
+    const [previous] = await getQuoteSnapshots(submission.id);
+
+    // Submissions from before snapshots existed are quoted from the saved
+    // design. Either way the config is upgraded from older schema versions.
+    const fromSnapshot = Boolean(previous?.design && previous.selections);
+    const migration = migrateDesign(
+      fromSnapshot ? previous.design : submission.design.configJson,
+      submission.design.shellLengthFt
+    );
+    if (!migration.ok) {
+      return NextResponse.json(
+        { error: "Stored design failed validation", details: { message: migration.error, issues: migration.issues } },
+        { status: 422 }
+      );
+    }
+    const design = migration.design;
+    const selections: Partial<BOMSelections> | null = fromSnapshot
+      ? previous.selections
+      : (submission.design.bomSelectionsJson as Partial<BOMSelections> | null);
+    // Selections saved before a field existed get its default (as in the studio)
+    const quoteSelections: BOMSelections = { ...DEFAULT_BOM_SELECTIONS, ...selections };
+
+    const { quote } = await createQuoteSnapshot({
+      submissionId: submission.id,
+      design,
+      selections: quoteSelections,
+      priceBook: await getActivePriceBook(),
+      discounts: await getApplicableDiscounts(quoteSelections.promoCode),
+      requestedBy: session.email,
+    });
+
+    return NextResponse.json(
+      { quote, diff: previous ? diffQuotes(previous.bom, quote.bom) : null },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error re-quoting submission", error);
+    return NextResponse.json({ error: "Failed to re-quote submission" }, { status: 500 });
+  }
+}
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import prisma from "@/lib/db";
 import { getUserSession } from "@/lib/user-auth";
 import { designSaveSchema, designUpdateSchema } from "@/lib/validation";
+import { migrateDesign } from "@/lib/design/migrations";
 
 export const dynamic = "force-dynamic";
 
@@ -29,7 +30,15 @@ export async function GET(_: Request, { params }: RouteParams) {
     return NextResponse.json({ error: "Design not found" }, { status: 404 });
   }
 
-  return NextResponse.json({ design });
+  const migration = migrateDesign(design.configJson, design.shellLengthFt);
+  if (!migration.ok) {
+    return NextResponse.json(
+      { error: "Stored design failed validation", details: { message: migration.error, issues: migration.issues } },
+      { status: 422 }
+    );
+  }
+
+  return NextResponse.json({ design: { ...design, configJson: migration.design } });
 }
 
 export async function PATCH(request: Request, { params }: RouteParams) {
@@ -55,19 +64,29 @@ export async function PATCH(request: Request, { params }: RouteParams) {
     const updateData: Record<string, unknown> = {};
     if (typeof data.name === "string") updateData.name = data.name;
     if (typeof data.shellLengthFt === "number") updateData.shellLengthFt = data.shellLengthFt;
-    if (data.config !== undefined) updateData.configJson = data.config;
-    if (data.configJson !== undefined) updateData.configJson = data.configJson;
+    const configData = data.configJson !== undefined ? data.configJson : data.config;
+    if (configData !== undefined) {
+      const migration = migrateDesign(configData, data.shellLengthFt ?? existing.shellLengthFt);
+      if (!migration.ok) {
+        return NextResponse.json(
+          { error: "Invalid design config", details: { message: migration.error, issues: migration.issues } },
+          { status: 400 }
+        );
+      }
+      updateData.configJson = migration.design;
+      // Extract shellLengthFt from DesignConfig if configJson is provided and shellLengthFt is not
+      if (data.configJson !== undefined && !updateData.shellLengthFt) {
+        updateData.shellLengthFt = migration.design.shell.lengthFt;
+      }
+    }
     if (data.bomSelectionsJson !== undefined) updateData.bomSelectionsJson = data.bomSelectionsJson ?? null;
-    if (typeof data.priceCents === "number") updateData.priceCents = data.priceCents;
+    if (typeof data.priceCents === "number") {
+      // A new price replaces the version it was priced with
+      updateData.priceCents = data.priceCents;
+      updateData.priceBookVersion = data.priceBookVersion ?? null;
+    }
     if (data.previewImageUrl !== undefined) updateData.previewImageUrl = data.previewImageUrl ?? null;
     
-    // Extract shellLengthFt from DesignConfig if configJson is provided and shellLengthFt is not
-    if (data.configJson && typeof data.configJson === "object" && data.configJson !== null) {
-      const config = data.configJson as { shell?: { lengthFt?: number } };
-      if (config.shell?.lengthFt && !updateData.shellLengthFt) {
-        updateData.shellLengthFt = config.shell.lengthFt;
-      }
-    }
 
     const design = await prisma.design.update({
       where: { id: existing.id },
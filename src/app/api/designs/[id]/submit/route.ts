@@ -2,12 +2,16 @@ import { NextResponse } from "next/server";
 import prisma from "@/lib/db";
 import { getUserSession } from "@/lib/user-auth";
 import { sendEmail, getInternalRecipient, type EmailAttachment } from "@/lib/email";
-import { formatCurrencyCents } from "@/lib/format";
-import { calculateBOM } from "@/lib/design/bom-calculator";
+import { formatCurrencyCents, formatDateTime } from "@/lib/format";
 import { generatePDFBuffer } from "@/lib/design/pdf-export-server";
 import { generateExcelBuffer } from "@/lib/design/excel-export-server";
 import type { DesignConfig } from "@/types/design";
-import { entriesToCatalogMap } from "@/lib/design/catalog-utils";
+import { getApplicableDiscounts } from "@/lib/design/discount-store";
+import { migrateDesign } from "@/lib/design/migrations";
+import { getPanelSchedule } from "@/lib/design/panel-schedule";
+import { getPriceBookVersion } from "@/lib/design/price-book-store";
+import { createQuoteSnapshot } from "@/lib/design/quote-store";
+import { applyWasteSystem } from "@/lib/design/utility-packages";
 import type { BOMSelections } from "@/types/bom";
 import { DEFAULT_BOM_SELECTIONS } from "@/types/bom";
 
@@ -32,35 +36,46 @@ export async function POST(request: Request, { params }: RouteParams) {
   const payload = await request.json().catch(() => ({}));
   const notes = typeof payload?.notes === "string" ? payload.notes.slice(0, 2000) : null;
 
-  try {
-    const submission = await prisma.designSubmission.create({
-      data: {
-        designId: design.id,
-        status: "pending",
-        notes,
-      },
-    });
-
-    // Load module catalog for BOM calculation
-    const moduleCatalog = await prisma.moduleCatalog.findMany();
-    const catalog = entriesToCatalogMap(
-      moduleCatalog.map((m) => ({
-        id: m.id,
-        key: m.key,
-        name: m.name,
-        category: m.category,
-        schemaJson: m.schemaJson as Record<string, unknown>,
-        priceRuleJson: m.priceRuleJson as Record<string, unknown>,
-        createdAt: m.createdAt.toISOString(),
-      }))
+  const migration = migrateDesign(design.configJson, design.shellLengthFt);
+  if (!migration.ok) {
+    return NextResponse.json(
+      { error: "Stored design failed validation", details: { message: migration.error, issues: migration.issues } },
+      { status: 422 }
     );
+  }
 
-    // Get BOM selections from design or use defaults
-    const bomSelections: BOMSelections = (design.bomSelectionsJson as BOMSelections) ?? DEFAULT_BOM_SELECTIONS;
-    const designConfig = design.configJson as DesignConfig;
-
-    // Calculate BOM for accurate pricing
-    const bom = calculateBOM(designConfig, catalog, bomSelections);
+  try {
+    // Designs saved before a selection existed get its default (as in the studio)
+    const bomSelections: BOMSelections = {
+      ...DEFAULT_BOM_SELECTIONS,
+      ...(design.bomSelectionsJson as Partial<BOMSelections> | null),
+    };
+    const designConfig: DesignConfig = migration.design;
+
+    // Lock the price the customer saw: quote with the price book it came from
+    const priceBook = await getPriceBookVersion(design.priceBookVersion);
+    const discounts = await getApplicableDiscounts(bomSelections.promoCode);
+    // The submission and its first quote are stored together, or not at all
+    const { submission, quote, catalog } = await prisma.$transaction(async (tx) => {
+      const submission = await tx.designSubmission.create({
+        data: {
+          designId: design.id,
+          status: "pending",
+          notes,
+        },
+      });
+      const snapshot = await createQuoteSnapshot({
+        submissionId: submission.id,
+        design: designConfig,
+        selections: bomSelections,
+        priceBook,
+        discounts,
+        requestedBy: "customer",
+        db: tx,
+      });
+      return { submission, ...snapshot };
+    });
+    const { bom } = quote;
 
     const internalRecipient = getInternalRecipient();
     const fixtureCount = designConfig.fixtures?.length ?? 0;
@@ -69,7 +84,10 @@ export async function POST(request: Request, { params }: RouteParams) {
       <p><strong>Design:</strong> ${design.name}</p>
       <p><strong>User:</strong> ${session.email}</p>
       <p><strong>Shell:</strong> ${design.shellLengthFt}'</p>
-      <p><strong>BOM Grand Total:</strong> ${formatCurrencyCents(bom.grandTotalCents)}</p>
+      ${bom.discountCents > 0 ? `<p><strong>Discounts:</strong> −${formatCurrencyCents(bom.discountCents)}${bomSelections.promoCode ? ` (promo ${bomSelections.promoCode})` : ""}</p>` : ""}
+      <p><strong>Sales Tax:</strong> ${formatCurrencyCents(bom.salesTax.costCents)}</p>
+      <p><strong>BOM Grand Total:</strong> ${formatCurrencyCents(bom.grandTotalCents)} (price book v${priceBook.version})</p>
+      <p><strong>Quote valid until:</strong> ${formatDateTime(new Date(quote.expiresAt))}</p>
       <p><strong>Fixtures:</strong> ${fixtureCount}</p>
       <p><strong>Labor:</strong> ${bom.labor.totalHours} hours</p>
       ${bomSelections.deliveryZip ? `<p><strong>Delivery ZIP:</strong> ${bomSelections.deliveryZip}</p>` : ""}
@@ -87,6 +105,8 @@ export async function POST(request: Request, { params }: RouteParams) {
         design: designConfig,
         catalog,
         bomSelections,
+        priceBook,
+        discounts,
       });
       attachments.push({
         filename: `${sanitizedName}_Proposal.pdf`,
@@ -101,6 +121,11 @@ export async function POST(request: Request, { params }: RouteParams) {
         designName: design.name,
         bom,
         selections: bomSelections,
+        panelSchedule: getPanelSchedule(
+          designConfig,
+          applyWasteSystem(catalog, bomSelections.wasteSystem),
+          bom.electrical.thermal.equipment
+        ),
       });
       attachments.push({
         filename: `${sanitizedName}_BOM.xlsx`,
@@ -123,6 +148,7 @@ export async function POST(request: Request, { params }: RouteParams) {
         subject: "We received your custom design",
         html: `
           <p>Thanks for submitting ${design.name}. Our fabrication team will review the layout and reply with next steps.</p>
+          <p>Your quote of ${formatCurrencyCents(bom.grandTotalCents)} is held until ${formatDateTime(new Date(quote.expiresAt))}.</p>
           <p>Reference ID: ${submission.id}</p>
         `,
       }),
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import prisma from "@/lib/db";
 import { getUserSession } from "@/lib/user-auth";
 import { designSaveSchema } from "@/lib/validation";
+import { migrateDesign } from "@/lib/design/migrations";
 
 export const dynamic = "force-dynamic";
 
@@ -24,7 +25,14 @@ export async function GET() {
     orderBy: { updatedAt: "desc" },
   });
 
-  return NextResponse.json({ designs });
+  // Hand out configs at the current schema version; rows that fail validation
+  // are returned as stored (the upgrade job reports them)
+  const upgraded = designs.map((design) => {
+    const migration = migrateDesign(design.configJson, design.shellLengthFt);
+    return migration.ok ? { ...design, configJson: migration.design } : design;
+  });
+
+  return NextResponse.json({ designs: upgraded });
 }
 
 export async function POST(request: Request) {
@@ -41,21 +49,28 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Invalid design payload", details: parsed.error.flatten() }, { status: 400 });
     }
 
-    const { name, shellLengthFt, config, configJson, bomSelectionsJson, priceCents, previewImageUrl } = parsed.data;
+    const { name, shellLengthFt, config, configJson, bomSelectionsJson, priceCents, priceBookVersion, previewImageUrl } = parsed.data;
     
     // Support both old format (config) and new format (configJson)
-    const configData = configJson ?? config;
+    const migration = migrateDesign(configJson ?? config, shellLengthFt);
+    if (!migration.ok) {
+      return NextResponse.json(
+        { error: "Invalid design config", details: { message: migration.error, issues: migration.issues } },
+        { status: 400 }
+      );
+    }
     // Extract shellLengthFt from DesignConfig if not provided directly
-    const shellLength = shellLengthFt ?? (configData as { shell?: { lengthFt?: number } })?.shell?.lengthFt ?? 40;
+    const shellLength = shellLengthFt ?? migration.design.shell.lengthFt;
     
     const design = await prisma.design.create({
       data: {
         userId: session.sub,
         name,
         shellLengthFt: shellLength,
-        configJson: configData ?? {},
+        configJson: migration.design,
         bomSelectionsJson: bomSelectionsJson ?? undefined,
         priceCents: priceCents ?? 0,
+        priceBookVersion: priceBookVersion ?? null,
         previewImageUrl: previewImageUrl ?? undefined,
       },
     });
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { findPromoCode } from "@/lib/design/discount-store";
+import { promoCodeSchema } from "@/lib/validation";
+
+export const dynamic = "force-dynamic";
+
+// Looks up a promo code the customer entered in the studio. Only running
+// codes resolve; the discount is re-checked when the design is submitted.
+export async function POST(request: Request) {
+  try {
+    const json = await request.json();
+    const parsed = promoCodeSchema.safeParse(json);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid promo code", details: parsed.error.flatten() },
+        { status: 400 },
+      );
+    }
+
+    const discount = await findPromoCode(parsed.data.code);
+    if (!discount) {
+      return NextResponse.json({ error: "That promo code isn't valid or has expired" }, { status: 404 });
+    }
+
+    return NextResponse.json({ discount });
+  } catch (error) {
+    console.error("Error checking promo code", error);
+    return NextResponse.json({ error: "Failed to check promo code" }, { status: 500 });
+  }
+}
@@ -1,17 +1,23 @@
 import { Metadata } from "next";
 import { DesignStudioWrapper } from "@/components/design/DesignStudioWrapper";
 import prisma from "@/lib/db";
+import { getAdminSession } from "@/lib/auth";
 import { getUserSession } from "@/lib/user-auth";
-import { migrateLegacyDesign } from "@/lib/design/legacy-migration";
+import { migrateDesign } from "@/lib/design/migrations";
+import { getApplicableDiscounts } from "@/lib/design/discount-store";
+import { getActivePriceBook } from "@/lib/design/price-book-store";
+import { getUtilitySelectionsFromQuote } from "@/lib/design/utility-packages";
 import type { DesignConfig } from "@/types/design";
 import type { BOMSelections } from "@/types/bom";
+import { DEFAULT_BOM_SELECTIONS } from "@/types/bom";
 
 export const metadata: Metadata = {
   title: "Design Studio",
   description: "Build a custom Ready Built container layout with modular components and visualize it instantly.",
 };
 
-type SearchParams = Promise<{ id?: string }>;
+// `quote` starts a new design from a quote request's site answers
+type SearchParams = Promise<{ id?: string; quote?: string }>;
 
 export default async function DesignPage({
   searchParams,
@@ -19,9 +25,10 @@ export default async function DesignPage({
   searchParams: SearchParams;
 }) {
   const params = await searchParams;
-  const [session, moduleCatalog] = await Promise.all([
+  const [session, moduleCatalog, priceBook] = await Promise.all([
     getUserSession(),
     prisma.moduleCatalog.findMany({ orderBy: { category: "asc" } }),
+    getActivePriceBook(),
   ]);
 
   const modules = moduleCatalog.map((module) => ({
@@ -38,17 +45,23 @@ export default async function DesignPage({
   let initialDesign: DesignConfig | null = null;
   let initialDesignName: string | null = null;
   let initialBomSelections: BOMSelections | null = null;
+  // Set when the saved design can't be opened, so the studio doesn't start a
+  // fresh one that would be saved over it
+  let loadError: string | null = null;
   if (params.id && session) {
     try {
       const design = await prisma.design.findFirst({
         where: { id: params.id, userId: session.sub },
       });
       if (design) {
-        // Migrate legacy format if needed
-        initialDesign = migrateLegacyDesign(
-          design.configJson,
-          design.shellLengthFt
-        );
+        // Upgrade older schema versions (and the legacy module list) on load
+        const migration = migrateDesign(design.configJson, design.shellLengthFt);
+        if (migration.ok) {
+          initialDesign = migration.design;
+        } else {
+          console.error("Stored design failed validation:", migration.error, migration.issues);
+          loadError = `"${design.name}" couldn't be opened: ${migration.error}.`;
+        }
         initialDesignName = design.name;
         // Load BOM selections if available
         if (design.bomSelectionsJson) {
@@ -60,6 +73,37 @@ export default async function DesignPage({
     }
   }
 
+  // New design from a quote request: its delivery ZIP and water/waste answers.
+  // Only the customer who sent it (matched by email) or an admin may load it.
+  if (!initialBomSelections && params.quote) {
+    try {
+      const admin = await getAdminSession();
+      const owner = admin
+        ? {}
+        : session
+          ? { email: { equals: session.email, mode: "insensitive" as const } }
+          : null;
+      const quote = owner
+        ? await prisma.quoteRequest.findFirst({
+            where: { id: params.quote, ...owner },
+            select: { landZip: true, waterPreference: true, septicSituation: true },
+          })
+        : null;
+      if (quote) {
+        initialBomSelections = {
+          ...DEFAULT_BOM_SELECTIONS,
+          deliveryZip: quote.landZip ?? "",
+          ...getUtilitySelectionsFromQuote(quote),
+        };
+      }
+    } catch (error) {
+      console.error("Error loading quote request:", error);
+    }
+  }
+
+  // Running discounts, including the promo code saved with the design
+  const discounts = await getApplicableDiscounts(initialBomSelections?.promoCode);
+
   return (
     <DesignStudioWrapper
       modules={modules}
@@ -67,6 +111,9 @@ export default async function DesignPage({
       initialDesign={initialDesign}
       initialDesignName={initialDesignName}
       initialBomSelections={initialBomSelections}
+      loadError={loadError}
+      priceBook={priceBook}
+      discounts={discounts}
     />
   );
 }
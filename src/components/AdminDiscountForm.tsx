@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Input } from "@/components/ui/Input";
+import { Select } from "@/components/ui/Select";
+import { Button } from "@/components/ui/Button";
+import { useToast } from "@/components/providers/ToastProvider";
+import { DISCOUNT_KIND_LABELS } from "@/lib/design/discounts";
+import { DISCOUNT_KIND_OPTIONS, discountSchema, type DiscountInput } from "@/lib/validation";
+
+export function AdminDiscountForm() {
+  const router = useRouter();
+  const { showToast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<DiscountInput>({
+    resolver: zodResolver(discountSchema),
+    defaultValues: {
+      label: "",
+      code: "",
+      kind: "percent",
+      value: 5,
+      startsAt: "",
+      endsAt: "",
+    },
+  });
+
+  async function onSubmit(values: DiscountInput) {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/admin/discounts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...values,
+          // datetime-local values are in the admin's time zone
+          startsAt: values.startsAt ? new Date(values.startsAt).toISOString() : undefined,
+          endsAt: values.endsAt ? new Date(values.endsAt).toISOString() : undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error ?? "Unable to save discount");
+      }
+
+      showToast({
+        variant: "success",
+        title: "Discount saved",
+        description: values.code ? `Promo code ${values.code.toUpperCase()} is ready.` : `${values.label} applies to every quote.`,
+      });
+      form.reset({ ...values, label: "", code: "" });
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      showToast({ variant: "error", title: "Save failed", description: (error as Error).message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = form;
+  const kind = watch("kind");
+
+  return (
+    <form
+      onSubmit={handleSubmit(onSubmit)}
+      className="grid gap-4 rounded-2xl border border-surface-muted/60 bg-white p-6 sm:grid-cols-3"
+    >
+      <div className="sm:col-span-2">
+        <label htmlFor="discount-label" className="mb-1 block text-sm font-medium text-foreground">
+          Label
+        </label>
+        <Input id="discount-label" placeholder="Spring build discount" {...register("label")} aria-invalid={Boolean(errors.label)} />
+        {errors.label && <p className="mt-1 text-xs font-medium text-red-600">{errors.label.message}</p>}
+      </div>
+      <div>
+        <label htmlFor="discount-code" className="mb-1 block text-sm font-medium text-foreground">
+          Promo code (blank applies to all)
+        </label>
+        <Input id="discount-code" placeholder="SPRING25" {...register("code")} aria-invalid={Boolean(errors.code)} />
+        {errors.code && <p className="mt-1 text-xs font-medium text-red-600">{errors.code.message}</p>}
+      </div>
+      <div>
+        <label htmlFor="discount-kind" className="mb-1 block text-sm font-medium text-foreground">
+          Type
+        </label>
+        <Select id="discount-kind" {...register("kind")}>
+          {DISCOUNT_KIND_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              {DISCOUNT_KIND_LABELS[option]}
+            </option>
+          ))}
+        </Select>
+      </div>
+      <div>
+        <label htmlFor="discount-value" className="mb-1 block text-sm font-medium text-foreground">
+          {kind === "percent" ? "Percent off" : "Amount off ($)"}
+        </label>
+        <Input
+          id="discount-value"
+          type="number"
+          step={kind === "percent" ? "0.1" : "0.01"}
+          {...register("value", { valueAsNumber: true })}
+          aria-invalid={Boolean(errors.value)}
+        />
+        {errors.value && <p className="mt-1 text-xs font-medium text-red-600">{errors.value.message}</p>}
+      </div>
+      <div>
+        <label htmlFor="discount-starts" className="mb-1 block text-sm font-medium text-foreground">
+          Starts (blank for now)
+        </label>
+        <Input id="discount-starts" type="datetime-local" {...register("startsAt")} aria-invalid={Boolean(errors.startsAt)} />
+        {errors.startsAt && <p className="mt-1 text-xs font-medium text-red-600">{errors.startsAt.message}</p>}
+      </div>
+      <div>
+        <label htmlFor="discount-ends" className="mb-1 block text-sm font-medium text-foreground">
+          Ends (blank for no end)
+        </label>
+        <Input id="discount-ends" type="datetime-local" {...register("endsAt")} aria-invalid={Boolean(errors.endsAt)} />
+        {errors.endsAt && <p className="mt-1 text-xs font-medium text-red-600">{errors.endsAt.message}</p>}
+      </div>
+      <div className="flex items-end">
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? "Saving..." : "Save discount"}
+        </Button>
+      </div>
+    </form>
+  );
+}
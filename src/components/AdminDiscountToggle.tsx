@@ -0,0 +1,43 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useToast } from "@/components/providers/ToastProvider";
+
+export function AdminDiscountToggle({ discountId, active }: { discountId: string; active: boolean }) {
+  const router = useRouter();
+  const { showToast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  async function handleToggle() {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/admin/discounts/${discountId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ active: !active }),
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error ?? "Unable to update discount");
+      }
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      showToast({ variant: "error", title: "Update failed", description: (error as Error).message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleToggle}
+      disabled={isSubmitting}
+      className="text-sm font-semibold text-forest hover:underline disabled:opacity-50"
+    >
+      {active ? "Disable" : "Enable"}
+    </button>
+  );
+}
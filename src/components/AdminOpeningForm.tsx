@@ -0,0 +1,156 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Input } from "@/components/ui/Input";
+import { Select } from "@/components/ui/Select";
+import { Button } from "@/components/ui/Button";
+import { useToast } from "@/components/providers/ToastProvider";
+import { OPENING_KIND_LABELS } from "@/lib/design/openings";
+import { OPENING_KIND_OPTIONS, openingCatalogSchema, type OpeningCatalogInput } from "@/lib/validation";
+
+export function AdminOpeningForm() {
+  const router = useRouter();
+  const { showToast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<OpeningCatalogInput>({
+    resolver: zodResolver(openingCatalogSchema),
+    defaultValues: {
+      kind: "window",
+      name: "",
+      widthIn: 24,
+      heightIn: 36,
+      sillIn: 42,
+      priceDollars: 500,
+      uFactor: 0.3,
+    },
+  });
+
+  async function onSubmit(values: OpeningCatalogInput) {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/admin/catalog/openings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(values),
+      });
+
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error ?? "Unable to save opening");
+      }
+
+      showToast({ variant: "success", title: "Opening saved", description: `${values.name} is in the catalog.` });
+      form.reset({ ...values, name: "" });
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      showToast({ variant: "error", title: "Save failed", description: (error as Error).message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = form;
+
+  return (
+    <form
+      onSubmit={handleSubmit(onSubmit)}
+      className="grid gap-4 rounded-2xl border border-surface-muted/60 bg-white p-6 sm:grid-cols-3"
+    >
+      <div>
+        <label htmlFor="opening-kind" className="mb-1 block text-sm font-medium text-foreground">
+          Type
+        </label>
+        <Select id="opening-kind" {...register("kind")}>
+          {OPENING_KIND_OPTIONS.map((kind) => (
+            <option key={kind} value={kind}>
+              {OPENING_KIND_LABELS[kind]}
+            </option>
+          ))}
+        </Select>
+      </div>
+      <div className="sm:col-span-2">
+        <label htmlFor="opening-name" className="mb-1 block text-sm font-medium text-foreground">
+          Name
+        </label>
+        <Input id="opening-name" placeholder="Window 30x48" {...register("name")} aria-invalid={Boolean(errors.name)} />
+        {errors.name && <p className="mt-1 text-xs font-medium text-red-600">{errors.name.message}</p>}
+      </div>
+      <div>
+        <label htmlFor="opening-width" className="mb-1 block text-sm font-medium text-foreground">
+          Width (in)
+        </label>
+        <Input
+          id="opening-width"
+          type="number"
+          {...register("widthIn", { valueAsNumber: true })}
+          aria-invalid={Boolean(errors.widthIn)}
+        />
+        {errors.widthIn && <p className="mt-1 text-xs font-medium text-red-600">{errors.widthIn.message}</p>}
+      </div>
+      <div>
+        <label htmlFor="opening-height" className="mb-1 block text-sm font-medium text-foreground">
+          Height (in)
+        </label>
+        <Input
+          id="opening-height"
+          type="number"
+          {...register("heightIn", { valueAsNumber: true })}
+          aria-invalid={Boolean(errors.heightIn)}
+        />
+        {errors.heightIn && <p className="mt-1 text-xs font-medium text-red-600">{errors.heightIn.message}</p>}
+      </div>
+      <div>
+        <label htmlFor="opening-sill" className="mb-1 block text-sm font-medium text-foreground">
+          Sill height (in)
+        </label>
+        <Input
+          id="opening-sill"
+          type="number"
+          {...register("sillIn", { valueAsNumber: true })}
+          aria-invalid={Boolean(errors.sillIn)}
+        />
+        {errors.sillIn && <p className="mt-1 text-xs font-medium text-red-600">{errors.sillIn.message}</p>}
+      </div>
+      <div>
+        <label htmlFor="opening-price" className="mb-1 block text-sm font-medium text-foreground">
+          Price ($, incl. framing)
+        </label>
+        <Input
+          id="opening-price"
+          type="number"
+          step="0.01"
+          {...register("priceDollars", { valueAsNumber: true })}
+          aria-invalid={Boolean(errors.priceDollars)}
+        />
+        {errors.priceDollars && <p className="mt-1 text-xs font-medium text-red-600">{errors.priceDollars.message}</p>}
+      </div>
+      <div>
+        <label htmlFor="opening-u-factor" className="mb-1 block text-sm font-medium text-foreground">
+          U-factor (NFRC)
+        </label>
+        <Input
+          id="opening-u-factor"
+          type="number"
+          step="0.01"
+          {...register("uFactor", { valueAsNumber: true })}
+          aria-invalid={Boolean(errors.uFactor)}
+        />
+        {errors.uFactor && <p className="mt-1 text-xs font-medium text-red-600">{errors.uFactor.message}</p>}
+      </div>
+      <div className="flex items-end">
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? "Saving..." : "Save opening"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,287 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { get, useFieldArray, useForm, type FieldError, type Path } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Input } from "@/components/ui/Input";
+import { Textarea } from "@/components/ui/Textarea";
+import { Button } from "@/components/ui/Button";
+import { useToast } from "@/components/providers/ToastProvider";
+import { priceBookSchema, type PriceBookInput } from "@/lib/validation";
+import type { PriceTables } from "@/types/bom";
+
+// Option tables: a label and a price (plus install hours for packages) per option
+const MATERIAL_TABLES = [
+  { key: "shells", title: "Container Shells", unit: "¢ each, delivered used one-trip", fields: ["baseCents"] },
+  { key: "insulation", title: "Insulation", unit: "¢/sqft", fields: ["centsPerSqft"] },
+  { key: "interiorFinish", title: "Interior Wall Finish", unit: "¢/sqft", fields: ["centsPerSqft"] },
+  { key: "flooring", title: "Flooring", unit: "¢/sqft", fields: ["centsPerSqft"] },
+  { key: "exteriorFinish", title: "Exterior Finish", unit: "¢/sqft", fields: ["centsPerSqft"] },
+  { key: "roofing", title: "Roofing", unit: "¢/sqft", fields: ["centsPerSqft"] },
+  { key: "foundation", title: "Foundation", unit: "¢ flat; mobilization for piers", fields: ["baseCents"] },
+  { key: "wellPump", title: "Well Pump", unit: "¢ flat, install hours", fields: ["baseCents", "laborHours"] },
+  { key: "cistern", title: "Cistern", unit: "¢ flat, install hours", fields: ["baseCents", "laborHours"] },
+  { key: "wasteSystem", title: "Toilet Waste", unit: "¢ flat, install hours", fields: ["baseCents", "laborHours"] },
+  { key: "greywater", title: "Greywater", unit: "¢ flat, install hours", fields: ["baseCents", "laborHours"] },
+] as const;
+
+const PRICE_FIELD_LABELS = { centsPerSqft: "Price", baseCents: "Price", laborHours: "Hours" } as const;
+
+// Flat groups of numbers, one input each
+const NUMBER_GROUPS = [
+  { key: "piers", title: "Piers & Helical Piles (¢, hrs)" },
+  { key: "structural", title: "Structural Steel (¢)" },
+  { key: "electrical", title: "Electrical (¢)" },
+  { key: "plumbing", title: "Plumbing (¢)" },
+  { key: "plumbingPipe", title: "Plumbing Pipe & Fittings (¢)" },
+  { key: "hvac", title: "Heating & Cooling (¢)" },
+  { key: "solar", title: "Solar + Battery (¢)" },
+  { key: "delivery", title: "Delivery (¢)" },
+  { key: "deliveryRules", title: "Delivery Rules (ft, ¢)" },
+  { key: "laborHours", title: "Labor Hours" },
+] as const;
+
+const TIER_TABLES = [
+  { key: "generatorTiers", title: "Generator Tiers", fields: ["minWatts", "maxWatts", "capacityKw", "label", "priceCents"] },
+] as const;
+
+// steelCutCentsPerLinearFt -> "Steel cut cents per linear ft"
+function fieldLabel(key: string): string {
+  const words = key.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+type AdminPriceBookFormProps = {
+  // Tables to start from: the newest version, so edits build on the last change
+  initialPrices: PriceTables;
+};
+
+export function AdminPriceBookForm({ initialPrices }: AdminPriceBookFormProps) {
+  const router = useRouter();
+  const { showToast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<PriceBookInput>({
+    resolver: zodResolver(priceBookSchema),
+    defaultValues: {
+      name: "",
+      notes: "",
+      effectiveAt: "",
+      prices: initialPrices,
+    },
+  });
+
+  async function onSubmit(values: PriceBookInput) {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/admin/price-books", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...values,
+          // The picker is in the admin's local time
+          effectiveAt: values.effectiveAt ? new Date(values.effectiveAt).toISOString() : undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error ?? "Unable to save price book");
+      }
+
+      const { priceBook } = await response.json();
+      showToast({ variant: "success", title: "Price book saved", description: `Version ${priceBook.version} is on file.` });
+      form.reset({ ...values, name: "", notes: "", effectiveAt: "" });
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      showToast({ variant: "error", title: "Save failed", description: (error as Error).message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    formState: { errors },
+  } = form;
+  const regions = useFieldArray({ control, name: "prices.regions" });
+  const regionsError = get(errors, "prices.regions") as (FieldError & { root?: FieldError }) | undefined;
+
+  const numberField = (path: string, label: string) => {
+    const error = get(errors, path) as FieldError | undefined;
+    const id = `price-${path.replace(/\./g, "-")}`;
+    return (
+      <div key={path}>
+        <label htmlFor={id} className="mb-1 block text-xs font-medium text-foreground/70">
+          {label}
+        </label>
+        <Input
+          id={id}
+          type="number"
+          step="any"
+          {...register(path as Path<PriceBookInput>, { valueAsNumber: true })}
+          aria-invalid={Boolean(error)}
+        />
+        {error?.message && <p className="mt-1 text-xs font-medium text-red-600">{error.message}</p>}
+      </div>
+    );
+  };
+
+  const textField = (path: string, label: string) => {
+    const error = get(errors, path) as FieldError | undefined;
+    const id = `price-${path.replace(/\./g, "-")}`;
+    return (
+      <div key={path}>
+        <label htmlFor={id} className="mb-1 block text-xs font-medium text-foreground/70">
+          {label}
+        </label>
+        <Input id={id} {...register(path as Path<PriceBookInput>)} aria-invalid={Boolean(error)} />
+        {error?.message && <p className="mt-1 text-xs font-medium text-red-600">{error.message}</p>}
+      </div>
+    );
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit(onSubmit)}
+      className="space-y-6 rounded-2xl border border-surface-muted/60 bg-white p-6"
+    >
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div>
+          <label htmlFor="price-book-name" className="mb-1 block text-sm font-medium text-foreground">
+            Name
+          </label>
+          <Input id="price-book-name" placeholder="Spring 2026 pricing" {...register("name")} aria-invalid={Boolean(errors.name)} />
+          {errors.name && <p className="mt-1 text-xs font-medium text-red-600">{errors.name.message}</p>}
+        </div>
+        <div>
+          <label htmlFor="price-book-effective" className="mb-1 block text-sm font-medium text-foreground">
+            Effective
+          </label>
+          <Input
+            id="price-book-effective"
+            type="datetime-local"
+            {...register("effectiveAt")}
+            aria-invalid={Boolean(errors.effectiveAt)}
+          />
+          {errors.effectiveAt ? (
+            <p className="mt-1 text-xs font-medium text-red-600">{errors.effectiveAt.message}</p>
+          ) : (
+            <p className="mt-1 text-xs text-foreground/60">Leave blank to take effect now.</p>
+          )}
+        </div>
+        <div>
+          <label htmlFor="price-book-notes" className="mb-1 block text-sm font-medium text-foreground">
+            Notes
+          </label>
+          <Textarea id="price-book-notes" rows={2} placeholder="What changed" {...register("notes")} />
+        </div>
+      </div>
+
+      {MATERIAL_TABLES.map((table) => (
+        <fieldset key={table.key} className="space-y-2">
+          <legend className="text-sm font-semibold text-foreground">
+            {table.title} <span className="font-normal text-foreground/60">({table.unit})</span>
+          </legend>
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {Object.keys(initialPrices[table.key]).map((option) => (
+              <div
+                key={option}
+                className={`grid gap-2 ${table.fields.length > 1 ? "grid-cols-[2fr_1fr_1fr]" : "grid-cols-[2fr_1fr]"}`}
+              >
+                {textField(`prices.${table.key}.${option}.label`, option)}
+                {table.fields.map((field) =>
+                  numberField(`prices.${table.key}.${option}.${field}`, PRICE_FIELD_LABELS[field])
+                )}
+              </div>
+            ))}
+          </div>
+        </fieldset>
+      ))}
+
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-semibold text-foreground">Roofing Add-ons &amp; Contingency</legend>
+        <div className="grid gap-3 sm:grid-cols-3">
+          {numberField("prices.roofingDeckPrepCentsPerSqft", "Deck prep (¢/sqft)")}
+          {numberField("prices.roofingSolarRailsCentsPerSqft", "Solar rails (¢/sqft)")}
+          {numberField("prices.contingencyPct", "Contingency (%)")}
+        </div>
+      </fieldset>
+
+      {NUMBER_GROUPS.map((group) => (
+        <fieldset key={group.key} className="space-y-2">
+          <legend className="text-sm font-semibold text-foreground">{group.title}</legend>
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+            {Object.keys(initialPrices[group.key]).map((field) =>
+              numberField(`prices.${group.key}.${field}`, fieldLabel(field))
+            )}
+          </div>
+        </fieldset>
+      ))}
+
+      {TIER_TABLES.map((table) => {
+        const tableError = get(errors, `prices.${table.key}`) as (FieldError & { root?: FieldError }) | undefined;
+        const tableMessage = tableError?.message ?? tableError?.root?.message;
+        return (
+          <fieldset key={table.key} className="space-y-2">
+            <legend className="text-sm font-semibold text-foreground">{table.title}</legend>
+            {initialPrices[table.key].map((_, index) => (
+              <div key={index} className="grid gap-2 sm:grid-cols-6">
+                {table.fields.map((field) =>
+                  field === "label"
+                    ? textField(`prices.${table.key}.${index}.${field}`, fieldLabel(field))
+                    : numberField(`prices.${table.key}.${index}.${field}`, fieldLabel(field))
+                )}
+              </div>
+            ))}
+            {tableMessage && <p className="text-xs font-medium text-red-600">{tableMessage}</p>}
+          </fieldset>
+        );
+      })}
+
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-semibold text-foreground">
+          Regional Multipliers{" "}
+          <span className="font-normal text-foreground/60">(state code or ZIP prefix; the longest ZIP prefix wins)</span>
+        </legend>
+        {regions.fields.map((field, index) => (
+          <div key={field.id} className="grid items-end gap-2 sm:grid-cols-[1fr_2fr_1fr_1fr_1fr_auto]">
+            {textField(`prices.regions.${index}.match`, "State / ZIP prefix")}
+            {textField(`prices.regions.${index}.label`, "Label")}
+            {numberField(`prices.regions.${index}.labor`, "Labor ×")}
+            {numberField(`prices.regions.${index}.materials`, "Materials ×")}
+            {numberField(`prices.regions.${index}.delivery`, "Delivery ×")}
+            <button
+              type="button"
+              onClick={() => regions.remove(index)}
+              className="pb-2 text-sm font-semibold text-foreground/60 hover:text-red-600"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        {(regionsError?.message ?? regionsError?.root?.message) && (
+          <p className="text-xs font-medium text-red-600">{regionsError?.message ?? regionsError?.root?.message}</p>
+        )}
+        <button
+          type="button"
+          onClick={() => regions.append({ match: "", label: "", labor: 1, materials: 1, delivery: 1 })}
+          className="text-sm font-semibold text-forest hover:underline"
+        >
+          Add region
+        </button>
+      </fieldset>
+
+      <div className="flex items-center gap-4">
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? "Saving..." : "Save as new version"}
+        </Button>
+        <p className="text-xs text-foreground/60">Saved designs keep the version they were priced with.</p>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/Button";
+import { useToast } from "@/components/providers/ToastProvider";
+import { formatCurrencyCents } from "@/lib/format";
+
+export function AdminRequoteButton({ submissionId }: { submissionId: string }) {
+  const router = useRouter();
+  const { showToast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  async function handleRequote() {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/admin/submissions/${submissionId}/quotes`, { method: "POST" });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error ?? "Unable to re-quote");
+      }
+      const { quote } = await response.json();
+      showToast({
+        variant: "success",
+        title: "Re-quoted",
+        description: `New total ${formatCurrencyCents(quote.grandTotalCents)} (price book v${quote.priceBookVersion}).`,
+      });
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      showToast({ variant: "error", title: "Re-quote failed", description: (error as Error).message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Button type="button" onClick={handleRequote} disabled={isSubmitting}>
+      {isSubmitting ? "Re-quoting..." : "Re-quote at current prices"}
+    </Button>
+  );
+}
@@ -92,7 +92,13 @@ export function QuoteForm({
         title: "Quote request received",
         description: "Our team will review your site details and reach out within one business day.",
       });
-      router.push(redirectTo);
+      // The thank-you page offers to start a design from these answers
+      const payload = await response.json().catch(() => null);
+      router.push(
+        payload?.quoteId
+          ? `${redirectTo}${redirectTo.includes("?") ? "&" : "?"}quote=${encodeURIComponent(payload.quoteId)}`
+          : redirectTo
+      );
     } catch (error) {
       console.error(error);
       showToast({ variant: "error", title: "Submission failed", description: (error as Error).message });
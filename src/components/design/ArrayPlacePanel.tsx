@@ -0,0 +1,92 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+
+export type ArrayPlacePanelProps = {
+  selectedCount: number;
+  onDuplicate: () => void;
+  onArrayPlace: (columns: number, rows: number, gapXFt: number, gapYFt: number) => void;
+};
+
+/**
+ * Duplicate / array-place controls for the current selection.
+ * The array repeats the selection's bounding box in a columns × rows grid.
+ */
+export function ArrayPlacePanel({
+  selectedCount,
+  onDuplicate,
+  onArrayPlace,
+}: ArrayPlacePanelProps) {
+  const [columns, setColumns] = useState(2);
+  const [rows, setRows] = useState(1);
+  const [gapXFt, setGapXFt] = useState(0);
+  const [gapYFt, setGapYFt] = useState(0);
+
+  const copies = columns * rows - 1;
+
+  return (
+    <div className="space-y-3 rounded-xl border border-surface-muted/60 bg-white p-4">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-semibold uppercase tracking-[0.3em] text-foreground/60">
+          Repeat
+        </p>
+        <Button type="button" size="sm" variant="outline" onClick={onDuplicate}>
+          Duplicate
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <label className="text-[10px] text-foreground/60">Columns</label>
+          <Input
+            type="number"
+            min={1}
+            step={1}
+            value={columns}
+            onChange={(e) => setColumns(Math.max(1, parseInt(e.target.value) || 1))}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] text-foreground/60">Rows</label>
+          <Input
+            type="number"
+            min={1}
+            step={1}
+            value={rows}
+            onChange={(e) => setRows(Math.max(1, parseInt(e.target.value) || 1))}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] text-foreground/60">Gap X (ft)</label>
+          <Input
+            type="number"
+            step={0.5}
+            value={gapXFt}
+            onChange={(e) => setGapXFt(parseFloat(e.target.value) || 0)}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] text-foreground/60">Gap Y (ft)</label>
+          <Input
+            type="number"
+            step={0.5}
+            value={gapYFt}
+            onChange={(e) => setGapYFt(parseFloat(e.target.value) || 0)}
+          />
+        </div>
+      </div>
+
+      <Button
+        type="button"
+        size="sm"
+        className="w-full"
+        disabled={copies < 1}
+        onClick={() => onArrayPlace(columns, rows, gapXFt, gapYFt)}
+      >
+        Place {copies} {copies === 1 ? "copy" : "copies"} of {selectedCount} {selectedCount === 1 ? "fixture" : "fixtures"}
+      </Button>
+    </div>
+  );
+}
@@ -2,14 +2,8 @@
 
 import { useState, useMemo, useCallback } from "react";
 import type { DesignConfig, ModuleCatalogItem } from "@/types/design";
-import type { BOMSelections, LaborBreakdownItem, ElectricalLoadBreakdown } from "@/types/bom";
+import type { BOMSelections, DeliveryLineItem, Discount, LaborBreakdownItem, ElectricalLoadBreakdown, PlumbingRouting, PriceBook, SolarSizing, StructuralLineItem, ThermalLoadResult } from "@/types/bom";
 import {
-  INSULATION_PRICES,
-  INTERIOR_FINISH_PRICES,
-  FLOORING_PRICES,
-  EXTERIOR_FINISH_PRICES,
-  ROOFING_PRICES,
-  FOUNDATION_PRICES,
   ELECTRICAL_POWER_SOURCE_LABELS,
   InsulationType,
   InteriorWallFinish,
@@ -20,6 +14,13 @@ import {
   ElectricalPowerSource,
 } from "@/types/bom";
 import { calculateBOM, getDesignAnalysis } from "@/lib/design/bom-calculator";
+import { getBOMAdjustmentLines } from "@/lib/design/discounts";
+import { isPierFoundation } from "@/lib/design/foundation";
+import { getPanelSchedule } from "@/lib/design/panel-schedule";
+import { appendPanelScheduleSheet } from "@/lib/design/panel-schedule-sheet";
+import { appendPurchasingSheet } from "@/lib/design/purchasing-sheet";
+import { describeRegionAdjustment } from "@/lib/design/regions";
+import { applyWasteSystem } from "@/lib/design/utility-packages";
 import { getZipLocationInfo } from "@/lib/design/zip-distance";
 import { formatCurrencyCents } from "@/lib/format";
 import { Select } from "@/components/ui/Select";
@@ -30,7 +31,11 @@ export type BOMPanelProps = {
   design: DesignConfig;
   catalog: Record<string, ModuleCatalogItem>;
   selections: BOMSelections;
+  priceBook: PriceBook;
+  discounts: Discount[];
   onSelectionsChange: (selections: BOMSelections) => void;
+  onApplyPromoCode?: (code: string) => void;
+  isApplyingPromoCode?: boolean;
   designName: string;
   onSubmitProposal?: () => void;
   onExportPDF?: () => void;
@@ -38,6 +43,17 @@ export type BOMPanelProps = {
   isExportingPDF?: boolean;
 };
 
+// Days of storage offered for solar + battery
+const SOLAR_AUTONOMY_OPTIONS = [1, 2, 3, 4, 5];
+
+// Water and waste package pickers, in the order they're shown
+const UTILITY_PACKAGE_FIELDS = [
+  { key: "wellPump", label: "Well Pump" },
+  { key: "cistern", label: "Cistern" },
+  { key: "wasteSystem", label: "Toilet Waste" },
+  { key: "greywater", label: "Greywater" },
+] as const;
+
 type CollapsibleSectionProps = {
   title: string;
   amount: number;
@@ -91,6 +107,112 @@ function CollapsibleSection({
   );
 }
 
+function StructuralTable({ items }: { items: StructuralLineItem[] }) {
+  return (
+    <div className="mt-2 rounded-lg bg-gray-800/50 border border-gray-700/50 overflow-hidden">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-gray-700/50 bg-gray-800">
+            <th className="px-2 py-1.5 text-left font-medium text-gray-400">Item</th>
+            <th className="px-2 py-1.5 text-right font-medium text-gray-400">Material</th>
+            <th className="px-2 py-1.5 text-right font-medium text-gray-400">Hours</th>
+          </tr>
+        </thead>
+        <tbody>
+          {items.map((item) => (
+            <tr key={item.label} className="border-b border-gray-700/30 last:border-0">
+              <td className="px-2 py-1.5 text-gray-300">
+                {item.label}
+                <span className="text-gray-500 ml-1">({item.quantity} {item.unit})</span>
+              </td>
+              <td className="px-2 py-1.5 text-right text-gray-200 font-mono">
+                {formatCurrencyCents(item.materialCents)}
+              </td>
+              <td className="px-2 py-1.5 text-right text-gray-200 font-mono">
+                {item.hours.toFixed(1)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function DeliveryTable({ items }: { items: DeliveryLineItem[] }) {
+  return (
+    <div className="mt-2 rounded-lg bg-gray-800/50 border border-gray-700/50 overflow-hidden">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-gray-700/50 bg-gray-800">
+            <th className="px-2 py-1.5 text-left font-medium text-gray-400">Item</th>
+            <th className="px-2 py-1.5 text-right font-medium text-gray-400">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {items.map((item) => (
+            <tr key={item.label} className="border-b border-gray-700/30 last:border-0">
+              <td className="px-2 py-1.5 text-gray-300">
+                {item.label}
+                <span className="text-gray-500 ml-1">
+                  ({item.quantity} {item.unit === "state" && item.quantity !== 1 ? "states" : item.unit})
+                </span>
+              </td>
+              <td className="px-2 py-1.5 text-right text-gray-200 font-mono">
+                {formatCurrencyCents(item.costCents)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function PlumbingRoutingTable({ routing }: { routing: PlumbingRouting }) {
+  return (
+    <div className="mt-2 rounded-lg bg-gray-800/50 border border-gray-700/50 overflow-hidden">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-gray-700/50 bg-gray-800">
+            <th className="px-2 py-1.5 text-left font-medium text-gray-400">Pipe & fittings</th>
+            <th className="px-2 py-1.5 text-right font-medium text-gray-400">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {routing.pipes.map((pipe) => (
+            <tr key={pipe.label} className="border-b border-gray-700/30 last:border-0">
+              <td className="px-2 py-1.5 text-gray-300">
+                {pipe.label}
+                <span className="text-gray-500 ml-1">({pipe.lengthFt} ft)</span>
+              </td>
+              <td className="px-2 py-1.5 text-right text-gray-200 font-mono">
+                {formatCurrencyCents(pipe.costCents)}
+              </td>
+            </tr>
+          ))}
+          {routing.fittings.map((fitting) => (
+            <tr key={fitting.label} className="border-b border-gray-700/30 last:border-0">
+              <td className="px-2 py-1.5 text-gray-300">
+                {fitting.label}
+                <span className="text-gray-500 ml-1">(×{fitting.count})</span>
+              </td>
+              <td className="px-2 py-1.5 text-right text-gray-200 font-mono">
+                {formatCurrencyCents(fitting.costCents)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {routing.isDefaultEntry && (
+        <p className="px-2 py-1.5 text-[10px] text-gray-500 border-t border-gray-700/50">
+          Routed from the wet core; place a utility entry (U) to route from where the lines come in.
+        </p>
+      )}
+    </div>
+  );
+}
+
 function LaborBreakdownTable({ breakdown, totalHours }: { breakdown: LaborBreakdownItem[]; totalHours: number }) {
   return (
     <div className="mt-2 rounded-lg bg-gray-800/50 border border-gray-700/50 overflow-hidden">
@@ -143,8 +265,8 @@ function ElectricalLoadBreakdownTable({ loadBreakdown }: { loadBreakdown: Electr
           {/* Heating */}
           <tr className="border-b border-gray-700/30">
             <td className="px-2 py-1.5 text-gray-300">
-              Electric Space Heating
-              <span className="text-gray-500 ml-1">(10W/sqft)</span>
+              Heating & Cooling
+              <span className="text-gray-500 ml-1">(at design temp)</span>
             </td>
             <td className="px-2 py-1.5 text-right text-gray-200 font-mono">
               {loadBreakdown.heatingWatts.toLocaleString()}
@@ -182,18 +304,121 @@ function ElectricalLoadBreakdownTable({ loadBreakdown }: { loadBreakdown: Electr
   );
 }
 
+function SolarSizingDetails({ solar }: { solar: SolarSizing }) {
+  const { energy } = solar;
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-400">
+        {energy.designKwh} kWh/day average ({energy.fixturesKwh} fixtures + {energy.lightingKwh} lighting + heating/cooling{" "}
+        {energy.winterHvacKwh} winter / {energy.summerHvacKwh} summer)
+      </p>
+      <p className="text-xs text-gray-400">
+        {solar.latitude}°N: {solar.annualSunHours} peak sun hrs/day average, {solar.winterSunHours} in December
+      </p>
+      <div className="rounded-lg bg-gray-800/50 border border-gray-700/50 overflow-hidden">
+        <table className="w-full text-xs">
+          <tbody>
+            {solar.items.map((item) => (
+              <tr key={item.label} className="border-b border-gray-700/30 last:border-0">
+                <td className="px-2 py-1.5 text-gray-300">{item.label}</td>
+                <td className="px-2 py-1.5 text-right text-gray-200 font-mono">{formatCurrencyCents(item.costCents)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {solar.winterShortfallKwh > 0 ? (
+        <p className="text-xs text-amber-400">
+          Winter shortfall: {solar.winterShortfallKwh} kWh/day ({solar.winterProductionKwh} made vs. {energy.winterKwh} used in
+          December) - plan on a backup generator
+        </p>
+      ) : (
+        <p className="text-xs text-emerald-400">
+          Covers December: {solar.winterProductionKwh} kWh/day made vs. {energy.winterKwh} used
+        </p>
+      )}
+      {solar.roof && !solar.roof.fits && (
+        <p className="text-xs text-red-400">
+          Roof holds {solar.roof.maxPanels} panels; {solar.panelCount - solar.roof.maxPanels} more need a ground mount
+        </p>
+      )}
+    </div>
+  );
+}
+
+function ThermalLoadTable({ thermal }: { thermal: ThermalLoadResult }) {
+  const { climate } = thermal;
+  const totalUA = thermal.conductance.reduce((sum, path) => sum + path.uaBtuPerHrF, 0);
+  return (
+    <div className="mt-2 space-y-2">
+      <p className="text-xs text-gray-400">
+        Climate zone {climate.zone} ({climate.label}{thermal.isDefaultClimate ? ", until a ZIP is entered" : ""}):{" "}
+        {climate.heatingDesignF}°F heating / {climate.coolingDesignF}°F cooling design • R-{thermal.insulationRValue} envelope
+      </p>
+      <div className="rounded-lg bg-gray-800/50 border border-gray-700/50 overflow-hidden">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-gray-700/50 bg-gray-800">
+              <th className="px-2 py-1.5 text-left font-medium text-gray-400">Heat Path</th>
+              <th className="px-2 py-1.5 text-right font-medium text-gray-400">Sqft</th>
+              <th className="px-2 py-1.5 text-right font-medium text-gray-400">UA</th>
+            </tr>
+          </thead>
+          <tbody>
+            {thermal.conductance.map((path) => (
+              <tr key={path.label} className="border-b border-gray-700/30 last:border-0">
+                <td className="px-2 py-1.5 text-gray-300">{path.label}</td>
+                <td className="px-2 py-1.5 text-right text-gray-200 font-mono">
+                  {path.areaSqft > 0 ? path.areaSqft.toLocaleString() : "—"}
+                </td>
+                <td className="px-2 py-1.5 text-right text-gray-200 font-mono">{path.uaBtuPerHrF.toFixed(1)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="bg-gray-800 border-t border-gray-600">
+              <td className="px-2 py-1.5 font-semibold text-gray-200" colSpan={2}>Total (BTU/h·°F)</td>
+              <td className="px-2 py-1.5 text-right font-bold text-amber-400 font-mono">{totalUA.toFixed(1)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+      <p className="text-xs text-gray-400">
+        Heating: {totalUA.toFixed(1)} × (70 − {climate.heatingDesignF})°F ={" "}
+        <span className="text-gray-200 font-medium">{thermal.heatingBtuPerHr.toLocaleString()} BTU/h</span>
+      </p>
+      <p className="text-xs text-gray-400">
+        Cooling (incl. sun, occupants, humidity):{" "}
+        <span className="text-gray-200 font-medium">{thermal.coolingBtuPerHr.toLocaleString()} BTU/h</span>
+      </p>
+      {thermal.equipment.map((equipment) => (
+        <p key={equipment.label} className="text-xs text-gray-400">
+          {equipment.quantity > 1 ? `${equipment.quantity} × ` : ""}
+          <span className="text-amber-400 font-medium">{equipment.label}</span>
+          {" "}• {equipment.watts.toLocaleString()} W • {formatCurrencyCents(equipment.costCents)}
+        </p>
+      ))}
+    </div>
+  );
+}
+
 export function BOMPanel({ 
   design, 
   catalog, 
   selections, 
+  priceBook,
   onSelectionsChange,
   designName,
   onSubmitProposal,
   onExportPDF,
   isSubmitting = false,
   isExportingPDF = false,
+  discounts,
+  onApplyPromoCode,
+  isApplyingPromoCode = false,
 }: BOMPanelProps) {
   const [showLaborBreakdown, setShowLaborBreakdown] = useState(false);
+  const [promoCodeInput, setPromoCodeInput] = useState("");
   const [showElectricalBreakdown, setShowElectricalBreakdown] = useState(false);
 
   const updateSelection = useCallback(<K extends keyof BOMSelections>(
@@ -209,8 +434,8 @@ export function BOMPanel({
   );
 
   const bom = useMemo(
-    () => calculateBOM(design, catalog, selections),
-    [design, catalog, selections]
+    () => calculateBOM(design, catalog, selections, priceBook, discounts),
+    [design, catalog, selections, priceBook, discounts]
   );
 
   // Export BOM to Excel with styling
@@ -274,26 +499,31 @@ export function BOMPanel({
     // Header row (row 2)
     data.push(["Category", "Description", "Cost"]);
     
-    // Main cost items (rows 3-13)
+    // Main cost items (rows 3-15)
     data.push(["Container Shell", bom.container.details || "", `$${(bom.container.costCents / 100).toLocaleString('en-US', { minimumFractionDigits: 2 })}`]);
+    data.push(["Structural Reinforcement", bom.structural.details || "", `$${(bom.structural.costCents / 100).toLocaleString('en-US', { minimumFractionDigits: 2 })}`]);
     data.push(["Fixtures & Appliances", bom.fixtures.details || "", `$${(bom.fixtures.costCents / 100).toLocaleString('en-US', { minimumFractionDigits: 2 })}`]);
     data.push(["Walls & Insulation", bom.wallsInsulation.details || "", `$${(bom.wallsInsulation.costCents / 100).toLocaleString('en-US', { minimumFractionDigits: 2 })}`]);
     data.push(["Flooring", bom.flooring.details || "", `$${(bom.flooring.costCents / 100).toLocaleString('en-US', { minimumFractionDigits: 2 })}`]);
     data.push(["Electrical", bom.electrical.details || "", `$${(bom.electrical.costCents / 100).toLocaleString('en-US', { minimumFractionDigits: 2 })}`]);
     data.push(["Plumbing", bom.plumbing.details || "", `$${(bom.plumbing.costCents / 100).toLocaleString('en-US', { minimumFractionDigits: 2 })}`]);
+    data.push(["Water & Waste", bom.waterWaste.details || "", `$${(bom.waterWaste.costCents / 100).toLocaleString('en-US', { minimumFractionDigits: 2 })}`]);
     data.push(["Exterior Finish", bom.exteriorFinish.details || "", `$${(bom.exteriorFinish.costCents / 100).toLocaleString('en-US', { minimumFractionDigits: 2 })}`]);
     data.push(["Roofing", bom.roofing.details || "", `$${(bom.roofing.costCents / 100).toLocaleString('en-US', { minimumFractionDigits: 2 })}`]);
     data.push(["Foundation", bom.foundation.details || "", `$${(bom.foundation.costCents / 100).toLocaleString('en-US', { minimumFractionDigits: 2 })}`]);
-    data.push(["Labor", `${bom.labor.totalHours} hours @ $${(selections.laborRateCents / 100).toFixed(2)}/hr`, `$${(bom.labor.costCents / 100).toLocaleString('en-US', { minimumFractionDigits: 2 })}`]);
+    data.push(["Labor", `${bom.labor.totalHours} hours @ $${(bom.labor.rateCents / 100).toFixed(2)}/hr`, `$${(bom.labor.costCents / 100).toLocaleString('en-US', { minimumFractionDigits: 2 })}`]);
     data.push(["Delivery", bom.delivery.details || "", `$${(bom.delivery.costCents / 100).toLocaleString('en-US', { minimumFractionDigits: 2 })}`]);
     
-    // Empty row before totals (row 14)
+    // Empty row before totals (row 16)
     data.push([]);
     
-    // Totals section (rows 14-16)
+    // Totals section
     const subtotalRow = data.length;
     data.push(["Subtotal", "", `$${(bom.subtotalCents / 100).toLocaleString('en-US', { minimumFractionDigits: 2 })}`]);
     data.push(["Contingency (10%)", "", `$${(bom.contingencyCents / 100).toLocaleString('en-US', { minimumFractionDigits: 2 })}`]);
+    getBOMAdjustmentLines(bom).forEach(line => {
+      data.push([line.label, "", `${line.cents < 0 ? "-" : ""}$${(Math.abs(line.cents) / 100).toLocaleString('en-US', { minimumFractionDigits: 2 })}`]);
+    });
     const grandTotalRow = data.length;
     data.push(["GRAND TOTAL", "", `$${(bom.grandTotalCents / 100).toLocaleString('en-US', { minimumFractionDigits: 2 })}`]);
     
@@ -325,19 +555,19 @@ export function BOMPanel({
       if (ws[cell]) ws[cell].s = headerStyle;
     });
     
-    // Data rows (rows 3-13)
-    for (let row = 4; row <= 14; row++) {
+    // Data rows (rows 3-15)
+    for (let row = 4; row <= 16; row++) {
       if (ws[`A${row}`]) ws[`A${row}`].s = { ...dataStyle, font: { ...dataStyle.font, bold: true } };
       if (ws[`B${row}`]) ws[`B${row}`].s = dataStyle;
       if (ws[`C${row}`]) ws[`C${row}`].s = costStyle;
     }
     
-    // Subtotal rows
-    const subtotalRowNum = subtotalRow + 1;
-    ["A", "B", "C"].forEach(col => {
-      if (ws[`${col}${subtotalRowNum}`]) ws[`${col}${subtotalRowNum}`].s = subtotalStyle;
-      if (ws[`${col}${subtotalRowNum + 1}`]) ws[`${col}${subtotalRowNum + 1}`].s = subtotalStyle;
-    });
+    // Subtotal rows (subtotal through sales tax)
+    for (let row = subtotalRow + 1; row <= grandTotalRow; row++) {
+      ["A", "B", "C"].forEach(col => {
+        if (ws[`${col}${row}`]) ws[`${col}${row}`].s = subtotalStyle;
+      });
+    }
     
     // Grand total row
     const grandTotalRowNum = grandTotalRow + 1;
@@ -384,11 +614,17 @@ export function BOMPanel({
     
     // Add worksheet to workbook
     XLSX.utils.book_append_sheet(wb, ws, "Bill of Materials");
+    appendPurchasingSheet(wb, designName, bom.takeoff);
+    appendPanelScheduleSheet(
+      wb,
+      designName,
+      getPanelSchedule(design, applyWasteSystem(catalog, selections.wasteSystem), bom.electrical.thermal.equipment)
+    );
     
     // Generate and download file
     const filename = `${designName.replace(/[^a-z0-9]/gi, "_")}_BOM.xlsx`;
     XLSX.writeFile(wb, filename);
-  }, [bom, designName, selections.laborRateCents]);
+  }, [bom, catalog, design, designName, selections.wasteSystem]);
 
   return (
     <div className="flex flex-col h-full bg-gray-900 text-gray-100 -m-4">
@@ -403,6 +639,7 @@ export function BOMPanel({
         </div>
         <p className="text-xs text-gray-400 mt-1">
           {analysis.shellLengthFt}' × {analysis.shellWidthFt}' × {analysis.shellHeightFt}' container
+          {analysis.shellCount > 1 && ` + ${analysis.shellCount - 1} joined`}
         </p>
       </div>
 
@@ -415,6 +652,22 @@ export function BOMPanel({
           details={bom.container.details}
         />
 
+        {/* Structural reinforcement */}
+        <CollapsibleSection
+          title="Structural Reinforcement"
+          amount={bom.structural.costCents}
+          details={bom.structural.details}
+        >
+          {bom.structural.items.length > 0 && (
+            <>
+              <StructuralTable items={bom.structural.items} />
+              <p className="text-xs text-gray-500">
+                {formatCurrencyCents(bom.structural.materialCents)} steel + {bom.structural.laborHours} hrs fabrication ({formatCurrencyCents(bom.structural.laborCents)})
+              </p>
+            </>
+          )}
+        </CollapsibleSection>
+
         {/* Fixtures */}
         <CollapsibleSection
           title="Fixtures & Appliances"
@@ -439,7 +692,7 @@ export function BOMPanel({
                 onChange={(e) => updateSelection("insulation", e.target.value as InsulationType)}
                 className="!bg-gray-800 !text-gray-200 !border-gray-600 text-xs !py-1.5"
               >
-                {Object.entries(INSULATION_PRICES).map(([key, { label, centsPerSqft }]) => (
+                {Object.entries(priceBook.insulation).map(([key, { label, centsPerSqft }]) => (
                   <option key={key} value={key}>
                     {label} (${(centsPerSqft / 100).toFixed(2)}/sqft)
                   </option>
@@ -455,7 +708,7 @@ export function BOMPanel({
                 onChange={(e) => updateSelection("interiorFinish", e.target.value as InteriorWallFinish)}
                 className="!bg-gray-800 !text-gray-200 !border-gray-600 text-xs !py-1.5"
               >
-                {Object.entries(INTERIOR_FINISH_PRICES).map(([key, { label, centsPerSqft }]) => (
+                {Object.entries(priceBook.interiorFinish).map(([key, { label, centsPerSqft }]) => (
                   <option key={key} value={key}>
                     {label} (${(centsPerSqft / 100).toFixed(2)}/sqft)
                   </option>
@@ -481,7 +734,7 @@ export function BOMPanel({
               onChange={(e) => updateSelection("flooring", e.target.value as FlooringType)}
               className="!bg-gray-800 !text-gray-200 !border-gray-600 text-xs !py-1.5"
             >
-              {Object.entries(FLOORING_PRICES).map(([key, { label, centsPerSqft }]) => (
+              {Object.entries(priceBook.flooring).map(([key, { label, centsPerSqft }]) => (
                 <option key={key} value={key}>
                   {label} (${(centsPerSqft / 100).toFixed(2)}/sqft)
                 </option>
@@ -528,6 +781,28 @@ export function BOMPanel({
               </div>
             )}
 
+            {bom.electrical.systemInfo.solar && (
+              <>
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1">
+                    Battery Autonomy
+                  </label>
+                  <Select
+                    value={bom.electrical.systemInfo.solar.autonomyDays}
+                    onChange={(e) => updateSelection("solarAutonomyDays", Number(e.target.value))}
+                    className="!bg-gray-800 !text-gray-200 !border-gray-600 text-xs !py-1.5"
+                  >
+                    {SOLAR_AUTONOMY_OPTIONS.map((days) => (
+                      <option key={days} value={days}>
+                        {days} {days === 1 ? "day" : "days"} without sun
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+                <SolarSizingDetails solar={bom.electrical.systemInfo.solar} />
+              </>
+            )}
+
             {/* Load Summary */}
             <div className="flex items-center justify-between text-xs">
               <span className="text-gray-400">Estimated Load:</span>
@@ -553,9 +828,12 @@ export function BOMPanel({
             </button>
 
             {showElectricalBreakdown && (
-              <ElectricalLoadBreakdownTable
-                loadBreakdown={bom.electrical.systemInfo.loadBreakdown}
-              />
+              <>
+                <ThermalLoadTable thermal={bom.electrical.thermal} />
+                <ElectricalLoadBreakdownTable
+                  loadBreakdown={bom.electrical.systemInfo.loadBreakdown}
+                />
+              </>
             )}
           </div>
         </CollapsibleSection>
@@ -565,7 +843,43 @@ export function BOMPanel({
           title="Plumbing"
           amount={bom.plumbing.costCents}
           details={bom.plumbing.details}
-        />
+        >
+          {bom.plumbing.routing.runs.length > 0 && <PlumbingRoutingTable routing={bom.plumbing.routing} />}
+        </CollapsibleSection>
+
+        {/* Water & Waste */}
+        <CollapsibleSection
+          title="Water & Waste"
+          amount={bom.waterWaste.costCents}
+          details={bom.waterWaste.details}
+          defaultOpen
+        >
+          <div className="mt-2 space-y-3">
+            {UTILITY_PACKAGE_FIELDS.map((field) => (
+              <div key={field.key}>
+                <label className="block text-xs font-medium text-gray-400 mb-1">
+                  {field.label}
+                </label>
+                <Select
+                  value={selections[field.key]}
+                  onChange={(e) => updateSelection(field.key, e.target.value as BOMSelections[typeof field.key])}
+                  className="!bg-gray-800 !text-gray-200 !border-gray-600 text-xs !py-1.5"
+                >
+                  {Object.entries(priceBook[field.key]).map(([key, { label, baseCents }]) => (
+                    <option key={key} value={key}>
+                      {label} {baseCents > 0 ? `($${(baseCents / 100).toLocaleString()})` : ""}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+            ))}
+            {selections.wasteSystem === "composting" && (
+              <p className="text-[10px] text-gray-500">
+                Composting toilets need no water or drain, but their vent fan must reach an exterior wall and have power.
+              </p>
+            )}
+          </div>
+        </CollapsibleSection>
 
         {/* Exterior Finish */}
         <CollapsibleSection
@@ -583,7 +897,7 @@ export function BOMPanel({
               onChange={(e) => updateSelection("exteriorFinish", e.target.value as ExteriorFinish)}
               className="!bg-gray-800 !text-gray-200 !border-gray-600 text-xs !py-1.5"
             >
-              {Object.entries(EXTERIOR_FINISH_PRICES).map(([key, { label, centsPerSqft }]) => (
+              {Object.entries(priceBook.exteriorFinish).map(([key, { label, centsPerSqft }]) => (
                 <option key={key} value={key}>
                   {label} (${(centsPerSqft / 100).toFixed(2)}/sqft)
                 </option>
@@ -608,7 +922,7 @@ export function BOMPanel({
               onChange={(e) => updateSelection("roofingType", e.target.value as RoofingType)}
               className="w-full"
             >
-              {Object.entries(ROOFING_PRICES).map(([key, { label, centsPerSqft }]) => (
+              {Object.entries(priceBook.roofing).map(([key, { label, centsPerSqft }]) => (
                 <option key={key} value={key}>
                   {label} {centsPerSqft > 0 ? `($${(centsPerSqft / 100).toFixed(2)}/sqft)` : ""}
                 </option>
@@ -623,7 +937,7 @@ export function BOMPanel({
                     onChange={(e) => updateSelection("roofingDeckPrep", e.target.checked)}
                     className="w-4 h-4 rounded border-gray-600 bg-gray-800 text-amber-500 focus:ring-amber-500/30"
                   />
-                  <span className="text-xs text-gray-300">Deck Prep (+$3.00/sqft)</span>
+                  <span className="text-xs text-gray-300">Deck Prep (+${(priceBook.roofingDeckPrepCentsPerSqft / 100).toFixed(2)}/sqft)</span>
                 </label>
                 <label className="flex items-center gap-2 cursor-pointer">
                   <input
@@ -632,7 +946,7 @@ export function BOMPanel({
                     onChange={(e) => updateSelection("roofingSolarRails", e.target.checked)}
                     className="w-4 h-4 rounded border-gray-600 bg-gray-800 text-amber-500 focus:ring-amber-500/30"
                   />
-                  <span className="text-xs text-gray-300">Solar Mounting Rails (+$2.50/sqft)</span>
+                  <span className="text-xs text-gray-300">Solar Mounting Rails (+${(priceBook.roofingSolarRailsCentsPerSqft / 100).toFixed(2)}/sqft)</span>
                 </label>
               </div>
             )}
@@ -655,13 +969,23 @@ export function BOMPanel({
               onChange={(e) => updateSelection("foundation", e.target.value as FoundationType)}
               className="!bg-gray-800 !text-gray-200 !border-gray-600 text-xs !py-1.5"
             >
-              {Object.entries(FOUNDATION_PRICES).map(([key, { label, baseCents }]) => (
+              {Object.entries(priceBook.foundation).map(([key, { label, baseCents }]) => (
                 <option key={key} value={key}>
-                  {label} {baseCents > 0 ? `($${(baseCents / 100).toLocaleString()})` : ""}
+                  {label} {isPierFoundation(key as FoundationType)
+                    ? "(per pier)"
+                    : baseCents > 0 ? `($${(baseCents / 100).toLocaleString()})` : ""}
                 </option>
               ))}
             </Select>
           </div>
+          {bom.foundation.items.length > 0 && (
+            <>
+              <StructuralTable items={bom.foundation.items} />
+              <p className="text-xs text-gray-500">
+                {formatCurrencyCents(bom.foundation.materialCents)} material + {bom.foundation.laborHours} hrs install ({formatCurrencyCents(bom.foundation.laborCents)})
+              </p>
+            </>
+          )}
         </CollapsibleSection>
 
         {/* Labor */}
@@ -687,6 +1011,11 @@ export function BOMPanel({
                 <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-gray-500">/hr</span>
               </div>
             </div>
+            {bom.labor.rateCents !== selections.laborRateCents && (
+              <p className="text-xs text-gray-500">
+                {bom.region.label} rate: <span className="text-gray-300">${(bom.labor.rateCents / 100).toFixed(2)}/hr</span>
+              </p>
+            )}
             
             <button
               onClick={() => setShowLaborBreakdown(!showLaborBreakdown)}
@@ -753,33 +1082,98 @@ export function BOMPanel({
                 <p className="text-xs text-red-400">ZIP code not found in database</p>
               );
             })()}
-            {bom.delivery.distanceMiles !== null && (
-              <p className="text-xs text-gray-400">
-                Distance from Audubon, IA: <span className="text-amber-400 font-medium">{bom.delivery.distanceMiles} miles</span>
-              </p>
+            {bom.delivery.route !== null && (
+              <>
+                <p className="text-xs text-gray-400">
+                  Road distance from Audubon, IA: <span className="text-amber-400 font-medium">{bom.delivery.route.miles} miles</span>
+                </p>
+                <p className="text-xs text-gray-500">
+                  Route: {bom.delivery.route.states.join(" → ")}
+                </p>
+              </>
             )}
+            {bom.delivery.items.length > 0 && <DeliveryTable items={bom.delivery.items} />}
             <p className="text-xs text-gray-500">
-              Rate: $4.50/mile (min. $500)
+              Rate: ${(priceBook.delivery.centsPerMile / 100).toFixed(2)}/mile per load (min. {formatCurrencyCents(priceBook.delivery.minimumCents)})
+              {bom.delivery.loads > 1 && ` • ${bom.delivery.loads} loads`}
             </p>
           </div>
         </CollapsibleSection>
+
+        {/* Promo code */}
+        <div className="border-b border-gray-700/50 px-3 py-2.5 space-y-2">
+          <label className="block text-xs font-medium text-gray-400">
+            Promo Code
+          </label>
+          {selections.promoCode ? (
+            <div className="flex items-center justify-between rounded-md bg-gray-800/50 border border-gray-700/50 px-2.5 py-2">
+              <span className="text-xs font-medium text-emerald-400">{selections.promoCode}</span>
+              <button
+                onClick={() => updateSelection("promoCode", "")}
+                className="text-xs text-gray-400 hover:text-gray-200 transition-colors"
+              >
+                Remove
+              </button>
+            </div>
+          ) : (
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (promoCodeInput.trim()) {
+                  onApplyPromoCode?.(promoCodeInput.trim());
+                  setPromoCodeInput("");
+                }
+              }}
+            >
+              <Input
+                type="text"
+                value={promoCodeInput}
+                onChange={(e) => setPromoCodeInput(e.target.value.toUpperCase())}
+                placeholder="Enter code"
+                className="!bg-gray-800 !text-gray-200 !border-gray-600 text-xs !py-1.5 flex-1"
+                maxLength={32}
+              />
+              <button
+                type="submit"
+                disabled={isApplyingPromoCode || !promoCodeInput.trim()}
+                className="px-3 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-700/50 text-gray-200 text-xs font-medium rounded-lg transition-colors disabled:cursor-not-allowed"
+              >
+                {isApplyingPromoCode ? "Applying..." : "Apply"}
+              </button>
+            </form>
+          )}
+        </div>
       </div>
 
       {/* Footer Totals */}
       <div className="border-t border-gray-600 bg-gray-800/80 px-4 py-3">
+        {bom.region.match && (
+          <p className="text-xs text-gray-400 mb-2">
+            Regional adjustment for {bom.region.label}: {describeRegionAdjustment(bom.region)} vs. Audubon, IA pricing
+          </p>
+        )}
         <div className="flex justify-between items-center text-sm mb-1">
           <span className="text-gray-400">Subtotal</span>
           <span className="text-gray-200 font-medium">
             {formatCurrencyCents(bom.subtotalCents)}
           </span>
         </div>
-        <div className="flex justify-between items-center text-sm mb-2">
+        <div className="flex justify-between items-center text-sm mb-1">
           <span className="text-gray-400">Contingency (10%)</span>
           <span className="text-gray-200 font-medium">
             {formatCurrencyCents(bom.contingencyCents)}
           </span>
         </div>
-        <div className="flex justify-between items-center pt-2 border-t border-gray-600 mb-4">
+        {getBOMAdjustmentLines(bom).map((line) => (
+          <div key={line.label} className="flex justify-between items-center text-sm mb-1">
+            <span className="text-gray-400">{line.label}</span>
+            <span className={`font-medium ${line.cents < 0 ? "text-emerald-400" : "text-gray-200"}`}>
+              {line.cents < 0 ? `-${formatCurrencyCents(-line.cents)}` : formatCurrencyCents(line.cents)}
+            </span>
+          </div>
+        ))}
+        <div className="flex justify-between items-center mt-1 pt-2 border-t border-gray-600 mb-4">
           <span className="text-base font-semibold text-white">Estimated Total</span>
           <span className="text-lg font-bold text-amber-400">
             {formatCurrencyCents(bom.grandTotalCents)}
@@ -0,0 +1,110 @@
+"use client";
+
+import { getFixtureLevel } from "@/lib/design/composition";
+import { rectCenter, rectFromFixture } from "@/lib/design/geometry";
+import { formatCircuitSlots, type PanelSchedule, type ReceptaclePoint } from "@/lib/design/panel-schedule";
+import type { DesignConfig, FixtureConfig, ModuleCatalogItem } from "@/types/design";
+
+type CircuitOverlayProps = {
+  design: DesignConfig;
+  catalog: Record<string, ModuleCatalogItem>;
+  schedule: PanelSchedule;
+  activeLevel: number;
+  scalePxPerFt: number;
+  originPx: number;
+};
+
+// Cycled per circuit so neighbouring circuits are told apart
+const CIRCUIT_COLORS = ["#f59e0b", "#22d3ee", "#a78bfa", "#34d399", "#f472b6", "#60a5fa", "#facc15", "#fb923c"];
+const RECEPTACLE_RADIUS = 5;
+const PANEL_SIZE_PX = { width: 28, height: 16 };
+
+/**
+ * Branch circuits drawn over the plan: receptacles chained in circuit color,
+ * powered fixtures tagged with their breaker slots, and the panel at the
+ * utility entry. Read-only; ignores pointer events.
+ */
+export function CircuitOverlay({ design, catalog, schedule, activeLevel, scalePxPerFt, originPx }: CircuitOverlayProps) {
+  const toPx = (ft: number) => originPx + ft * scalePxPerFt;
+  const receptaclesById = new Map(schedule.receptacles.map((r) => [r.id, r]));
+  const fixturesById = new Map(design.fixtures.map((f) => [f.id, f]));
+  const panelAt = design.utilityEntry ?? { xFt: 0.5, yFt: 0.5 };
+
+  return (
+    <g pointerEvents="none">
+      {schedule.circuits.map((circuit, index) => {
+        const color = CIRCUIT_COLORS[index % CIRCUIT_COLORS.length];
+        const slots = formatCircuitSlots(circuit);
+        const receptacles = circuit.receptacleIds
+          .map((id) => receptaclesById.get(id))
+          .filter((r): r is ReceptaclePoint => r !== undefined && r.level === activeLevel);
+        const fixtures = circuit.fixtureIds
+          .map((id) => fixturesById.get(id))
+          .filter((f): f is FixtureConfig => f !== undefined && getFixtureLevel(f) === activeLevel && !!catalog[f.catalogKey]);
+
+        return (
+          <g key={`circuit-${slots}`}>
+            {receptacles.length > 1 && (
+              <polyline
+                points={receptacles.map((r) => `${toPx(r.xFt)},${toPx(r.yFt)}`).join(" ")}
+                fill="none"
+                stroke={color}
+                strokeWidth={1.5}
+                strokeDasharray="4 3"
+                opacity={0.7}
+              />
+            )}
+            {receptacles.map((r) => (
+              <g key={r.id}>
+                <circle cx={toPx(r.xFt)} cy={toPx(r.yFt)} r={RECEPTACLE_RADIUS} fill="#0f172a" stroke={color} strokeWidth={1.5} />
+                <line x1={toPx(r.xFt) - 2} y1={toPx(r.yFt) - 2} x2={toPx(r.xFt) - 2} y2={toPx(r.yFt) + 2} stroke={color} strokeWidth={1} />
+                <line x1={toPx(r.xFt) + 2} y1={toPx(r.yFt) - 2} x2={toPx(r.xFt) + 2} y2={toPx(r.yFt) + 2} stroke={color} strokeWidth={1} />
+                <text x={toPx(r.xFt) + RECEPTACLE_RADIUS + 2} y={toPx(r.yFt) - RECEPTACLE_RADIUS} fill={color} fontSize={9}>
+                  {slots}
+                </text>
+              </g>
+            ))}
+            {fixtures.map((f) => {
+              const center = rectCenter(rectFromFixture(f, catalog[f.catalogKey]));
+              return (
+                <g key={f.id}>
+                  <rect
+                    x={toPx(center.x) - 12}
+                    y={toPx(center.y) - 7}
+                    width={24}
+                    height={14}
+                    rx={3}
+                    fill="#0f172a"
+                    stroke={color}
+                    strokeWidth={1.5}
+                    opacity={0.9}
+                  />
+                  <text x={toPx(center.x)} y={toPx(center.y) + 3} fill={color} fontSize={9} textAnchor="middle">
+                    {slots}
+                  </text>
+                </g>
+              );
+            })}
+          </g>
+        );
+      })}
+
+      {activeLevel === 0 && (
+        <g>
+          <rect
+            x={toPx(panelAt.xFt) - PANEL_SIZE_PX.width / 2}
+            y={toPx(panelAt.yFt) - PANEL_SIZE_PX.height / 2}
+            width={PANEL_SIZE_PX.width}
+            height={PANEL_SIZE_PX.height}
+            fill="#1e293b"
+            stroke="#f8fafc"
+            strokeWidth={1.5}
+          />
+          <text x={toPx(panelAt.xFt)} y={toPx(panelAt.yFt) + 3} fill="#f8fafc" fontSize={8} textAnchor="middle">
+            {schedule.mainBreakerAmps}A
+          </text>
+        </g>
+      )}
+    </g>
+  );
+}
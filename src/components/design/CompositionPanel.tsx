@@ -0,0 +1,185 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import {
+  SHELL_ARRANGEMENT_LABELS,
+  getLevels,
+  getPlacedShells,
+  getShellSeams,
+  isSeamRemoved,
+} from "@/lib/design/composition";
+import { DEFAULT_SHELL_KEY, SHELL_CATALOG, getShellSpec } from "@/lib/design/shell-catalog";
+import type { DesignAction, DesignConfig, ShellArrangement } from "@/types/design";
+
+export type CompositionPanelProps = {
+  design: DesignConfig;
+  activeLevel: number;
+  dispatch: (action: DesignAction) => void;
+};
+
+const selectClassName =
+  "w-full rounded-lg border border-surface-muted/60 bg-white px-3 py-2 text-sm text-foreground focus:border-forest focus:outline-none focus:ring-2 focus:ring-forest/20";
+
+/**
+ * Join more containers to the design: add shells beside, behind or on top of
+ * the main one, open up the walls they share, and pick the level to edit.
+ */
+export function CompositionPanel({ design, activeLevel, dispatch }: CompositionPanelProps) {
+  const [shellKey, setShellKey] = useState(DEFAULT_SHELL_KEY);
+  const [arrangement, setArrangement] = useState<ShellArrangement>("side-by-side");
+
+  const placed = getPlacedShells(design);
+  const seams = getShellSeams(design);
+  const levels = getLevels(design);
+  const shellName = (id: string) => `Container ${placed.findIndex((p) => p.id === id) + 1}`;
+
+  const toggleSeam = (seam: (typeof seams)[number]) => {
+    const openings = (design.shellOpenings ?? []).filter(
+      (o) => o.shellIds.includes(seam.shellIds[0]) && o.shellIds.includes(seam.shellIds[1])
+    );
+    if (openings.length > 0) {
+      openings.forEach((o) => dispatch({ type: "REMOVE_SHELL_OPENING", id: o.id }));
+    } else {
+      dispatch({
+        type: "ADD_SHELL_OPENING",
+        shellIds: seam.shellIds,
+        offsetFt: 0,
+        lengthFt: seam.endFt - seam.startFt,
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-surface-muted/60 bg-white p-4">
+      <p className="text-xs font-semibold uppercase tracking-[0.3em] text-foreground/60">
+        Composition
+      </p>
+
+      {placed.length > 1 && (
+        <div className="space-y-2">
+          {placed.map((p, i) => (
+            <div key={p.id} className="space-y-1 rounded-lg border border-surface-muted/40 p-2">
+              <div className="flex items-center justify-between text-xs">
+                <span className="font-semibold text-foreground">
+                  {shellName(p.id)} · {getShellSpec(p.shell).label}
+                </span>
+                <span className="text-foreground/60">
+                  {i === 0 ? "Main" : `Level ${p.level + 1}${p.rotationDeg === 90 ? " · turned" : ""}`}
+                </span>
+              </div>
+              {i > 0 && (
+                <div className="grid grid-cols-[1fr_1fr_auto] items-end gap-2">
+                  <div className="space-y-1">
+                    <label className="text-[10px] text-foreground/60">X (ft)</label>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={p.xFt}
+                      onChange={(e) =>
+                        dispatch({ type: "UPDATE_SHELL", id: p.id, updates: { xFt: Math.max(0, parseFloat(e.target.value) || 0) } })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-[10px] text-foreground/60">Y (ft)</label>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={p.yFt}
+                      onChange={(e) =>
+                        dispatch({ type: "UPDATE_SHELL", id: p.id, updates: { yFt: Math.max(0, parseFloat(e.target.value) || 0) } })
+                      }
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => dispatch({ type: "REMOVE_SHELL", id: p.id })}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {seams.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-[10px] uppercase tracking-wide text-foreground/60">Shared walls</p>
+          {seams.map((seam) => {
+            const removed = isSeamRemoved(design, seam);
+            const partial = !removed && (design.shellOpenings ?? []).some(
+              (o) => o.shellIds.includes(seam.shellIds[0]) && o.shellIds.includes(seam.shellIds[1])
+            );
+            return (
+              <div key={seam.shellIds.join("-")} className="flex items-center justify-between text-xs">
+                <span className="text-foreground/80">
+                  {shellName(seam.shellIds[0])} / {shellName(seam.shellIds[1])} ·{" "}
+                  {(seam.endFt - seam.startFt).toFixed(1)}&apos;
+                </span>
+                <Button type="button" size="sm" variant="outline" onClick={() => toggleSeam(seam)}>
+                  {removed || partial ? "Close wall" : "Open wall"}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <select value={shellKey} onChange={(e) => setShellKey(e.target.value)} className={selectClassName}>
+          {SHELL_CATALOG.map((item) => (
+            <option key={item.key} value={item.key}>
+              {item.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={arrangement}
+          onChange={(e) => setArrangement(e.target.value as ShellArrangement)}
+          className={selectClassName}
+        >
+          {(Object.keys(SHELL_ARRANGEMENT_LABELS) as ShellArrangement[]).map((key) => (
+            <option key={key} value={key}>
+              {SHELL_ARRANGEMENT_LABELS[key]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <Button
+        type="button"
+        size="sm"
+        className="w-full"
+        onClick={() => dispatch({ type: "ADD_SHELL", shellKey, arrangement })}
+      >
+        Add container
+      </Button>
+
+      {levels.length > 1 && (
+        <div className="space-y-1">
+          <p className="text-[10px] uppercase tracking-wide text-foreground/60">Editing level</p>
+          <div className="flex gap-1">
+            {levels.map((level) => (
+              <Button
+                key={level}
+                type="button"
+                size="sm"
+                variant={level === activeLevel ? "primary" : "outline"}
+                onClick={() => dispatch({ type: "SET_ACTIVE_LEVEL", level })}
+              >
+                {level + 1}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,17 +3,24 @@
 import { useCallback, useEffect, useMemo, useReducer, useState } from "react";
 import { useRouter } from "next/navigation";
 import type {
+  AlignMode,
+  ButtDirection,
   DesignConfig,
   DesignEditorState,
+  DistributeAxis,
   ModuleCatalogEntry,
   ModuleCatalogItem,
 } from "@/types/design";
-import type { BOMSelections } from "@/types/bom";
+import type { BOMSelections, Discount, PriceBook } from "@/types/bom";
 import { DEFAULT_BOM_SELECTIONS } from "@/types/bom";
 import { useToast } from "@/components/providers/ToastProvider";
 import { FixtureCanvas } from "./FixtureCanvas";
 import { FixtureLibrary } from "./FixtureLibrary";
 import { FixtureInspector } from "./FixtureInspector";
+import { ArrayPlacePanel } from "./ArrayPlacePanel";
+import { ShellPicker } from "./ShellPicker";
+import { CompositionPanel } from "./CompositionPanel";
+import { ValidationPanel } from "./ValidationPanel";
 import { LayersPanel } from "./LayersPanel";
 import { Toolbar, ToolType } from "./Toolbar";
 import { StatusBar } from "./StatusBar";
@@ -33,8 +40,18 @@ import { designEditorReducer } from "@/lib/design/editor-reducer";
 import { generatePDF } from "@/lib/design/pdf-export";
 import { entriesToCatalogMap } from "@/lib/design/catalog-utils";
 import { validateDesign } from "@/lib/design/validation";
-import { priceDesign } from "@/lib/design/pricing";
-import { rectFromFixture } from "@/lib/design/geometry";
+import { getCodeRulePackForZip } from "@/lib/design/code-rules";
+import { calculateBOM } from "@/lib/design/bom-calculator";
+import { getPanelSchedule } from "@/lib/design/panel-schedule";
+import { applyWasteSystem } from "@/lib/design/utility-packages";
+import { FINE_ROTATION_STEP_DEG, normalizeRotation, rectFromFixture } from "@/lib/design/geometry";
+import { getGroupFixtureIds, getRootGroupId } from "@/lib/design/groups";
+import {
+  createClipboardPayload,
+  getFixtureFootprints,
+  parseClipboardPayload,
+  serializeClipboardPayload,
+} from "@/lib/design/clipboard";
 import { Button } from "@/components/ui/Button";
 
 export type DesignStudioProps = {
@@ -44,6 +61,9 @@ export type DesignStudioProps = {
   initialDesignName?: string | null;
   designId?: string | null;
   initialBomSelections?: BOMSelections | null;
+  priceBook: PriceBook;
+  // Running discounts at page load; promo codes entered later are added
+  discounts: Discount[];
 };
 
 export function DesignStudio({
@@ -53,6 +73,8 @@ export function DesignStudio({
   initialDesignName,
   designId,
   initialBomSelections,
+  priceBook,
+  discounts: initialDiscounts,
 }: DesignStudioProps) {
   const [designName, setDesignName] = useState(
     initialDesignName ?? "Untitled Design"
@@ -64,13 +86,20 @@ export function DesignStudio({
   const [cursorPos, setCursorPos] = useState<{ x: number; y: number } | null>(null);
   const [zoneEditMode, setZoneEditMode] = useState(false);
   const [debugEnabled, setDebugEnabled] = useState(false);
+  const [circuitsVisible, setCircuitsVisible] = useState(false);
+  const [plumbingVisible, setPlumbingVisible] = useState(false);
+  const [sitePlanVisible, setSitePlanVisible] = useState(false);
   const [debugLogs, setDebugLogs] = useState<DebugLog[]>([]);
   const [pendingPlacement, setPendingPlacement] = useState<ModuleCatalogItem | null>(null);
-  const [pendingPlacementRotation, setPendingPlacementRotation] = useState<0 | 90 | 180 | 270>(0);
+  const [pendingPlacementRotation, setPendingPlacementRotation] = useState(0);
   const [editingAnnotationId, setEditingAnnotationId] = useState<string | null>(null);
-  const [bomSelections, setBomSelections] = useState<BOMSelections>(
-    initialBomSelections ?? DEFAULT_BOM_SELECTIONS
-  );
+  // Designs saved before a selection existed get its default
+  const [bomSelections, setBomSelections] = useState<BOMSelections>({
+    ...DEFAULT_BOM_SELECTIONS,
+    ...initialBomSelections,
+  });
+  const [discounts, setDiscounts] = useState(initialDiscounts);
+  const [isApplyingPromoCode, setIsApplyingPromoCode] = useState(false);
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [showSaveConfirmModal, setShowSaveConfirmModal] = useState(false);
   const [showLeaveConfirmModal, setShowLeaveConfirmModal] = useState(false);
@@ -204,16 +233,37 @@ export function DesignStudio({
 
   const { design } = editorState;
 
+  // Residential code pack follows the delivery state
+  const codeRulePack = useMemo(
+    () => getCodeRulePackForZip(bomSelections.deliveryZip),
+    [bomSelections.deliveryZip]
+  );
+
+  // Toilets as the selected waste system plumbs and powers them
+  const fixtureCatalog = useMemo(
+    () => applyWasteSystem(catalog, bomSelections.wasteSystem),
+    [catalog, bomSelections.wasteSystem]
+  );
+
   const validationIssues = useMemo(
-    () => validateDesign(design, catalog),
-    [design, catalog]
+    () => validateDesign(design, fixtureCatalog, { codeRulePack }),
+    [design, fixtureCatalog, codeRulePack]
+  );
+
+  // Saved designs carry the full BOM total and the price book it came from
+  const bom = useMemo(
+    () => calculateBOM(design, catalog, bomSelections, priceBook, discounts),
+    [design, catalog, bomSelections, priceBook, discounts]
   );
 
-  const priceSummary = useMemo(
-    () => priceDesign(design, catalog),
-    [design, catalog]
+  const panelSchedule = useMemo(
+    () => (circuitsVisible ? getPanelSchedule(design, fixtureCatalog, bom.electrical.thermal.equipment) : null),
+    [circuitsVisible, design, fixtureCatalog, bom]
   );
 
+  // Shown while placing the utility entry so the runs follow it
+  const plumbingRouting = plumbingVisible || activeTool === "utility" ? bom.plumbing.routing : null;
+
   const selectedFixture = design.fixtures.find(
     (f) => f.id === editorState.primarySelectedId
   );
@@ -283,6 +333,98 @@ export function DesignStudio({
     dispatch({ type: "REDO" });
   }, []);
 
+  const handleCopy = useCallback(() => {
+    const footprints = getFixtureFootprints(design, editorState.selectedIds, catalog);
+    if (Object.keys(footprints).length === 0) return;
+    dispatch({ type: "COPY_SELECTION", footprints });
+    // Also put the payload on the system clipboard so it can be pasted into another design
+    const fixtures = design.fixtures.filter((f) => footprints[f.id]);
+    const payload = createClipboardPayload(fixtures, footprints);
+    if (payload) {
+      navigator.clipboard?.writeText(serializeClipboardPayload(payload)).catch(() => {
+        // Clipboard permission denied - the in-editor clipboard still works
+      });
+    }
+  }, [design, editorState.selectedIds, catalog]);
+
+  const handlePaste = useCallback(async () => {
+    let text: string | null = null;
+    try {
+      text = (await navigator.clipboard?.readText()) ?? null;
+    } catch {
+      text = null;
+    }
+    const payload = text ? parseClipboardPayload(text) : null;
+    dispatch({ type: "PASTE", payload: payload ?? undefined });
+  }, []);
+
+  const handleDuplicate = useCallback(() => {
+    const footprints = getFixtureFootprints(design, editorState.selectedIds, catalog);
+    if (Object.keys(footprints).length === 0) return;
+    dispatch({ type: "DUPLICATE", footprints });
+  }, [design, editorState.selectedIds, catalog]);
+
+  const handleArrayPlace = useCallback(
+    (columns: number, rows: number, gapXFt: number, gapYFt: number) => {
+      const footprints = getFixtureFootprints(design, editorState.selectedIds, catalog);
+      if (Object.keys(footprints).length === 0) return;
+      dispatch({ type: "ARRAY_PLACE", footprints, columns, rows, gapXFt, gapYFt });
+    },
+    [design, editorState.selectedIds, catalog]
+  );
+
+  const handleGroup = useCallback(() => {
+    dispatch({ type: "GROUP" });
+  }, []);
+
+  const handleUngroup = useCallback(() => {
+    dispatch({ type: "UNGROUP" });
+  }, []);
+
+  const handleAlign = useCallback((mode: AlignMode) => {
+    const footprints = getFixtureFootprints(design, editorState.selectedIds, catalog);
+    dispatch({ type: "ALIGN_SELECTION", mode, footprints });
+  }, [design, editorState.selectedIds, catalog]);
+
+  const handleDistribute = useCallback((axis: DistributeAxis) => {
+    const footprints = getFixtureFootprints(design, editorState.selectedIds, catalog);
+    dispatch({ type: "DISTRIBUTE_SELECTION", axis, footprints });
+  }, [design, editorState.selectedIds, catalog]);
+
+  const handleButt = useCallback((direction: ButtDirection) => {
+    // Only fixtures on the same mount layer block the slide (uppers don't stop base cabinets)
+    const mounts = new Set(
+      design.fixtures
+        .filter((f) => editorState.selectedIds.includes(f.id))
+        .map((f) => catalog[f.catalogKey]?.mount)
+    );
+    const ids = design.fixtures
+      .filter((f) => editorState.selectedIds.includes(f.id) || mounts.has(catalog[f.catalogKey]?.mount))
+      .map((f) => f.id);
+    dispatch({
+      type: "BUTT_SELECTION",
+      direction,
+      footprints: getFixtureFootprints(design, ids, catalog),
+    });
+  }, [design, editorState.selectedIds, catalog]);
+
+  const handleShellChange = useCallback((shellKey: string) => {
+    const footprints = getFixtureFootprints(design, design.fixtures.map((f) => f.id), catalog);
+    dispatch({ type: "SET_SHELL", shellKey, footprints });
+  }, [design, catalog]);
+
+  const handleMatchSize = useCallback(() => {
+    const primary = design.fixtures.find((f) => f.id === editorState.primarySelectedId);
+    const primaryItem = primary ? catalog[primary.catalogKey] : undefined;
+    if (!primary || !primaryItem) return;
+    const overrides = (primary.properties as { lengthOverrideFt?: number; widthOverrideFt?: number }) ?? {};
+    dispatch({
+      type: "MATCH_SIZE",
+      lengthFt: overrides.lengthOverrideFt ?? primaryItem.footprintFt.length,
+      widthFt: overrides.widthOverrideFt ?? primaryItem.footprintFt.width,
+    });
+  }, [design, editorState.primarySelectedId, catalog]);
+
   const handleDelete = useCallback(() => {
     // Delete all selected fixtures
     editorState.selectedIds.forEach((id) => {
@@ -290,16 +432,29 @@ export function DesignStudio({
     });
   }, [editorState.selectedIds]);
 
-  const handleRotate = useCallback(() => {
-    // Rotate all selected fixtures by 90 degrees
+  const handleRotate = useCallback((stepDeg = 90) => {
+    // Rotate all selected fixtures clockwise by stepDeg; fully selected groups
+    // turn as one unit, and only in quarter turns
+    const rotatedGroups = new Set<string>();
     editorState.selectedIds.forEach((id) => {
       const fixture = design.fixtures.find((f) => f.id === id);
-      if (fixture) {
-        const newRotation = ((fixture.rotationDeg || 0) + 90) % 360 as 0 | 90 | 180 | 270;
-        dispatch({ type: "UPDATE_FIXTURE_ROTATION", id, rotationDeg: newRotation });
+      if (!fixture || fixture.locked) return;
+
+      const groupId = getRootGroupId(design, id);
+      if (groupId && getGroupFixtureIds(design, groupId).every((member) => editorState.selectedIds.includes(member))) {
+        if (stepDeg !== 90 || rotatedGroups.has(groupId)) return;
+        rotatedGroups.add(groupId);
+        dispatch({
+          type: "ROTATE_GROUP",
+          id: groupId,
+          footprints: getFixtureFootprints(design, getGroupFixtureIds(design, groupId), catalog),
+        });
+        return;
       }
+
+      dispatch({ type: "UPDATE_FIXTURE_ROTATION", id, rotationDeg: (fixture.rotationDeg || 0) + stepDeg });
     });
-  }, [editorState.selectedIds, design.fixtures]);
+  }, [editorState.selectedIds, design, catalog]);
 
   // Track the "anchor" fixture for Tab cycling (the fixture we started cycling from)
   const [tabCycleAnchorId, setTabCycleAnchorId] = useState<string | null>(null);
@@ -420,6 +575,77 @@ export function DesignStudio({
         return;
       }
 
+      // Ctrl+C / Cmd+C = Copy selected fixtures
+      if ((e.ctrlKey || e.metaKey) && (e.key === "c" || e.key === "C")) {
+        if (editorState.selectedIds.length === 0) return;
+        e.preventDefault();
+        handleCopy();
+        return;
+      }
+
+      // Ctrl+V / Cmd+V = Paste (system clipboard first, then the editor clipboard)
+      if ((e.ctrlKey || e.metaKey) && (e.key === "v" || e.key === "V")) {
+        e.preventDefault();
+        void handlePaste();
+        return;
+      }
+
+      // Ctrl+G / Cmd+G = Group, Ctrl+Shift+G / Cmd+Shift+G = Ungroup
+      if ((e.ctrlKey || e.metaKey) && (e.key === "g" || e.key === "G")) {
+        e.preventDefault();
+        if (e.shiftKey) {
+          handleUngroup();
+        } else {
+          handleGroup();
+        }
+        return;
+      }
+
+      // Ctrl+D / Cmd+D = Duplicate selected fixtures
+      if ((e.ctrlKey || e.metaKey) && (e.key === "d" || e.key === "D")) {
+        e.preventDefault();
+        handleDuplicate();
+        return;
+      }
+
+      // Alt+Arrows = Align selection edges, Alt+C / Alt+M = Align centers / middles
+      // Alt+Shift+H / Alt+Shift+V = Distribute horizontally / vertically
+      // (e.code, since Alt changes e.key on macOS)
+      if (e.altKey && !e.ctrlKey && !e.metaKey && editorState.selectedIds.length > 1) {
+        const alignByKey: Record<string, AlignMode> = {
+          ArrowLeft: "left",
+          ArrowRight: "right",
+          ArrowUp: "top",
+          ArrowDown: "bottom",
+          KeyC: "center-x",
+          KeyM: "center-y",
+        };
+        if (e.shiftKey && (e.code === "KeyH" || e.code === "KeyV")) {
+          e.preventDefault();
+          handleDistribute(e.code === "KeyH" ? "horizontal" : "vertical");
+          return;
+        }
+        if (!e.shiftKey && alignByKey[e.code]) {
+          e.preventDefault();
+          handleAlign(alignByKey[e.code]);
+          return;
+        }
+      }
+
+      // Ctrl+Arrows / Cmd+Arrows = Butt selection against the next fixture or wall
+      if ((e.ctrlKey || e.metaKey) && editorState.selectedIds.length > 0 &&
+        ["ArrowUp", "ArrowDown", "ArrowLeft", "ArrowRight"].includes(e.key)) {
+        e.preventDefault();
+        const directionByKey: Record<string, ButtDirection> = {
+          ArrowLeft: "left",
+          ArrowRight: "right",
+          ArrowUp: "up",
+          ArrowDown: "down",
+        };
+        handleButt(directionByKey[e.key]);
+        return;
+      }
+
       // Escape = Cancel placement mode, wall drawing, annotation editing, or deselect
       if (e.key === "Escape") {
         e.preventDefault();
@@ -460,6 +686,10 @@ export function DesignStudio({
         setActiveTool("annotate");
         return;
       }
+      if (e.key === "u" || e.key === "U") {
+        setActiveTool("utility");
+        return;
+      }
 
       // Delete/Backspace = Remove selected fixture(s) or annotation
       if (e.key === "Delete" || e.key === "Backspace") {
@@ -519,30 +749,18 @@ export function DesignStudio({
         return;
       }
 
-      // R = Rotate pending placement by 90 degrees
+      // R = Rotate pending placement by 90 degrees (Shift+R by 15)
       if ((e.key === "r" || e.key === "R") && pendingPlacement) {
         e.preventDefault();
-        setPendingPlacementRotation(prev => ((prev + 90) % 360) as 0 | 90 | 180 | 270);
+        const step = e.shiftKey ? FINE_ROTATION_STEP_DEG : 90;
+        setPendingPlacementRotation(prev => normalizeRotation(prev + step));
         return;
       }
 
-      // R = Rotate selected fixture(s) by 90 degrees
+      // R = Rotate selected fixture(s) by 90 degrees (Shift+R by 15)
       if ((e.key === "r" || e.key === "R") && editorState.selectedIds.length > 0) {
         e.preventDefault();
-        editorState.selectedIds.forEach(fixtureId => {
-          const fixture = design.fixtures.find(f => f.id === fixtureId);
-          if (!fixture || fixture.locked) return;
-
-          // Cycle through 0, 90, 180, 270
-          const currentRotation = fixture.rotationDeg || 0;
-          const newRotation = ((currentRotation + 90) % 360) as 0 | 90 | 180 | 270;
-
-          dispatch({
-            type: "UPDATE_FIXTURE_ROTATION",
-            id: fixtureId,
-            rotationDeg: newRotation,
-          });
-        });
+        handleRotate(e.shiftKey ? FINE_ROTATION_STEP_DEG : 90);
         return;
       }
     };
@@ -550,7 +768,7 @@ export function DesignStudio({
     // Use capture: true to catch events before they're consumed by browser/extensions
     window.addEventListener("keydown", handleKeyDown, { capture: true });
     return () => window.removeEventListener("keydown", handleKeyDown, { capture: true });
-  }, [handleUndo, handleRedo, handleTabCycle, editorState.selectedIds, editorState.selectedAnnotationId, editorState.snapIncrement, editorState.wallDraw, viewMode, design.fixtures, catalog, addDebugLog, pendingPlacement, editingAnnotationId]);
+  }, [handleUndo, handleRedo, handleTabCycle, handleCopy, handlePaste, handleDuplicate, handleAlign, handleDistribute, handleButt, handleRotate, handleGroup, handleUngroup, editorState.selectedIds, editorState.selectedAnnotationId, editorState.snapIncrement, editorState.wallDraw, viewMode, design.fixtures, catalog, addDebugLog, pendingPlacement, editingAnnotationId]);
 
   const handleSaveDesign = async () => {
     // Show auth modal if user is not logged in
@@ -570,7 +788,8 @@ export function DesignStudio({
             name: designName,
             configJson: design,
             bomSelectionsJson: bomSelections,
-            priceCents: priceSummary.subtotalCents,
+            priceCents: bom.grandTotalCents,
+            priceBookVersion: priceBook.version,
           }),
         }
       );
@@ -610,7 +829,8 @@ export function DesignStudio({
           name: designName,
           configJson: design,
           bomSelectionsJson: bomSelections,
-          priceCents: priceSummary.subtotalCents,
+          priceCents: bom.grandTotalCents,
+          priceBookVersion: priceBook.version,
         }),
       });
 
@@ -740,7 +960,8 @@ export function DesignStudio({
           name: designName,
           configJson: design,
           bomSelectionsJson: bomSelections,
-          priceCents: priceSummary.subtotalCents,
+          priceCents: bom.grandTotalCents,
+          priceBookVersion: priceBook.version,
         }),
       });
 
@@ -788,7 +1009,8 @@ export function DesignStudio({
           name: designName,
           configJson: design,
           bomSelectionsJson: bomSelections,
-          priceCents: priceSummary.subtotalCents,
+          priceCents: bom.grandTotalCents,
+          priceBookVersion: priceBook.version,
         }),
       });
 
@@ -835,6 +1057,33 @@ export function DesignStudio({
     }
   };
 
+  // Check a promo code with the server and apply its discount
+  const handleApplyPromoCode = async (code: string) => {
+    setIsApplyingPromoCode(true);
+    try {
+      const response = await fetch("/api/promo-codes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        showToast({ variant: "error", title: "Promo code not applied", description: payload?.error ?? "Please check the code and try again." });
+        return;
+      }
+
+      const discount: Discount = payload.discount;
+      setDiscounts((prev) => [...prev.filter((item) => item.id !== discount.id), discount]);
+      setBomSelections((prev) => ({ ...prev, promoCode: discount.code ?? "" }));
+      showToast({ variant: "success", title: "Promo code applied", description: discount.label });
+    } catch (error) {
+      console.error("Promo code error:", error);
+      showToast({ variant: "error", title: "Promo code not applied", description: "Please try again." });
+    } finally {
+      setIsApplyingPromoCode(false);
+    }
+  };
+
   // Handle PDF Export
   const handleExportPDF = async () => {
     setIsExportingPDF(true);
@@ -847,6 +1096,8 @@ export function DesignStudio({
         design,
         catalog,
         bomSelections,
+        priceBook,
+        discounts,
         canvasElement,
       });
 
@@ -872,12 +1123,25 @@ export function DesignStudio({
           canRedo={editorState.future.length > 0}
           onDelete={handleDelete}
           canDelete={editorState.selectedIds.length > 0}
-          onRotate={handleRotate}
+          onRotate={() => handleRotate()}
           canRotate={editorState.selectedIds.length > 0}
+          selectionCount={editorState.selectedIds.length}
+          onAlign={handleAlign}
+          onDistribute={handleDistribute}
+          onButt={handleButt}
+          onMatchSize={handleMatchSize}
+          onGroup={handleGroup}
+          onUngroup={handleUngroup}
           activeTool={activeTool}
           onToolChange={setActiveTool}
           onToggleDebug={() => setDebugEnabled((prev) => !prev)}
           debugEnabled={debugEnabled}
+          onToggleCircuits={() => setCircuitsVisible((prev) => !prev)}
+          circuitsVisible={circuitsVisible}
+          onTogglePlumbing={() => setPlumbingVisible((prev) => !prev)}
+          plumbingVisible={plumbingVisible}
+          onToggleSitePlan={() => setSitePlanVisible((prev) => !prev)}
+          sitePlanVisible={sitePlanVisible}
           onHomeClick={() => setShowLeaveConfirmModal(true)}
           onShowHelp={handleShowHelp}
         />
@@ -948,6 +1212,10 @@ export function DesignStudio({
             onPlaceFixture={handlePlaceFixture}
             onEditAnnotation={(id) => setEditingAnnotationId(id)}
             onAnnotationPlaced={() => setActiveTool("select")}
+            activeLevel={editorState.activeLevel ?? 0}
+            panelSchedule={panelSchedule}
+            plumbingRouting={plumbingRouting}
+            foundation={sitePlanVisible ? bom.foundation : null}
             onAddFixtureAt={(catalogKey, coords) => {
               const zoneId = design.zones.find(
                 (zone) =>
@@ -974,6 +1242,10 @@ export function DesignStudio({
             pendingPlacementRotation={pendingPlacementRotation}
             onPlaceFixture={handlePlaceFixture}
             onSelectFixture={(id) => dispatch({ type: "SELECT_FIXTURE", id })}
+            onMoveFixtures={(ids, deltaFt) =>
+              dispatch({ type: "MOVE_FIXTURES", ids, deltaXFt: deltaFt.x, deltaYFt: deltaFt.y })
+            }
+            plumbing={plumbingRouting}
             onUpdateFixture={(id, updates) => {
               const fixture = design.fixtures.find((f) => f.id === id);
               if (!fixture) return;
@@ -1092,6 +1364,34 @@ export function DesignStudio({
             </p>
           </div>
 
+          {/* Container size */}
+          <ShellPicker shell={design.shell} priceBook={priceBook} onChange={handleShellChange} />
+
+          {/* Joined / stacked containers */}
+          <CompositionPanel
+            design={design}
+            activeLevel={editorState.activeLevel ?? 0}
+            dispatch={dispatch}
+          />
+
+          {/* Validation */}
+          <div className="rounded-xl border border-surface-muted/60 bg-white p-4">
+            <ValidationPanel
+              issues={validationIssues}
+              dispatch={dispatch}
+              codeEdition={codeRulePack?.edition}
+            />
+          </div>
+
+          {/* Duplicate / array place */}
+          {editorState.selectedIds.length > 0 && (
+            <ArrayPlacePanel
+              selectedCount={editorState.selectedIds.length}
+              onDuplicate={handleDuplicate}
+              onArrayPlace={handleArrayPlace}
+            />
+          )}
+
           {/* Inspector */}
           {selectedFixture && selectedCatalogItem ? (
             <FixtureInspector
@@ -1131,7 +1431,11 @@ export function DesignStudio({
           design={design} 
           catalog={catalog} 
           selections={bomSelections}
+          priceBook={priceBook}
+          discounts={discounts}
           onSelectionsChange={setBomSelections}
+          onApplyPromoCode={handleApplyPromoCode}
+          isApplyingPromoCode={isApplyingPromoCode}
           designName={designName}
           onSubmitProposal={handleSubmitProposal}
           onExportPDF={handleExportPDF}
@@ -1161,6 +1465,7 @@ export function DesignStudio({
             zoneEditMode={zoneEditMode}
             onZoneEditModeChange={setZoneEditMode}
             selectedZoneId={editorState.selectedZoneId}
+            selectedIds={editorState.selectedIds}
           />
         </DockablePanel>
       )}
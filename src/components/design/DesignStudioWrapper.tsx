@@ -1,9 +1,11 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
 import { useSearchParams } from "next/navigation";
-import type { DesignConfig, ModuleCatalogEntry } from "@/types/design";
-import type { BOMSelections } from "@/types/bom";
+import type { DesignConfig, ModuleCatalogEntry, ShellCatalogItem } from "@/types/design";
+import type { BOMSelections, Discount, PriceBook } from "@/types/bom";
+import { shellConfigFromCatalog } from "@/lib/design/shell-catalog";
 import { TemplateSelector } from "./TemplateSelector";
 import { DesignStudio } from "./DesignStudio";
 import { SiteHeader } from "@/components/layout/SiteHeader";
@@ -14,25 +16,24 @@ export type DesignStudioWrapperProps = {
   initialDesign?: DesignConfig | null;
   initialDesignName?: string | null;
   initialBomSelections?: BOMSelections | null;
+  // The saved design failed validation and is shown as an error, not edited
+  loadError?: string | null;
+  priceBook: PriceBook;
+  discounts: Discount[];
 };
 
-function createBlankDesign(): DesignConfig {
+function createBlankDesign(shell: ShellCatalogItem): DesignConfig {
   return {
-    version: 1,
-    shell: {
-      id: "shell-40",
-      lengthFt: 40,
-      widthFt: 8,
-      heightFt: 9.5,
-    },
+    version: 2,
+    shell: shellConfigFromCatalog(shell),
     zones: [
       {
         id: "zone-1",
         name: "Main Area",
         xFt: 0,
         yFt: 0,
-        lengthFt: 40,
-        widthFt: 8,
+        lengthFt: shell.lengthFt,
+        widthFt: shell.widthFt,
       },
     ],
     fixtures: [],
@@ -45,6 +46,9 @@ export function DesignStudioWrapper({
   initialDesign,
   initialDesignName,
   initialBomSelections,
+  loadError,
+  priceBook,
+  discounts,
 }: DesignStudioWrapperProps) {
   const searchParams = useSearchParams();
   const [selectedDesign, setSelectedDesign] = useState<DesignConfig | null>(
@@ -54,6 +58,35 @@ export function DesignStudioWrapper({
     initialDesignName ?? null
   );
 
+  // A saved design that can't be opened must not fall through to a new one,
+  // which would be saved over it under the same name
+  if (loadError) {
+    return (
+      <>
+        <SiteHeader />
+        <div className="min-h-screen bg-slate-950 pt-[56px]">
+          <div className="container mx-auto px-4 py-8 max-w-xl">
+            <div className="rounded-3xl border border-surface-muted/60 bg-white p-8 text-center shadow-2xl">
+              <h1 className="text-2xl font-bold text-foreground">This design can&apos;t be opened</h1>
+              <p className="mt-2 text-sm text-red-600">{loadError}</p>
+              <p className="mt-2 text-sm text-foreground/60">
+                It has been left as it was saved. Contact us to have it repaired, or start a new design.
+              </p>
+              <div className="mt-6 flex justify-center gap-4">
+                <Link href="/account/designs" className="text-sm font-semibold text-forest hover:text-forest/80">
+                  Back to my designs
+                </Link>
+                <Link href="/design" className="text-sm font-semibold text-forest hover:text-forest/80">
+                  Start a new design
+                </Link>
+              </div>
+            </div>
+          </div>
+        </div>
+      </>
+    );
+  }
+
   // If we have an initial design (editing existing), skip template selector
   if (initialDesign) {
     // Extract design ID from URL if editing
@@ -67,6 +100,8 @@ export function DesignStudioWrapper({
         initialDesignName={initialDesignName}
         designId={designId}
         initialBomSelections={initialBomSelections}
+        priceBook={priceBook}
+        discounts={discounts}
       />
     );
   }
@@ -77,12 +112,14 @@ export function DesignStudioWrapper({
       <>
         <SiteHeader />
         <TemplateSelector
-          onSelectTemplate={(design) => {
+          modules={modules}
+          priceBook={priceBook}
+          onSelectTemplate={(design, shell) => {
             if (design) {
               setSelectedDesign(design);
               setSelectedName("Custom Design");
             } else {
-              setSelectedDesign(createBlankDesign());
+              setSelectedDesign(createBlankDesign(shell));
               setSelectedName("Blank Design");
             }
           }}
@@ -99,7 +136,9 @@ export function DesignStudioWrapper({
       initialDesign={selectedDesign}
       initialDesignName={selectedName}
       designId={null}
-      initialBomSelections={null}
+      initialBomSelections={initialBomSelections}
+      priceBook={priceBook}
+      discounts={discounts}
     />
   );
 }
@@ -4,6 +4,7 @@
  */
 
 import type { FixtureConfig, ModuleCatalogItem } from "@/types/design";
+import { normalizeRotation, rectFromFixture, type DoorSwing } from "@/lib/design/geometry";
 
 const BASE_SCALE = 32; // pixels per foot
 
@@ -17,6 +18,8 @@ type Fixture2DProps = {
   isSelected: boolean;
   hasError: boolean;
   isHovered: boolean;
+  // Actual swing for door fixtures (feet-space); drawn instead of the generic arc
+  doorSwing?: DoorSwing | null;
 };
 
 export function Fixture2DRenderer({
@@ -29,11 +32,15 @@ export function Fixture2DRenderer({
   isSelected,
   hasError,
   isHovered,
+  doorSwing,
 }: Fixture2DProps) {
-  const { rotationDeg } = fixture;
+  const rotationDeg = normalizeRotation(fixture.rotationDeg);
   const isRotated = rotationDeg === 90 || rotationDeg === 270;
-  // When fixture is rotated 180 degrees, text appears upside down - need to counter-rotate
-  const needs180Fix = rotationDeg === 180;
+  // Text turned past a quarter turn reads upside down - need to counter-rotate
+  const needs180Fix = rotationDeg > 90 && rotationDeg < 270;
+  const mirrorScaleX = fixture.mirrorX ? -1 : 1;
+  const mirrorScaleY = fixture.mirrorY ? -1 : 1;
+  const isMirrored = mirrorScaleX < 0 || mirrorScaleY < 0;
 
   // Calculate center of the bounding box
   const cx = bboxX + bboxWidth / 2;
@@ -42,16 +49,29 @@ export function Fixture2DRenderer({
   // Determine the dimensions to use for drawing the UNROTATED shape
   // If rotated, the bbox dimensions are swapped relative to the original shape.
   // So we swap them back to get the original shape's width/height.
-  const width = isRotated ? bboxHeight : bboxWidth;
-  const height = isRotated ? bboxWidth : bboxHeight;
+  // Free angles can't be recovered from the bbox, so use the footprint itself.
+  const unrotated = rotationDeg % 90 === 0
+    ? null
+    : rectFromFixture({ ...fixture, rotationDeg: 0 }, catalogItem);
+  const width = unrotated ? unrotated.width * BASE_SCALE : isRotated ? bboxHeight : bboxWidth;
+  const height = unrotated ? unrotated.height * BASE_SCALE : isRotated ? bboxWidth : bboxHeight;
 
   // Top-left coordinate to draw the unrotated shape centered at (cx, cy)
   const x = cx - width / 2;
   const y = cy - height / 2;
 
-  // Helper to get text transform for 180-degree fix
-  const getTextTransform = (textX: number, textY: number) => 
-    needs180Fix ? `rotate(180, ${textX}, ${textY})` : undefined;
+  // Helper to get text transform for 180-degree fix; mirrored fixtures also
+  // flip their labels back so they stay readable
+  const getTextTransform = (textX: number, textY: number) => {
+    const transforms: string[] = [];
+    if (needs180Fix) transforms.push(`rotate(180, ${textX}, ${textY})`);
+    if (isMirrored) {
+      transforms.push(
+        `translate(${textX} ${textY}) scale(${mirrorScaleX} ${mirrorScaleY}) translate(${-textX} ${-textY})`
+      );
+    }
+    return transforms.length > 0 ? transforms.join(" ") : undefined;
+  };
 
   const key = catalogItem.key;
   const fillColor = hasError
@@ -1098,37 +1118,41 @@ export function Fixture2DRenderer({
             stroke={doorStrokeColor}
             strokeWidth={strokeWidth}
           />
-          {/* Door swing arc - shows where door swings */}
-          <path
-            d={width > height 
-              ? `M ${x} ${y + height} A ${height} ${height} 0 0 1 ${x + height} ${y}`
-              : `M ${x + width} ${y} A ${width} ${width} 0 0 1 ${x} ${y + width}`
-            }
-            fill="none"
-            stroke={doorStrokeColor}
-            strokeWidth={1.5}
-            strokeDasharray="6 4"
-            opacity={0.7}
-          />
-          {/* Door panel line - shows door position */}
-          {width > height ? (
-            <line
-              x1={x}
-              y1={y + height}
-              x2={x + height * 0.7}
-              y2={y + height * 0.3}
-              stroke={doorStrokeColor}
-              strokeWidth={strokeWidth}
-            />
-          ) : (
-            <line
-              x1={x + width}
-              y1={y}
-              x2={x + width * 0.3}
-              y2={y + width * 0.7}
-              stroke={doorStrokeColor}
-              strokeWidth={strokeWidth}
-            />
+          {!doorSwing && (
+            <>
+              {/* Door swing arc - shows where door swings */}
+              <path
+                d={width > height 
+                  ? `M ${x} ${y + height} A ${height} ${height} 0 0 1 ${x + height} ${y}`
+                  : `M ${x + width} ${y} A ${width} ${width} 0 0 1 ${x} ${y + width}`
+                }
+                fill="none"
+                stroke={doorStrokeColor}
+                strokeWidth={1.5}
+                strokeDasharray="6 4"
+                opacity={0.7}
+              />
+              {/* Door panel line - shows door position */}
+              {width > height ? (
+                <line
+                  x1={x}
+                  y1={y + height}
+                  x2={x + height * 0.7}
+                  y2={y + height * 0.3}
+                  stroke={doorStrokeColor}
+                  strokeWidth={strokeWidth}
+                />
+              ) : (
+                <line
+                  x1={x + width}
+                  y1={y}
+                  x2={x + width * 0.3}
+                  y2={y + width * 0.7}
+                  stroke={doorStrokeColor}
+                  strokeWidth={strokeWidth}
+                />
+              )}
+            </>
           )}
           {/* Label */}
           <text
@@ -1712,6 +1736,60 @@ export function Fixture2DRenderer({
       );
     }
 
+    // Stair - treads across the run with an "UP" arrow along it
+    if (key.includes("stair")) {
+      const alongX = width >= height;
+      const run = alongX ? width : height;
+      const treadCount = 12;
+      const textX = x + width / 2;
+      const textY = y + height / 2;
+      return (
+        <g>
+          <rect
+            x={x}
+            y={y}
+            width={width}
+            height={height}
+            rx={1}
+            fill={fillColor}
+            stroke={strokeColor}
+            strokeWidth={strokeWidth}
+          />
+          {Array.from({ length: treadCount - 1 }, (_, i) => {
+            const offset = (run * (i + 1)) / treadCount;
+            return alongX ? (
+              <line key={i} x1={x + offset} y1={y} x2={x + offset} y2={y + height} stroke={strokeColor} strokeWidth={1} opacity={0.4} />
+            ) : (
+              <line key={i} x1={x} y1={y + offset} x2={x + width} y2={y + offset} stroke={strokeColor} strokeWidth={1} opacity={0.4} />
+            );
+          })}
+          {/* Direction of travel */}
+          <line
+            x1={alongX ? x + run * 0.1 : textX}
+            y1={alongX ? textY : y + run * 0.1}
+            x2={alongX ? x + run * 0.9 : textX}
+            y2={alongX ? textY : y + run * 0.9}
+            stroke={strokeColor}
+            strokeWidth={1.5}
+          />
+          <text
+            x={textX}
+            y={textY}
+            textAnchor="middle"
+            alignmentBaseline="middle"
+            fontSize={Math.min(width, height) * 0.3}
+            fill={strokeColor}
+            fontFamily="sans-serif"
+            fontWeight="600"
+            style={{ pointerEvents: "none" }}
+            transform={getTextTransform(textX, textY)}
+          >
+            UP
+          </text>
+        </g>
+      );
+    }
+
     // Cabinet/Storage
     if (key.includes("cabinet") || key.includes("storage") || key.includes("shelf")) {
       const textX = x + width / 2;
@@ -2054,6 +2132,84 @@ export function Fixture2DRenderer({
       );
     }
 
+    // Smoke alarm - round ceiling/wall detector
+    if (key.includes("smoke-alarm")) {
+      const textX = x + width / 2;
+      const textY = y + height / 2;
+      return (
+        <g>
+          <circle
+            cx={textX}
+            cy={textY}
+            r={Math.min(width, height) / 2}
+            fill={fillColor}
+            stroke={strokeColor}
+            strokeWidth={strokeWidth}
+          />
+          <circle
+            cx={textX}
+            cy={textY}
+            r={Math.min(width, height) * 0.12}
+            fill={hasError ? "#ef4444" : "#f87171"}
+          />
+          <text
+            x={textX}
+            y={textY + height * 0.32}
+            textAnchor="middle"
+            alignmentBaseline="middle"
+            fontSize={Math.min(width, height) * 0.26}
+            fill={strokeColor}
+            fontFamily="sans-serif"
+            fontWeight="600"
+            style={{ pointerEvents: "none" }}
+            transform={getTextTransform(textX, textY + height * 0.32)}
+          >
+            SA
+          </text>
+        </g>
+      );
+    }
+
+    // Exhaust fan - grille with fan blades
+    if (key.includes("exhaust-fan")) {
+      const fanCx = x + width / 2;
+      const fanCy = y + height / 2;
+      const bladeR = Math.min(width, height) * 0.35;
+      return (
+        <g>
+          <rect
+            x={x}
+            y={y}
+            width={width}
+            height={height}
+            rx={3}
+            fill={fillColor}
+            stroke={strokeColor}
+            strokeWidth={strokeWidth}
+          />
+          <circle
+            cx={fanCx}
+            cy={fanCy}
+            r={bladeR}
+            fill="none"
+            stroke={strokeColor}
+            strokeWidth={1}
+          />
+          {[0, 90, 180, 270].map((deg) => (
+            <line
+              key={deg}
+              x1={fanCx}
+              y1={fanCy}
+              x2={fanCx + bladeR * Math.cos((deg * Math.PI) / 180)}
+              y2={fanCy + bladeR * Math.sin((deg * Math.PI) / 180)}
+              stroke={strokeColor}
+              strokeWidth={1.5}
+            />
+          ))}
+        </g>
+      );
+    }
+
     // Default fallback - simple rectangle
     const fallbackTextX = x + width / 2;
     const fallbackTextY = y + height / 2 + 5;
@@ -2085,9 +2241,62 @@ export function Fixture2DRenderer({
     );
   })();
 
+  // Door swing is computed in feet-space (hinge side and swing direction already
+  // resolved), so draw it unrotated on top of the door
+  const swingOverlay = (() => {
+    if (!doorSwing) return null;
+    const rect = rectFromFixture(fixture, catalogItem);
+    const toPx = (p: { x: number; y: number }) => ({
+      x: bboxX + (p.x - rect.x) * BASE_SCALE,
+      y: bboxY + (p.y - rect.y) * BASE_SCALE,
+    });
+    const { hinge, radiusFt, closedDir, openDir } = doorSwing;
+    const h = toPx(hinge);
+    const closedEnd = toPx({ x: hinge.x + closedDir.x * radiusFt, y: hinge.y + closedDir.y * radiusFt });
+    const openEnd = toPx({ x: hinge.x + openDir.x * radiusFt, y: hinge.y + openDir.y * radiusFt });
+    const r = radiusFt * BASE_SCALE;
+    // Sweep clockwise (screen) when turning from the closed to the open leaf is clockwise
+    const sweep = closedDir.x * openDir.y - closedDir.y * openDir.x > 0 ? 1 : 0;
+    const swingColor = catalogItem.key.includes("exterior") ? "#f97316" : strokeColor;
+
+    return (
+      <g style={{ pointerEvents: "none" }}>
+        {/* Swing arc from closed to fully open */}
+        <path
+          d={`M ${closedEnd.x} ${closedEnd.y} A ${r} ${r} 0 0 ${sweep} ${openEnd.x} ${openEnd.y}`}
+          fill="none"
+          stroke={swingColor}
+          strokeWidth={1.5}
+          strokeDasharray="6 4"
+          opacity={0.7}
+        />
+        {/* Door leaf in the open position */}
+        <line
+          x1={h.x}
+          y1={h.y}
+          x2={openEnd.x}
+          y2={openEnd.y}
+          stroke={swingColor}
+          strokeWidth={strokeWidth}
+        />
+        {/* Hinge */}
+        <circle cx={h.x} cy={h.y} r={3} fill={swingColor} />
+      </g>
+    );
+  })();
+
   return (
-    <g transform={rotationDeg ? `rotate(${rotationDeg} ${cx} ${cy})` : undefined}>
-      {content}
-    </g>
+    <>
+      <g transform={rotationDeg ? `rotate(${rotationDeg} ${cx} ${cy})` : undefined}>
+        {isMirrored ? (
+          <g transform={`translate(${cx} ${cy}) scale(${mirrorScaleX} ${mirrorScaleY}) translate(${-cx} ${-cy})`}>
+            {content}
+          </g>
+        ) : (
+          content
+        )}
+      </g>
+      {swingOverlay}
+    </>
   );
 }
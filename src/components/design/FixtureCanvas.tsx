@@ -17,9 +17,17 @@ import type {
   ZoneResizeState,
 } from "@/types/design";
 import type { ToolType } from "./Toolbar";
-import { rectFromFixture } from "@/lib/design/geometry";
+import { getDoorSwing, isDoorFixture, rectFromFixture } from "@/lib/design/geometry";
+import { getGroupBounds } from "@/lib/design/groups";
+import { getFixtureLevel, getFixtureShellRect, getPlanBounds } from "@/lib/design/composition";
+import type { PanelSchedule } from "@/lib/design/panel-schedule";
+import type { BOMCalculation, PlumbingRouting } from "@/types/bom";
 import { Fixture2DRenderer } from "./Fixture2DRenderer";
 import { AnnotationLayer } from "./AnnotationLayer";
+import { CircuitOverlay } from "./CircuitOverlay";
+import { PlumbingOverlay } from "./PlumbingOverlay";
+import { ShellOutlines } from "./ShellOutlines";
+import { SitePlanOverlay } from "./SitePlanOverlay";
 
 const BASE_SCALE = 32;
 const CANVAS_PADDING = 80;
@@ -71,10 +79,18 @@ type FixtureCanvasProps = {
   zoneEditMode?: boolean;
   onDebugLog?: DebugLogFn;
   pendingPlacement?: ModuleCatalogItem | null;
-  pendingPlacementRotation?: 0 | 90 | 180 | 270;
+  pendingPlacementRotation?: number;
   onPlaceFixture?: (catalogKey: string, coords: { xFt: number; yFt: number }) => void;
   onEditAnnotation?: (id: string) => void;
   onAnnotationPlaced?: () => void;
+  // Storey being edited in a stacked composition; fixtures on other levels are hidden
+  activeLevel?: number;
+  // Drawn over the plan when the circuits view is on
+  panelSchedule?: PanelSchedule | null;
+  // Drawn over the plan when the plumbing view is on
+  plumbingRouting?: PlumbingRouting | null;
+  // Piers and corner castings drawn under the plan when the site plan view is on
+  foundation?: BOMCalculation["foundation"] | null;
 };
 
 export function FixtureCanvas({
@@ -104,6 +120,10 @@ export function FixtureCanvas({
   onPlaceFixture,
   onEditAnnotation,
   onAnnotationPlaced,
+  activeLevel = 0,
+  panelSchedule = null,
+  plumbingRouting = null,
+  foundation = null,
 }: FixtureCanvasProps) {
   // Debug log helper (no-op if not provided)
   const log: DebugLogFn = onDebugLog || (() => {});
@@ -176,43 +196,54 @@ export function FixtureCanvas({
     [validationIssues]
   );
 
-  const shellWidthPx = design.shell.lengthFt * BASE_SCALE;
-  const shellHeightPx = design.shell.widthFt * BASE_SCALE;
+  // Extent of every shell in the composition (just the shell for a single box)
+  const planBounds = useMemo(() => getPlanBounds(design), [design]);
+  const planLengthFt = planBounds.x + planBounds.width;
+  const planWidthFt = planBounds.y + planBounds.height;
+  const shellWidthPx = planLengthFt * BASE_SCALE;
+  const shellHeightPx = planWidthFt * BASE_SCALE;
+
+  // Fixtures on the level being edited
+  const levelFixtures = useMemo(
+    () => design.fixtures.filter((f) => getFixtureLevel(f) === activeLevel),
+    [design.fixtures, activeLevel]
+  );
+  const levelDesign = useMemo(() => ({ ...design, fixtures: levelFixtures }), [design, levelFixtures]);
 
 
   const gridLinesX = useMemo(() => {
     const lines: number[] = [];
     const spacing = snapIncrement > 0 ? snapIncrement : 0.5;
-    for (let ft = 0; ft <= design.shell.lengthFt; ft += spacing) {
+    for (let ft = 0; ft <= planLengthFt; ft += spacing) {
       lines.push(ft);
     }
     return lines;
-  }, [design.shell.lengthFt, snapIncrement]);
+  }, [planLengthFt, snapIncrement]);
 
   const gridLinesY = useMemo(() => {
     const lines: number[] = [];
     const spacing = snapIncrement > 0 ? snapIncrement : 0.5;
-    for (let ft = 0; ft <= design.shell.widthFt; ft += spacing) {
+    for (let ft = 0; ft <= planWidthFt; ft += spacing) {
       lines.push(ft);
     }
     return lines;
-  }, [design.shell.widthFt, snapIncrement]);
+  }, [planWidthFt, snapIncrement]);
 
   const collisionRects = useMemo(
-    () => computeCollisions(design, catalog),
-    [design, catalog]
+    () => computeCollisions(levelDesign, catalog),
+    [levelDesign, catalog]
   );
   const clearanceRects = useMemo(
-    () => computeClearances(design, catalog),
-    [design, catalog]
+    () => computeClearances(levelDesign, catalog),
+    [levelDesign, catalog]
   );
   const selectionBounds = useMemo(
     () => computeSelectionBounds(design, catalog, selectedIds),
     [design, catalog, selectedIds]
   );
   const alignmentGuides = useMemo(
-    () => computeAlignmentGuides(design, catalog, selectedIds),
-    [design, catalog, selectedIds]
+    () => computeAlignmentGuides(levelDesign, catalog, selectedIds),
+    [levelDesign, catalog, selectedIds]
   );
 
   // Calculate viewBox dimensions for coordinate conversion
@@ -398,6 +429,7 @@ export function FixtureCanvas({
           fixtureWidth: pendingMobileDrag.fixtureWidth,
           fixtureHeight: pendingMobileDrag.fixtureHeight,
           footprintAnchor: pendingMobileDrag.footprintAnchor,
+          groupBoundsFt: getGroupBounds(design, catalog, pendingMobileDrag.fixtureId),
         });
         
         // Clear pending state
@@ -614,7 +646,7 @@ export function FixtureCanvas({
     const maxX = Math.max(marqueeState.origin.x, marqueeState.current.x);
     const minY = Math.min(marqueeState.origin.y, marqueeState.current.y);
     const maxY = Math.max(marqueeState.origin.y, marqueeState.current.y);
-    const ids = design.fixtures
+    const ids = levelFixtures
       .filter((fixture) => {
         const catalogItem = catalog[fixture.catalogKey];
         if (!catalogItem) return false;
@@ -938,6 +970,26 @@ export function FixtureCanvas({
       return;
     }
 
+    // Utility entry tool - click to place where water, waste and power come in
+    if (activeTool === "utility" && event.button === 0) {
+      event.preventDefault();
+      const coords = isMobile ? screenToFtMobile(event.clientX, event.clientY) : screenToFt(event.clientX, event.clientY);
+      if (!coords) return;
+
+      // Snap to grid, kept inside the shell
+      const snappedX = Math.round(coords.xFt / snapIncrement) * snapIncrement;
+      const snappedY = Math.round(coords.yFt / snapIncrement) * snapIncrement;
+      const utilityEntry = {
+        xFt: Math.min(Math.max(snappedX, 0), design.shell.lengthFt),
+        yFt: Math.min(Math.max(snappedY, 0), design.shell.widthFt),
+      };
+
+      log("action", "SET_UTILITY_ENTRY dispatched", utilityEntry);
+      dispatch({ type: "SET_UTILITY_ENTRY", utilityEntry });
+      onToolChange?.("select");
+      return;
+    }
+
     // Mobile: Prepare to drag selected fixture from anywhere on canvas
     // This makes it easier to move objects on touch devices where precise tapping is difficult
     // We use a pending state so that a quick tap deselects, but tap-and-drag moves the fixture
@@ -1083,6 +1135,7 @@ export function FixtureCanvas({
       fixtureWidth: rect.width,
       fixtureHeight: rect.height,
       footprintAnchor: catalogItem.footprintAnchor,
+      groupBoundsFt: getGroupBounds(design, catalog, fixtureId),
     });
   };
 
@@ -1157,11 +1210,10 @@ export function FixtureCanvas({
   const handleRotate = (fixtureId: string, direction: 1 | -1) => {
     const fixture = design.fixtures.find((f) => f.id === fixtureId);
     if (!fixture) return;
-    const next = (((fixture.rotationDeg + direction * 90) % 360) + 360) % 360;
     dispatch({
       type: "UPDATE_FIXTURE_ROTATION",
       id: fixtureId,
-      rotationDeg: next as 0 | 90 | 180 | 270,
+      rotationDeg: (fixture.rotationDeg || 0) + direction * 90,
     });
   };
 
@@ -1286,11 +1338,11 @@ export function FixtureCanvas({
                     </g>
 
                     {/* Shell outline */}
-                    <rect
-                      x={CANVAS_PADDING}
-                      y={CANVAS_PADDING}
-                      width={shellWidthPx}
-                      height={shellHeightPx}
+                    <ShellOutlines
+                      design={design}
+                      activeLevel={activeLevel}
+                      scalePxPerFt={BASE_SCALE}
+                      originPx={CANVAS_PADDING}
                       fill={COLORS.shellFill}
                       stroke={COLORS.shellStroke}
                       strokeWidth={2}
@@ -1372,7 +1424,7 @@ export function FixtureCanvas({
                     ))}
 
                     {/* Fixtures */}
-                    {design.fixtures.map((fixture) => {
+                    {levelFixtures.map((fixture) => {
                       const catalogItem = catalog[fixture.catalogKey];
                       if (!catalogItem) return null;
                       const rect = rectFromFixture(fixture, catalogItem);
@@ -1417,6 +1469,7 @@ export function FixtureCanvas({
                               isSelected={isSelected}
                               hasError={hasError}
                               isHovered={isHovered}
+                              doorSwing={isDoorFixture(fixture) ? getDoorSwing(fixture, catalogItem, getFixtureShellRect(design, fixture, catalogItem)) : null}
                             />
                           </g>
                         </g>
@@ -1619,6 +1672,39 @@ export function FixtureCanvas({
                       />
                     )}
 
+                    {/* Site plan overlay */}
+                    {foundation && (
+                      <SitePlanOverlay
+                        design={design}
+                        foundation={foundation}
+                        activeLevel={activeLevel}
+                        scalePxPerFt={BASE_SCALE}
+                        originPx={CANVAS_PADDING}
+                      />
+                    )}
+
+                    {/* Plumbing overlay */}
+                    {plumbingRouting && (
+                      <PlumbingOverlay
+                        routing={plumbingRouting}
+                        activeLevel={activeLevel}
+                        scalePxPerFt={BASE_SCALE}
+                        originPx={CANVAS_PADDING}
+                      />
+                    )}
+
+                    {/* Circuits overlay */}
+                    {panelSchedule && (
+                      <CircuitOverlay
+                        design={design}
+                        catalog={catalog}
+                        schedule={panelSchedule}
+                        activeLevel={activeLevel}
+                        scalePxPerFt={BASE_SCALE}
+                        originPx={CANVAS_PADDING}
+                      />
+                    )}
+
                     {/* Annotations layer */}
                     {(design.annotations?.length ?? 0) > 0 && (
                       <g transform={`translate(${CANVAS_PADDING}, ${CANVAS_PADDING})`}>
@@ -1699,11 +1785,11 @@ export function FixtureCanvas({
                     </g>
                     
                     {/* Shell outline */}
-                    <rect
-                      x={CANVAS_PADDING}
-                      y={CANVAS_PADDING}
-                      width={shellWidthPx}
-                      height={shellHeightPx}
+                    <ShellOutlines
+                      design={design}
+                      activeLevel={activeLevel}
+                      scalePxPerFt={BASE_SCALE}
+                      originPx={CANVAS_PADDING}
                       rx={4}
                       fill="none"
                       stroke={COLORS.shellStroke}
@@ -1711,7 +1797,7 @@ export function FixtureCanvas({
                     />
                     
                     {/* Existing fixtures in magnifier */}
-                    {design.fixtures.map((fixture) => {
+                    {levelFixtures.map((fixture) => {
                       const catalogItem = catalog[fixture.catalogKey];
                       if (!catalogItem) return null;
                       const rect = rectFromFixture(fixture, catalogItem);
@@ -1736,7 +1822,7 @@ export function FixtureCanvas({
                     })}
                     
                     {/* Existing walls in magnifier */}
-                    {design.fixtures
+                    {levelFixtures
                       .filter((f) => f.catalogKey.includes('wall'))
                       .map((wall) => {
                         const wallCatalog = catalog[wall.catalogKey];
@@ -1894,11 +1980,11 @@ export function FixtureCanvas({
         <g
           transform={`translate(${viewport.offsetX} ${viewport.offsetY}) scale(${viewport.scale})`}
         >
-          <rect
-            x={CANVAS_PADDING}
-            y={CANVAS_PADDING}
-            width={shellWidthPx}
-            height={shellHeightPx}
+          <ShellOutlines
+            design={design}
+            activeLevel={activeLevel}
+            scalePxPerFt={BASE_SCALE}
+            originPx={CANVAS_PADDING}
             rx={8}
             fill="#0f172a"
             stroke="#1e293b"
@@ -2173,7 +2259,7 @@ export function FixtureCanvas({
             ))}
           </g>
 
-          {design.fixtures.map((fixture) => {
+          {levelFixtures.map((fixture) => {
             const catalogItem = catalog[fixture.catalogKey];
             if (!catalogItem) return null;
             const rect = rectFromFixture(fixture, catalogItem);
@@ -2207,6 +2293,7 @@ export function FixtureCanvas({
                     isSelected={isSelected}
                     hasError={hasError}
                     isHovered={isHovered}
+                    doorSwing={isDoorFixture(fixture) ? getDoorSwing(fixture, catalogItem, getFixtureShellRect(design, fixture, catalogItem)) : null}
                   />
                 </g>
                 
@@ -2763,6 +2850,39 @@ export function FixtureCanvas({
             </g>
           )}
 
+          {/* Site plan overlay */}
+          {foundation && (
+            <SitePlanOverlay
+              design={design}
+              foundation={foundation}
+              activeLevel={activeLevel}
+              scalePxPerFt={BASE_SCALE}
+              originPx={CANVAS_PADDING}
+            />
+          )}
+
+          {/* Plumbing overlay */}
+          {plumbingRouting && (
+            <PlumbingOverlay
+              routing={plumbingRouting}
+              activeLevel={activeLevel}
+              scalePxPerFt={BASE_SCALE}
+              originPx={CANVAS_PADDING}
+            />
+          )}
+
+          {/* Circuits overlay */}
+          {panelSchedule && (
+            <CircuitOverlay
+              design={design}
+              catalog={catalog}
+              schedule={panelSchedule}
+              activeLevel={activeLevel}
+              scalePxPerFt={BASE_SCALE}
+              originPx={CANVAS_PADDING}
+            />
+          )}
+
           {/* Annotation Layer */}
           {(design.annotations?.length ?? 0) > 0 && (
             <g transform={`translate(${CANVAS_PADDING}, ${CANVAS_PADDING})`}>
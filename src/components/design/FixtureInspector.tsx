@@ -2,6 +2,8 @@
 
 import type {
   DesignAction,
+  DoorHingeSide,
+  DoorSwingDirection,
   FixtureConfig,
   ModuleCatalogItem,
   ValidationIssue,
@@ -9,7 +11,7 @@ import type {
 } from "@/types/design";
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
-import { rectFromFixture } from "@/lib/design/geometry";
+import { FINE_ROTATION_STEP_DEG, isDoorFixture, rectFromFixture } from "@/lib/design/geometry";
 
 const WALL_MATERIALS: { value: WallMaterial; label: string }[] = [
   { value: "drywall", label: "Drywall" },
@@ -41,11 +43,15 @@ export function FixtureInspector({
       widthOverrideFt?: number;
       material?: WallMaterial;
       transparent3D?: boolean;
+      plumbingWall?: boolean;
+      doorHinge?: DoorHingeSide;
+      doorSwing?: DoorSwingDirection;
     }) ?? {};
   const activeRect = rectFromFixture(fixture, catalogItem);
   
   // Check if this is a wall fixture (for special wall controls)
   const isWall = catalogItem.key === "fixture-wall" || catalogItem.key.includes("wall");
+  const isDoor = isDoorFixture(fixture);
   
   // Wall-specific property handlers
   const handleMaterialChange = (material: WallMaterial) => {
@@ -64,6 +70,30 @@ export function FixtureInspector({
     });
   };
 
+  const handlePlumbingWallChange = (plumbingWall: boolean) => {
+    dispatch({
+      type: "UPDATE_FIXTURE_PROPERTIES",
+      id: fixture.id,
+      properties: { plumbingWall },
+    });
+  };
+
+  const handleDoorHingeChange = (doorHinge: DoorHingeSide) => {
+    dispatch({
+      type: "UPDATE_FIXTURE_PROPERTIES",
+      id: fixture.id,
+      properties: { doorHinge },
+    });
+  };
+
+  const handleDoorSwingChange = (doorSwing: DoorSwingDirection) => {
+    dispatch({
+      type: "UPDATE_FIXTURE_PROPERTIES",
+      id: fixture.id,
+      properties: { doorSwing },
+    });
+  };
+
   const handlePositionChange = (field: "xFt" | "yFt", value: number) => {
     const newXFt = field === "xFt" ? value : fixture.xFt;
     const newYFt = field === "yFt" ? value : fixture.yFt;
@@ -79,7 +109,7 @@ export function FixtureInspector({
     });
   };
 
-  const handleRotationChange = (rotationDeg: 0 | 90 | 180 | 270) => {
+  const handleRotationChange = (rotationDeg: number) => {
     dispatch({
       type: "UPDATE_FIXTURE_ROTATION",
       id: fixture.id,
@@ -87,6 +117,10 @@ export function FixtureInspector({
     });
   };
 
+  const handleMirrorToggle = (axis: "x" | "y") => {
+    dispatch({ type: "TOGGLE_FIXTURE_MIRROR", id: fixture.id, axis });
+  };
+
   const handleSizeChange = (field: "length" | "width", value: number) => {
     dispatch({
       type: "UPDATE_FIXTURE_SIZE",
@@ -151,6 +185,8 @@ export function FixtureInspector({
           <p className="text-xs text-foreground/70">
             {activeRect.height.toFixed(1)}' × {activeRect.width.toFixed(1)}'
             {fixture.rotationDeg !== 0 && ` (rotated ${fixture.rotationDeg}°)`}
+            {fixture.mirrorX && " (mirrored L/R)"}
+            {fixture.mirrorY && " (mirrored F/B)"}
           </p>
         </div>
       </div>
@@ -206,6 +242,56 @@ export function FixtureInspector({
               </Button>
             ))}
           </div>
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => handleRotationChange(fixture.rotationDeg - FINE_ROTATION_STEP_DEG)}
+            >
+              −{FINE_ROTATION_STEP_DEG}°
+            </Button>
+            <Input
+              type="number"
+              step={FINE_ROTATION_STEP_DEG}
+              value={fixture.rotationDeg.toString()}
+              onChange={(e) => handleRotationChange(parseFloat(e.target.value) || 0)}
+            />
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => handleRotationChange(fixture.rotationDeg + FINE_ROTATION_STEP_DEG)}
+            >
+              +{FINE_ROTATION_STEP_DEG}°
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-xs font-semibold uppercase tracking-[0.3em] text-foreground/60">
+            Mirror
+          </label>
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              size="sm"
+              variant={fixture.mirrorX ? "primary" : "outline"}
+              onClick={() => handleMirrorToggle("x")}
+              className="flex-1"
+            >
+              Left / Right
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant={fixture.mirrorY ? "primary" : "outline"}
+              onClick={() => handleMirrorToggle("y")}
+              className="flex-1"
+            >
+              Front / Back
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -263,6 +349,68 @@ export function FixtureInspector({
               Semi-transparent (3D view only)
             </label>
           </div>
+
+          {/* Plumbing (wet) wall - wet fixtures may run supply lines to it */}
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="plumbingWall"
+              checked={overrides.plumbingWall ?? false}
+              onChange={(e) => handlePlumbingWallChange(e.target.checked)}
+              className="h-4 w-4 rounded border-surface-muted/60 text-forest focus:ring-forest"
+            />
+            <label htmlFor="plumbingWall" className="text-xs text-foreground/70">
+              Plumbing wall (carries water supply)
+            </label>
+          </div>
+        </div>
+      ) : isDoor ? (
+        /* Door handing controls */
+        <div className="space-y-3 rounded-xl border border-orange-200 bg-orange-50/50 p-3">
+          <p className="text-xs font-semibold text-orange-800">Door Swing</p>
+
+          <div className="space-y-1">
+            <label className="text-xs font-semibold uppercase tracking-[0.3em] text-foreground/60">
+              Hinge side
+            </label>
+            <div className="flex gap-2">
+              {(["left", "right"] as const).map((side) => (
+                <Button
+                  key={side}
+                  type="button"
+                  size="sm"
+                  variant={(overrides.doorHinge ?? "left") === side ? "primary" : "outline"}
+                  onClick={() => handleDoorHingeChange(side)}
+                  className="flex-1 capitalize"
+                >
+                  {side}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-xs font-semibold uppercase tracking-[0.3em] text-foreground/60">
+              Swing direction
+            </label>
+            <div className="flex gap-2">
+              {(["in", "out"] as const).map((direction) => (
+                <Button
+                  key={direction}
+                  type="button"
+                  size="sm"
+                  variant={(overrides.doorSwing ?? "in") === direction ? "primary" : "outline"}
+                  onClick={() => handleDoorSwingChange(direction)}
+                  className="flex-1"
+                >
+                  {direction === "in" ? "Swing in" : "Swing out"}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-foreground/50">
+              &quot;In&quot; swings toward the middle of the container
+            </p>
+          </div>
         </div>
       ) : (
         /* Standard fixture size overrides */
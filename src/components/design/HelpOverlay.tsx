@@ -102,11 +102,16 @@ export function HelpOverlay({
                 <TipSection title="Edit">
                   <TipRow kbd="Drag" text="Move fixture" />
                   <TipRow kbd="Arrows" text="Nudge selected" />
-                  <TipRow kbd="R" text="Rotate 90°" />
+                  <TipRow kbd="R / Shift+R" text="Rotate 90° / 15°" />
                   <TipRow kbd="Del" text="Delete" />
+                  <TipRow kbd="Ctrl+C / V / D" text="Copy / Paste / Duplicate" />
+                  <TipRow kbd="Alt+Arrows" text="Align selection" />
+                  <TipRow kbd="Alt+Shift+H / V" text="Distribute" />
+                  <TipRow kbd="Ctrl+Arrows" text="Butt against neighbour" />
+                  <TipRow kbd="Ctrl+G / Shift+G" text="Group / Ungroup" />
                 </TipSection>
                 <TipSection title="Tools & History">
-                  <TipRow kbd="V H W M A" text="Select/Pan/Wall/Measure/Annotate" />
+                  <TipRow kbd="V H W M A U" text="Select/Pan/Wall/Measure/Annotate/Utility entry" />
                   <TipRow kbd="Ctrl+Z / Y" text="Undo / Redo" />
                   <TipRow kbd="Esc" text="Cancel / Deselect" />
                 </TipSection>
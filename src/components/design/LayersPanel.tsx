@@ -1,7 +1,13 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import type { DesignConfig, DesignAction } from "@/types/design";
+import type {
+  DesignConfig,
+  DesignAction,
+  FixtureConfig,
+  FixtureGroupConfig,
+} from "@/types/design";
+import { getGroupFixtureIds, getGroups } from "@/lib/design/groups";
 
 export type LayersPanelProps = {
   design: DesignConfig;
@@ -9,6 +15,7 @@ export type LayersPanelProps = {
   zoneEditMode?: boolean;
   onZoneEditModeChange?: (enabled: boolean) => void;
   selectedZoneId?: string;
+  selectedIds?: string[];
 };
 
 export function LayersPanel({ 
@@ -17,10 +24,13 @@ export function LayersPanel({
   zoneEditMode = false,
   onZoneEditModeChange,
   selectedZoneId,
+  selectedIds = [],
 }: LayersPanelProps) {
   const [editingZoneId, setEditingZoneId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState("");
   const nameInputRef = useRef<HTMLInputElement>(null);
+  const [editingGroupId, setEditingGroupId] = useState<string | null>(null);
+  const [editingGroupName, setEditingGroupName] = useState("");
 
   // Focus the name input when editing starts
   useEffect(() => {
@@ -74,6 +84,130 @@ export function LayersPanel({
     dispatch({ type: "TOGGLE_FIXTURE_LOCK", id: fixtureId });
   };
 
+  const saveGroupName = () => {
+    if (editingGroupId && editingGroupName.trim()) {
+      dispatch({ type: "RENAME_GROUP", id: editingGroupId, name: editingGroupName.trim() });
+    }
+    setEditingGroupId(null);
+    setEditingGroupName("");
+  };
+
+  const groups = getGroups(design);
+  const groupedFixtureIds = new Set(groups.flatMap((g) => g.fixtureIds));
+  const ungroupedFixtures = design.fixtures.filter((f) => !groupedFixtureIds.has(f.id));
+
+  const renderFixtureRow = (fixture: FixtureConfig, grouped: boolean) => (
+    <div
+      key={fixture.id}
+      className={`flex items-center justify-between rounded-lg border px-3 py-2 ${
+        fixture.locked 
+          ? "border-amber-300 bg-amber-50" 
+          : selectedIds.includes(fixture.id)
+            ? "border-forest/60 bg-forest/5"
+            : "border-surface-muted/60 bg-white"
+      }`}
+    >
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => toggleFixtureLock(fixture.id)}
+          className={`flex items-center justify-center w-6 h-6 rounded transition-colors ${
+            fixture.locked
+              ? "text-amber-600 bg-amber-100 hover:bg-amber-200"
+              : "text-foreground/40 hover:bg-surface hover:text-foreground/60"
+          }`}
+          title={fixture.locked ? "Unlock fixture" : "Lock fixture"}
+        >
+          {fixture.locked ? (
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+              <path fillRule="evenodd" d="M12 1.5a5.25 5.25 0 00-5.25 5.25v3a3 3 0 00-3 3v6.75a3 3 0 003 3h10.5a3 3 0 003-3v-6.75a3 3 0 00-3-3v-3c0-2.9-2.35-5.25-5.25-5.25zm3.75 8.25v-3a3.75 3.75 0 10-7.5 0v3h7.5z" clipRule="evenodd" />
+            </svg>
+          ) : (
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" strokeWidth={1.5} viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M13.5 10.5V6.75a4.5 4.5 0 119 0v3.75M3.75 21.75h10.5a2.25 2.25 0 002.25-2.25v-6.75a2.25 2.25 0 00-2.25-2.25H3.75a2.25 2.25 0 00-2.25 2.25v6.75a2.25 2.25 0 002.25 2.25z" />
+            </svg>
+          )}
+        </button>
+        {/* Inside a group the row picks out the single fixture */}
+        <button
+          onClick={() => dispatch({ type: "SELECT_FIXTURE", id: fixture.id, ignoreGroups: grouped })}
+          className={`min-w-0 flex-1 truncate text-left text-sm font-medium hover:text-forest ${
+            fixture.locked ? "text-amber-700" : "text-foreground"
+          }`}
+        >
+          {fixture.name || fixture.catalogKey}
+        </button>
+      </div>
+      <button
+        onClick={() => dispatch({ type: "REMOVE_FIXTURE", id: fixture.id })}
+        className="text-sm text-red-600 hover:text-red-700"
+        title="Remove fixture"
+      >
+        ×
+      </button>
+    </div>
+  );
+
+  const renderGroup = (group: FixtureGroupConfig) => {
+    const memberIds = getGroupFixtureIds(design, group.id);
+    const isSelected = memberIds.length > 0 && memberIds.every((id) => selectedIds.includes(id));
+    const isEditing = editingGroupId === group.id;
+    return (
+      <div key={group.id} className="space-y-1">
+        <div
+          className={`flex items-center justify-between rounded-lg border px-3 py-2 ${
+            isSelected ? "border-forest bg-forest/10" : "border-surface-muted/60 bg-surface"
+          }`}
+        >
+          <div className="flex items-center gap-2 flex-1 min-w-0">
+            <svg className="flex-shrink-0 w-4 h-4 text-forest" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7z" />
+            </svg>
+            {isEditing ? (
+              <input
+                type="text"
+                value={editingGroupName}
+                autoFocus
+                onChange={(e) => setEditingGroupName(e.target.value)}
+                onBlur={saveGroupName}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") saveGroupName();
+                  if (e.key === "Escape") setEditingGroupId(null);
+                }}
+                className="flex-1 min-w-0 text-sm font-semibold bg-white border border-forest rounded px-2 py-0.5 focus:outline-none focus:ring-2 focus:ring-forest/40"
+              />
+            ) : (
+              <button
+                onClick={(e) => dispatch({ type: "SELECT_GROUP", id: group.id, append: e.shiftKey })}
+                onDoubleClick={() => {
+                  setEditingGroupId(group.id);
+                  setEditingGroupName(group.name);
+                }}
+                className="min-w-0 flex-1 truncate text-left text-sm font-semibold text-foreground hover:text-forest"
+                title="Click to select the group, double-click to rename"
+              >
+                {group.name}
+              </button>
+            )}
+            <span className="text-xs text-foreground/50">{memberIds.length}</span>
+          </div>
+          <button
+            onClick={() => dispatch({ type: "UNGROUP", groupId: group.id })}
+            className="ml-2 text-xs font-semibold text-foreground/50 hover:text-foreground"
+            title="Ungroup"
+          >
+            Ungroup
+          </button>
+        </div>
+        <div className="ml-4 space-y-1 border-l border-surface-muted/60 pl-2">
+          {groups.filter((g) => g.parentId === group.id).map(renderGroup)}
+          {design.fixtures
+            .filter((f) => group.fixtureIds.includes(f.id))
+            .map((f) => renderFixtureRow(f, true))}
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-4">
       {/* Zones */}
@@ -211,56 +345,14 @@ export function LayersPanel({
               No fixtures added yet
             </p>
           ) : (
-            design.fixtures.map((fixture) => (
-              <div
-                key={fixture.id}
-                className={`flex items-center justify-between rounded-lg border px-3 py-2 ${
-                  fixture.locked 
-                    ? "border-amber-300 bg-amber-50" 
-                    : "border-surface-muted/60 bg-white"
-                }`}
-              >
-                <div className="flex items-center gap-2">
-                  <button
-                    onClick={() => toggleFixtureLock(fixture.id)}
-                    className={`flex items-center justify-center w-6 h-6 rounded transition-colors ${
-                      fixture.locked
-                        ? "text-amber-600 bg-amber-100 hover:bg-amber-200"
-                        : "text-foreground/40 hover:bg-surface hover:text-foreground/60"
-                    }`}
-                    title={fixture.locked ? "Unlock fixture" : "Lock fixture"}
-                  >
-                    {fixture.locked ? (
-                      <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
-                        <path fillRule="evenodd" d="M12 1.5a5.25 5.25 0 00-5.25 5.25v3a3 3 0 00-3 3v6.75a3 3 0 003 3h10.5a3 3 0 003-3v-6.75a3 3 0 00-3-3v-3c0-2.9-2.35-5.25-5.25-5.25zm3.75 8.25v-3a3.75 3.75 0 10-7.5 0v3h7.5z" clipRule="evenodd" />
-                      </svg>
-                    ) : (
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" strokeWidth={1.5} viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" d="M13.5 10.5V6.75a4.5 4.5 0 119 0v3.75M3.75 21.75h10.5a2.25 2.25 0 002.25-2.25v-6.75a2.25 2.25 0 00-2.25-2.25H3.75a2.25 2.25 0 00-2.25 2.25v6.75a2.25 2.25 0 002.25 2.25z" />
-                      </svg>
-                    )}
-                  </button>
-                  <button
-                    onClick={() => dispatch({ type: "SELECT_FIXTURE", id: fixture.id })}
-                    className={`min-w-0 flex-1 truncate text-left text-sm font-medium hover:text-forest ${
-                      fixture.locked ? "text-amber-700" : "text-foreground"
-                    }`}
-                  >
-                    {fixture.name || fixture.catalogKey}
-                  </button>
-                </div>
-                <button
-                  onClick={() => dispatch({ type: "REMOVE_FIXTURE", id: fixture.id })}
-                  className="text-sm text-red-600 hover:text-red-700"
-                  title="Remove fixture"
-                >
-                  ×
-                </button>
-              </div>
-            ))
+            <>
+              {groups.filter((g) => !g.parentId).map(renderGroup)}
+              {ungroupedFixtures.map((f) => renderFixtureRow(f, false))}
+            </>
           )}
         </div>
       </div>
     </div>
   );
 }
+
@@ -7,7 +7,7 @@ import type {
   ModuleCatalogItem,
   ValidationIssue,
 } from "@/types/design";
-import { rectFromFixture } from "@/lib/design/geometry";
+import { FINE_ROTATION_STEP_DEG, rectFromFixture } from "@/lib/design/geometry";
 
 export type MobilePropertiesPanelProps = {
   design: DesignConfig;
@@ -51,7 +51,7 @@ export function MobilePropertiesPanel({
     });
   };
 
-  const handleRotationChange = (rotationDeg: 0 | 90 | 180 | 270) => {
+  const handleRotationChange = (rotationDeg: number) => {
     if (!selectedFixture) return;
     dispatch({
       type: "UPDATE_FIXTURE_ROTATION",
@@ -60,6 +60,11 @@ export function MobilePropertiesPanel({
     });
   };
 
+  const handleMirrorToggle = (axis: "x" | "y") => {
+    if (!selectedFixture) return;
+    dispatch({ type: "TOGGLE_FIXTURE_MIRROR", id: selectedFixture.id, axis });
+  };
+
   const handleRemove = () => {
     if (!selectedFixture) return;
     dispatch({ type: "REMOVE_FIXTURE", id: selectedFixture.id });
@@ -198,6 +203,36 @@ export function MobilePropertiesPanel({
                 </button>
               ))}
             </div>
+            <div className="flex gap-1 mt-1">
+              <button
+                onClick={() => handleRotationChange(selectedFixture.rotationDeg - FINE_ROTATION_STEP_DEG)}
+                className="flex-1 py-2 rounded text-xs font-semibold transition-all bg-slate-700 hover:bg-slate-600 text-slate-300"
+              >
+                −{FINE_ROTATION_STEP_DEG}°
+              </button>
+              <button
+                onClick={() => handleRotationChange(selectedFixture.rotationDeg + FINE_ROTATION_STEP_DEG)}
+                className="flex-1 py-2 rounded text-xs font-semibold transition-all bg-slate-700 hover:bg-slate-600 text-slate-300"
+              >
+                +{FINE_ROTATION_STEP_DEG}°
+              </button>
+              {(["x", "y"] as const).map((axis) => {
+                const active = axis === "x" ? selectedFixture.mirrorX : selectedFixture.mirrorY;
+                return (
+                  <button
+                    key={axis}
+                    onClick={() => handleMirrorToggle(axis)}
+                    className={`flex-1 py-2 rounded text-xs font-semibold transition-all ${
+                      active
+                        ? "bg-cyan-500 text-white"
+                        : "bg-slate-700 hover:bg-slate-600 text-slate-300"
+                    }`}
+                  >
+                    {axis === "x" ? "Flip L/R" : "Flip F/B"}
+                  </button>
+                );
+              })}
+            </div>
           </div>
 
           {/* Validation Issues */}
@@ -0,0 +1,96 @@
+"use client";
+
+import { formatPipeSize } from "@/lib/design/plumbing-routing";
+import type { PipeSystem, PlumbingRouting } from "@/types/bom";
+
+type PlumbingOverlayProps = {
+  routing: PlumbingRouting;
+  activeLevel: number;
+  scalePxPerFt: number;
+  originPx: number;
+};
+
+const PIPE_STYLES: Record<PipeSystem, { color: string; width: number; offsetPx: number }> = {
+  "supply-cold": { color: "#60a5fa", width: 1.5, offsetPx: -3 },
+  "supply-hot": { color: "#f87171", width: 1.5, offsetPx: 3 },
+  drain: { color: "#94a3b8", width: 3.5, offsetPx: 0 },
+  vent: { color: "#34d399", width: 1.5, offsetPx: 0 },
+};
+const VENT_RADIUS = 6;
+const ENTRY_RADIUS = 9;
+
+/**
+ * Rough-in drawn over the plan: hot and cold home runs side by side, the
+ * drain branches and building drain under them, vent stacks as rings and the
+ * utility entry. Runs are under the ground floor, so upper levels only show
+ * the vents passing through. Read-only; ignores pointer events.
+ */
+export function PlumbingOverlay({ routing, activeLevel, scalePxPerFt, originPx }: PlumbingOverlayProps) {
+  const toPx = (ft: number) => originPx + ft * scalePxPerFt;
+  const { entry } = routing;
+  // Drains first so supply lines stay visible on top
+  const runs = routing.runs
+    .filter((run) => run.points.length > 1 && run.system !== "vent")
+    .sort((a, b) => Number(b.system === "drain") - Number(a.system === "drain"));
+
+  return (
+    <g pointerEvents="none">
+      {activeLevel === 0 &&
+        runs.map((run) => {
+          const style = PIPE_STYLES[run.system];
+          return (
+            <polyline
+              key={run.id}
+              points={run.points.map((p) => `${toPx(p.xFt) + style.offsetPx},${toPx(p.yFt) + style.offsetPx}`).join(" ")}
+              fill="none"
+              stroke={style.color}
+              strokeWidth={style.width}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              opacity={0.85}
+            />
+          );
+        })}
+
+      {routing.vents
+        .filter((vent) => vent.level <= activeLevel)
+        .map((vent) => (
+          <g key={vent.id}>
+            <circle
+              cx={toPx(vent.xFt)}
+              cy={toPx(vent.yFt)}
+              r={VENT_RADIUS}
+              fill="#0f172a"
+              stroke={PIPE_STYLES.vent.color}
+              strokeWidth={2}
+            />
+            <text
+              x={toPx(vent.xFt) + VENT_RADIUS + 2}
+              y={toPx(vent.yFt) - VENT_RADIUS}
+              fill={PIPE_STYLES.vent.color}
+              fontSize={9}
+            >
+              V {formatPipeSize(vent.diameterIn)}
+            </text>
+          </g>
+        ))}
+
+      {activeLevel === 0 && (
+        <g>
+          <circle
+            cx={toPx(entry.xFt)}
+            cy={toPx(entry.yFt)}
+            r={ENTRY_RADIUS}
+            fill="#1e293b"
+            stroke="#f8fafc"
+            strokeWidth={1.5}
+            strokeDasharray={routing.isDefaultEntry ? "3 2" : undefined}
+          />
+          <text x={toPx(entry.xFt)} y={toPx(entry.yFt) + 3} fill="#f8fafc" fontSize={8} textAnchor="middle">
+            UE
+          </text>
+        </g>
+      )}
+    </g>
+  );
+}
@@ -6,7 +6,7 @@ import type { FixtureConfig } from "@/types/design";
 export type PositionInputPanelProps = {
   fixture: FixtureConfig | null;
   shellBounds: { lengthFt: number; widthFt: number };
-  onUpdatePosition: (id: string, updates: { xFt?: number; yFt?: number; rotationDeg?: 0 | 90 | 180 | 270 }) => void;
+  onUpdatePosition: (id: string, updates: { xFt?: number; yFt?: number; rotationDeg?: number }) => void;
 };
 
 /**
@@ -66,7 +66,7 @@ export function PositionInputPanel({
     }
   }, []);
 
-  const handleRotation = useCallback((deg: 0 | 90 | 180 | 270) => {
+  const handleRotation = useCallback((deg: number) => {
     if (!fixture) return;
     onUpdatePosition(fixture.id, { rotationDeg: deg });
   }, [fixture, onUpdatePosition]);
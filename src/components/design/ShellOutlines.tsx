@@ -0,0 +1,112 @@
+"use client";
+
+import {
+  getPlacedShells,
+  getSeamOpenIntervals,
+  getShellSeams,
+  shellPlanRect,
+} from "@/lib/design/composition";
+import type { DesignConfig } from "@/types/design";
+
+type ShellOutlinesProps = {
+  design: DesignConfig;
+  activeLevel: number;
+  scalePxPerFt: number;
+  originPx: number;
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  rx?: number;
+};
+
+const OTHER_LEVEL_STROKE = "#475569";
+const OPENING_STROKE = "#f59e0b";
+
+/**
+ * Plan outline of every shell in the design. Shells on the level being edited
+ * are drawn solid; the rest are dashed ghosts. Shared walls on the active level
+ * are drawn heavier, with cut openings dashed in amber.
+ */
+export function ShellOutlines({
+  design,
+  activeLevel,
+  scalePxPerFt,
+  originPx,
+  fill,
+  stroke,
+  strokeWidth,
+  rx,
+}: ShellOutlinesProps) {
+  const toPx = (ft: number) => originPx + ft * scalePxPerFt;
+  const placed = getPlacedShells(design);
+  const seams = placed.length > 1 ? getShellSeams(design).filter((s) => s.level === activeLevel) : [];
+
+  const seamLine = (axis: "x" | "y", atFt: number, startFt: number, endFt: number) =>
+    axis === "x"
+      ? { x1: toPx(startFt), y1: toPx(atFt), x2: toPx(endFt), y2: toPx(atFt) }
+      : { x1: toPx(atFt), y1: toPx(startFt), x2: toPx(atFt), y2: toPx(endFt) };
+
+  return (
+    <g>
+      {/* Other levels first so the active level draws over them */}
+      {placed
+        .filter((p) => p.level !== activeLevel)
+        .map((p) => {
+          const rect = shellPlanRect(p);
+          return (
+            <rect
+              key={`shell-${p.id}`}
+              x={toPx(rect.x)}
+              y={toPx(rect.y)}
+              width={rect.width * scalePxPerFt}
+              height={rect.height * scalePxPerFt}
+              rx={rx}
+              fill="none"
+              stroke={OTHER_LEVEL_STROKE}
+              strokeWidth={1}
+              strokeDasharray="8 6"
+              style={{ pointerEvents: "none" }}
+            />
+          );
+        })}
+      {placed
+        .filter((p) => p.level === activeLevel)
+        .map((p) => {
+          const rect = shellPlanRect(p);
+          return (
+            <rect
+              key={`shell-${p.id}`}
+              x={toPx(rect.x)}
+              y={toPx(rect.y)}
+              width={rect.width * scalePxPerFt}
+              height={rect.height * scalePxPerFt}
+              rx={rx}
+              fill={fill}
+              stroke={stroke}
+              strokeWidth={strokeWidth}
+            />
+          );
+        })}
+      {seams.map((seam) => (
+        <g key={`seam-${seam.shellIds.join("-")}`} style={{ pointerEvents: "none" }}>
+          <line
+            {...seamLine(seam.axis, seam.atFt, seam.startFt, seam.endFt)}
+            stroke="#94a3b8"
+            strokeWidth={strokeWidth * 2}
+          />
+          {getSeamOpenIntervals(design, seam).map(([start, end]) => (
+            <g key={`${start}-${end}`}>
+              <line {...seamLine(seam.axis, seam.atFt, start, end)} stroke={fill} strokeWidth={strokeWidth * 2} />
+              <line
+                {...seamLine(seam.axis, seam.atFt, start, end)}
+                stroke={OPENING_STROKE}
+                strokeWidth={strokeWidth}
+                strokeDasharray="6 4"
+              />
+            </g>
+          ))}
+        </g>
+      ))}
+    </g>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { getShellCostCents } from "@/lib/design/price-book";
+import { SHELL_CATALOG, getShellSpec } from "@/lib/design/shell-catalog";
+import { formatCurrencyCents } from "@/lib/format";
+import type { PriceBook } from "@/types/bom";
+import type { ShellConfig } from "@/types/design";
+
+export type ShellPickerProps = {
+  shell: ShellConfig;
+  priceBook: PriceBook;
+  onChange: (shellKey: string) => void;
+};
+
+/**
+ * Container size for the design. Changing it re-fits zones and fixtures to the
+ * new shell (undoable like any other edit).
+ */
+export function ShellPicker({ shell, priceBook, onChange }: ShellPickerProps) {
+  const spec = getShellSpec(shell);
+
+  return (
+    <div className="space-y-3 rounded-xl border border-surface-muted/60 bg-white p-4">
+      <p className="text-xs font-semibold uppercase tracking-[0.3em] text-foreground/60">
+        Container
+      </p>
+
+      <select
+        value={spec.key}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full rounded-lg border border-surface-muted/60 bg-white px-3 py-2 text-sm text-foreground focus:border-forest focus:outline-none focus:ring-2 focus:ring-forest/20"
+      >
+        {SHELL_CATALOG.map((item) => (
+          <option key={item.key} value={item.key}>
+            {item.label} - {formatCurrencyCents(getShellCostCents(priceBook, item.key))}
+          </option>
+        ))}
+      </select>
+
+      <p className="text-xs text-foreground/60">
+        {shell.lengthFt}&apos; × {shell.widthFt}&apos; × {shell.heightFt}&apos; ·{" "}
+        {spec.tareWeightLbs.toLocaleString()} lb tare
+      </p>
+    </div>
+  );
+}
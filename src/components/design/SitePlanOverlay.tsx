@@ -0,0 +1,100 @@
+"use client";
+
+import { getPlacedShells, shellPlanRect } from "@/lib/design/composition";
+import type { BOMCalculation } from "@/types/bom";
+import type { DesignConfig } from "@/types/design";
+
+type SitePlanOverlayProps = {
+  design: DesignConfig;
+  foundation: BOMCalculation["foundation"];
+  activeLevel: number;
+  scalePxPerFt: number;
+  originPx: number;
+};
+
+const CASTING_SIZE_FT = 0.6;
+// 12" concrete piers; helical pile caps drawn the same size
+const PIER_RADIUS_FT = 0.5;
+const PIER_COLOR = "#d6a35c";
+const CASTING_COLOR = "#f8fafc";
+
+/**
+ * Foundation drawn under the ground floor: the corner castings of each shell,
+ * the piers (or helical piles) under them with their depth below grade, and a
+ * legend above the plan. Pads and slabs show the castings only. Read-only;
+ * ignores pointer events.
+ */
+export function SitePlanOverlay({ design, foundation, activeLevel, scalePxPerFt, originPx }: SitePlanOverlayProps) {
+  if (activeLevel !== 0) return null;
+
+  const toPx = (ft: number) => originPx + ft * scalePxPerFt;
+  const { layout } = foundation;
+  const castingPx = CASTING_SIZE_FT * scalePxPerFt;
+  const pierRadiusPx = PIER_RADIUS_FT * scalePxPerFt;
+  const castings = getPlacedShells(design)
+    .filter((placed) => placed.level === 0)
+    .flatMap((placed) => {
+      const rect = shellPlanRect(placed);
+      return [
+        { id: `${placed.id}-a`, x: rect.x, y: rect.y },
+        { id: `${placed.id}-b`, x: rect.x + rect.width - CASTING_SIZE_FT, y: rect.y },
+        { id: `${placed.id}-c`, x: rect.x, y: rect.y + rect.height - CASTING_SIZE_FT },
+        { id: `${placed.id}-d`, x: rect.x + rect.width - CASTING_SIZE_FT, y: rect.y + rect.height - CASTING_SIZE_FT },
+      ];
+    });
+  const helical = layout?.foundation === "helical-piles";
+
+  return (
+    <g pointerEvents="none">
+      {layout?.piers.map((pier) => (
+        <g key={pier.id}>
+          <circle
+            cx={toPx(pier.xFt)}
+            cy={toPx(pier.yFt)}
+            r={pierRadiusPx}
+            fill={PIER_COLOR}
+            fillOpacity={pier.corner ? 0.45 : 0.25}
+            stroke={PIER_COLOR}
+            strokeWidth={1.5}
+            strokeDasharray={pier.corner ? undefined : "3 2"}
+          />
+          {helical && (
+            <path
+              d={`M ${toPx(pier.xFt) - pierRadiusPx} ${toPx(pier.yFt)} h ${2 * pierRadiusPx} M ${toPx(pier.xFt)} ${toPx(pier.yFt) - pierRadiusPx} v ${2 * pierRadiusPx}`}
+              stroke={PIER_COLOR}
+              strokeWidth={1}
+            />
+          )}
+          <text
+            x={toPx(pier.xFt)}
+            y={toPx(pier.yFt) + pierRadiusPx + 10}
+            fill={PIER_COLOR}
+            fontSize={9}
+            textAnchor="middle"
+          >
+            {layout.depthFt}′
+          </text>
+        </g>
+      ))}
+
+      {castings.map((casting) => (
+        <rect
+          key={casting.id}
+          x={toPx(casting.x)}
+          y={toPx(casting.y)}
+          width={castingPx}
+          height={castingPx}
+          fill="#334155"
+          stroke={CASTING_COLOR}
+          strokeWidth={1}
+        />
+      ))}
+
+      <text x={originPx} y={originPx - 28} fill={layout ? PIER_COLOR : CASTING_COLOR} fontSize={11}>
+        {layout
+          ? `${layout.piers.length} ${helical ? "helical piles" : "concrete piers"} · ${layout.depthFt} ft below grade · ${layout.frostDepth.depthIn}" frost (${layout.frostDepth.label})`
+          : `${foundation.details} · no piers`}
+      </text>
+    </g>
+  );
+}
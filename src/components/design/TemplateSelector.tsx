@@ -1,23 +1,37 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import {
   CABIN_TEMPLATES,
   buildDesignFromZoneSelections,
 } from "@/lib/design/templates";
 import type { CabinTemplate } from "@/lib/design/templates";
-import type { DesignConfig } from "@/types/design";
+import { entriesToCatalogMap } from "@/lib/design/catalog-utils";
+import {
+  DEFAULT_SHELL_KEY,
+  SHELL_CATALOG,
+  getShellCatalogItem,
+} from "@/lib/design/shell-catalog";
+import { getShellCostCents } from "@/lib/design/price-book";
+import type { DesignConfig, ModuleCatalogEntry, ShellCatalogItem } from "@/types/design";
+import type { PriceBook } from "@/types/bom";
 import { Button } from "@/components/ui/Button";
 import { formatCurrencyCents } from "@/lib/format";
 
 export type TemplateSelectorProps = {
-  onSelectTemplate: (design: DesignConfig | null) => void;
+  modules: ModuleCatalogEntry[];
+  priceBook: PriceBook;
+  // design is null for a blank canvas in the chosen shell
+  onSelectTemplate: (design: DesignConfig | null, shell: ShellCatalogItem) => void;
 };
 
-export function TemplateSelector({ onSelectTemplate }: TemplateSelectorProps) {
+export function TemplateSelector({ modules, priceBook, onSelectTemplate }: TemplateSelectorProps) {
   const [selectedTemplateId, setSelectedTemplateId] = useState<string>(
     CABIN_TEMPLATES[0]?.id ?? ""
   );
+  const [shellKey, setShellKey] = useState(DEFAULT_SHELL_KEY);
+  const catalog = useMemo(() => entriesToCatalogMap(modules), [modules]);
+  const shell = getShellCatalogItem(shellKey) ?? SHELL_CATALOG[0];
 
   const selectedTemplate = CABIN_TEMPLATES.find(
     (t) => t.id === selectedTemplateId
@@ -26,12 +40,16 @@ export function TemplateSelector({ onSelectTemplate }: TemplateSelectorProps) {
   const handleStartDesigning = () => {
     if (!selectedTemplate) return;
 
-    const design = buildDesignFromZoneSelections(selectedTemplate.zoneSelections);
-    onSelectTemplate(design);
+    const design = buildDesignFromZoneSelections(
+      selectedTemplate.zoneSelections,
+      shell,
+      catalog
+    );
+    onSelectTemplate(design, shell);
   };
 
   const handleStartBlank = () => {
-    onSelectTemplate(null);
+    onSelectTemplate(null, shell);
   };
 
   return (
@@ -75,6 +93,36 @@ export function TemplateSelector({ onSelectTemplate }: TemplateSelectorProps) {
               )}
             </div>
 
+            <div>
+              <label
+                htmlFor="shell-size"
+                className="block text-sm font-semibold uppercase tracking-[0.3em] text-foreground/60 mb-3"
+              >
+                Container Size
+              </label>
+
+              <select
+                id="shell-size"
+                value={shellKey}
+                onChange={(e) => setShellKey(e.target.value)}
+                className="w-full rounded-lg border border-surface-muted/60 bg-white px-4 py-3 text-base text-foreground transition-colors hover:border-forest focus:border-forest focus:outline-none focus:ring-2 focus:ring-forest/20"
+                suppressHydrationWarning={true}
+              >
+                {SHELL_CATALOG.map((item) => (
+                  <option key={item.key} value={item.key}>
+                    {item.label} - {formatCurrencyCents(getShellCostCents(priceBook, item.key))}
+                  </option>
+                ))}
+              </select>
+
+              {shell.key !== DEFAULT_SHELL_KEY && (
+                <p className="mt-2 text-sm text-foreground/60">
+                  Templates are laid out for a 40&apos; High Cube and will be stretched to
+                  fit. Check the layout for overlaps before saving.
+                </p>
+              )}
+            </div>
+
             {/* Action Buttons */}
             <div className="space-y-3 border-t border-surface-muted/40 pt-6">
               <Button
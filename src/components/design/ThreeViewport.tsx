@@ -2,7 +2,8 @@
 
 import { useEffect, useRef, useState, useCallback, useMemo } from "react";
 import * as THREE from "three";
-import type { DesignConfig, ModuleCatalogItem, FixtureConfig } from "@/types/design";
+import type { DesignConfig, ModuleCatalogItem, FixtureConfig, PlacedShellConfig } from "@/types/design";
+import type { PlumbingRouting } from "@/types/bom";
 import {
   SceneManager,
   CameraController,
@@ -14,7 +15,13 @@ import {
   unitsToFt,
   getFixtureHeightFt,
   getFixtureColor,
+  type WallOpening,
+  type WallSide,
 } from "@/lib/design/three";
+import { getGroupBounds, getGroupFixtureIds, getRootGroupId } from "@/lib/design/groups";
+import { getShellSpec } from "@/lib/design/shell-catalog";
+import { PRIMARY_SHELL_ID, getPlacedShells, getShellOpenSides } from "@/lib/design/composition";
+import { analyzeStructure, getShellSideOpenings } from "@/lib/design/structural";
 import { PositionInputPanel } from "./PositionInputPanel";
 
 // Debug mode - only show debug UI in development
@@ -25,10 +32,13 @@ export type ThreeViewportProps = {
   catalog: Record<string, ModuleCatalogItem>;
   selectedIds?: string[];
   pendingPlacement?: ModuleCatalogItem | null;
-  pendingPlacementRotation?: 0 | 90 | 180 | 270;
+  pendingPlacementRotation?: number;
   onPlaceFixture?: (catalogKey: string, coords: { xFt: number; yFt: number }) => void;
   onSelectFixture?: (fixtureId: string) => void;
-  onUpdateFixture?: (id: string, updates: { xFt?: number; yFt?: number; rotationDeg?: 0 | 90 | 180 | 270 }) => void;
+  onUpdateFixture?: (id: string, updates: { xFt?: number; yFt?: number; rotationDeg?: number }) => void;
+  onMoveFixtures?: (ids: string[], deltaFt: { x: number; y: number }) => void;
+  // Drawn under the floor when the plumbing view is on
+  plumbing?: PlumbingRouting | null;
 };
 
 // Movement increment in feet for arrow key controls (matches snap grid)
@@ -43,6 +53,8 @@ export function ThreeViewport({
   onPlaceFixture,
   onSelectFixture,
   onUpdateFixture,
+  onMoveFixtures,
+  plumbing = null,
 }: ThreeViewportProps) {
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -85,13 +97,21 @@ export function ThreeViewport({
   const floorPlaneRef = useRef<THREE.Plane>(new THREE.Plane(new THREE.Vector3(0, 1, 0), 0));
   // Design fixtures ref for checking locked state in event handlers
   const designFixturesRef = useRef(design.fixtures);
+  // Design, catalog and selection refs for resolving group drags in event handlers
+  const designRef = useRef(design);
+  const catalogRef = useRef(catalog);
+  const selectedIdsRef = useRef(selectedIds);
+  const onMoveFixturesRef = useRef<typeof onMoveFixtures>(undefined);
 
   // Memoized config
+  // Catalog profiles are shared objects, so this only changes with the shell size
+  const corrugation = getShellSpec(design.shell).corrugation;
   const shellConfig = useMemo(() => ({
     lengthFt: design.shell.lengthFt,
     widthFt: design.shell.widthFt,
     heightFt: design.shell.heightFt,
-  }), [design.shell.lengthFt, design.shell.widthFt, design.shell.heightFt]);
+    corrugation,
+  }), [design.shell.lengthFt, design.shell.widthFt, design.shell.heightFt, corrugation]);
 
   const fixtureConfig = useMemo(() => ({
     shellLengthFt: design.shell.lengthFt,
@@ -112,7 +132,11 @@ export function ThreeViewport({
     onPlaceFixtureRef.current = onPlaceFixture;
     onUpdateFixtureRef.current = onUpdateFixture;
     designFixturesRef.current = design.fixtures;
-  }, [pendingPlacement, onPlaceFixture, onUpdateFixture, design.fixtures]);
+    designRef.current = design;
+    catalogRef.current = catalog;
+    selectedIdsRef.current = selectedIds;
+    onMoveFixturesRef.current = onMoveFixtures;
+  }, [pendingPlacement, onPlaceFixture, onUpdateFixture, onMoveFixtures, design, catalog, selectedIds]);
 
   // Detect mobile for collapsible controls
   useEffect(() => {
@@ -337,6 +361,24 @@ export function ThreeViewport({
         }
         return true;
       },
+      getDragGroup: (fixtureId) => {
+        // A fully selected group moves as one unit
+        const currentDesign = designRef.current;
+        const groupId = getRootGroupId(currentDesign, fixtureId);
+        if (!groupId) return null;
+        const fixtureIds = getGroupFixtureIds(currentDesign, groupId).filter(
+          (id) => !currentDesign.fixtures.find((f) => f.id === id)?.locked
+        );
+        if (!fixtureIds.every((id) => selectedIdsRef.current.includes(id))) return null;
+        const boundsFt = getGroupBounds(currentDesign, catalogRef.current, fixtureId);
+        return boundsFt ? { fixtureIds, boundsFt } : null;
+      },
+      onGroupDragEnd: (fixtureIds, deltaFt) => {
+        setIsDragging(false);
+        cameraController.orbitControls.enabled = true;
+        addLog(`[ThreeViewport] Group drag ended: ${fixtureIds.length} fixtures by (${deltaFt.x.toFixed(2)}, ${deltaFt.y.toFixed(2)})`);
+        onMoveFixturesRef.current?.(fixtureIds, deltaFt);
+      },
       onDragStart: (fixtureId) => {
         setIsDragging(true);
         cameraController.orbitControls.enabled = false;
@@ -657,9 +699,48 @@ export function ThreeViewport({
     if (!sceneManager) return;
 
     addLog(`[ThreeViewport] Updating container walls`);
-    // Open front and right sides for good camera visibility (camera is at front-right corner)
-    sceneManager.updateContainerWalls(design.fixtures, catalog, ["front", "right"]);
-  }, [design.fixtures, catalog, addLog]);
+    // Cut-outs for every window and exterior door, in each shell's own frame
+    const takeoff = analyzeStructure(design, catalog);
+    const wallOpenings = (placed: PlacedShellConfig): WallOpening[] =>
+      getShellSideOpenings(takeoff, placed).map((o) => ({
+        side: o.side,
+        xFt: o.offsetFt,
+        yFt: o.sillFt,
+        widthFt: o.widthFt,
+        heightFt: o.heightFt,
+      }));
+
+    // Open front and right sides for good camera visibility (camera is at front-right corner),
+    // plus any wall cut away entirely to join a neighbouring shell
+    const primaryOpenSides: WallSide[] = ["front", "right"];
+    for (const side of getShellOpenSides(design, PRIMARY_SHELL_ID)) {
+      if (!primaryOpenSides.includes(side)) primaryOpenSides.push(side);
+    }
+    sceneManager.updateContainerWalls(wallOpenings(getPlacedShells(design)[0]), primaryOpenSides);
+
+    // Turned shells face the camera with their right and back walls
+    sceneManager.updateAdditionalShells(
+      (design.additionalShells ?? []).map((placed) => ({
+        placed,
+        corrugation: getShellSpec(placed.shell).corrugation,
+        openings: wallOpenings(placed),
+        openSides: [
+          ...new Set<WallSide>([
+            ...(placed.rotationDeg === 90 ? (["right", "back"] as const) : (["front", "right"] as const)),
+            ...getShellOpenSides(design, placed.id),
+          ]),
+        ],
+      }))
+    );
+  }, [design, catalog, addLog, shellConfig]);
+
+  // Sync plumbing rough-in
+  useEffect(() => {
+    const sceneManager = sceneManagerRef.current;
+    if (!sceneManager) return;
+
+    sceneManager.updatePlumbing(plumbing);
+  }, [plumbing, shellConfig]);
 
   // Sync fixtures
   useEffect(() => {
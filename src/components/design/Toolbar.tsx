@@ -1,8 +1,9 @@
 "use client";
 
 import { useState } from "react";
+import type { AlignMode, ButtDirection, DistributeAxis } from "@/types/design";
 
-export type ToolType = "select" | "pan" | "measure" | "annotate" | "wall";
+export type ToolType = "select" | "pan" | "measure" | "annotate" | "wall" | "utility";
 
 export type ToolbarProps = {
   viewMode: "2d" | "3d";
@@ -15,10 +16,23 @@ export type ToolbarProps = {
   canDelete?: boolean;
   onRotate?: () => void;
   canRotate?: boolean;
+  selectionCount?: number;
+  onAlign?: (mode: AlignMode) => void;
+  onDistribute?: (axis: DistributeAxis) => void;
+  onButt?: (direction: ButtDirection) => void;
+  onMatchSize?: () => void;
+  onGroup?: () => void;
+  onUngroup?: () => void;
   activeTool?: ToolType;
   onToolChange?: (tool: ToolType) => void;
   onToggleDebug?: () => void;
   debugEnabled?: boolean;
+  onToggleCircuits?: () => void;
+  circuitsVisible?: boolean;
+  onTogglePlumbing?: () => void;
+  plumbingVisible?: boolean;
+  onToggleSitePlan?: () => void;
+  sitePlanVisible?: boolean;
   onHomeClick?: () => void;
   onShowHelp?: () => void;
 };
@@ -34,14 +48,28 @@ export function Toolbar({
   canDelete = false,
   onRotate,
   canRotate = false,
+  selectionCount = 0,
+  onAlign,
+  onDistribute,
+  onButt,
+  onMatchSize,
+  onGroup,
+  onUngroup,
   activeTool = "select",
   onToolChange,
   onToggleDebug,
   debugEnabled = false,
+  onToggleCircuits,
+  circuitsVisible = false,
+  onTogglePlumbing,
+  plumbingVisible = false,
+  onToggleSitePlan,
+  sitePlanVisible = false,
   onHomeClick,
   onShowHelp,
 }: ToolbarProps) {
   const [showToolsMenu, setShowToolsMenu] = useState(false);
+  const [showArrangeMenu, setShowArrangeMenu] = useState(false);
   
   const tools = [
     { id: "select" as const, label: "Select", icon: "⌖", shortcut: "V" },
@@ -49,16 +77,66 @@ export function Toolbar({
     { id: "wall" as const, label: "Wall", icon: "🧱", shortcut: "W" },
     { id: "measure" as const, label: "Measure", icon: "📏", shortcut: "M" },
     { id: "annotate" as const, label: "Annotate", icon: "✎", shortcut: "A" },
+    { id: "utility" as const, label: "Utility Entry", icon: "⊕", shortcut: "U" },
   ];
 
   // Tools shown in the mobile dropdown (select/pan only)
   const mobileDropdownTools = tools.filter(t => t.id === "select" || t.id === "pan");
   
-  // Tools shown in the mobile second row (wall, measure, annotate)
-  const mobileSecondRowTools = tools.filter(t => t.id === "wall" || t.id === "measure" || t.id === "annotate");
+  // Tools shown in the mobile second row (wall, measure, annotate, utility entry)
+  const mobileSecondRowTools = tools.filter(
+    t => t.id === "wall" || t.id === "measure" || t.id === "annotate" || t.id === "utility"
+  );
 
   const activeToolData = tools.find(t => t.id === activeTool);
 
+  // Arrange commands; minSelection is how many fixtures each one needs
+  const arrangeSections: {
+    title: string;
+    items: { label: string; shortcut: string; minSelection: number; run: () => void }[];
+  }[] = [
+    {
+      title: "Align",
+      items: [
+        { label: "Left", shortcut: "Alt+←", minSelection: 2, run: () => onAlign?.("left") },
+        { label: "Right", shortcut: "Alt+→", minSelection: 2, run: () => onAlign?.("right") },
+        { label: "Top", shortcut: "Alt+↑", minSelection: 2, run: () => onAlign?.("top") },
+        { label: "Bottom", shortcut: "Alt+↓", minSelection: 2, run: () => onAlign?.("bottom") },
+        { label: "Centers", shortcut: "Alt+C", minSelection: 2, run: () => onAlign?.("center-x") },
+        { label: "Middles", shortcut: "Alt+M", minSelection: 2, run: () => onAlign?.("center-y") },
+      ],
+    },
+    {
+      title: "Distribute",
+      items: [
+        { label: "Horizontally", shortcut: "Alt+Shift+H", minSelection: 3, run: () => onDistribute?.("horizontal") },
+        { label: "Vertically", shortcut: "Alt+Shift+V", minSelection: 3, run: () => onDistribute?.("vertical") },
+      ],
+    },
+    {
+      title: "Butt against neighbour",
+      items: [
+        { label: "Left", shortcut: "Ctrl+←", minSelection: 1, run: () => onButt?.("left") },
+        { label: "Right", shortcut: "Ctrl+→", minSelection: 1, run: () => onButt?.("right") },
+        { label: "Up", shortcut: "Ctrl+↑", minSelection: 1, run: () => onButt?.("up") },
+        { label: "Down", shortcut: "Ctrl+↓", minSelection: 1, run: () => onButt?.("down") },
+      ],
+    },
+    {
+      title: "Group",
+      items: [
+        { label: "Group", shortcut: "Ctrl+G", minSelection: 2, run: () => onGroup?.() },
+        { label: "Ungroup", shortcut: "Ctrl+Shift+G", minSelection: 1, run: () => onUngroup?.() },
+      ],
+    },
+    {
+      title: "Size",
+      items: [
+        { label: "Match primary", shortcut: "", minSelection: 2, run: () => onMatchSize?.() },
+      ],
+    },
+  ];
+
   return (
     <div className="relative z-50 border-b border-surface-muted/40 bg-white/95 shadow-md backdrop-blur-md flex flex-col px-2 sm:px-3 md:px-6 py-2 md:py-2.5">
       {/* First Row */}
@@ -196,6 +274,60 @@ export function Toolbar({
               <line x1="14" y1="11" x2="14" y2="17" />
             </svg>
           </button>
+
+          {/* Arrange menu - desktop/tablet only */}
+          {onAlign && (
+            <div className="relative hidden sm:block">
+              <button
+                onClick={() => setShowArrangeMenu(!showArrangeMenu)}
+                disabled={selectionCount === 0}
+                className={`h-10 w-10 md:h-11 md:w-11 flex items-center justify-center rounded-xl transition-all disabled:opacity-40 disabled:hover:bg-transparent ${
+                  showArrangeMenu ? "bg-forest text-white" : "text-foreground hover:bg-surface"
+                }`}
+                title="Arrange"
+              >
+                <svg className="w-5 h-5 md:w-6 md:h-6" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                  <line x1="4" y1="3" x2="4" y2="21" />
+                  <rect x="7" y="5" width="12" height="5" rx="1" />
+                  <rect x="7" y="14" width="7" height="5" rx="1" />
+                </svg>
+              </button>
+
+              {showArrangeMenu && selectionCount > 0 && (
+                <>
+                  <div
+                    className="fixed inset-0 z-40"
+                    onClick={() => setShowArrangeMenu(false)}
+                  />
+                  <div className="absolute top-12 left-0 z-50 w-60 bg-white rounded-xl shadow-xl border border-surface-muted/60 p-1.5 flex flex-col gap-1">
+                    {arrangeSections.map(section => (
+                      <div key={section.title}>
+                        <p className="px-3 pt-1.5 pb-0.5 text-[10px] font-semibold uppercase tracking-wider text-foreground/50">
+                          {section.title}
+                        </p>
+                        {section.items.map(item => (
+                          <button
+                            key={item.label}
+                            onClick={() => {
+                              item.run();
+                              setShowArrangeMenu(false);
+                            }}
+                            disabled={selectionCount < item.minSelection}
+                            className="flex w-full items-center justify-between px-3 py-1.5 rounded-lg text-sm text-foreground hover:bg-surface disabled:opacity-40 disabled:hover:bg-transparent transition-all"
+                          >
+                            <span>{item.label}</span>
+                            {item.shortcut && (
+                              <span className="text-[10px] font-mono text-foreground/50">{item.shortcut}</span>
+                            )}
+                          </button>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
@@ -209,7 +341,7 @@ export function Toolbar({
       {/* Spacer for mobile */}
       <div className="flex-1 sm:hidden" />
 
-      {/* Right: Help + Debug + View Toggle */}
+      {/* Right: Help + Circuits + Plumbing + Site Plan + Debug + View Toggle */}
       <div className="flex items-center gap-1 sm:gap-2 flex-shrink-0">
         {/* Help button - desktop only (mobile has it in second row) */}
         {onShowHelp && (
@@ -224,6 +356,51 @@ export function Toolbar({
           </button>
         )}
 
+        {/* Circuits toggle - panel schedule over the 2D plan */}
+        {onToggleCircuits && viewMode === "2d" && (
+          <button
+            onClick={onToggleCircuits}
+            className={`flex h-10 w-10 md:h-12 md:w-12 items-center justify-center rounded-xl transition-all shadow-sm ${
+              circuitsVisible
+                ? "bg-amber-500 text-white ring-2 ring-amber-400/50"
+                : "text-foreground hover:bg-surface hover:shadow-md"
+            }`}
+            title="Toggle Circuits"
+          >
+            <span className="text-lg md:text-2xl">⚡</span>
+          </button>
+        )}
+
+        {/* Plumbing toggle - supply, drain and vent runs in 2D and 3D */}
+        {onTogglePlumbing && (
+          <button
+            onClick={onTogglePlumbing}
+            className={`flex h-10 w-10 md:h-12 md:w-12 items-center justify-center rounded-xl transition-all shadow-sm ${
+              plumbingVisible
+                ? "bg-sky-500 text-white ring-2 ring-sky-400/50"
+                : "text-foreground hover:bg-surface hover:shadow-md"
+            }`}
+            title="Toggle Plumbing"
+          >
+            <span className="text-lg md:text-2xl">💧</span>
+          </button>
+        )}
+
+        {/* Site plan toggle - corner castings and piers under the 2D plan */}
+        {onToggleSitePlan && viewMode === "2d" && (
+          <button
+            onClick={onToggleSitePlan}
+            className={`flex h-10 w-10 md:h-12 md:w-12 items-center justify-center rounded-xl transition-all shadow-sm ${
+              sitePlanVisible
+                ? "bg-orange-500 text-white ring-2 ring-orange-400/50"
+                : "text-foreground hover:bg-surface hover:shadow-md"
+            }`}
+            title="Toggle Site Plan"
+          >
+            <span className="text-lg md:text-2xl">🏗️</span>
+          </button>
+        )}
+
         {/* Debug toggle - visible on all screen sizes for debugging touch issues */}
         <button
           onClick={onToggleDebug}
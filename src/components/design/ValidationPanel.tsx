@@ -5,11 +5,15 @@ import type { DesignAction, ValidationIssue } from "@/types/design";
 export type ValidationPanelProps = {
   issues: ValidationIssue[];
   dispatch: (action: DesignAction) => void;
+  // Code edition the design is checked against (once a delivery ZIP is set)
+  codeEdition?: string;
 };
 
-export function ValidationPanel({ issues, dispatch }: ValidationPanelProps) {
-  const errors = issues.filter((i) => i.level === "error");
-  const warnings = issues.filter((i) => i.level === "warning");
+export function ValidationPanel({ issues, dispatch, codeEdition }: ValidationPanelProps) {
+  // Egress problems get their own list so blocked escape routes stand out
+  const egress = issues.filter((i) => i.code.startsWith("EGRESS_"));
+  const errors = issues.filter((i) => i.level === "error" && !egress.includes(i));
+  const warnings = issues.filter((i) => i.level === "warning" && !egress.includes(i));
 
   const handleFocusFixture = (fixtureId?: string) => {
     if (fixtureId) {
@@ -22,10 +26,37 @@ export function ValidationPanel({ issues, dispatch }: ValidationPanelProps) {
       <p className="text-xs font-semibold uppercase tracking-[0.3em] text-foreground/60">
         Validation
       </p>
+      {codeEdition && (
+        <p className="text-xs text-foreground/60">
+          Checked against the model {codeEdition}. Every state gets the same
+          checks for now; state and local amendments aren&apos;t applied, so confirm
+          them with the local building department.
+        </p>
+      )}
       {issues.length === 0 ? (
         <p className="text-xs text-forest">Layout is valid.</p>
       ) : (
         <div className="space-y-3">
+          {egress.length > 0 && (
+            <div>
+              <p className="mb-1 text-xs font-semibold text-red-600">
+                Blocked egress routes ({egress.length})
+              </p>
+              <ul className="space-y-1 text-xs text-red-700">
+                {egress.map((issue) => (
+                  <li key={issue.id}>
+                    <button
+                      type="button"
+                      onClick={() => handleFocusFixture(issue.fixtureId)}
+                      className="text-left underline hover:no-underline"
+                    >
+                      {issue.message}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
           {errors.length > 0 && (
             <div>
               <p className="mb-1 text-xs font-semibold text-red-600">
@@ -46,6 +77,9 @@ export function ValidationPanel({ issues, dispatch }: ValidationPanelProps) {
                         (Fixture {issue.fixtureId.slice(0, 8)})
                       </span>
                     )}
+                    {issue.citation && (
+                      <span className="block text-red-500/80">{issue.citation}</span>
+                    )}
                   </li>
                 ))}
               </ul>
@@ -66,6 +100,9 @@ export function ValidationPanel({ issues, dispatch }: ValidationPanelProps) {
                     >
                       {issue.message}
                     </button>
+                    {issue.citation && (
+                      <span className="block text-amber-600/80">{issue.citation}</span>
+                    )}
                   </li>
                 ))}
               </ul>
@@ -0,0 +1,195 @@
+import type {
+  AlignMode,
+  ButtDirection,
+  DistributeAxis,
+  FixtureConfig,
+  FixtureFootprint,
+  RectFt,
+  ShellConfig,
+} from "@/types/design";
+import { footprintRect } from "./clipboard";
+
+// Fixture positions (xFt/yFt) after an arrange command, keyed by fixture id
+export type ArrangedPositions = Record<string, { xFt: number; yFt: number }>;
+
+// Gaps smaller than this are treated as touching
+const TOUCH_EPSILON_FT = 0.001;
+
+type PlacedRect = { fixture: FixtureConfig; rect: RectFt };
+
+function placedRects(
+  fixtures: FixtureConfig[],
+  footprints: Record<string, FixtureFootprint>
+): PlacedRect[] {
+  return fixtures.flatMap((fixture) => {
+    const footprint = footprints[fixture.id];
+    return footprint
+      ? [{ fixture, rect: footprintRect(fixture.xFt, fixture.yFt, footprint) }]
+      : [];
+  });
+}
+
+function boundingBox(rects: RectFt[]) {
+  const minX = Math.min(...rects.map((r) => r.x));
+  const minY = Math.min(...rects.map((r) => r.y));
+  const maxX = Math.max(...rects.map((r) => r.x + r.width));
+  const maxY = Math.max(...rects.map((r) => r.y + r.height));
+  return { minX, minY, maxX, maxY };
+}
+
+// Shifts a fixture so its footprint's top-left corner lands on (x, y)
+function moveRectTo({ fixture, rect }: PlacedRect, x: number, y: number) {
+  return { xFt: fixture.xFt + (x - rect.x), yFt: fixture.yFt + (y - rect.y) };
+}
+
+/**
+ * Aligns the fixtures to an edge or center line of their combined bounding box.
+ * Locked fixtures stay put but still count toward the bounding box.
+ */
+export function alignFixtures(
+  fixtures: FixtureConfig[],
+  footprints: Record<string, FixtureFootprint>,
+  mode: AlignMode
+): ArrangedPositions {
+  const placed = placedRects(fixtures, footprints);
+  if (placed.length < 2) return {};
+  const box = boundingBox(placed.map((p) => p.rect));
+
+  const positions: ArrangedPositions = {};
+  for (const item of placed) {
+    if (item.fixture.locked) continue;
+    const { rect } = item;
+    let { x, y } = rect;
+    switch (mode) {
+      case "left":
+        x = box.minX;
+        break;
+      case "right":
+        x = box.maxX - rect.width;
+        break;
+      case "top":
+        y = box.minY;
+        break;
+      case "bottom":
+        y = box.maxY - rect.height;
+        break;
+      case "center-x":
+        x = (box.minX + box.maxX) / 2 - rect.width / 2;
+        break;
+      case "center-y":
+        y = (box.minY + box.maxY) / 2 - rect.height / 2;
+        break;
+    }
+    positions[item.fixture.id] = moveRectTo(item, x, y);
+  }
+  return positions;
+}
+
+/**
+ * Spaces the fixtures with equal gaps along an axis. The first and last
+ * fixtures (by position) keep their places, so at least three are needed.
+ */
+export function distributeFixtures(
+  fixtures: FixtureConfig[],
+  footprints: Record<string, FixtureFootprint>,
+  axis: DistributeAxis
+): ArrangedPositions {
+  const placed = placedRects(fixtures, footprints);
+  if (placed.length < 3) return {};
+
+  const horizontal = axis === "horizontal";
+  const start = (r: RectFt) => (horizontal ? r.x : r.y);
+  const size = (r: RectFt) => (horizontal ? r.width : r.height);
+
+  const sorted = [...placed].sort((a, b) => start(a.rect) - start(b.rect));
+  const first = sorted[0].rect;
+  const last = sorted[sorted.length - 1].rect;
+  const span = start(last) + size(last) - start(first);
+  const occupied = sorted.reduce((sum, p) => sum + size(p.rect), 0);
+  const gap = (span - occupied) / (sorted.length - 1);
+
+  const positions: ArrangedPositions = {};
+  let cursor = start(first);
+  for (const item of sorted) {
+    if (!item.fixture.locked) {
+      positions[item.fixture.id] = horizontal
+        ? moveRectTo(item, cursor, item.rect.y)
+        : moveRectTo(item, item.rect.x, cursor);
+    }
+    cursor += size(item.rect) + gap;
+  }
+  return positions;
+}
+
+/**
+ * Slides the fixtures as one block in `direction` until the first of them
+ * touches a neighbour or the shell wall. Neighbours are the `others` that
+ * overlap the moving fixture across the direction of travel.
+ */
+export function buttFixtures(
+  fixtures: FixtureConfig[],
+  others: FixtureConfig[],
+  footprints: Record<string, FixtureFootprint>,
+  direction: ButtDirection,
+  shell: ShellConfig
+): ArrangedPositions {
+  const moving = placedRects(fixtures.filter((f) => !f.locked), footprints);
+  if (moving.length === 0) return {};
+  const neighbours = placedRects(others, footprints).map((p) => p.rect);
+
+  const overlapsAcross = (a: RectFt, b: RectFt) =>
+    direction === "left" || direction === "right"
+      ? a.y < b.y + b.height - TOUCH_EPSILON_FT && b.y < a.y + a.height - TOUCH_EPSILON_FT
+      : a.x < b.x + b.width - TOUCH_EPSILON_FT && b.x < a.x + a.width - TOUCH_EPSILON_FT;
+
+  // Free distance from a rect to the shell wall or the nearest neighbour ahead of it
+  const freeDistance = (rect: RectFt) => {
+    let distance: number;
+    switch (direction) {
+      case "left":
+        distance = rect.x;
+        break;
+      case "right":
+        distance = shell.lengthFt - (rect.x + rect.width);
+        break;
+      case "up":
+        distance = rect.y;
+        break;
+      case "down":
+        distance = shell.widthFt - (rect.y + rect.height);
+        break;
+    }
+    for (const other of neighbours) {
+      if (!overlapsAcross(rect, other)) continue;
+      let gap: number;
+      switch (direction) {
+        case "left":
+          gap = rect.x - (other.x + other.width);
+          break;
+        case "right":
+          gap = other.x - (rect.x + rect.width);
+          break;
+        case "up":
+          gap = rect.y - (other.y + other.height);
+          break;
+        case "down":
+          gap = other.y - (rect.y + rect.height);
+          break;
+      }
+      // Neighbours already overlapping or behind the rect don't stop it
+      if (gap >= -TOUCH_EPSILON_FT) distance = Math.min(distance, Math.max(gap, 0));
+    }
+    return distance;
+  };
+
+  const travel = Math.max(0, Math.min(...moving.map((p) => freeDistance(p.rect))));
+  if (travel < TOUCH_EPSILON_FT) return {};
+
+  const dx = direction === "left" ? -travel : direction === "right" ? travel : 0;
+  const dy = direction === "up" ? -travel : direction === "down" ? travel : 0;
+  const positions: ArrangedPositions = {};
+  for (const { fixture } of moving) {
+    positions[fixture.id] = { xFt: fixture.xFt + dx, yFt: fixture.yFt + dy };
+  }
+  return positions;
+}
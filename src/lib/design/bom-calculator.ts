@@ -8,43 +8,50 @@ import type { DesignConfig, ModuleCatalogItem, FixtureConfig } from "@/types/des
 import type {
   BOMSelections,
   BOMCalculation,
+  DeliveryLineItem,
+  DeliveryRoute,
   DesignAnalysis,
+  Discount,
   LaborBreakdownItem,
+  StructuralLineItem,
   ElectricalLoadBreakdown,
   ElectricalSystemInfo,
   ElectricalPowerSource,
   GeneratorTier,
-  SolarBatteryTier,
+  PriceBook,
+  SolarSizing,
+  ThermalLoadResult,
 } from "@/types/bom";
 import {
-  CONTAINER_COST_CENTS,
-  ELECTRICAL_BASE_CENTS,
-  ELECTRICAL_PER_FIXTURE_CENTS,
-  PLUMBING_BASE_CENTS,
-  PLUMBING_PER_FIXTURE_CENTS,
-  ROOFING_BASE_CENTS_PER_SQFT,
-  ROOFING_DECK_PREP_CENTS_PER_SQFT,
-  ROOFING_SOLAR_RAILS_CENTS_PER_SQFT,
-  LABOR_HOURS,
   FIXTURE_WATTAGES,
-  HEATING_WATTS_PER_SQFT,
   BASE_LIGHTING_WATTS,
-  GENERATOR_TIERS,
-  SOLAR_BATTERY_TIERS,
+  DEFAULT_SOLAR_AUTONOMY_DAYS,
   ELECTRICAL_POWER_SOURCE_LABELS,
 } from "@/types/bom";
+import {
+  getExposedRoofSqft,
+  getPlacedShells,
+  getSeamOpenIntervals,
+  getShellSeams,
+} from "./composition";
+import { getDistanceProvider } from "./distance-providers";
+import { applyDiscounts, getEligibleDiscounts } from "./discounts";
+import { planPierFoundation } from "./foundation";
+import { isOppositeHand } from "./geometry";
+import { getOpeningKind, getOpeningSpec } from "./openings";
+import { routePlumbing } from "./plumbing-routing";
+import { getShellCostCents } from "./price-book";
 import { priceDesign } from "./pricing";
-import { getDistanceFromAudubon, calculateDeliveryCost, getZipLabel } from "./zip-distance";
+import { getRegionAdjustment } from "./regions";
+import { calculateSalesTax } from "./sales-tax";
+import { getShellSpec } from "./shell-catalog";
+import { sizeSolarSystem } from "./solar";
+import { analyzeStructure } from "./structural";
+import { calculateTakeoff } from "./takeoff";
+import { calculateThermalLoads } from "./thermal-load";
+import { applyWasteSystem, getUtilityPackageItems } from "./utility-packages";
+import { calculateDeliveryCost, getZipLabel } from "./zip-distance";
 
-// Re-import price constants for calculations
-import {
-  INSULATION_PRICES as INS_PRICES,
-  INTERIOR_FINISH_PRICES as INT_PRICES,
-  FLOORING_PRICES as FLR_PRICES,
-  EXTERIOR_FINISH_PRICES as EXT_PRICES,
-  ROOFING_PRICES as ROOF_PRICES,
-  FOUNDATION_PRICES as FOUND_PRICES,
-} from "@/types/bom";
 
 /**
  * Analyze a design to extract dimensions and counts needed for BOM
@@ -60,11 +67,30 @@ export function analyzeDesign(
   const shellWidthFt = shell.widthFt;
   const shellHeightFt = shell.heightFt;
   
-  // Calculated areas
-  const perimeterFt = 2 * (shellLengthFt + shellWidthFt);
-  const floorSqft = shellLengthFt * shellWidthFt;
-  const roofSqft = floorSqft;
-  const externalWallSqft = perimeterFt * shellHeightFt;
+  // Calculated areas, summed over every shell in a composition. Walls shared
+  // between two shells aren't exterior; the parts left standing are finished
+  // like interior walls.
+  const placed = getPlacedShells(design);
+  let perimeterFt = 0;
+  let floorSqft = 0;
+  let externalWallSqft = 0;
+  for (const { shell: dims } of placed) {
+    perimeterFt += 2 * (dims.lengthFt + dims.widthFt);
+    floorSqft += dims.lengthFt * dims.widthFt;
+    externalWallSqft += 2 * (dims.lengthFt + dims.widthFt) * dims.heightFt;
+  }
+  let seamWallSqft = 0;
+  for (const seam of getShellSeams(design)) {
+    const heightFt = Math.min(
+      ...placed.filter((p) => seam.shellIds.includes(p.id)).map((p) => p.shell.heightFt)
+    );
+    const seamFt = seam.endFt - seam.startFt;
+    const openFt = getSeamOpenIntervals(design, seam).reduce((sum, [start, end]) => sum + end - start, 0);
+    perimeterFt -= 2 * seamFt;
+    externalWallSqft -= 2 * seamFt * heightFt;
+    seamWallSqft += 2 * (seamFt - openFt) * heightFt;
+  }
+  const roofSqft = getExposedRoofSqft(design);
   
   // Count fixtures by type
   let windowCount = 0;
@@ -74,39 +100,46 @@ export function analyzeDesign(
   let poweredFixtureCount = 0;
   let wetFixtureCount = 0;
   let totalFixtureCount = 0;
+  let mirroredFixtureCount = 0;
   let openingsSqft = 0;
+  let windowSqft = 0;
+  let interiorOpeningsSqft = 0;
+  let trimLinearFt = 0;
   
   for (const fixture of fixtures) {
     const catalogItem = catalog[fixture.catalogKey];
     if (!catalogItem) continue;
     
     totalFixtureCount++;
+    if (isOppositeHand(fixture)) {
+      mirroredFixtureCount++;
+    }
     
     // Count by key pattern
     const key = fixture.catalogKey.toLowerCase();
     
-    if (key.includes("window")) {
-      windowCount++;
-      // Estimate window opening area (width × height from catalog key pattern)
-      // fixture-window-24x36 = 2ft × 3ft, fixture-window-36x48 = 3ft × 4ft
-      if (key.includes("24x36")) {
-        openingsSqft += 2 * 3;
-      } else if (key.includes("36x48")) {
-        openingsSqft += 3 * 4;
+    // Openings: wall area comes out of insulation and finish, casing goes
+    // round the opening (both faces of interior doors, no bottom on doors)
+    const openingKind = getOpeningKind(fixture);
+    if (openingKind) {
+      const opening = getOpeningSpec(catalogItem);
+      const areaSqft = opening.widthFt * opening.heightFt;
+      if (openingKind === "window") {
+        windowCount++;
+        openingsSqft += areaSqft;
+        windowSqft += areaSqft;
+        trimLinearFt += 2 * (opening.widthFt + opening.heightFt);
+      } else if (openingKind === "exterior-door") {
+        exteriorDoorCount++;
+        openingsSqft += areaSqft;
+        trimLinearFt += opening.widthFt + 2 * opening.heightFt;
       } else {
-        openingsSqft += 6; // Default estimate
+        interiorDoorCount++;
+        interiorOpeningsSqft += 2 * areaSqft;
+        trimLinearFt += 2 * (opening.widthFt + 2 * opening.heightFt);
       }
     }
     
-    if (key.includes("exterior-door")) {
-      exteriorDoorCount++;
-      openingsSqft += 3 * 7; // Standard door opening
-    }
-    
-    if (key.includes("interior-door")) {
-      interiorDoorCount++;
-    }
-    
     if (key.includes("wall") && catalogItem.category === "interior") {
       // Interior wall - calculate length from properties or footprint
       const wallLength = (fixture.properties?.lengthOverrideFt as number) || 
@@ -127,8 +160,11 @@ export function analyzeDesign(
     }
   }
   
-  // Interior wall surface area (both sides × height)
-  const interiorWallSqft = interiorWallLinearFt * shellHeightFt * 2;
+  // Interior wall surface area (both sides × height), less interior door openings
+  const interiorWallSqft = Math.max(
+    0,
+    interiorWallLinearFt * shellHeightFt * 2 + seamWallSqft - interiorOpeningsSqft
+  );
   
   return {
     shellLengthFt,
@@ -146,7 +182,11 @@ export function analyzeDesign(
     poweredFixtureCount,
     wetFixtureCount,
     totalFixtureCount,
+    mirroredFixtureCount,
     openingsSqft,
+    windowSqft,
+    trimLinearFt,
+    shellCount: placed.length,
   };
 }
 
@@ -154,18 +194,10 @@ export function analyzeDesign(
 // Electrical Load Calculation Functions
 // ============================================
 
-/**
- * Calculate heating load based on floor area
- * Uses ~10W per sqft for electric space heating
- */
-export function calculateHeatingLoad(floorSqft: number): number {
-  return Math.round(floorSqft * HEATING_WATTS_PER_SQFT);
-}
-
 /**
  * Get wattage for a fixture by its catalog key
  */
-function getFixtureWattage(catalogKey: string): number {
+export function getFixtureWattage(catalogKey: string): number {
   // Check for exact match
   if (FIXTURE_WATTAGES[catalogKey]) {
     return FIXTURE_WATTAGES[catalogKey];
@@ -180,8 +212,8 @@ function getFixtureWattage(catalogKey: string): number {
 export function calculateFixtureLoad(
   fixtures: FixtureConfig[],
   catalog: Record<string, ModuleCatalogItem>
-): { totalWatts: number; details: { label: string; watts: number }[] } {
-  const details: { label: string; watts: number }[] = [];
+): { totalWatts: number; details: ElectricalLoadBreakdown["fixtureDetails"] } {
+  const details: ElectricalLoadBreakdown["fixtureDetails"] = [];
   let totalWatts = 0;
 
   for (const fixture of fixtures) {
@@ -194,6 +226,7 @@ export function calculateFixtureLoad(
       const watts = getFixtureWattage(fixture.catalogKey);
       totalWatts += watts;
       details.push({
+        catalogKey: fixture.catalogKey,
         label: catalogItem.label,
         watts,
       });
@@ -204,15 +237,15 @@ export function calculateFixtureLoad(
 }
 
 /**
- * Calculate complete electrical load breakdown
+ * Calculate complete electrical load breakdown. Heating and cooling draw is
+ * the sized equipment's input at design conditions.
  */
 export function calculateElectricalLoad(
-  analysis: DesignAnalysis,
+  thermal: ThermalLoadResult,
   fixtures: FixtureConfig[],
   catalog: Record<string, ModuleCatalogItem>
 ): ElectricalLoadBreakdown {
-  // Heating load based on floor area
-  const heatingWatts = calculateHeatingLoad(analysis.floorSqft);
+  const heatingWatts = thermal.equipment.reduce((sum, equipment) => sum + equipment.watts, 0);
 
   // Fixture load
   const { totalWatts: fixtureWatts, details: fixtureDetails } = calculateFixtureLoad(
@@ -239,61 +272,46 @@ export function calculateElectricalLoad(
  * Size a generator based on total wattage requirement
  * Adds 20% headroom for peak loads
  */
-export function sizeGenerator(totalWatts: number): GeneratorTier {
+export function sizeGenerator(totalWatts: number, tiers: GeneratorTier[]): GeneratorTier {
   // Add 20% headroom for peak/startup loads
   const requiredWatts = Math.round(totalWatts * 1.2);
 
   // Find the appropriate tier
-  for (const tier of GENERATOR_TIERS) {
+  for (const tier of tiers) {
     if (requiredWatts <= tier.maxWatts) {
       return tier;
     }
   }
 
   // Return largest tier if load exceeds all tiers
-  return GENERATOR_TIERS[GENERATOR_TIERS.length - 1];
+  return tiers[tiers.length - 1];
 }
 
 /**
- * Size a solar + battery system based on total wattage requirement
- * Assumes 5 hours of peak sun per day and 2 days of battery backup
- */
-export function sizeSolarBattery(totalWatts: number): SolarBatteryTier {
-  // Add 20% headroom
-  const requiredWatts = Math.round(totalWatts * 1.2);
-
-  // Find the appropriate tier
-  for (const tier of SOLAR_BATTERY_TIERS) {
-    if (requiredWatts <= tier.maxWatts) {
-      return tier;
-    }
-  }
-
-  // Return largest tier if load exceeds all tiers
-  return SOLAR_BATTERY_TIERS[SOLAR_BATTERY_TIERS.length - 1];
-}
-
-/**
- * Calculate electrical system info based on power source selection
+ * Calculate electrical system info based on power source selection.
+ * `solar` is the sized solar + battery system (see sizeSolarSystem).
  */
 export function calculateElectricalSystem(
   powerSource: ElectricalPowerSource,
-  loadBreakdown: ElectricalLoadBreakdown
+  loadBreakdown: ElectricalLoadBreakdown,
+  priceBook: PriceBook,
+  solar: SolarSizing | null = null
 ): ElectricalSystemInfo {
   let systemLabel: string | undefined;
   let systemCostCents = 0;
 
   switch (powerSource) {
     case "generator": {
-      const tier = sizeGenerator(loadBreakdown.totalWatts);
+      const tier = sizeGenerator(loadBreakdown.totalWatts, priceBook.generatorTiers);
       systemLabel = tier.label;
       systemCostCents = tier.priceCents;
       break;
     }
     case "solar-battery": {
-      const tier = sizeSolarBattery(loadBreakdown.totalWatts);
-      systemLabel = tier.label;
-      systemCostCents = tier.priceCents;
+      if (solar) {
+        systemLabel = `${solar.arrayKw}kW Solar + ${solar.batteryKwh}kWh Battery`;
+        systemCostCents = solar.items.reduce((sum, item) => sum + item.costCents, 0);
+      }
       break;
     }
     case "grid":
@@ -309,6 +327,7 @@ export function calculateElectricalSystem(
     loadBreakdown,
     systemLabel,
     systemCostCents,
+    solar: powerSource === "solar-battery" ? solar : null,
   };
 }
 
@@ -317,15 +336,17 @@ export function calculateElectricalSystem(
  */
 export function calculateLaborHours(
   analysis: DesignAnalysis,
-  selections: BOMSelections
+  selections: BOMSelections,
+  priceBook: PriceBook
 ): LaborBreakdownItem[] {
+  const { laborHours } = priceBook;
   const breakdown: LaborBreakdownItem[] = [];
   
   // Exterior wall framing
   breakdown.push({
     category: "exterior-framing",
     label: "Exterior Wall Framing",
-    hours: Math.round(analysis.perimeterFt * LABOR_HOURS.exteriorFramingPerLinearFt * 10) / 10,
+    hours: Math.round(analysis.perimeterFt * laborHours.exteriorFramingPerLinearFt * 10) / 10,
     description: `${analysis.perimeterFt} linear ft`,
   });
   
@@ -334,7 +355,7 @@ export function calculateLaborHours(
     breakdown.push({
       category: "window-installation",
       label: "Window Installation",
-      hours: analysis.windowCount * LABOR_HOURS.windowInstallationPerUnit,
+      hours: analysis.windowCount * laborHours.windowInstallationPerUnit,
       description: `${analysis.windowCount} windows`,
     });
   }
@@ -344,7 +365,7 @@ export function calculateLaborHours(
     breakdown.push({
       category: "exterior-door",
       label: "Exterior Door Installation",
-      hours: analysis.exteriorDoorCount * LABOR_HOURS.exteriorDoorPerUnit,
+      hours: analysis.exteriorDoorCount * laborHours.exteriorDoorPerUnit,
       description: `${analysis.exteriorDoorCount} doors`,
     });
   }
@@ -354,7 +375,7 @@ export function calculateLaborHours(
     breakdown.push({
       category: "interior-wall-framing",
       label: "Interior Wall Framing",
-      hours: Math.round(analysis.interiorWallLinearFt * LABOR_HOURS.interiorWallPerLinearFt * 10) / 10,
+      hours: Math.round(analysis.interiorWallLinearFt * laborHours.interiorWallPerLinearFt * 10) / 10,
       description: `${analysis.interiorWallLinearFt} linear ft`,
     });
   }
@@ -364,7 +385,7 @@ export function calculateLaborHours(
     breakdown.push({
       category: "interior-door",
       label: "Interior Door Installation",
-      hours: analysis.interiorDoorCount * LABOR_HOURS.interiorDoorPerUnit,
+      hours: analysis.interiorDoorCount * laborHours.interiorDoorPerUnit,
       description: `${analysis.interiorDoorCount} doors`,
     });
   }
@@ -374,24 +395,24 @@ export function calculateLaborHours(
   breakdown.push({
     category: "insulation",
     label: "Insulation Installation",
-    hours: Math.round(totalWallSqft * LABOR_HOURS.insulationPerSqft * 10) / 10,
+    hours: Math.round(totalWallSqft * laborHours.insulationPerSqft * 10) / 10,
     description: `${Math.round(totalWallSqft)} sqft`,
   });
   
   // Wall finish
   const wallFinishRate = selections.interiorFinish === "drywall" 
-    ? LABOR_HOURS.wallFinishDrywallPerSqft 
-    : LABOR_HOURS.wallFinishWoodPerSqft;
+    ? laborHours.wallFinishDrywallPerSqft 
+    : laborHours.wallFinishWoodPerSqft;
   breakdown.push({
     category: "wall-finish",
     label: "Interior Wall Finish",
     hours: Math.round(totalWallSqft * wallFinishRate * 10) / 10,
-    description: `${Math.round(totalWallSqft)} sqft (${INS_PRICES[selections.insulation]?.label || selections.interiorFinish})`,
+    description: `${Math.round(totalWallSqft)} sqft (${priceBook.insulation[selections.insulation]?.label || selections.interiorFinish})`,
   });
   
   // Electrical
-  const electricalHours = LABOR_HOURS.electricalBase + 
-    (analysis.poweredFixtureCount * LABOR_HOURS.electricalPerFixture);
+  const electricalHours = laborHours.electricalBase + 
+    (analysis.poweredFixtureCount * laborHours.electricalPerFixture);
   breakdown.push({
     category: "electrical",
     label: "Electrical Rough-In",
@@ -400,8 +421,8 @@ export function calculateLaborHours(
   });
   
   // Plumbing
-  const plumbingHours = LABOR_HOURS.plumbingBase + 
-    (analysis.wetFixtureCount * LABOR_HOURS.plumbingPerFixture);
+  const plumbingHours = laborHours.plumbingBase + 
+    (analysis.wetFixtureCount * laborHours.plumbingPerFixture);
   breakdown.push({
     category: "plumbing",
     label: "Plumbing Rough-In",
@@ -410,9 +431,9 @@ export function calculateLaborHours(
   });
   
   // Roofing
-  let roofingHours = selections.roofingType === "none" ? 0 : analysis.roofSqft * LABOR_HOURS.roofingPerSqft;
+  let roofingHours = selections.roofingType === "none" ? 0 : analysis.roofSqft * laborHours.roofingPerSqft;
   if (selections.roofingType !== "none" && selections.roofingDeckPrep) {
-    roofingHours += analysis.roofSqft * LABOR_HOURS.roofingDeckPrepPerSqft;
+    roofingHours += analysis.roofSqft * laborHours.roofingDeckPrepPerSqft;
   }
   breakdown.push({
     category: "roofing",
@@ -425,7 +446,7 @@ export function calculateLaborHours(
   breakdown.push({
     category: "flooring",
     label: "Flooring Installation",
-    hours: Math.round(analysis.floorSqft * LABOR_HOURS.flooringPerSqft * 10) / 10,
+    hours: Math.round(analysis.floorSqft * laborHours.flooringPerSqft * 10) / 10,
     description: `${analysis.floorSqft} sqft`,
   });
   
@@ -433,8 +454,8 @@ export function calculateLaborHours(
   const extFinishRate = selections.exteriorFinish === "none"
     ? 0
     : selections.exteriorFinish === "paint" 
-      ? LABOR_HOURS.exteriorFinishPaintPerSqft 
-      : LABOR_HOURS.exteriorFinishSidingPerSqft;
+      ? laborHours.exteriorFinishPaintPerSqft 
+      : laborHours.exteriorFinishSidingPerSqft;
   breakdown.push({
     category: "exterior-finish",
     label: "Exterior Finish",
@@ -442,11 +463,22 @@ export function calculateLaborHours(
     description: `${Math.round(analysis.externalWallSqft)} sqft`,
   });
   
+  // Water & waste packages
+  const utilityItems = getUtilityPackageItems(selections, priceBook);
+  if (utilityItems.length > 0) {
+    breakdown.push({
+      category: "utility-packages",
+      label: "Water & Waste Systems",
+      hours: Math.round(utilityItems.reduce((sum, item) => sum + item.laborHours, 0) * 10) / 10,
+      description: utilityItems.map((item) => item.label).join(", "),
+    });
+  }
+  
   // Fixture installation
   breakdown.push({
     category: "fixture-install",
     label: "Fixture/Appliance Install",
-    hours: analysis.totalFixtureCount * LABOR_HOURS.fixtureInstallPerUnit,
+    hours: analysis.totalFixtureCount * laborHours.fixtureInstallPerUnit,
     description: `${analysis.totalFixtureCount} fixtures`,
   });
   
@@ -455,76 +487,232 @@ export function calculateLaborHours(
   breakdown.push({
     category: "trim-finish",
     label: "Trim & Finish Work",
-    hours: LABOR_HOURS.trimBaseHours + (totalOpenings * LABOR_HOURS.trimPerOpening),
-    description: `${totalOpenings} openings`,
+    hours: laborHours.trimBaseHours + (analysis.trimLinearFt * laborHours.trimPerLinearFt),
+    description: `${totalOpenings} openings, ${Math.round(analysis.trimLinearFt)} lf casing`,
   });
   
   // Cleanup
   breakdown.push({
     category: "cleanup",
     label: "Final Cleanup",
-    hours: LABOR_HOURS.cleanupHours,
+    hours: laborHours.cleanupHours,
   });
   
   return breakdown;
 }
 
 /**
- * Calculate complete BOM from design and selections
+ * Price the steel work from the structural takeoff: cuts, headers, jambs and
+ * sills for every window and door, plus posts, seams and stacking plates where
+ * shells are joined. Carries its own labor so it isn't in the labor breakdown.
+ * Steel prices are scaled by the regional materials multiplier.
+ */
+export function calculateStructural(
+  design: DesignConfig,
+  catalog: Record<string, ModuleCatalogItem>,
+  laborRateCents: number,
+  priceBook: PriceBook,
+  materialsMultiplier: number = 1
+): BOMCalculation["structural"] {
+  const { structural: structuralPrices, laborHours: hourRates } = priceBook;
+  const takeoff = analyzeStructure(design, catalog);
+  const { join } = takeoff;
+  const lines: Array<Omit<StructuralLineItem, "materialCents" | "hours"> & { centsPerUnit: number; hoursPerUnit: number }> = [
+    { label: "Steel cut", quantity: takeoff.cutLinearFt + join.cutLinearFt, unit: "lf", centsPerUnit: structuralPrices.steelCutCentsPerLinearFt, hoursPerUnit: hourRates.steelCutPerLinearFt },
+    { label: "Tube header", quantity: takeoff.headerLinearFt + join.headerLinearFt, unit: "lf", centsPerUnit: structuralPrices.headerCentsPerLinearFt, hoursPerUnit: hourRates.headerPerLinearFt },
+    { label: "Tube jamb", quantity: takeoff.jambLinearFt, unit: "lf", centsPerUnit: structuralPrices.jambCentsPerLinearFt, hoursPerUnit: hourRates.jambPerLinearFt },
+    { label: "Angle sill", quantity: takeoff.sillLinearFt, unit: "lf", centsPerUnit: structuralPrices.sillCentsPerLinearFt, hoursPerUnit: hourRates.sillPerLinearFt },
+    { label: "Steel post", quantity: join.postCount, unit: "ea", centsPerUnit: structuralPrices.postCents, hoursPerUnit: hourRates.postPerUnit },
+    { label: "Seam plate & weld", quantity: join.seamLinearFt, unit: "lf", centsPerUnit: structuralPrices.seamCentsPerLinearFt, hoursPerUnit: hourRates.seamPerLinearFt },
+    { label: "Stacking plates", quantity: join.stackedShellCount, unit: "ea", centsPerUnit: structuralPrices.stackConnectionCents, hoursPerUnit: hourRates.stackConnectionPerShell },
+  ];
+  const items: StructuralLineItem[] = lines
+    .filter((line) => line.quantity > 0)
+    .map(({ centsPerUnit, hoursPerUnit, ...line }) => ({
+      ...line,
+      quantity: Math.round(line.quantity * 10) / 10,
+      materialCents: Math.round(line.quantity * centsPerUnit * materialsMultiplier),
+      hours: Math.round(line.quantity * hoursPerUnit * 10) / 10,
+    }));
+
+  const materialCents = items.reduce((sum, item) => sum + item.materialCents, 0);
+  const laborHours = Math.round(items.reduce((sum, item) => sum + item.hours, 0) * 10) / 10;
+  const laborCents = Math.round(laborHours * laborRateCents);
+  const openingCount = takeoff.openings.length;
+
+  return {
+    label: "Structural Reinforcement",
+    costCents: materialCents + laborCents,
+    details: items.length === 0
+      ? "No cuts"
+      : `${Math.round(takeoff.cutLinearFt + join.cutLinearFt)} lf steel cut${openingCount > 0 ? `, ${openingCount} ${openingCount === 1 ? "opening" : "openings"}` : ""} • ${laborHours} hrs`,
+    items,
+    materialCents,
+    laborHours,
+    laborCents,
+  };
+}
+
+/**
+ * Price the foundation. Pads and slabs are flat; piers and helical piles are
+ * counted from the pier layout and priced by depth below the frost line, plus
+ * the rig's mobilization, and carry their own labor like the structural work.
+ * Material is scaled by the regional materials multiplier.
+ */
+export function calculateFoundation(
+  design: DesignConfig,
+  selections: BOMSelections,
+  laborRateCents: number,
+  priceBook: PriceBook,
+  materialsMultiplier: number = 1
+): BOMCalculation["foundation"] {
+  const option = priceBook.foundation[selections.foundation];
+  const layout = planPierFoundation(design, selections.foundation, selections.deliveryZip);
+  const items: StructuralLineItem[] = [];
+
+  if (layout) {
+    const prices = priceBook.piers;
+    const helical = layout.foundation === "helical-piles";
+    const pierCents = helical
+      ? prices.helicalPileCents + layout.depthFt * prices.helicalPileCentsPerFtDepth
+      : prices.concretePierCents + layout.depthFt * prices.concretePierCentsPerFtDepth;
+    const pierHours = helical ? prices.helicalPileHours : prices.concretePierHours;
+    const count = layout.piers.length;
+    items.push(
+      {
+        label: `${helical ? "Helical pile" : '12" concrete pier'}, ${layout.depthFt} ft deep`,
+        quantity: count,
+        unit: "ea",
+        materialCents: Math.round(count * pierCents * materialsMultiplier),
+        hours: Math.round(count * pierHours * 10) / 10,
+      },
+      {
+        label: helical ? "Drive rig mobilization" : "Auger mobilization",
+        quantity: 1,
+        unit: "ea",
+        materialCents: Math.round(option.baseCents * materialsMultiplier),
+        hours: 0,
+      }
+    );
+  }
+
+  const materialCents = layout
+    ? items.reduce((sum, item) => sum + item.materialCents, 0)
+    : Math.round(option.baseCents * materialsMultiplier);
+  const laborHours = Math.round(items.reduce((sum, item) => sum + item.hours, 0) * 10) / 10;
+  const laborCents = Math.round(laborHours * laborRateCents);
+
+  return {
+    label: "Foundation",
+    costCents: materialCents + laborCents,
+    details: layout
+      ? `${layout.piers.length} ${option.label.toLowerCase()} • ${layout.depthFt} ft deep (${layout.frostDepth.depthIn}" frost, ${layout.frostDepth.label}) • ${laborHours} hrs`
+      : option.label,
+    layout,
+    items,
+    materialCents,
+    laborHours,
+    laborCents,
+  };
+}
+
+/**
+ * Calculate complete BOM from design and selections, priced from a price book.
+ * Labor, materials (everything but the container shell) and delivery are
+ * scaled by the price book's multiplier for the delivery region.
+ * `discounts` are the running ones; automatic discounts and the one matching
+ * the selected promo code are applied.
  */
 export function calculateBOM(
   design: DesignConfig,
   catalog: Record<string, ModuleCatalogItem>,
-  selections: BOMSelections
+  selections: BOMSelections,
+  priceBook: PriceBook,
+  discounts: Discount[] = []
 ): BOMCalculation {
-  const analysis = analyzeDesign(design, catalog);
-  
-  // 1. Container
+  // Toilets as the selected waste system plumbs and powers them
+  const fixtureCatalog = applyWasteSystem(catalog, selections.wasteSystem);
+  const analysis = analyzeDesign(design, fixtureCatalog);
+  const region = getRegionAdjustment(selections.deliveryZip, priceBook.regions);
+  const laborRateCents = Math.round(selections.laborRateCents * region.labor);
+  const material = (cents: number) => Math.round(cents * region.materials);
+  
+  // 1. Container (every shell in the composition)
+  const shellSpecs = getPlacedShells(design).map((placed) => getShellSpec(placed.shell));
   const container = {
-    label: "Container Shell",
-    costCents: CONTAINER_COST_CENTS,
-    details: `40' High Cube (${analysis.shellLengthFt}' × ${analysis.shellWidthFt}' × ${analysis.shellHeightFt}')`,
+    label: shellSpecs.length > 1 ? "Container Shells" : "Container Shell",
+    costCents: shellSpecs.reduce((sum, spec) => sum + getShellCostCents(priceBook, spec.key), 0),
+    details: shellSpecs.length > 1
+      ? shellSpecs.map((spec) => spec.label).join(" + ")
+      : `${shellSpecs[0].label} (${analysis.shellLengthFt}' × ${analysis.shellWidthFt}' × ${analysis.shellHeightFt}')`,
   };
+
+  // 1b. Structural (steel cut-outs and reinforcement, material + labor)
+  const structural = calculateStructural(design, catalog, laborRateCents, priceBook, region.materials);
   
   // 2. Fixtures (from existing pricing)
   const fixturePricing = priceDesign(design, catalog);
   const fixtures = {
     label: "Fixtures & Appliances",
-    costCents: fixturePricing.subtotalCents,
-    details: `${analysis.totalFixtureCount} items`,
+    costCents: material(fixturePricing.subtotalCents),
+    details: analysis.mirroredFixtureCount > 0
+      ? `${analysis.totalFixtureCount} items (${analysis.mirroredFixtureCount} mirrored)`
+      : `${analysis.totalFixtureCount} items`,
   };
   
   // 3. Walls & Insulation
   const netWallSqft = analysis.externalWallSqft - analysis.openingsSqft;
   const totalInteriorSqft = netWallSqft + analysis.interiorWallSqft;
   
-  const insulationCost = Math.round(totalInteriorSqft * INS_PRICES[selections.insulation].centsPerSqft);
-  const interiorFinishCost = Math.round(totalInteriorSqft * INT_PRICES[selections.interiorFinish].centsPerSqft);
+  const insulationCost = Math.round(totalInteriorSqft * priceBook.insulation[selections.insulation].centsPerSqft);
+  const interiorFinishCost = Math.round(totalInteriorSqft * priceBook.interiorFinish[selections.interiorFinish].centsPerSqft);
   
   const wallsInsulation = {
     label: "Walls & Insulation",
-    costCents: insulationCost + interiorFinishCost,
-    details: `${Math.round(totalInteriorSqft)} sqft (${INS_PRICES[selections.insulation].label} + ${INT_PRICES[selections.interiorFinish].label})`,
+    costCents: material(insulationCost + interiorFinishCost),
+    details: `${Math.round(totalInteriorSqft)} sqft (${priceBook.insulation[selections.insulation].label} + ${priceBook.interiorFinish[selections.interiorFinish].label})`,
   };
   
   // 4. Flooring
-  const flooringCost = Math.round(analysis.floorSqft * FLR_PRICES[selections.flooring].centsPerSqft);
+  const flooringCost = Math.round(analysis.floorSqft * priceBook.flooring[selections.flooring].centsPerSqft);
   const flooring = {
     label: "Flooring",
-    costCents: flooringCost,
-    details: `${analysis.floorSqft} sqft (${FLR_PRICES[selections.flooring].label})`,
+    costCents: material(flooringCost),
+    details: `${analysis.floorSqft} sqft (${priceBook.flooring[selections.flooring].label})`,
   };
   
-  // 5. Electrical (with power source selection)
-  const loadBreakdown = calculateElectricalLoad(analysis, design.fixtures, catalog);
-  const systemInfo = calculateElectricalSystem(selections.electricalPowerSource, loadBreakdown);
+  // 5. Electrical (with power source selection, and heating/cooling sized
+  // for the site's climate)
+  const thermal = calculateThermalLoads(
+    design,
+    catalog,
+    analysis,
+    selections.insulation,
+    selections.deliveryZip,
+    priceBook.hvac
+  );
+  const hvacCostCents = thermal.equipment.reduce((sum, equipment) => sum + equipment.costCents, 0);
+  const loadBreakdown = calculateElectricalLoad(thermal, design.fixtures, fixtureCatalog);
+  const solar = selections.electricalPowerSource === "solar-battery"
+    ? sizeSolarSystem({
+        loadBreakdown,
+        thermal,
+        deliveryZip: selections.deliveryZip,
+        // Designs saved before autonomy was a setting
+        autonomyDays: selections.solarAutonomyDays || DEFAULT_SOLAR_AUTONOMY_DAYS,
+        roofSqft: analysis.roofSqft,
+        roofMounted: selections.roofingType !== "none" && selections.roofingSolarRails,
+        prices: priceBook.solar,
+      })
+    : null;
+  const systemInfo = calculateElectricalSystem(selections.electricalPowerSource, loadBreakdown, priceBook, solar);
   
   // Base electrical cost (wiring, panel, fixtures)
-  const baseElectricalCost = ELECTRICAL_BASE_CENTS + 
-    (analysis.poweredFixtureCount * ELECTRICAL_PER_FIXTURE_CENTS);
+  const baseElectricalCost = priceBook.electrical.baseCents + 
+    (analysis.poweredFixtureCount * priceBook.electrical.perFixtureCents);
   
-  // Total electrical cost includes power system for off-grid options
-  const totalElectricalCost = baseElectricalCost + systemInfo.systemCostCents;
+  // Total electrical cost includes HVAC equipment and the power system for off-grid options
+  const totalElectricalCost = baseElectricalCost + hvacCostCents + systemInfo.systemCostCents;
   
   // Build details string
   let electricalDetails = `${ELECTRICAL_POWER_SOURCE_LABELS[selections.electricalPowerSource]}`;
@@ -532,130 +720,217 @@ export function calculateBOM(
     electricalDetails += ` (${systemInfo.systemLabel})`;
   }
   electricalDetails += ` • ${(loadBreakdown.totalWatts / 1000).toFixed(1)}kW load`;
+  electricalDetails += ` • ${thermal.equipment.map((equipment) => equipment.label).join(" + ")}`;
   
   const electrical = {
     label: "Electrical",
-    costCents: totalElectricalCost,
+    costCents: material(totalElectricalCost),
     details: electricalDetails,
     systemInfo,
+    thermal,
   };
   
   // 6. Plumbing
-  const plumbingCost = PLUMBING_BASE_CENTS + 
-    (analysis.wetFixtureCount * PLUMBING_PER_FIXTURE_CENTS);
+  const routing = routePlumbing(design, fixtureCatalog, priceBook.plumbingPipe);
+  const plumbingCost = priceBook.plumbing.baseCents + 
+    (analysis.wetFixtureCount * priceBook.plumbing.perFixtureCents) +
+    routing.materialCents;
+  const pipeFt = routing.pipes.reduce((sum, pipe) => sum + pipe.lengthFt, 0);
   const plumbing = {
     label: "Plumbing",
-    costCents: plumbingCost,
-    details: `Rough-in + ${analysis.wetFixtureCount} wet fixtures`,
+    costCents: material(plumbingCost),
+    details: `Rough-in + ${analysis.wetFixtureCount} wet fixtures` +
+      (pipeFt > 0 ? ` • ${pipeFt} ft pipe, ${routing.vents.length} vent${routing.vents.length === 1 ? "" : "s"}` : ""),
+    routing,
+  };
+  
+  // 6b. Water & waste packages (install hours are in the labor breakdown)
+  const utilityItems = getUtilityPackageItems(selections, priceBook);
+  const waterWaste = {
+    label: "Water & Waste",
+    costCents: material(utilityItems.reduce((sum, item) => sum + item.costCents, 0)),
+    details: utilityItems.length > 0 ? utilityItems.map((item) => item.label).join(" + ") : "None",
+    items: utilityItems,
   };
   
   // 7. Exterior finish
-  const extFinishCost = Math.round(analysis.externalWallSqft * EXT_PRICES[selections.exteriorFinish].centsPerSqft);
+  const extFinishCost = Math.round(analysis.externalWallSqft * priceBook.exteriorFinish[selections.exteriorFinish].centsPerSqft);
   const exteriorFinish = {
     label: "Exterior Finish",
-    costCents: extFinishCost,
-    details: `${Math.round(analysis.externalWallSqft)} sqft (${EXT_PRICES[selections.exteriorFinish].label})`,
+    costCents: material(extFinishCost),
+    details: `${Math.round(analysis.externalWallSqft)} sqft (${priceBook.exteriorFinish[selections.exteriorFinish].label})`,
   };
   
   // 8. Roofing
-  let roofingCost = Math.round(analysis.roofSqft * ROOF_PRICES[selections.roofingType].centsPerSqft);
-  const roofingOptions: string[] = selections.roofingType === "none" ? ["None"] : [ROOF_PRICES[selections.roofingType].label];
+  let roofingCost = Math.round(analysis.roofSqft * priceBook.roofing[selections.roofingType].centsPerSqft);
+  const roofingOptions: string[] = selections.roofingType === "none" ? ["None"] : [priceBook.roofing[selections.roofingType].label];
   
   if (selections.roofingType !== "none") {
     if (selections.roofingDeckPrep) {
-      roofingCost += Math.round(analysis.roofSqft * ROOFING_DECK_PREP_CENTS_PER_SQFT);
+      roofingCost += Math.round(analysis.roofSqft * priceBook.roofingDeckPrepCentsPerSqft);
       roofingOptions.push("Deck Prep");
     }
     if (selections.roofingSolarRails) {
-      roofingCost += Math.round(analysis.roofSqft * ROOFING_SOLAR_RAILS_CENTS_PER_SQFT);
+      roofingCost += Math.round(analysis.roofSqft * priceBook.roofingSolarRailsCentsPerSqft);
       roofingOptions.push("Solar Rails");
     }
   }
   
   const roofing = {
     label: "Roofing",
-    costCents: roofingCost,
+    costCents: material(roofingCost),
     details: selections.roofingType === "none" ? "None" : `${analysis.roofSqft} sqft (${roofingOptions.join(" + ")})`,
   };
   
-  // 9. Foundation
-  const foundationCost = FOUND_PRICES[selections.foundation].baseCents;
-  const foundation = {
-    label: "Foundation",
-    costCents: foundationCost,
-    details: FOUND_PRICES[selections.foundation].label,
-  };
+  // 9. Foundation (piers and helical piles carry their own labor)
+  const foundation = calculateFoundation(design, selections, laborRateCents, priceBook, region.materials);
   
   // 10. Labor
-  const laborBreakdown = calculateLaborHours(analysis, selections);
+  const laborBreakdown = calculateLaborHours(analysis, selections, priceBook);
   const totalHours = laborBreakdown.reduce((sum, item) => sum + item.hours, 0);
-  const laborCost = Math.round(totalHours * selections.laborRateCents);
+  const laborCost = Math.round(totalHours * laborRateCents);
   
   const labor = {
     label: "Labor",
     costCents: laborCost,
-    details: `${Math.round(totalHours)} hrs × $${(selections.laborRateCents / 100).toFixed(2)}/hr`,
+    details: `${Math.round(totalHours)} hrs × $${(laborRateCents / 100).toFixed(2)}/hr`,
     breakdown: laborBreakdown,
     totalHours: Math.round(totalHours * 10) / 10,
+    rateCents: laborRateCents,
   };
   
-  // 11. Delivery
-  let deliveryDistanceMiles: number | null = null;
-  let deliveryCost = 0;
+  // 11. Delivery (one load per shell, over the provider's road route)
+  const rules = priceBook.deliveryRules;
+  const placedShells = getPlacedShells(design);
+  const loadLengths = placedShells.map((placed) => getShellSpec(placed.shell).lengthFt);
+  let deliveryRoute: DeliveryRoute | null = null;
+  const deliveryItems: DeliveryLineItem[] = [];
   let deliveryDetails = "Enter ZIP code";
   
   if (selections.deliveryZip && selections.deliveryZip.length >= 5) {
-    deliveryDistanceMiles = getDistanceFromAudubon(selections.deliveryZip);
+    deliveryRoute = getDistanceProvider().route(selections.deliveryZip);
     
-    if (deliveryDistanceMiles !== null) {
-      deliveryCost = calculateDeliveryCost(deliveryDistanceMiles);
+    if (deliveryRoute !== null) {
+      const { miles, states } = deliveryRoute;
+      deliveryItems.push({
+        label: loadLengths.length > 1 ? `Haul (${loadLengths.length} loads)` : "Haul",
+        quantity: miles,
+        unit: "mi",
+        costCents: calculateDeliveryCost(
+          miles * loadLengths.length,
+          Math.round(priceBook.delivery.centsPerMile * region.delivery),
+          priceBook.delivery.minimumCents
+        ),
+      });
+      
+      // Stacked shells have to be lifted into place whatever their length
+      const tiltBedLoads = loadLengths.filter((lengthFt) => lengthFt <= rules.tiltBedMaxLengthFt).length;
+      const needsCrane =
+        tiltBedLoads < loadLengths.length || placedShells.some((placed) => placed.level > 0);
+      if (needsCrane) {
+        deliveryItems.push({ label: "Crane set", quantity: 1, unit: "ea", costCents: rules.craneCents });
+      } else if (tiltBedLoads > 0) {
+        deliveryItems.push({
+          label: "Tilt-bed unload",
+          quantity: tiltBedLoads,
+          unit: "ea",
+          costCents: tiltBedLoads * rules.tiltBedCentsPerLoad,
+        });
+      }
+      
+      const oversizeLoads = loadLengths.filter((lengthFt) => lengthFt >= rules.oversizeMinLengthFt).length;
+      if (oversizeLoads > 0) {
+        deliveryItems.push({
+          label: oversizeLoads > 1 ? `Oversize permits (${oversizeLoads} loads)` : "Oversize permits",
+          quantity: states.length,
+          unit: "state",
+          costCents: oversizeLoads * states.length * rules.permitCentsPerState,
+        });
+      }
+      
+      const escortLoads = loadLengths.filter((lengthFt) => lengthFt >= rules.escortMinLengthFt).length;
+      if (escortLoads > 0) {
+        deliveryItems.push({
+          label: escortLoads > 1 ? `Pilot car escort (${escortLoads} loads)` : "Pilot car escort",
+          quantity: miles,
+          unit: "mi",
+          costCents: escortLoads * miles * rules.escortCentsPerMile,
+        });
+      }
+      
       const zipLabel = getZipLabel(selections.deliveryZip);
       deliveryDetails = zipLabel 
-        ? `${deliveryDistanceMiles} mi to ${zipLabel}`
-        : `${deliveryDistanceMiles} mi from Audubon, IA`;
+        ? `${miles} road mi to ${zipLabel}`
+        : `${miles} road mi from Audubon, IA`;
     } else {
-      deliveryDetails = "ZIP code not found";
+      deliveryDetails = getZipLabel(selections.deliveryZip)
+        ? "No road route - quoted separately"
+        : "ZIP code not found";
     }
   }
   
   const delivery = {
     label: "Delivery",
-    costCents: deliveryCost,
+    costCents: deliveryItems.reduce((sum, item) => sum + item.costCents, 0),
     details: deliveryDetails,
-    distanceMiles: deliveryDistanceMiles,
+    distanceMiles: deliveryRoute?.miles ?? null,
+    route: deliveryRoute,
+    loads: loadLengths.length,
+    items: deliveryItems,
   };
   
+  // Purchasing quantities for the same build
+  const takeoff = calculateTakeoff(design, catalog, analysis, selections);
+  
   // Totals
   const subtotalCents = 
     container.costCents +
+    structural.costCents +
     fixtures.costCents +
     wallsInsulation.costCents +
     flooring.costCents +
     electrical.costCents +
     plumbing.costCents +
+    waterWaste.costCents +
     exteriorFinish.costCents +
     roofing.costCents +
     foundation.costCents +
     labor.costCents +
     delivery.costCents;
   
-  const contingencyCents = Math.round(subtotalCents * 0.1); // 10% contingency
-  const grandTotalCents = subtotalCents + contingencyCents;
+  const contingencyCents = Math.round(subtotalCents * (priceBook.contingencyPct / 100));
+  
+  // Discounts come off the estimate, then sales tax is charged on what's left
+  const discountLines = applyDiscounts(
+    subtotalCents + contingencyCents,
+    getEligibleDiscounts(discounts, selections.promoCode)
+  );
+  const discountCents = discountLines.reduce((sum, line) => sum + line.amountCents, 0);
+  const salesTax = calculateSalesTax(selections.deliveryZip, subtotalCents + contingencyCents - discountCents);
+  
+  const grandTotalCents = subtotalCents + contingencyCents - discountCents + salesTax.costCents;
   
   return {
     container,
+    structural,
     fixtures,
     wallsInsulation,
     flooring,
     electrical,
     plumbing,
+    waterWaste,
     exteriorFinish,
     roofing,
     foundation,
     labor,
     delivery,
+    region,
+    takeoff,
     subtotalCents,
     contingencyCents,
+    discounts: discountLines,
+    discountCents,
+    salesTax,
     grandTotalCents,
   };
 }
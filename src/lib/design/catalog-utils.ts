@@ -3,7 +3,9 @@ import type {
   FootprintAnchor,
   ModuleCatalogEntry,
   ModuleCatalogItem,
+  OpeningSpec,
   UtilityType,
+  ValidationLevel,
 } from "@/types/design";
 
 /**
@@ -62,6 +64,22 @@ export function entryToItem(entry: ModuleCatalogEntry): ModuleCatalogItem | null
       ? (clearanceRaw as Record<string, unknown>)
       : undefined;
 
+  // Extract clearance enforcement settings
+  const clearanceLevel: ValidationLevel | undefined =
+    schema["clearanceLevel"] === "error" || schema["clearanceLevel"] === "warning"
+      ? schema["clearanceLevel"]
+      : undefined;
+  const sidesRaw = schema["clearanceSides"];
+  const clearanceSides = Array.isArray(sidesRaw)
+    ? sidesRaw.filter((s): s is "front" | "back" | "left" | "right" =>
+        typeof s === "string" && ["front", "back", "left", "right"].includes(s)
+      )
+    : undefined;
+  const clearanceShareGroup =
+    typeof schema["clearanceShareGroup"] === "string"
+      ? schema["clearanceShareGroup"]
+      : undefined;
+
   // Determine footprint anchor (default to center for fixtures, front-left for modules)
   const footprintAnchor: FootprintAnchor =
     (schema["footprintAnchor"] as FootprintAnchor) ||
@@ -80,6 +98,27 @@ export function entryToItem(entry: ModuleCatalogEntry): ModuleCatalogItem | null
       ? priceRule["perLinearFtCents"]
       : undefined;
 
+  // Extract opening size. Fixture-style entries carry an "opening" object; legacy
+  // opening modules keep widthFt/heightFt at the top level of the schema.
+  const openingRaw =
+    schema["opening"] && typeof schema["opening"] === "object"
+      ? (schema["opening"] as Record<string, unknown>)
+      : entry.category === "opening" && typeof schema["heightFt"] === "number"
+        ? schema
+        : undefined;
+  let opening: OpeningSpec | undefined;
+  if (
+    openingRaw &&
+    typeof openingRaw["widthFt"] === "number" &&
+    typeof openingRaw["heightFt"] === "number"
+  ) {
+    opening = {
+      widthFt: openingRaw["widthFt"],
+      heightFt: openingRaw["heightFt"],
+      sillFt: typeof openingRaw["sillFt"] === "number" ? openingRaw["sillFt"] : 0,
+    };
+  }
+
   // Extract hidden flag (for internal items like walls that shouldn't appear in fixture library)
   const hidden = schema["hidden"] === true ? true : undefined;
 
@@ -100,10 +139,14 @@ export function entryToItem(entry: ModuleCatalogEntry): ModuleCatalogItem | null
           right: typeof minClearFt["right"] === "number" ? minClearFt["right"] : undefined,
         }
       : undefined,
+    clearanceLevel,
+    clearanceSides,
+    clearanceShareGroup,
     priceRule: {
       baseCents,
       perLinearFtCents,
     },
+    opening,
     hidden,
   };
 }
@@ -0,0 +1,102 @@
+/**
+ * Climate Zones
+ *
+ * IECC climate zone and ASHRAE design temperatures for the delivery ZIP, for
+ * sizing heating and cooling. Each state carries the numbers for its main
+ * population center; ZIP prefixes override states that span several zones,
+ * longest prefix first (as with regional pricing).
+ */
+
+import type { ClimateZone } from "@/types/bom";
+import { getZipLocationInfo } from "./zip-distance";
+
+// The shop's climate (Des Moines design temperatures), used until a ZIP is entered
+export const HOME_CLIMATE: ClimateZone = { zone: 5, label: "Central Iowa", heatingDesignF: -4, coolingDesignF: 91 };
+
+export const STATE_CLIMATE: Record<string, ClimateZone> = {
+  AL: { zone: 3, label: "Birmingham, AL", heatingDesignF: 21, coolingDesignF: 94 },
+  AK: { zone: 7, label: "Anchorage, AK", heatingDesignF: -8, coolingDesignF: 72 },
+  AZ: { zone: 2, label: "Phoenix, AZ", heatingDesignF: 38, coolingDesignF: 109 },
+  AR: { zone: 3, label: "Little Rock, AR", heatingDesignF: 19, coolingDesignF: 96 },
+  CA: { zone: 3, label: "Central Valley, CA", heatingDesignF: 32, coolingDesignF: 100 },
+  CO: { zone: 5, label: "Denver, CO", heatingDesignF: 3, coolingDesignF: 92 },
+  CT: { zone: 5, label: "Hartford, CT", heatingDesignF: 7, coolingDesignF: 88 },
+  DE: { zone: 4, label: "Wilmington, DE", heatingDesignF: 15, coolingDesignF: 91 },
+  DC: { zone: 4, label: "Washington, DC", heatingDesignF: 18, coolingDesignF: 93 },
+  FL: { zone: 2, label: "Orlando, FL", heatingDesignF: 40, coolingDesignF: 93 },
+  GA: { zone: 3, label: "Atlanta, GA", heatingDesignF: 24, coolingDesignF: 93 },
+  HI: { zone: 1, label: "Honolulu, HI", heatingDesignF: 62, coolingDesignF: 89 },
+  ID: { zone: 5, label: "Boise, ID", heatingDesignF: 10, coolingDesignF: 97 },
+  IL: { zone: 5, label: "Chicago, IL", heatingDesignF: -2, coolingDesignF: 91 },
+  IN: { zone: 5, label: "Indianapolis, IN", heatingDesignF: 3, coolingDesignF: 90 },
+  IA: HOME_CLIMATE,
+  KS: { zone: 4, label: "Wichita, KS", heatingDesignF: 9, coolingDesignF: 99 },
+  KY: { zone: 4, label: "Louisville, KY", heatingDesignF: 12, coolingDesignF: 92 },
+  LA: { zone: 2, label: "Baton Rouge, LA", heatingDesignF: 30, coolingDesignF: 94 },
+  ME: { zone: 6, label: "Portland, ME", heatingDesignF: 2, coolingDesignF: 85 },
+  MD: { zone: 4, label: "Baltimore, MD", heatingDesignF: 16, coolingDesignF: 93 },
+  MA: { zone: 5, label: "Boston, MA", heatingDesignF: 10, coolingDesignF: 89 },
+  MI: { zone: 5, label: "Detroit, MI", heatingDesignF: 4, coolingDesignF: 89 },
+  MN: { zone: 6, label: "Minneapolis, MN", heatingDesignF: -11, coolingDesignF: 90 },
+  MS: { zone: 3, label: "Jackson, MS", heatingDesignF: 24, coolingDesignF: 95 },
+  MO: { zone: 4, label: "Kansas City, MO", heatingDesignF: 6, coolingDesignF: 95 },
+  MT: { zone: 6, label: "Billings, MT", heatingDesignF: -9, coolingDesignF: 92 },
+  NE: { zone: 5, label: "Omaha, NE", heatingDesignF: -2, coolingDesignF: 93 },
+  NV: { zone: 3, label: "Las Vegas, NV", heatingDesignF: 29, coolingDesignF: 108 },
+  NH: { zone: 6, label: "Concord, NH", heatingDesignF: -1, coolingDesignF: 88 },
+  NJ: { zone: 4, label: "Newark, NJ", heatingDesignF: 14, coolingDesignF: 91 },
+  NM: { zone: 4, label: "Albuquerque, NM", heatingDesignF: 19, coolingDesignF: 95 },
+  NY: { zone: 5, label: "Albany, NY", heatingDesignF: 1, coolingDesignF: 88 },
+  NC: { zone: 4, label: "Raleigh, NC", heatingDesignF: 21, coolingDesignF: 92 },
+  ND: { zone: 7, label: "Bismarck, ND", heatingDesignF: -16, coolingDesignF: 93 },
+  OH: { zone: 5, label: "Columbus, OH", heatingDesignF: 5, coolingDesignF: 89 },
+  OK: { zone: 3, label: "Oklahoma City, OK", heatingDesignF: 13, coolingDesignF: 99 },
+  OR: { zone: 4, label: "Portland, OR", heatingDesignF: 25, coolingDesignF: 90 },
+  PA: { zone: 5, label: "Harrisburg, PA", heatingDesignF: 9, coolingDesignF: 91 },
+  RI: { zone: 5, label: "Providence, RI", heatingDesignF: 9, coolingDesignF: 87 },
+  SC: { zone: 3, label: "Columbia, SC", heatingDesignF: 25, coolingDesignF: 95 },
+  SD: { zone: 6, label: "Sioux Falls, SD", heatingDesignF: -11, coolingDesignF: 92 },
+  TN: { zone: 4, label: "Nashville, TN", heatingDesignF: 16, coolingDesignF: 94 },
+  TX: { zone: 3, label: "Dallas, TX", heatingDesignF: 22, coolingDesignF: 100 },
+  UT: { zone: 5, label: "Salt Lake City, UT", heatingDesignF: 8, coolingDesignF: 97 },
+  VT: { zone: 6, label: "Burlington, VT", heatingDesignF: -6, coolingDesignF: 86 },
+  VA: { zone: 4, label: "Richmond, VA", heatingDesignF: 17, coolingDesignF: 93 },
+  WA: { zone: 4, label: "Seattle, WA", heatingDesignF: 27, coolingDesignF: 85 },
+  WV: { zone: 5, label: "Charleston, WV", heatingDesignF: 9, coolingDesignF: 88 },
+  WI: { zone: 6, label: "Madison, WI", heatingDesignF: -7, coolingDesignF: 88 },
+  WY: { zone: 6, label: "Cheyenne, WY", heatingDesignF: -2, coolingDesignF: 88 },
+};
+
+export const ZIP_PREFIX_CLIMATE: Record<string, ClimateZone> = {
+  "100": { zone: 4, label: "New York City", heatingDesignF: 15, coolingDesignF: 90 },
+  "112": { zone: 4, label: "New York City", heatingDesignF: 15, coolingDesignF: 90 },
+  "330": { zone: 1, label: "Miami, FL", heatingDesignF: 47, coolingDesignF: 92 },
+  "331": { zone: 1, label: "Miami, FL", heatingDesignF: 47, coolingDesignF: 92 },
+  "556": { zone: 7, label: "Duluth, MN", heatingDesignF: -16, coolingDesignF: 85 },
+  "770": { zone: 2, label: "Houston, TX", heatingDesignF: 33, coolingDesignF: 96 },
+  "782": { zone: 2, label: "San Antonio, TX", heatingDesignF: 30, coolingDesignF: 99 },
+  "787": { zone: 2, label: "Austin, TX", heatingDesignF: 29, coolingDesignF: 100 },
+  "816": { zone: 7, label: "Colorado mountains", heatingDesignF: -15, coolingDesignF: 82 },
+  "860": { zone: 5, label: "Flagstaff, AZ", heatingDesignF: 4, coolingDesignF: 84 },
+  "894": { zone: 5, label: "Reno, NV", heatingDesignF: 11, coolingDesignF: 96 },
+  "900": { zone: 3, label: "Los Angeles, CA", heatingDesignF: 43, coolingDesignF: 89 },
+  "922": { zone: 2, label: "Palm Springs, CA", heatingDesignF: 35, coolingDesignF: 110 },
+  "941": { zone: 3, label: "San Francisco, CA", heatingDesignF: 39, coolingDesignF: 84 },
+  "961": { zone: 6, label: "Sierra Nevada, CA", heatingDesignF: 8, coolingDesignF: 86 },
+  "992": { zone: 5, label: "Spokane, WA", heatingDesignF: 4, coolingDesignF: 93 },
+};
+
+/**
+ * Climate for a delivery ZIP, or null when the ZIP can't be placed.
+ */
+export function getClimateZone(zip: string): ClimateZone | null {
+  if (zip.length < 5) return null;
+
+  const prefix = Object.keys(ZIP_PREFIX_CLIMATE)
+    .filter((match) => zip.startsWith(match))
+    .sort((a, b) => b.length - a.length)[0];
+  if (prefix) return ZIP_PREFIX_CLIMATE[prefix];
+
+  const state = getZipLocationInfo(zip)?.state;
+  return (state && STATE_CLIMATE[state]) || null;
+}
@@ -0,0 +1,143 @@
+import { z } from "zod";
+import type {
+  ClipboardPayload,
+  DesignConfig,
+  FixtureConfig,
+  FixtureFootprint,
+  ModuleCatalogItem,
+  RectFt,
+} from "@/types/design";
+import { rectFromFixture } from "./geometry";
+
+export const CLIPBOARD_FORMAT = "readybuilt-fixtures" as const;
+
+/**
+ * Footprints (rotation applied) for the given fixtures, keyed by fixture id.
+ * Fixtures with an unknown catalog key are left out.
+ */
+export function getFixtureFootprints(
+  design: DesignConfig,
+  ids: string[],
+  catalog: Record<string, ModuleCatalogItem>
+): Record<string, FixtureFootprint> {
+  const footprints: Record<string, FixtureFootprint> = {};
+  for (const fixture of design.fixtures) {
+    if (!ids.includes(fixture.id)) continue;
+    const cat = catalog[fixture.catalogKey];
+    if (!cat) continue;
+    const rect = rectFromFixture(fixture, cat);
+    footprints[fixture.id] = {
+      widthFt: rect.width,
+      heightFt: rect.height,
+      footprintAnchor: cat.footprintAnchor,
+    };
+  }
+  return footprints;
+}
+
+/**
+ * Rectangle covered by a fixture at (xFt, yFt), matching rectFromFixture's
+ * anchor handling.
+ */
+export function footprintRect(
+  xFt: number,
+  yFt: number,
+  footprint: FixtureFootprint
+): RectFt {
+  const { widthFt, heightFt, footprintAnchor } = footprint;
+  return footprintAnchor === "center"
+    ? { x: xFt - widthFt / 2, y: yFt - heightFt / 2, width: widthFt, height: heightFt }
+    : { x: xFt, y: yFt, width: widthFt, height: heightFt };
+}
+
+/**
+ * Builds a clipboard payload from fixtures with known footprints. Positions are
+ * stored relative to the selection's bounding box so the layout survives a paste
+ * anywhere (including into another design).
+ */
+export function createClipboardPayload(
+  fixtures: FixtureConfig[],
+  footprints: Record<string, FixtureFootprint>
+): ClipboardPayload | null {
+  const copied = fixtures.filter((f) => footprints[f.id]);
+  if (copied.length === 0) return null;
+
+  const rects = copied.map((f) => footprintRect(f.xFt, f.yFt, footprints[f.id]));
+  const minX = Math.min(...rects.map((r) => r.x));
+  const minY = Math.min(...rects.map((r) => r.y));
+  const maxX = Math.max(...rects.map((r) => r.x + r.width));
+  const maxY = Math.max(...rects.map((r) => r.y + r.height));
+
+  return {
+    format: CLIPBOARD_FORMAT,
+    version: 1,
+    originFt: { x: minX, y: minY },
+    sizeFt: { width: maxX - minX, height: maxY - minY },
+    fixtures: copied.map(({ id, ...fixture }) => ({
+      ...fixture,
+      xFt: fixture.xFt - minX,
+      yFt: fixture.yFt - minY,
+      footprint: footprints[id],
+    })),
+  };
+}
+
+const footprintSchema = z.object({
+  widthFt: z.number().positive(),
+  heightFt: z.number().positive(),
+  footprintAnchor: z.enum(["center", "front-left", "back-left"]),
+});
+
+const clipboardPayloadSchema = z.object({
+  format: z.literal(CLIPBOARD_FORMAT),
+  version: z.literal(1),
+  originFt: z.object({ x: z.number(), y: z.number() }),
+  sizeFt: z.object({ width: z.number().nonnegative(), height: z.number().nonnegative() }),
+  fixtures: z
+    .array(
+      z.object({
+        catalogKey: z.string().min(1),
+        name: z.string().optional(),
+        xFt: z.number(),
+        yFt: z.number(),
+        rotationDeg: z.number(),
+        mirrorX: z.boolean().optional(),
+        mirrorY: z.boolean().optional(),
+        zone: z.string().optional(),
+        locked: z.boolean().optional(),
+        properties: z.record(z.unknown()).optional(),
+        footprint: footprintSchema,
+      })
+    )
+    .min(1),
+});
+
+export function serializeClipboardPayload(payload: ClipboardPayload): string {
+  return JSON.stringify(payload);
+}
+
+/**
+ * Parses clipboard text. Returns null for anything that isn't a fixture payload
+ * (e.g. plain text the user copied elsewhere).
+ */
+export function parseClipboardPayload(text: string): ClipboardPayload | null {
+  try {
+    const result = clipboardPayloadSchema.safeParse(JSON.parse(text));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks two payloads hold the same copied fixtures, wherever they were last
+ * placed. Both go through the schema so key order and stripped fields match.
+ */
+export function isSameClipboardSelection(a: ClipboardPayload, b: ClipboardPayload): boolean {
+  const fixturesOf = (payload: ClipboardPayload) => {
+    const result = clipboardPayloadSchema.safeParse(payload);
+    return result.success ? JSON.stringify(result.data.fixtures) : null;
+  };
+  const fixtures = fixturesOf(a);
+  return fixtures !== null && fixtures === fixturesOf(b);
+}
@@ -0,0 +1,321 @@
+import type {
+  DesignConfig,
+  ModuleCatalogItem,
+  RectFt,
+  ValidationIssue,
+  ValidationLevel,
+  ValidationRule,
+  ZoneConfig,
+} from "@/types/design";
+import { rectDistance, rectFromFixture, zonesContainingRect } from "./geometry";
+import { getOpeningKind, getOpeningSpec } from "./openings";
+import { getZipLocationInfo } from "./zip-distance";
+import { getZoneType, type ZoneType } from "./zone-utils";
+
+/**
+ * Limits used by the residential code rules. Distances in feet, areas in sq ft.
+ */
+export type CodeRuleConfig = {
+  // Severity of every finding in the pack
+  level: ValidationLevel;
+  habitableZoneTypes: ZoneType[];
+  bathZoneTypes: ZoneType[];
+  minHabitableAreaSqft: number;
+  minHabitableDimensionFt: number;
+  minCeilingHeightFt: number;
+  // Lost between the shell's outside height and the finished ceiling
+  // (steel floor/roof structure, subfloor, insulation and finishes)
+  ceilingBuildUpFt: number;
+  minEgressOpeningSqft: number;
+  minEgressWidthFt: number;
+  minEgressHeightFt: number;
+  maxEgressSillFt: number;
+  // Share of a window's rough size that opens clear (frame and sash removed)
+  windowNetOpeningRatio: number;
+  minBathWindowSqft: number;
+  // Max distance from a sleeping area to the smoke alarm serving it
+  smokeAlarmVicinityFt: number;
+};
+
+export const DEFAULT_CODE_RULE_CONFIG: CodeRuleConfig = {
+  level: "warning",
+  habitableZoneTypes: ["kitchen-living", "bedroom"],
+  bathZoneTypes: ["bathroom", "bath-hallway"],
+  minHabitableAreaSqft: 70,
+  minHabitableDimensionFt: 7,
+  minCeilingHeightFt: 7,
+  ceilingBuildUpFt: 1,
+  minEgressOpeningSqft: 5.7,
+  minEgressWidthFt: 20 / 12,
+  minEgressHeightFt: 24 / 12,
+  maxEgressSillFt: 44 / 12,
+  windowNetOpeningRatio: 0.8,
+  minBathWindowSqft: 3,
+  smokeAlarmVicinityFt: 10,
+};
+
+export type CodeFinding = {
+  fixtureId?: string;
+  // Distinguishes multiple findings of one rule (zone or fixture id)
+  subjectId?: string;
+  message: string;
+};
+
+/**
+ * A single code requirement. `section` is the section number inside the pack's
+ * code edition; the full citation is built from both.
+ */
+export type CodeRule = {
+  id: string;
+  section: string;
+  title: string;
+  check: (
+    design: DesignConfig,
+    catalog: Record<string, ModuleCatalogItem>,
+    config: CodeRuleConfig
+  ) => CodeFinding[];
+};
+
+export type CodeRulePack = {
+  id: string;
+  name: string;
+  edition: string;
+  rules: CodeRule[];
+  config: CodeRuleConfig;
+};
+
+const zoneRect = (zone: ZoneConfig): RectFt => ({
+  x: zone.xFt,
+  y: zone.yFt,
+  width: zone.lengthFt,
+  height: zone.widthFt,
+});
+
+function zonesOfType(design: DesignConfig, types: ZoneType[]): ZoneConfig[] {
+  return design.zones.filter((zone) => {
+    const zoneType = getZoneType(zone.id);
+    return zoneType !== null && types.includes(zoneType);
+  });
+}
+
+/**
+ * Fixtures matching `predicate` that sit (at least partly) in `zone`.
+ */
+function fixturesInZone(
+  design: DesignConfig,
+  catalog: Record<string, ModuleCatalogItem>,
+  zone: ZoneConfig,
+  predicate: (key: string) => boolean
+) {
+  return design.fixtures.flatMap((fixture) => {
+    const cat = catalog[fixture.catalogKey];
+    if (!cat || !predicate(fixture.catalogKey)) return [];
+    const rect = rectFromFixture(fixture, cat);
+    const inZone = zonesContainingRect([zone], rect).length > 0;
+    return inZone ? [{ fixture, cat, rect }] : [];
+  });
+}
+
+const isWindowKey = (key: string) => key.includes("window");
+const isSmokeAlarmKey = (key: string) => key === "fixture-smoke-alarm";
+
+const formatIn = (ft: number) => `${Math.round(ft * 12)}"`;
+
+const ruleHabitableArea: CodeRule = {
+  id: "HABITABLE_AREA",
+  section: "R304.1",
+  title: "Minimum habitable room area",
+  check: (design, _catalog, config) =>
+    zonesOfType(design, config.habitableZoneTypes).flatMap((zone) => {
+      const findings: CodeFinding[] = [];
+      const area = zone.lengthFt * zone.widthFt;
+      if (area < config.minHabitableAreaSqft) {
+        findings.push({
+          subjectId: `${zone.id}_area`,
+          message: `${zone.name} is ${area.toFixed(0)} sq ft; habitable rooms need at least ${config.minHabitableAreaSqft} sq ft.`,
+        });
+      }
+      const minDimension = Math.min(zone.lengthFt, zone.widthFt);
+      if (minDimension < config.minHabitableDimensionFt) {
+        findings.push({
+          subjectId: `${zone.id}_dimension`,
+          message: `${zone.name} is only ${minDimension.toFixed(1)}' across; habitable rooms need ${config.minHabitableDimensionFt}' in every direction.`,
+        });
+      }
+      return findings;
+    }),
+};
+
+const ruleCeilingHeight: CodeRule = {
+  id: "CEILING_HEIGHT",
+  section: "R305.1",
+  title: "Minimum ceiling height",
+  check: (design, _catalog, config) => {
+    const ceilingFt = design.shell.heightFt - config.ceilingBuildUpFt;
+    if (ceilingFt >= config.minCeilingHeightFt) return [];
+    return [{
+      message: `Finished ceiling is about ${ceilingFt.toFixed(2)}' in a ${design.shell.heightFt}' shell; habitable space needs ${config.minCeilingHeightFt}'.`,
+    }];
+  },
+};
+
+const ruleBedroomEgress: CodeRule = {
+  id: "BEDROOM_EGRESS",
+  section: "R310.2",
+  title: "Emergency escape and rescue openings",
+  check: (design, catalog, config) =>
+    zonesOfType(design, ["bedroom"]).flatMap((zone) => {
+      // An exterior door out of the room satisfies the requirement on its own
+      const doors = fixturesInZone(design, catalog, zone, (key) => getOpeningKind({ catalogKey: key }) === "exterior-door");
+      if (doors.length > 0) return [];
+
+      const windows = fixturesInZone(design, catalog, zone, isWindowKey);
+      const qualifies = windows.some(({ cat }) => {
+        const size = getOpeningSpec(cat);
+        const netAreaSqft = size.widthFt * size.heightFt * config.windowNetOpeningRatio;
+        return (
+          netAreaSqft >= config.minEgressOpeningSqft &&
+          size.widthFt >= config.minEgressWidthFt &&
+          size.heightFt >= config.minEgressHeightFt &&
+          size.sillFt <= config.maxEgressSillFt
+        );
+      });
+      if (qualifies) return [];
+
+      return [{
+        subjectId: zone.id,
+        fixtureId: windows[0]?.fixture.id,
+        message: windows.length === 0
+          ? `${zone.name} has no egress window or exterior door.`
+          : `No window in ${zone.name} opens ${config.minEgressOpeningSqft} sq ft clear (min ${formatIn(config.minEgressWidthFt)} wide, ${formatIn(config.minEgressHeightFt)} high, sill at most ${formatIn(config.maxEgressSillFt)}).`,
+      }];
+    }),
+};
+
+const ruleBathVentilation: CodeRule = {
+  id: "BATH_VENTILATION",
+  section: "R303.3",
+  title: "Bathroom ventilation",
+  check: (design, catalog, config) =>
+    zonesOfType(design, config.bathZoneTypes).flatMap((zone) => {
+      const fans = fixturesInZone(design, catalog, zone, (key) => key === "fixture-exhaust-fan");
+      if (fans.length > 0) return [];
+
+      const windows = fixturesInZone(design, catalog, zone, isWindowKey);
+      const hasWindow = windows.some(({ cat }) => {
+        const size = getOpeningSpec(cat);
+        return size.widthFt * size.heightFt >= config.minBathWindowSqft;
+      });
+      if (hasWindow) return [];
+
+      return [{
+        subjectId: zone.id,
+        message: `${zone.name} needs an exhaust fan or a window of at least ${config.minBathWindowSqft} sq ft.`,
+      }];
+    }),
+};
+
+const ruleSmokeAlarms: CodeRule = {
+  id: "SMOKE_ALARMS",
+  section: "R314.3",
+  title: "Smoke alarm locations",
+  check: (design, catalog, config) => {
+    const findings: CodeFinding[] = [];
+    const alarms = design.fixtures.flatMap((fixture) => {
+      const cat = catalog[fixture.catalogKey];
+      return cat && isSmokeAlarmKey(fixture.catalogKey)
+        ? [rectFromFixture(fixture, cat)]
+        : [];
+    });
+    const bedrooms = zonesOfType(design, ["bedroom"]);
+
+    if (alarms.length === 0) {
+      return [{ message: "The design has no smoke alarm." }];
+    }
+
+    for (const zone of bedrooms) {
+      const rect = zoneRect(zone);
+      if (!alarms.some((alarm) => zonesContainingRect([zone], alarm).length > 0)) {
+        findings.push({
+          subjectId: `${zone.id}_inside`,
+          message: `${zone.name} needs a smoke alarm inside the sleeping room.`,
+        });
+      }
+
+      // One more alarm just outside the sleeping area
+      const outside = alarms.filter(
+        (alarm) => zonesContainingRect(bedrooms, alarm).length === 0
+      );
+      if (!outside.some((alarm) => rectDistance(alarm, rect) <= config.smokeAlarmVicinityFt)) {
+        findings.push({
+          subjectId: `${zone.id}_vicinity`,
+          message: `${zone.name} needs a smoke alarm outside the room, in the immediate vicinity of its door.`,
+        });
+      }
+    }
+
+    return findings;
+  },
+};
+
+export const IRC_RULES: CodeRule[] = [
+  ruleHabitableArea,
+  ruleCeilingHeight,
+  ruleBedroomEgress,
+  ruleBathVentilation,
+  ruleSmokeAlarms,
+];
+
+export const CODE_RULE_PACKS: Record<string, CodeRulePack> = {
+  "irc-2021": {
+    id: "irc-2021",
+    name: "International Residential Code 2021",
+    edition: "IRC 2021",
+    rules: IRC_RULES,
+    config: DEFAULT_CODE_RULE_CONFIG,
+  },
+};
+
+export const DEFAULT_CODE_RULE_PACK_ID = "irc-2021";
+
+// States whose statewide residential code differs from the default pack in the
+// limits checked here; anything not listed gets the default. No state pack
+// ships yet, so every ZIP gets the model IRC (the validation panel says so)
+// until a state's edition or amendments change one of those limits.
+export const STATE_CODE_RULE_PACKS: Record<string, string> = {};
+
+export function getCodeRulePackForState(state: string): CodeRulePack {
+  const packId = STATE_CODE_RULE_PACKS[state.toUpperCase()] ?? DEFAULT_CODE_RULE_PACK_ID;
+  return CODE_RULE_PACKS[packId];
+}
+
+/**
+ * Picks the rule pack for a delivery ZIP. Returns null when the ZIP (and so the
+ * state) is unknown, in which case code checks are skipped.
+ */
+export function getCodeRulePackForZip(zip: string): CodeRulePack | null {
+  if (zip.length < 5) return null;
+  const state = getZipLocationInfo(zip)?.state;
+  return state ? getCodeRulePackForState(state) : null;
+}
+
+/**
+ * Wraps a rule pack as a validation rule. Every finding becomes an issue with a
+ * `CODE_<rule id>` code and the rule's citation.
+ */
+export function createCodeRulePackRule(pack: CodeRulePack): ValidationRule {
+  return (design, catalog) =>
+    pack.rules.flatMap((rule) =>
+      rule.check(design, catalog, pack.config).map((finding): ValidationIssue => {
+        const code = `CODE_${rule.id}`;
+        return {
+          id: [code, finding.subjectId ?? finding.fixtureId].filter(Boolean).join("_"),
+          fixtureId: finding.fixtureId,
+          level: pack.config.level,
+          code,
+          message: finding.message,
+          citation: `${pack.edition} §${rule.section} (${rule.title})`,
+        };
+      })
+    );
+}
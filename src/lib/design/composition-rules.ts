@@ -0,0 +1,122 @@
+import type { ValidationIssue, ValidationRule } from "@/types/design";
+import {
+  PRIMARY_SHELL_ID,
+  findClosedSeamCrossing,
+  getFixtureLevel,
+  getOpeningSeam,
+  getPlacedShells,
+  getShellSeams,
+  getStairsInto,
+  getUnsupportedCorners,
+  isComposite,
+  isShellSupported,
+  shellPlanRect,
+} from "./composition";
+import { rectFromFixture } from "./geometry";
+
+const shellName = (id: string) => (id === PRIMARY_SHELL_ID ? "The main container" : "A joined container");
+
+/**
+ * Validation rule for multi-container builds: shells may not overlap, stacked
+ * shells need support and a stair, openings must sit on a shared wall, and
+ * fixtures can't straddle a steel wall that wasn't cut. Single-shell designs
+ * are skipped.
+ */
+export const ruleComposition: ValidationRule = (design, catalog) => {
+  if (!isComposite(design)) return [];
+  const issues: ValidationIssue[] = [];
+  const placed = getPlacedShells(design);
+
+  for (let i = 0; i < placed.length; i++) {
+    for (let j = i + 1; j < placed.length; j++) {
+      const a = shellPlanRect(placed[i]);
+      const b = shellPlanRect(placed[j]);
+      if (placed[i].level !== placed[j].level) continue;
+      const overlapX = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+      const overlapY = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+      if (overlapX > 0.01 && overlapY > 0.01) {
+        issues.push({
+          id: `SHELL_OVERLAP_${placed[i].id}_${placed[j].id}`,
+          level: "error",
+          code: "SHELL_OVERLAP",
+          message: `${shellName(placed[i].id)} and another container occupy the same space.`,
+        });
+      }
+    }
+  }
+
+  const seams = getShellSeams(design);
+  for (const shell of placed) {
+    if (shell.level === 0) {
+      const joined = seams.some((seam) => seam.shellIds.includes(shell.id));
+      if (shell.id !== PRIMARY_SHELL_ID && !joined) {
+        issues.push({
+          id: `SHELL_DETACHED_${shell.id}`,
+          level: "warning",
+          code: "SHELL_DETACHED",
+          message: "A joined container doesn't touch any other container.",
+        });
+      }
+      continue;
+    }
+
+    if (!isShellSupported(design, shell)) {
+      issues.push({
+        id: `SHELL_UNSUPPORTED_${shell.id}`,
+        level: "error",
+        code: "SHELL_UNSUPPORTED",
+        message: `A container on level ${shell.level + 1} overhangs the containers below it.`,
+      });
+    } else {
+      const unsupported = getUnsupportedCorners(design, shell).length;
+      if (unsupported > 0) {
+        issues.push({
+          id: `SHELL_POINT_LOAD_${shell.id}`,
+          level: "warning",
+          code: "SHELL_POINT_LOAD",
+          message: `${unsupported} corner${unsupported === 1 ? "" : "s"} of a stacked container miss the corner posts below; reinforcement posts will be added.`,
+        });
+      }
+    }
+
+    if (getStairsInto(design, catalog, shell).length === 0) {
+      issues.push({
+        id: `STAIR_REQUIRED_${shell.id}`,
+        level: "error",
+        code: "STAIR_REQUIRED",
+        message: `Add a stair on level ${shell.level} that rises into the container on level ${shell.level + 1}.`,
+      });
+    }
+  }
+
+  for (const opening of design.shellOpenings ?? []) {
+    const seam = getOpeningSeam(design, opening);
+    const seamLength = seam ? seam.endFt - seam.startFt : 0;
+    if (!seam || opening.offsetFt < 0 || opening.offsetFt + opening.lengthFt > seamLength + 0.01) {
+      issues.push({
+        id: `SHELL_OPENING_INVALID_${opening.id}`,
+        level: "error",
+        code: "SHELL_OPENING_INVALID",
+        message: seam
+          ? `An opening runs past the ${seamLength.toFixed(1)}' shared wall.`
+          : "An opening joins containers that don't share a wall.",
+      });
+    }
+  }
+
+  for (const fixture of design.fixtures) {
+    const cat = catalog[fixture.catalogKey];
+    if (!cat) continue;
+    if (findClosedSeamCrossing(design, rectFromFixture(fixture, cat), getFixtureLevel(fixture))) {
+      issues.push({
+        id: `FIXTURE_CROSSES_WALL_${fixture.id}`,
+        fixtureId: fixture.id,
+        level: "error",
+        code: "FIXTURE_CROSSES_WALL",
+        message: `${cat.label} straddles the steel wall between two containers; cut an opening or move it.`,
+      });
+    }
+  }
+
+  return issues;
+};
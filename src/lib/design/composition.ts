@@ -0,0 +1,542 @@
+import type {
+  DesignConfig,
+  FixtureConfig,
+  ModuleCatalogItem,
+  PlacedShellConfig,
+  RectFt,
+  ShellArrangement,
+  ShellCatalogItem,
+  ShellOpeningConfig,
+} from "@/types/design";
+import { rectCenter, rectDistance, rectFromFixture } from "./geometry";
+import { shellConfigFromCatalog } from "./shell-catalog";
+
+// Id the primary `design.shell` answers to in compositions and openings
+export const PRIMARY_SHELL_ID = "primary";
+
+// Edges closer than this count as touching (ft)
+const SEAM_TOLERANCE_FT = 0.01;
+
+export const SHELL_ARRANGEMENT_LABELS: Record<ShellArrangement, string> = {
+  "side-by-side": "Side by side",
+  "end-to-end": "End to end",
+  "l-shape": "L-shape",
+  stacked: "Stacked",
+};
+
+// Same names the 3D walls use: front is the +Y side of an unturned shell
+export type ShellWallSide = "front" | "back" | "left" | "right";
+
+/**
+ * Where two shells on the same level touch. axis "x": the seam runs along X at
+ * y = atFt; axis "y": it runs along Y at x = atFt. startFt/endFt bound the
+ * shared stretch along the seam.
+ */
+export type ShellSeam = {
+  shellIds: [string, string];
+  level: number;
+  axis: "x" | "y";
+  atFt: number;
+  startFt: number;
+  endFt: number;
+};
+
+/**
+ * Steel work needed to join the shells: cuts through shared walls and floors,
+ * headers over them, posts at cut ends and under point loads, and welded seams.
+ */
+export type ShellJoinWork = {
+  seamLinearFt: number;
+  cutLinearFt: number;
+  headerLinearFt: number;
+  postCount: number;
+  stackedShellCount: number;
+  stairwellCount: number;
+};
+
+export function getPlacedShells(design: DesignConfig): PlacedShellConfig[] {
+  return [
+    { id: PRIMARY_SHELL_ID, shell: design.shell, xFt: 0, yFt: 0, level: 0, rotationDeg: 0 },
+    ...(design.additionalShells ?? []),
+  ];
+}
+
+export function isComposite(design: DesignConfig): boolean {
+  return (design.additionalShells?.length ?? 0) > 0;
+}
+
+export function getFixtureLevel(fixture: FixtureConfig): number {
+  return fixture.level ?? 0;
+}
+
+export function getLevels(design: DesignConfig): number[] {
+  return [...new Set(getPlacedShells(design).map((p) => p.level))].sort((a, b) => a - b);
+}
+
+export function isStairFixture(fixture: FixtureConfig): boolean {
+  return fixture.catalogKey.toLowerCase().includes("stair");
+}
+
+/**
+ * Footprint of a placed shell on plan.
+ */
+export function shellPlanRect(placed: PlacedShellConfig): RectFt {
+  const turned = placed.rotationDeg === 90;
+  return {
+    x: placed.xFt,
+    y: placed.yFt,
+    width: turned ? placed.shell.widthFt : placed.shell.lengthFt,
+    height: turned ? placed.shell.lengthFt : placed.shell.widthFt,
+  };
+}
+
+/**
+ * Bounding box of every shell on a level, or of the whole composition when no
+ * level is given. Starts at (0, 0) for a single shell.
+ */
+export function getPlanBounds(design: DesignConfig, level?: number): RectFt {
+  const rects = getPlacedShells(design)
+    .filter((p) => level === undefined || p.level === level)
+    .map(shellPlanRect);
+  if (rects.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+  const minX = Math.min(...rects.map((r) => r.x));
+  const minY = Math.min(...rects.map((r) => r.y));
+  const maxX = Math.max(...rects.map((r) => r.x + r.width));
+  const maxY = Math.max(...rects.map((r) => r.y + r.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+function intersectionArea(a: RectFt, b: RectFt): number {
+  const w = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const h = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return w > 0 && h > 0 ? w * h : 0;
+}
+
+function containsRect(outer: RectFt, inner: RectFt): boolean {
+  return (
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  );
+}
+
+/**
+ * Roof area left exposed once shells stacked on top are taken away.
+ */
+export function getExposedRoofSqft(design: DesignConfig): number {
+  const placed = getPlacedShells(design);
+  return placed.reduce((sum, lower) => {
+    const rect = shellPlanRect(lower);
+    const covered = placed
+      .filter((upper) => upper.level === lower.level + 1)
+      .reduce((area, upper) => area + intersectionArea(rect, shellPlanRect(upper)), 0);
+    return sum + Math.max(0, rect.width * rect.height - covered);
+  }, 0);
+}
+
+/**
+ * Checks a rectangle lies within the shells on a level. Shells on one level
+ * never overlap (validation flags it), so covered area adds up.
+ */
+export function isInsideComposition(design: DesignConfig, rect: RectFt, level = 0): boolean {
+  const rects = getPlacedShells(design)
+    .filter((p) => p.level === level)
+    .map(shellPlanRect);
+  if (rects.some((r) => containsRect(r, rect))) return true;
+  const area = rect.width * rect.height;
+  if (area <= 0) return false;
+  const covered = rects.reduce((sum, r) => sum + intersectionArea(r, rect), 0);
+  return covered >= area - 1e-6;
+}
+
+/**
+ * Every stretch where two shells on the same level share a wall.
+ */
+export function getShellSeams(design: DesignConfig): ShellSeam[] {
+  const placed = getPlacedShells(design);
+  const seams: ShellSeam[] = [];
+  for (let i = 0; i < placed.length; i++) {
+    for (let j = i + 1; j < placed.length; j++) {
+      const a = placed[i];
+      const b = placed[j];
+      if (a.level !== b.level) continue;
+      const ra = shellPlanRect(a);
+      const rb = shellPlanRect(b);
+      const shellIds: [string, string] = [a.id, b.id];
+
+      // Walls running along Y (shells side by side in X)
+      const startY = Math.max(ra.y, rb.y);
+      const endY = Math.min(ra.y + ra.height, rb.y + rb.height);
+      if (endY - startY > SEAM_TOLERANCE_FT) {
+        if (Math.abs(ra.x + ra.width - rb.x) < SEAM_TOLERANCE_FT) {
+          seams.push({ shellIds, level: a.level, axis: "y", atFt: rb.x, startFt: startY, endFt: endY });
+        } else if (Math.abs(rb.x + rb.width - ra.x) < SEAM_TOLERANCE_FT) {
+          seams.push({ shellIds, level: a.level, axis: "y", atFt: ra.x, startFt: startY, endFt: endY });
+        }
+      }
+
+      // Walls running along X (shells side by side in Y)
+      const startX = Math.max(ra.x, rb.x);
+      const endX = Math.min(ra.x + ra.width, rb.x + rb.width);
+      if (endX - startX > SEAM_TOLERANCE_FT) {
+        if (Math.abs(ra.y + ra.height - rb.y) < SEAM_TOLERANCE_FT) {
+          seams.push({ shellIds, level: a.level, axis: "x", atFt: rb.y, startFt: startX, endFt: endX });
+        } else if (Math.abs(rb.y + rb.height - ra.y) < SEAM_TOLERANCE_FT) {
+          seams.push({ shellIds, level: a.level, axis: "x", atFt: ra.y, startFt: startX, endFt: endX });
+        }
+      }
+    }
+  }
+  return seams;
+}
+
+function sameShellPair(a: [string, string], b: [string, string]): boolean {
+  return (a[0] === b[0] && a[1] === b[1]) || (a[0] === b[1] && a[1] === b[0]);
+}
+
+/**
+ * The seam an opening is cut through, if its two shells touch.
+ */
+export function getOpeningSeam(
+  design: DesignConfig,
+  opening: ShellOpeningConfig
+): ShellSeam | undefined {
+  return getShellSeams(design).find((seam) => sameShellPair(seam.shellIds, opening.shellIds));
+}
+
+/**
+ * Open stretches of a seam as [start, end] along it, clipped to the seam.
+ */
+export function getSeamOpenIntervals(design: DesignConfig, seam: ShellSeam): Array<[number, number]> {
+  return (design.shellOpenings ?? [])
+    .filter((opening) => sameShellPair(opening.shellIds, seam.shellIds))
+    .map((opening): [number, number] => [
+      Math.max(seam.startFt, seam.startFt + opening.offsetFt),
+      Math.min(seam.endFt, seam.startFt + opening.offsetFt + opening.lengthFt),
+    ])
+    .filter(([start, end]) => end - start > SEAM_TOLERANCE_FT)
+    .sort((a, b) => a[0] - b[0]);
+}
+
+function isSpanOpen(intervals: Array<[number, number]>, start: number, end: number): boolean {
+  let reached = start;
+  for (const [from, to] of intervals) {
+    if (from > reached + SEAM_TOLERANCE_FT) break;
+    reached = Math.max(reached, to);
+  }
+  return reached >= end - SEAM_TOLERANCE_FT;
+}
+
+export function isSeamRemoved(design: DesignConfig, seam: ShellSeam): boolean {
+  return isSpanOpen(getSeamOpenIntervals(design, seam), seam.startFt, seam.endFt);
+}
+
+/**
+ * First shared wall a rectangle passes through where no opening was cut.
+ */
+export function findClosedSeamCrossing(
+  design: DesignConfig,
+  rect: RectFt,
+  level = 0
+): ShellSeam | undefined {
+  return getShellSeams(design).find((seam) => {
+    if (seam.level !== level) return false;
+    const [lo, hi, alongStart, alongEnd] =
+      seam.axis === "y"
+        ? [rect.x, rect.x + rect.width, rect.y, rect.y + rect.height]
+        : [rect.y, rect.y + rect.height, rect.x, rect.x + rect.width];
+    if (lo >= seam.atFt - SEAM_TOLERANCE_FT || hi <= seam.atFt + SEAM_TOLERANCE_FT) return false;
+    const start = Math.max(alongStart, seam.startFt);
+    const end = Math.min(alongEnd, seam.endFt);
+    if (end - start <= SEAM_TOLERANCE_FT) return false;
+    return !isSpanOpen(getSeamOpenIntervals(design, seam), start, end);
+  });
+}
+
+/**
+ * A straight run of standing wall on plan, laid out like a seam. Exterior runs
+ * face outside; the rest are shared walls left where no opening was cut.
+ */
+export type PlanWallSegment = {
+  level: number;
+  axis: "x" | "y";
+  atFt: number;
+  startFt: number;
+  endFt: number;
+  exterior: boolean;
+};
+
+// What's left of [start, end] once the spans are taken out
+function subtractSpans(start: number, end: number, spans: Array<[number, number]>): Array<[number, number]> {
+  const left: Array<[number, number]> = [];
+  let from = start;
+  for (const [spanStart, spanEnd] of [...spans].sort((a, b) => a[0] - b[0])) {
+    if (spanStart - from > SEAM_TOLERANCE_FT) left.push([from, Math.min(spanStart, end)]);
+    from = Math.max(from, spanEnd);
+  }
+  if (end - from > SEAM_TOLERANCE_FT) left.push([from, end]);
+  return left;
+}
+
+/**
+ * Walls standing on a level: the sides of each shell that don't touch a
+ * neighbour, plus the closed stretches of every seam.
+ */
+export function getPlanWalls(design: DesignConfig, level = 0): PlanWallSegment[] {
+  const seams = getShellSeams(design).filter((seam) => seam.level === level);
+  const walls: PlanWallSegment[] = [];
+
+  for (const placed of getPlacedShells(design)) {
+    if (placed.level !== level) continue;
+    const r = shellPlanRect(placed);
+    const sides: Array<Pick<PlanWallSegment, "axis" | "atFt" | "startFt" | "endFt">> = [
+      { axis: "x", atFt: r.y, startFt: r.x, endFt: r.x + r.width },
+      { axis: "x", atFt: r.y + r.height, startFt: r.x, endFt: r.x + r.width },
+      { axis: "y", atFt: r.x, startFt: r.y, endFt: r.y + r.height },
+      { axis: "y", atFt: r.x + r.width, startFt: r.y, endFt: r.y + r.height },
+    ];
+    for (const side of sides) {
+      const shared = seams
+        .filter(
+          (seam) =>
+            seam.shellIds.includes(placed.id) &&
+            seam.axis === side.axis &&
+            Math.abs(seam.atFt - side.atFt) < SEAM_TOLERANCE_FT
+        )
+        .map((seam): [number, number] => [seam.startFt, seam.endFt]);
+      for (const [startFt, endFt] of subtractSpans(side.startFt, side.endFt, shared)) {
+        walls.push({ level, axis: side.axis, atFt: side.atFt, startFt, endFt, exterior: true });
+      }
+    }
+  }
+
+  for (const seam of seams) {
+    for (const [startFt, endFt] of subtractSpans(seam.startFt, seam.endFt, getSeamOpenIntervals(design, seam))) {
+      walls.push({ level, axis: seam.axis, atFt: seam.atFt, startFt, endFt, exterior: false });
+    }
+  }
+  return walls;
+}
+
+/**
+ * A wall run as a rectangle `thicknessFt` thick, centered on the wall line.
+ */
+export function planWallRect(wall: PlanWallSegment, thicknessFt = 0): RectFt {
+  return wall.axis === "x"
+    ? { x: wall.startFt, y: wall.atFt - thicknessFt / 2, width: wall.endFt - wall.startFt, height: thicknessFt }
+    : { x: wall.atFt - thicknessFt / 2, y: wall.startFt, width: thicknessFt, height: wall.endFt - wall.startFt };
+}
+
+/**
+ * Shortest distance from a rectangle to a standing wall on its level, or to
+ * an exterior wall only (0 if it touches one).
+ */
+export function distanceToPlanWall(
+  design: DesignConfig,
+  rect: RectFt,
+  level = 0,
+  exteriorOnly = false
+): number {
+  const distances = getPlanWalls(design, level)
+    .filter((wall) => !exteriorOnly || wall.exterior)
+    .map((wall) => rectDistance(rect, planWallRect(wall)));
+  return distances.length > 0 ? Math.min(...distances) : Infinity;
+}
+
+/**
+ * Plan footprint of the shell a fixture stands in: the one on its level under
+ * its center, or the nearest one for fixtures set into an outside wall.
+ */
+export function getFixtureShellRect(
+  design: DesignConfig,
+  fixture: FixtureConfig,
+  catalogItem: ModuleCatalogItem
+): RectFt {
+  const center = rectCenter(rectFromFixture(fixture, catalogItem));
+  const point = { x: center.x, y: center.y, width: 0, height: 0 };
+  const rects = getPlacedShells(design)
+    .filter((p) => p.level === getFixtureLevel(fixture))
+    .map(shellPlanRect);
+  if (rects.length === 0) return shellPlanRect(getPlacedShells(design)[0]);
+  return rects.reduce((best, r) => (rectDistance(point, r) < rectDistance(point, best) ? r : best));
+}
+
+/**
+ * Walls of a shell that are removed entirely because they open into a
+ * neighbour. Partial openings leave the wall standing.
+ */
+export function getShellOpenSides(design: DesignConfig, shellId: string): ShellWallSide[] {
+  const placed = getPlacedShells(design).find((p) => p.id === shellId);
+  if (!placed) return [];
+  const rect = shellPlanRect(placed);
+  const turned = placed.rotationDeg === 90;
+  const sides: ShellWallSide[] = [];
+  for (const seam of getShellSeams(design)) {
+    if (!seam.shellIds.includes(shellId) || !isSeamRemoved(design, seam)) continue;
+    // Turned shells have their length along Y, so front faces -X
+    let side: ShellWallSide;
+    if (seam.axis === "y") {
+      const west = Math.abs(seam.atFt - rect.x) < SEAM_TOLERANCE_FT;
+      side = turned ? (west ? "front" : "back") : west ? "left" : "right";
+    } else {
+      const north = Math.abs(seam.atFt - rect.y) < SEAM_TOLERANCE_FT;
+      side = turned ? (north ? "left" : "right") : north ? "back" : "front";
+    }
+    if (!sides.includes(side)) sides.push(side);
+  }
+  return sides;
+}
+
+/**
+ * Corners of an upper shell that don't land on a corner of the shells below.
+ * Container corner posts carry the load; anywhere else needs a post added.
+ */
+export function getUnsupportedCorners(
+  design: DesignConfig,
+  placed: PlacedShellConfig
+): Array<{ x: number; y: number }> {
+  if (placed.level === 0) return [];
+  const rect = shellPlanRect(placed);
+  const lowerCorners = getPlacedShells(design)
+    .filter((p) => p.level === placed.level - 1)
+    .map(shellPlanRect)
+    .flatMap((r) => [
+      { x: r.x, y: r.y },
+      { x: r.x + r.width, y: r.y },
+      { x: r.x, y: r.y + r.height },
+      { x: r.x + r.width, y: r.y + r.height },
+    ]);
+  const corners = [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y },
+    { x: rect.x, y: rect.y + rect.height },
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+  ];
+  return corners.filter(
+    (corner) =>
+      !lowerCorners.some(
+        (lower) =>
+          Math.abs(lower.x - corner.x) < SEAM_TOLERANCE_FT &&
+          Math.abs(lower.y - corner.y) < SEAM_TOLERANCE_FT
+      )
+  );
+}
+
+/**
+ * Checks an upper shell sits entirely on shells one level down.
+ */
+export function isShellSupported(design: DesignConfig, placed: PlacedShellConfig): boolean {
+  return placed.level === 0 || isInsideComposition(design, shellPlanRect(placed), placed.level - 1);
+}
+
+/**
+ * Stairs on the level below a stacked shell that rise into it.
+ */
+export function getStairsInto(
+  design: DesignConfig,
+  catalog: Record<string, ModuleCatalogItem>,
+  placed: PlacedShellConfig
+): FixtureConfig[] {
+  const rect = shellPlanRect(placed);
+  return design.fixtures.filter((fixture) => {
+    const cat = catalog[fixture.catalogKey];
+    return (
+      !!cat &&
+      isStairFixture(fixture) &&
+      getFixtureLevel(fixture) === placed.level - 1 &&
+      intersectionArea(rectFromFixture(fixture, cat), rect) > 0
+    );
+  });
+}
+
+/**
+ * Placement for a new shell next to (or on top of) the current composition.
+ */
+export function arrangeShell(
+  design: DesignConfig,
+  item: ShellCatalogItem,
+  arrangement: ShellArrangement,
+  id: string
+): PlacedShellConfig {
+  const shell = shellConfigFromCatalog(item);
+  const ground = getPlanBounds(design, 0);
+  const primary = shellPlanRect(getPlacedShells(design)[0]);
+  switch (arrangement) {
+    case "side-by-side":
+      return { id, shell, xFt: 0, yFt: ground.y + ground.height, level: 0, rotationDeg: 0 };
+    case "end-to-end":
+      return { id, shell, xFt: ground.x + ground.width, yFt: 0, level: 0, rotationDeg: 0 };
+    case "l-shape":
+      // The leg drops from the far end of the primary shell
+      return {
+        id,
+        shell,
+        xFt: Math.max(0, primary.x + primary.width - shell.widthFt),
+        yFt: ground.y + ground.height,
+        level: 0,
+        rotationDeg: 90,
+      };
+    case "stacked":
+      return {
+        id,
+        shell,
+        xFt: 0,
+        yFt: 0,
+        level: Math.max(...getLevels(design)) + 1,
+        rotationDeg: 0,
+      };
+  }
+}
+
+/**
+ * Quantities of structural work for a composition. Each opening cuts both
+ * shells' walls (along the top and bottom rails, plus a jamb where the cut
+ * stops short of a corner) and gets a header on each side; stairwells cut the
+ * floor of the shell above.
+ */
+export function getShellJoinWork(
+  design: DesignConfig,
+  catalog: Record<string, ModuleCatalogItem>
+): ShellJoinWork {
+  const work: ShellJoinWork = {
+    seamLinearFt: 0,
+    cutLinearFt: 0,
+    headerLinearFt: 0,
+    postCount: 0,
+    stackedShellCount: 0,
+    stairwellCount: 0,
+  };
+  const placed = getPlacedShells(design);
+  const heightOf = (id: string) => placed.find((p) => p.id === id)?.shell.heightFt ?? 0;
+
+  for (const seam of getShellSeams(design)) {
+    work.seamLinearFt += seam.endFt - seam.startFt;
+    const heightFt = Math.min(heightOf(seam.shellIds[0]), heightOf(seam.shellIds[1]));
+    for (const [start, end] of getSeamOpenIntervals(design, seam)) {
+      const jambs =
+        (start > seam.startFt + SEAM_TOLERANCE_FT ? 1 : 0) +
+        (end < seam.endFt - SEAM_TOLERANCE_FT ? 1 : 0);
+      const lengthFt = end - start;
+      // Both walls at the seam are cut
+      work.cutLinearFt += 2 * (2 * lengthFt + jambs * heightFt);
+      work.headerLinearFt += 2 * lengthFt;
+      work.postCount += 2 * jambs;
+    }
+  }
+
+  for (const upper of placed) {
+    if (upper.level === 0) continue;
+    work.stackedShellCount++;
+    work.postCount += getUnsupportedCorners(design, upper).length;
+    for (const stair of getStairsInto(design, catalog, upper)) {
+      const rect = rectFromFixture(stair, catalog[stair.catalogKey]);
+      const perimeterFt = 2 * (rect.width + rect.height);
+      work.cutLinearFt += perimeterFt;
+      work.headerLinearFt += perimeterFt;
+      work.stairwellCount++;
+    }
+  }
+
+  return work;
+}
@@ -0,0 +1,93 @@
+import { z } from "zod";
+import type { DesignConfig } from "@/types/design";
+
+/**
+ * Zod schema for the current DesignConfig version. Stored and submitted
+ * configs are migrated first (see migrations.ts) and then checked against it.
+ * Keep in step with DesignConfig in @/types/design.
+ */
+
+const pointSchema = z.object({ x: z.number().finite(), y: z.number().finite() });
+
+const shellSchema = z.object({
+  id: z.string().min(1),
+  lengthFt: z.number().positive(),
+  widthFt: z.number().positive(),
+  heightFt: z.number().positive(),
+});
+
+const fixtureSchema = z.object({
+  id: z.string().min(1),
+  catalogKey: z.string().min(1),
+  name: z.string().optional(),
+  xFt: z.number().finite(),
+  yFt: z.number().finite(),
+  rotationDeg: z.number().min(0).lt(360),
+  mirrorX: z.boolean().optional(),
+  mirrorY: z.boolean().optional(),
+  zone: z.string().optional(),
+  locked: z.boolean().optional(),
+  level: z.number().int().nonnegative().optional(),
+  properties: z.record(z.unknown()).optional(),
+});
+
+const zoneSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  xFt: z.number().finite(),
+  yFt: z.number().finite(),
+  lengthFt: z.number().nonnegative(),
+  widthFt: z.number().nonnegative(),
+  constraints: z
+    .object({
+      minLengthFt: z.number().nonnegative(),
+      maxLengthFt: z.number().nonnegative().optional(),
+      canResize: z.boolean(),
+    })
+    .optional(),
+});
+
+const annotationSchema = z.object({
+  id: z.string().min(1),
+  anchorFt: pointSchema,
+  labelFt: pointSchema,
+  text: z.string(),
+  color: z.string().optional(),
+});
+
+const groupSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  fixtureIds: z.array(z.string()),
+  parentId: z.string().optional(),
+});
+
+// Compositions are laid out from the primary shell's corner, so nothing sits
+// at negative plan coordinates
+const placedShellSchema = z.object({
+  id: z.string().min(1),
+  shell: shellSchema,
+  xFt: z.number().finite().nonnegative(),
+  yFt: z.number().finite().nonnegative(),
+  level: z.number().int().nonnegative(),
+  rotationDeg: z.union([z.literal(0), z.literal(90)]),
+});
+
+const shellOpeningSchema = z.object({
+  id: z.string().min(1),
+  shellIds: z.tuple([z.string().min(1), z.string().min(1)]),
+  offsetFt: z.number().finite(),
+  lengthFt: z.number().positive(),
+});
+
+export const designConfigSchema = z.object({
+  version: z.literal(2),
+  shell: shellSchema,
+  fixtures: z.array(fixtureSchema),
+  zones: z.array(zoneSchema),
+  annotations: z.array(annotationSchema).optional(),
+  utilityEntry: z.object({ xFt: z.number().finite(), yFt: z.number().finite() }).optional(),
+  groups: z.array(groupSchema).optional(),
+  additionalShells: z.array(placedShellSchema).optional(),
+  shellOpenings: z.array(shellOpeningSchema).optional(),
+}) satisfies z.ZodType<DesignConfig>;
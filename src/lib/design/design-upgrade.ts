@@ -0,0 +1,70 @@
+import prisma from "@/lib/db";
+import { migrateDesign } from "./migrations";
+
+const UPGRADE_BATCH_SIZE = 100;
+
+export type DesignUpgradeFailure = {
+  id: string;
+  name: string;
+  fromVersion: number | null;
+  error: string;
+  issues: string[];
+};
+
+export type DesignUpgradeReport = {
+  dryRun: boolean;
+  checked: number;
+  upgraded: number;
+  failed: DesignUpgradeFailure[];
+};
+
+/**
+ * Walks every stored design, migrates its configJson to the current version and
+ * writes it back in place. Rows that fail validation are left untouched and
+ * listed in the report. With `dryRun`, nothing is written.
+ */
+export async function upgradeStoredDesigns(
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<DesignUpgradeReport> {
+  const report: DesignUpgradeReport = { dryRun, checked: 0, upgraded: 0, failed: [] };
+  let cursor: string | undefined;
+
+  for (;;) {
+    const designs = await prisma.design.findMany({
+      select: { id: true, name: true, shellLengthFt: true, configJson: true, updatedAt: true },
+      orderBy: { id: "asc" },
+      take: UPGRADE_BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+    if (designs.length === 0) break;
+
+    for (const design of designs) {
+      report.checked++;
+      const result = migrateDesign(design.configJson, design.shellLengthFt);
+      if (!result.ok) {
+        report.failed.push({
+          id: design.id,
+          name: design.name,
+          fromVersion: result.fromVersion,
+          error: result.error,
+          issues: result.issues,
+        });
+        continue;
+      }
+      if (!result.migrated) continue;
+
+      report.upgraded++;
+      if (!dryRun) {
+        await prisma.design.update({
+          where: { id: design.id },
+          // A schema upgrade isn't a user edit, so keep the library order
+          data: { configJson: result.design, updatedAt: design.updatedAt },
+        });
+      }
+    }
+
+    cursor = designs[designs.length - 1].id;
+  }
+
+  return report;
+}
@@ -0,0 +1,59 @@
+import prisma from "@/lib/db";
+import type { Discount, DiscountKind } from "@/types/bom";
+import { normalizePromoCode } from "./discounts";
+
+type DiscountRow = {
+  id: string;
+  label: string;
+  code: string | null;
+  kind: string;
+  value: number;
+};
+
+export function discountFromRow(row: DiscountRow): Discount {
+  return {
+    id: row.id,
+    label: row.label,
+    code: row.code,
+    kind: row.kind as DiscountKind,
+    value: row.value,
+  };
+}
+
+// Enabled and inside its start/end window at `at`
+function runningAt(at: Date) {
+  return [
+    { active: true },
+    { OR: [{ startsAt: null }, { startsAt: { lte: at } }] },
+    { OR: [{ endsAt: null }, { endsAt: { gt: at } }] },
+  ];
+}
+
+/**
+ * Discounts that apply to a quote at `at`: every running automatic discount,
+ * plus the promo code's discount when the code is given and running.
+ */
+export async function getApplicableDiscounts(
+  promoCode: string | undefined,
+  at: Date = new Date()
+): Promise<Discount[]> {
+  const code = promoCode ? normalizePromoCode(promoCode) : "";
+  const rows = await prisma.discount.findMany({
+    where: {
+      AND: [...runningAt(at), { OR: code ? [{ code: null }, { code }] : [{ code: null }] }],
+    },
+    orderBy: { createdAt: "asc" },
+  });
+  return rows.map(discountFromRow);
+}
+
+/**
+ * The running discount for a promo code, or null when the code is unknown,
+ * disabled or outside its dates.
+ */
+export async function findPromoCode(promoCode: string, at: Date = new Date()): Promise<Discount | null> {
+  const code = normalizePromoCode(promoCode);
+  if (!code) return null;
+  const row = await prisma.discount.findFirst({ where: { AND: [...runningAt(at), { code }] } });
+  return row ? discountFromRow(row) : null;
+}
@@ -0,0 +1,79 @@
+/**
+ * Discounts & Promo Codes
+ *
+ * Admins set up percentage and fixed discounts (Discount table). Discounts
+ * without a code apply to every quote while they run; a coded one applies
+ * only when the customer's promo code matches. Several can stack: percentages
+ * are taken off first, then fixed amounts, never below zero.
+ */
+
+import type { BOMCalculation, BOMDiscountLine, Discount, DiscountKind } from "@/types/bom";
+
+export const DISCOUNT_KIND_LABELS: Record<DiscountKind, string> = {
+  percent: "Percentage",
+  fixed: "Fixed amount",
+};
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function formatDiscountValue(discount: Pick<Discount, "kind" | "value">): string {
+  return discount.kind === "percent"
+    ? `${discount.value}% off`
+    : `$${(discount.value / 100).toLocaleString("en-US", { minimumFractionDigits: 2 })} off`;
+}
+
+/**
+ * Discounts that apply to a quote: every automatic one plus the one matching
+ * the promo code.
+ */
+export function getEligibleDiscounts(discounts: Discount[], promoCode: string | undefined): Discount[] {
+  const code = promoCode ? normalizePromoCode(promoCode) : "";
+  return discounts.filter((discount) => discount.code === null || (code !== "" && discount.code === code));
+}
+
+/**
+ * Take discounts off an amount. Returns one line per discount with the
+ * amount it actually took off.
+ */
+export function applyDiscounts(baseCents: number, discounts: Discount[]): BOMDiscountLine[] {
+  const ordered = [
+    ...discounts.filter((discount) => discount.kind === "percent"),
+    ...discounts.filter((discount) => discount.kind === "fixed"),
+  ];
+
+  let remainingCents = baseCents;
+  return ordered.map((discount) => {
+    const requestedCents =
+      discount.kind === "percent" ? Math.round(baseCents * (discount.value / 100)) : Math.round(discount.value);
+    const amountCents = Math.min(requestedCents, remainingCents);
+    remainingCents -= amountCents;
+    return { label: discount.label, code: discount.code, amountCents };
+  });
+}
+
+/**
+ * The lines between contingency and grand total, in the order every export
+ * lists them: each discount (negative), then state and local sales tax.
+ */
+export function getBOMAdjustmentLines(
+  bom: Pick<BOMCalculation, "discounts" | "salesTax">
+): { label: string; cents: number }[] {
+  const { salesTax } = bom;
+  const place = [salesTax.county, salesTax.state].filter(Boolean).join(", ");
+
+  return [
+    ...bom.discounts.map((discount) => ({
+      label: discount.code ? `${discount.label} (${discount.code})` : discount.label,
+      cents: -discount.amountCents,
+    })),
+    {
+      label: salesTax.state ? `State Sales Tax (${salesTax.state} ${salesTax.statePct}%)` : "Sales Tax (enter ZIP code)",
+      cents: salesTax.stateCents,
+    },
+    ...(salesTax.localPct > 0
+      ? [{ label: `Local Sales Tax (${place} ${salesTax.localPct}%)`, cents: salesTax.localCents }]
+      : []),
+  ];
+}
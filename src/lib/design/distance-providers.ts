@@ -0,0 +1,220 @@
+/**
+ * Delivery Distance Providers
+ *
+ * A provider turns a destination ZIP into a trip from the Audubon shop: road
+ * miles and the states the truck drives through (for oversize permits).
+ * Pricing is synchronous, so providers answer from local data; a hosted
+ * router is fetched ahead of time and cached (see createExternalRouterProvider).
+ *
+ * The BOM uses the active provider, the local road network unless another one
+ * is set with setDistanceProvider.
+ */
+
+import type { DeliveryRoute } from "@/types/bom";
+import { AUDUBON_IA, getZipCoordinates, haversineDistance } from "./zip-distance";
+
+export type DistanceProvider = {
+  id: string;
+  // null when the ZIP is unknown or there's no road to it
+  route: (destinationZip: string) => DeliveryRoute | null;
+};
+
+/**
+ * Straight-line miles, no road factor. Understates real trucking; kept for
+ * comparison and as the last-resort fallback.
+ */
+export const straightLineProvider: DistanceProvider = {
+  id: "straight-line",
+  route(destinationZip) {
+    const destination = getZipCoordinates(destinationZip);
+    if (!destination) return null;
+    const miles = Math.round(haversineDistance(AUDUBON_IA.lat, AUDUBON_IA.lng, destination.lat, destination.lng));
+    const states = destination.state && destination.state !== AUDUBON_IA.state
+      ? [AUDUBON_IA.state, destination.state]
+      : [AUDUBON_IA.state];
+    return { miles, states, provider: this.id };
+  },
+};
+
+// Centroid of each contiguous state's ZIP codes
+const STATE_CENTROIDS: Record<string, { lat: number; lng: number }> = {
+  AL: { lat: 32.9, lng: -86.8 }, AR: { lat: 35.1, lng: -92.4 }, AZ: { lat: 33.6, lng: -111.6 },
+  CA: { lat: 36.1, lng: -119.8 }, CO: { lat: 39.3, lng: -105.3 }, CT: { lat: 41.5, lng: -72.8 },
+  DC: { lat: 38.9, lng: -77.0 }, DE: { lat: 39.3, lng: -75.5 }, FL: { lat: 28.1, lng: -82.0 },
+  GA: { lat: 33.0, lng: -83.7 }, IA: { lat: 42.0, lng: -93.3 }, ID: { lat: 44.5, lng: -114.8 },
+  IL: { lat: 40.4, lng: -89.0 }, IN: { lat: 39.9, lng: -86.3 }, KS: { lat: 38.5, lng: -97.1 },
+  KY: { lat: 37.6, lng: -84.8 }, LA: { lat: 30.9, lng: -91.7 }, MA: { lat: 42.2, lng: -71.5 },
+  MD: { lat: 39.1, lng: -76.8 }, ME: { lat: 44.6, lng: -69.4 }, MI: { lat: 43.4, lng: -84.7 },
+  MN: { lat: 45.5, lng: -94.1 }, MO: { lat: 38.4, lng: -92.5 }, MS: { lat: 32.8, lng: -89.7 },
+  MT: { lat: 46.9, lng: -110.3 }, NC: { lat: 35.6, lng: -79.5 }, ND: { lat: 47.5, lng: -99.6 },
+  NE: { lat: 41.2, lng: -98.1 }, NH: { lat: 43.4, lng: -71.6 }, NJ: { lat: 40.4, lng: -74.5 },
+  NM: { lat: 34.7, lng: -106.2 }, NV: { lat: 37.8, lng: -116.6 }, NY: { lat: 42.2, lng: -75.1 },
+  OH: { lat: 40.4, lng: -82.7 }, OK: { lat: 35.5, lng: -97.0 }, OR: { lat: 44.5, lng: -122.1 },
+  PA: { lat: 40.6, lng: -77.5 }, RI: { lat: 41.7, lng: -71.5 }, SC: { lat: 34.0, lng: -81.1 },
+  SD: { lat: 44.3, lng: -99.1 }, TN: { lat: 35.8, lng: -86.4 }, TX: { lat: 31.3, lng: -98.0 },
+  UT: { lat: 39.9, lng: -111.8 }, VA: { lat: 37.7, lng: -78.2 }, VT: { lat: 44.0, lng: -72.6 },
+  WA: { lat: 47.3, lng: -121.2 }, WI: { lat: 44.1, lng: -89.5 }, WV: { lat: 38.5, lng: -81.0 },
+  WY: { lat: 42.8, lng: -107.3 },
+};
+
+// States sharing a border crossed by a highway
+const STATE_NEIGHBORS: Record<string, string[]> = {
+  AL: ["FL", "GA", "MS", "TN"],
+  AR: ["LA", "MO", "MS", "OK", "TN", "TX"],
+  AZ: ["CA", "CO", "NM", "NV", "UT"],
+  CA: ["AZ", "NV", "OR"],
+  CO: ["AZ", "KS", "NE", "NM", "OK", "UT", "WY"],
+  CT: ["MA", "NY", "RI"],
+  DC: ["MD", "VA"],
+  DE: ["MD", "NJ", "PA"],
+  FL: ["AL", "GA"],
+  GA: ["AL", "FL", "NC", "SC", "TN"],
+  IA: ["IL", "MN", "MO", "NE", "SD", "WI"],
+  ID: ["MT", "NV", "OR", "UT", "WA", "WY"],
+  IL: ["IA", "IN", "KY", "MO", "WI"],
+  IN: ["IL", "KY", "MI", "OH"],
+  KS: ["CO", "MO", "NE", "OK"],
+  KY: ["IL", "IN", "MO", "OH", "TN", "VA", "WV"],
+  LA: ["AR", "MS", "TX"],
+  MA: ["CT", "NH", "NY", "RI", "VT"],
+  MD: ["DC", "DE", "PA", "VA", "WV"],
+  ME: ["NH"],
+  MI: ["IN", "OH", "WI"],
+  MN: ["IA", "ND", "SD", "WI"],
+  MO: ["AR", "IA", "IL", "KS", "KY", "NE", "OK", "TN"],
+  MS: ["AL", "AR", "LA", "TN"],
+  MT: ["ID", "ND", "SD", "WY"],
+  NC: ["GA", "SC", "TN", "VA"],
+  ND: ["MN", "MT", "SD"],
+  NE: ["CO", "IA", "KS", "MO", "SD", "WY"],
+  NH: ["MA", "ME", "VT"],
+  NJ: ["DE", "NY", "PA"],
+  NM: ["AZ", "CO", "OK", "TX"],
+  NV: ["AZ", "CA", "ID", "OR", "UT"],
+  NY: ["CT", "MA", "NJ", "PA", "VT"],
+  OH: ["IN", "KY", "MI", "PA", "WV"],
+  OK: ["AR", "CO", "KS", "MO", "NM", "TX"],
+  OR: ["CA", "ID", "NV", "WA"],
+  PA: ["DE", "MD", "NJ", "NY", "OH", "WV"],
+  RI: ["CT", "MA"],
+  SC: ["GA", "NC"],
+  SD: ["IA", "MN", "MT", "ND", "NE", "WY"],
+  TN: ["AL", "AR", "GA", "KY", "MO", "MS", "NC", "VA"],
+  TX: ["AR", "LA", "NM", "OK"],
+  UT: ["AZ", "CO", "ID", "NV", "WY"],
+  VA: ["DC", "KY", "MD", "NC", "TN", "WV"],
+  VT: ["MA", "NH", "NY"],
+  WA: ["ID", "OR"],
+  WI: ["IA", "IL", "MI", "MN"],
+  WV: ["KY", "MD", "OH", "PA", "VA"],
+  WY: ["CO", "ID", "MT", "NE", "SD", "UT"],
+};
+
+// Road miles per straight-line mile into each state. Mountain and
+// Appalachian routes wind more than the plains.
+const DEFAULT_ROAD_FACTOR = 1.2;
+const ROAD_FACTORS: Record<string, number> = {
+  IA: 1.15, NE: 1.15, KS: 1.15, SD: 1.15, ND: 1.15, MN: 1.15, MO: 1.18, IL: 1.15,
+  CO: 1.3, WY: 1.3, MT: 1.3, ID: 1.35, UT: 1.3, NV: 1.3, AZ: 1.28, NM: 1.28,
+  OR: 1.32, WA: 1.3, CA: 1.28,
+  WV: 1.3, KY: 1.25, TN: 1.25, VA: 1.25, NC: 1.25,
+  ME: 1.28, NH: 1.28, VT: 1.3,
+};
+
+/**
+ * States on the route between two states: shortest path through the border
+ * graph, weighted by centroid distance. null when there's no road link.
+ */
+export function getRouteStates(from: string, to: string): string[] | null {
+  if (!STATE_CENTROIDS[from] || !STATE_CENTROIDS[to]) return null;
+
+  const distance = new Map<string, number>([[from, 0]]);
+  const previous = new Map<string, string>();
+  const open = new Set([from]);
+
+  while (open.size > 0) {
+    const current = [...open].reduce((best, state) =>
+      (distance.get(state) ?? Infinity) < (distance.get(best) ?? Infinity) ? state : best
+    );
+    open.delete(current);
+    if (current === to) break;
+
+    const here = STATE_CENTROIDS[current];
+    for (const next of STATE_NEIGHBORS[current] ?? []) {
+      const there = STATE_CENTROIDS[next];
+      const candidate = (distance.get(current) ?? 0) + haversineDistance(here.lat, here.lng, there.lat, there.lng);
+      if (candidate < (distance.get(next) ?? Infinity)) {
+        distance.set(next, candidate);
+        previous.set(next, current);
+        open.add(next);
+      }
+    }
+  }
+
+  if (!distance.has(to)) return null;
+  const path = [to];
+  while (path[0] !== from) {
+    path.unshift(previous.get(path[0])!);
+  }
+  return path;
+}
+
+/**
+ * Local routing: straight-line miles scaled by the destination state's road
+ * factor, states from the border graph. Alaska, Hawaii and territories have
+ * no road route from the shop.
+ */
+export const roadNetworkProvider: DistanceProvider = {
+  id: "road-network",
+  route(destinationZip) {
+    const destination = getZipCoordinates(destinationZip);
+    if (!destination?.state) return null;
+    const states = getRouteStates(AUDUBON_IA.state, destination.state);
+    if (!states) return null;
+
+    const straightMiles = haversineDistance(AUDUBON_IA.lat, AUDUBON_IA.lng, destination.lat, destination.lng);
+    const factor = ROAD_FACTORS[destination.state] ?? DEFAULT_ROAD_FACTOR;
+    return { miles: Math.round(straightMiles * factor), states, provider: this.id };
+  },
+};
+
+/**
+ * Stub for a hosted truck router. `prefetch` asks the endpoint for the route
+ * (GET ?origin=<zip>&destination=<zip>, answering { miles, states }) and
+ * caches it; until a route is cached, or when no endpoint is configured, the
+ * fallback provider answers.
+ */
+export function createExternalRouterProvider(options: {
+  endpoint?: string;
+  fallback?: DistanceProvider;
+}): DistanceProvider & { prefetch: (destinationZip: string) => Promise<void> } {
+  const { endpoint, fallback = roadNetworkProvider } = options;
+  const cache = new Map<string, DeliveryRoute>();
+
+  return {
+    id: "external-router",
+    route(destinationZip) {
+      return cache.get(destinationZip) ?? fallback.route(destinationZip);
+    },
+    async prefetch(destinationZip) {
+      if (!endpoint || cache.has(destinationZip)) return;
+      const params = new URLSearchParams({ origin: AUDUBON_IA.zip, destination: destinationZip });
+      const response = await fetch(`${endpoint}?${params}`);
+      if (!response.ok) {
+        throw new Error(`Router responded ${response.status}`);
+      }
+      const { miles, states } = (await response.json()) as { miles: number; states: string[] };
+      cache.set(destinationZip, { miles: Math.round(miles), states, provider: "external-router" });
+    },
+  };
+}
+
+let activeProvider: DistanceProvider = roadNetworkProvider;
+
+export function getDistanceProvider(): DistanceProvider {
+  return activeProvider;
+}
+
+export function setDistanceProvider(provider: DistanceProvider): void {
+  activeProvider = provider;
+}
@@ -1,13 +1,42 @@
 import type {
   AnnotationConfig,
+  ClipboardPayload,
   DesignAction,
   DesignConfig,
   DesignEditorState,
   FixtureConfig,
+  FixtureFootprint,
+  RectFt,
 } from "@/types/design";
+import {
+  alignFixtures,
+  buttFixtures,
+  distributeFixtures,
+  type ArrangedPositions,
+} from "./arrange";
+import { createClipboardPayload, footprintRect, isSameClipboardSelection } from "./clipboard";
+import { arrangeShell, getFixtureLevel, getPlanBounds } from "./composition";
+import { normalizeRotation } from "./geometry";
+import {
+  createGroup,
+  dissolveGroup,
+  expandToGroups,
+  getGroupFixtureIds,
+  getGroups,
+  getRootGroupId,
+  pruneGroups,
+  rotateGroup,
+} from "./groups";
+import { fitDesignToShell, getShellCatalogItem } from "./shell-catalog";
 import { resizeZone } from "./zone-utils";
 
 const MAX_HISTORY = 50;
+// How far paste/duplicate shifts copies from the source (ft, both axes)
+const PASTE_OFFSET_FT = 1;
+// Upper bound on copies created by one ARRAY_PLACE
+const MAX_ARRAY_COPIES = 100;
+// Rounding allowed when checking an array cell fits the plan (ft)
+const ARRAY_FIT_TOLERANCE_FT = 0.001;
 
 // UUID generation with fallback for older browsers (iOS Safari < 15.4)
 function generateUUID(): string {
@@ -29,29 +58,32 @@ function snapToIncrement(value: number, increment: number) {
   return Math.round(value / increment) * increment;
 }
 
+// Clamps into `bounds`: the shell, or the plan box of every shell on the
+// fixture's level in a multi-container build
 function clampToShell(
   xFt: number,
   yFt: number,
   fixtureWidth: number,
   fixtureHeight: number,
-  shellLength: number,
-  shellWidth: number,
+  bounds: RectFt,
   footprintAnchor: "center" | "front-left" | "back-left" = "center"
 ) {
+  const maxX = bounds.x + bounds.width;
+  const maxY = bounds.y + bounds.height;
   // Adjust clamping based on anchor point
   // For center-anchored fixtures, the position is the center, so we need to account for half the dimensions
   if (footprintAnchor === "center") {
     const halfWidth = fixtureWidth / 2;
     const halfHeight = fixtureHeight / 2;
     return {
-      xFt: clamp(xFt, halfWidth, shellLength - halfWidth),
-      yFt: clamp(yFt, halfHeight, shellWidth - halfHeight),
+      xFt: clamp(xFt, bounds.x + halfWidth, maxX - halfWidth),
+      yFt: clamp(yFt, bounds.y + halfHeight, maxY - halfHeight),
     };
   } else {
     // For corner-anchored fixtures (front-left, back-left), position is the corner
     return {
-      xFt: clamp(xFt, 0, shellLength - fixtureWidth),
-      yFt: clamp(yFt, 0, shellWidth - fixtureHeight),
+      xFt: clamp(xFt, bounds.x, maxX - fixtureWidth),
+      yFt: clamp(yFt, bounds.y, maxY - fixtureHeight),
     };
   }
 }
@@ -70,6 +102,90 @@ function withDesignChange(
   };
 }
 
+/**
+ * Applies an arrange command's positions as a single history entry.
+ */
+function applyArrangedPositions(
+  state: DesignEditorState,
+  positions: ArrangedPositions
+): DesignEditorState {
+  if (Object.keys(positions).length === 0) return state;
+  const nextDesign: DesignConfig = {
+    ...state.design,
+    fixtures: state.design.fixtures.map((f) =>
+      positions[f.id] ? { ...f, ...positions[f.id] } : f
+    ),
+  };
+  return withDesignChange(state, nextDesign);
+}
+
+/**
+ * Payload for the currently selected fixtures (in design order).
+ */
+function selectionPayload(
+  state: DesignEditorState,
+  footprints: Record<string, FixtureFootprint>
+): ClipboardPayload | null {
+  return createClipboardPayload(
+    state.design.fixtures.filter((f) => state.selectedIds.includes(f.id)),
+    footprints
+  );
+}
+
+/**
+ * Creates fixtures from a clipboard payload with the copied selection's bounding
+ * box at (originX, originY). The box is snapped and clamped into the shell as a
+ * whole, so the relative layout of the copies is kept. Every copy gets a new id
+ * and the zone it lands in.
+ */
+function placeClipboardFixtures(
+  state: DesignEditorState,
+  payload: ClipboardPayload,
+  originX: number,
+  originY: number
+): { fixtures: FixtureConfig[]; originFt: { x: number; y: number } } {
+  const { zones } = state.design;
+  const level = state.activeLevel ?? 0;
+  const origin = clampToShell(
+    snapToIncrement(originX, state.snapIncrement),
+    snapToIncrement(originY, state.snapIncrement),
+    payload.sizeFt.width,
+    payload.sizeFt.height,
+    getPlanBounds(state.design, level),
+    "front-left"
+  );
+
+  const fixtures = payload.fixtures.map((copied): FixtureConfig => {
+    const xFt = origin.xFt + copied.xFt;
+    const yFt = origin.yFt + copied.yFt;
+    const rect = footprintRect(xFt, yFt, copied.footprint);
+    const centerX = rect.x + rect.width / 2;
+    const centerY = rect.y + rect.height / 2;
+    const zone = zones.find(
+      (z) =>
+        centerX >= z.xFt &&
+        centerX <= z.xFt + z.lengthFt &&
+        centerY >= z.yFt &&
+        centerY <= z.yFt + z.widthFt
+    );
+    return {
+      id: generateUUID(),
+      catalogKey: copied.catalogKey,
+      name: copied.name,
+      xFt,
+      yFt,
+      rotationDeg: copied.rotationDeg,
+      mirrorX: copied.mirrorX,
+      mirrorY: copied.mirrorY,
+      zone: zone?.id,
+      level: level > 0 ? level : undefined,
+      properties: copied.properties ? { ...copied.properties } : undefined,
+    };
+  });
+
+  return { fixtures, originFt: { x: origin.xFt, y: origin.yFt } };
+}
+
 export function designEditorReducer(
   state: DesignEditorState,
   action: DesignAction
@@ -79,23 +195,28 @@ export function designEditorReducer(
       if (!action.id) {
         return { ...state, primarySelectedId: undefined, selectedIds: [] };
       }
+      const picked = action.ignoreGroups
+        ? [action.id]
+        : expandToGroups(state.design, [action.id]);
       if (action.append) {
-        const ids = state.selectedIds.includes(action.id)
-          ? state.selectedIds
-          : [...state.selectedIds, action.id];
+        const ids = [
+          ...state.selectedIds,
+          ...picked.filter((id) => !state.selectedIds.includes(id)),
+        ];
         return { ...state, primarySelectedId: action.id, selectedIds: ids };
       }
       return {
         ...state,
         primarySelectedId: action.id,
-        selectedIds: [action.id],
+        selectedIds: picked,
       };
     }
     case "SELECT_FIXTURES": {
+      const ids = expandToGroups(state.design, action.ids);
       return {
         ...state,
-        selectedIds: action.ids,
-        primarySelectedId: action.ids[0],
+        selectedIds: ids,
+        primarySelectedId: ids[0],
       };
     }
     case "CLEAR_SELECTION": {
@@ -103,9 +224,10 @@ export function designEditorReducer(
     }
     case "TOGGLE_FIXTURE_SELECTION": {
       const exists = state.selectedIds.includes(action.id);
+      const toggled = expandToGroups(state.design, [action.id]);
       const selectedIds = exists
-        ? state.selectedIds.filter((id) => id !== action.id)
-        : [...state.selectedIds, action.id];
+        ? state.selectedIds.filter((id) => !toggled.includes(id))
+        : [...state.selectedIds, ...toggled.filter((id) => !state.selectedIds.includes(id))];
       return {
         ...state,
         selectedIds,
@@ -114,13 +236,16 @@ export function designEditorReducer(
     }
     case "ADD_FIXTURE": {
       const { catalogKey, zoneId, xFt, yFt, rotationDeg } = action;
+      const level = state.activeLevel ?? 0;
+      const bounds = getPlanBounds(state.design, level);
       const newFixture: FixtureConfig = {
         id: generateUUID(),
         catalogKey,
-        xFt: xFt ?? state.design.shell.lengthFt / 2,
-        yFt: yFt ?? state.design.shell.widthFt / 2,
-        rotationDeg: rotationDeg ?? 0,
+        xFt: xFt ?? bounds.x + bounds.width / 2,
+        yFt: yFt ?? bounds.y + bounds.height / 2,
+        rotationDeg: normalizeRotation(rotationDeg),
         zone: zoneId,
+        ...(level > 0 ? { level } : {}),
       };
       const nextDesign: DesignConfig = {
         ...state.design,
@@ -136,10 +261,10 @@ export function designEditorReducer(
       const nextFixtures = state.design.fixtures.filter(
         (f) => f.id !== action.id
       );
-      const nextDesign: DesignConfig = {
+      const nextDesign: DesignConfig = pruneGroups({
         ...state.design,
         fixtures: nextFixtures,
-      };
+      });
       const selectedIds = state.selectedIds.filter((id) => id !== action.id);
       return {
         ...withDesignChange(state, nextDesign),
@@ -162,8 +287,7 @@ export function designEditorReducer(
         snappedY,
         width,
         height,
-        state.design.shell.lengthFt,
-        state.design.shell.widthFt,
+        getPlanBounds(state.design, getFixtureLevel(fixture)),
         anchor
       );
       const nextDesign: DesignConfig = {
@@ -179,11 +303,22 @@ export function designEditorReducer(
       const nextDesign: DesignConfig = {
         ...state.design,
         fixtures: state.design.fixtures.map((f) =>
-          f.id === id ? { ...f, rotationDeg } : f
+          f.id === id ? { ...f, rotationDeg: normalizeRotation(rotationDeg) } : f
         ),
       };
       return withDesignChange(state, nextDesign);
     }
+    case "TOGGLE_FIXTURE_MIRROR": {
+      const { id, axis } = action;
+      const nextDesign: DesignConfig = {
+        ...state.design,
+        fixtures: state.design.fixtures.map((f) => {
+          if (f.id !== id) return f;
+          return axis === "x" ? { ...f, mirrorX: !f.mirrorX } : { ...f, mirrorY: !f.mirrorY };
+        }),
+      };
+      return withDesignChange(state, nextDesign);
+    }
     case "TOGGLE_FIXTURE_LOCK": {
       const { id } = action;
       const nextDesign: DesignConfig = {
@@ -218,9 +353,25 @@ export function designEditorReducer(
       return withDesignChange(state, nextDesign);
     }
     case "START_DRAG": {
-      const { id, pointerStartPx, fixtureWidth, fixtureHeight, footprintAnchor } = action;
+      const { id, pointerStartPx, fixtureWidth, fixtureHeight, footprintAnchor, groupBoundsFt } = action;
       const fixture = state.design.fixtures.find((f) => f.id === id);
       if (!fixture) return state;
+
+      // Selected members of the dragged fixture's group move along with it
+      const rootGroupId = getRootGroupId(state.design, id);
+      const groupIds = rootGroupId
+        ? getGroupFixtureIds(state.design, rootGroupId).filter(
+          (memberId) => memberId !== id && state.selectedIds.includes(memberId)
+        )
+        : [];
+      const groupStarts: Record<string, { xFt: number; yFt: number }> = {};
+      for (const member of state.design.fixtures) {
+        if (groupIds.includes(member.id) && !member.locked) {
+          groupStarts[member.id] = { xFt: member.xFt, yFt: member.yFt };
+        }
+      }
+      const hasGroup = Object.keys(groupStarts).length > 0;
+
       return {
         ...state,
         drag: {
@@ -231,6 +382,8 @@ export function designEditorReducer(
           fixtureWidth: fixtureWidth ?? 1,
           fixtureHeight: fixtureHeight ?? 1,
           footprintAnchor: footprintAnchor ?? "center",
+          groupStarts: hasGroup ? groupStarts : undefined,
+          groupBoundsFt: hasGroup ? groupBoundsFt : undefined,
         },
         primarySelectedId: id,
         selectedIds: state.selectedIds.includes(id)
@@ -263,15 +416,41 @@ export function designEditorReducer(
         ? { xFt: newXFt, yFt: newYFt }
         : { xFt: snapToIncrement(newXFt, state.snapIncrement), yFt: snapToIncrement(newYFt, state.snapIncrement) };
       
+      const dragged = state.design.fixtures.find((f) => f.id === state.drag!.fixtureId);
+      const bounds = getPlanBounds(state.design, dragged ? getFixtureLevel(dragged) : 0);
       const clamped = clampToShell(
         position.xFt,
         position.yFt,
         width,
         height,
-        state.design.shell.lengthFt,
-        state.design.shell.widthFt,
+        bounds,
         anchor
       );
+
+      const { groupStarts, groupBoundsFt } = state.drag;
+      if (groupStarts) {
+        // Move the group by the dragged fixture's offset, keeping the group's box in the shell
+        let deltaX = clamped.xFt - startXFt;
+        let deltaY = clamped.yFt - startYFt;
+        if (groupBoundsFt) {
+          deltaX = clamp(deltaX, bounds.x - groupBoundsFt.x, bounds.x + bounds.width - groupBoundsFt.x - groupBoundsFt.width);
+          deltaY = clamp(deltaY, bounds.y - groupBoundsFt.y, bounds.y + bounds.height - groupBoundsFt.y - groupBoundsFt.height);
+        }
+        return {
+          ...state,
+          design: {
+            ...state.design,
+            fixtures: state.design.fixtures.map((f) => {
+              if (f.id === state.drag!.fixtureId) {
+                return { ...f, xFt: startXFt + deltaX, yFt: startYFt + deltaY };
+              }
+              const start = groupStarts[f.id];
+              return start ? { ...f, xFt: start.xFt + deltaX, yFt: start.yFt + deltaY } : f;
+            }),
+          },
+        };
+      }
+
       return {
         ...state,
         design: {
@@ -385,6 +564,73 @@ export function designEditorReducer(
         selectedZoneId: undefined,
       };
     }
+    // Multi-container composition
+    case "ADD_SHELL": {
+      const item = getShellCatalogItem(action.shellKey);
+      if (!item) return state;
+      const placed = arrangeShell(state.design, item, action.arrangement, generateUUID());
+      const nextDesign: DesignConfig = {
+        ...state.design,
+        additionalShells: [...(state.design.additionalShells ?? []), placed],
+      };
+      return withDesignChange(state, nextDesign);
+    }
+    case "UPDATE_SHELL": {
+      const nextDesign: DesignConfig = {
+        ...state.design,
+        additionalShells: state.design.additionalShells?.map((p) =>
+          p.id === action.id ? { ...p, ...action.updates } : p
+        ),
+      };
+      return withDesignChange(state, nextDesign);
+    }
+    case "REMOVE_SHELL": {
+      // Cuts into the removed shell go with it; its fixtures stay for the user to move
+      const nextDesign: DesignConfig = {
+        ...state.design,
+        additionalShells: state.design.additionalShells?.filter((p) => p.id !== action.id),
+        shellOpenings: state.design.shellOpenings?.filter(
+          (o) => !o.shellIds.includes(action.id)
+        ),
+      };
+      return withDesignChange(state, nextDesign);
+    }
+    case "ADD_SHELL_OPENING": {
+      const nextDesign: DesignConfig = {
+        ...state.design,
+        shellOpenings: [
+          ...(state.design.shellOpenings ?? []),
+          { id: generateUUID(), shellIds: action.shellIds, offsetFt: action.offsetFt, lengthFt: action.lengthFt },
+        ],
+      };
+      return withDesignChange(state, nextDesign);
+    }
+    case "REMOVE_SHELL_OPENING": {
+      const nextDesign: DesignConfig = {
+        ...state.design,
+        shellOpenings: state.design.shellOpenings?.filter((o) => o.id !== action.id),
+      };
+      return withDesignChange(state, nextDesign);
+    }
+    case "SET_ACTIVE_LEVEL": {
+      return {
+        ...state,
+        activeLevel: action.level,
+        selectedIds: [],
+        primarySelectedId: undefined,
+      };
+    }
+    case "SET_SHELL": {
+      const item = getShellCatalogItem(action.shellKey);
+      if (!item || item.key === state.design.shell.id) return state;
+      return withDesignChange(state, fitDesignToShell(state.design, item, action.footprints));
+    }
+    case "SET_UTILITY_ENTRY": {
+      return withDesignChange(state, {
+        ...state.design,
+        utilityEntry: action.utilityEntry ?? undefined,
+      });
+    }
     // Zone editing actions
     case "SELECT_ZONE": {
       return {
@@ -892,6 +1138,214 @@ export function designEditorReducer(
       };
       return withDesignChange(state, nextDesign);
     }
+    // Group actions
+    case "GROUP": {
+      const groupId = generateUUID();
+      const name = action.name?.trim() || `Group ${getGroups(state.design).length + 1}`;
+      const nextDesign = createGroup(state.design, state.selectedIds, { id: groupId, name });
+      if (nextDesign === state.design) return state;
+      return {
+        ...withDesignChange(state, nextDesign),
+        selectedIds: expandToGroups(nextDesign, state.selectedIds),
+      };
+    }
+    case "UNGROUP": {
+      // Without an id, dissolve the outermost group of every selected fixture
+      const groupIds = action.groupId
+        ? [action.groupId]
+        : state.selectedIds
+          .map((id) => getRootGroupId(state.design, id))
+          .filter((id, i, all): id is string => !!id && all.indexOf(id) === i);
+      if (groupIds.length === 0) return state;
+      const nextDesign = groupIds.reduce(dissolveGroup, state.design);
+      return withDesignChange(state, nextDesign);
+    }
+    case "SELECT_GROUP": {
+      const ids = getGroupFixtureIds(state.design, action.id);
+      if (ids.length === 0) return state;
+      const selectedIds = action.append
+        ? [...state.selectedIds, ...ids.filter((id) => !state.selectedIds.includes(id))]
+        : ids;
+      return { ...state, selectedIds, primarySelectedId: ids[0] };
+    }
+    case "RENAME_GROUP": {
+      const nextDesign: DesignConfig = {
+        ...state.design,
+        groups: getGroups(state.design).map((g) =>
+          g.id === action.id ? { ...g, name: action.name } : g
+        ),
+      };
+      return withDesignChange(state, nextDesign);
+    }
+    case "ROTATE_GROUP": {
+      const positions = rotateGroup(state.design, action.id, action.footprints);
+      if (Object.keys(positions).length === 0) return state;
+      const nextDesign: DesignConfig = {
+        ...state.design,
+        fixtures: state.design.fixtures.map((f) =>
+          positions[f.id] ? { ...f, ...positions[f.id] } : f
+        ),
+      };
+      return withDesignChange(state, nextDesign);
+    }
+    case "MOVE_FIXTURES": {
+      // Caller has already kept the moved fixtures inside the shell
+      const { ids, deltaXFt, deltaYFt } = action;
+      const nextDesign: DesignConfig = {
+        ...state.design,
+        fixtures: state.design.fixtures.map((f) =>
+          ids.includes(f.id) && !f.locked
+            ? { ...f, xFt: f.xFt + deltaXFt, yFt: f.yFt + deltaYFt }
+            : f
+        ),
+      };
+      return withDesignChange(state, nextDesign);
+    }
+    // Arrange actions
+    case "ALIGN_SELECTION": {
+      const selected = state.design.fixtures.filter((f) => state.selectedIds.includes(f.id));
+      return applyArrangedPositions(
+        state,
+        alignFixtures(selected, action.footprints, action.mode)
+      );
+    }
+    case "DISTRIBUTE_SELECTION": {
+      const selected = state.design.fixtures.filter((f) => state.selectedIds.includes(f.id));
+      return applyArrangedPositions(
+        state,
+        distributeFixtures(selected, action.footprints, action.axis)
+      );
+    }
+    case "BUTT_SELECTION": {
+      const selected = state.design.fixtures.filter((f) => state.selectedIds.includes(f.id));
+      const others = state.design.fixtures.filter((f) => !state.selectedIds.includes(f.id));
+      return applyArrangedPositions(
+        state,
+        buttFixtures(selected, others, action.footprints, action.direction, state.design.shell)
+      );
+    }
+    case "MATCH_SIZE": {
+      // Copies the primary fixture's size onto the rest of the selection
+      const { lengthFt, widthFt } = action;
+      if (lengthFt === undefined && widthFt === undefined) return state;
+      const targets = state.selectedIds.filter((id) => id !== state.primarySelectedId);
+      if (targets.length === 0) return state;
+      const nextDesign: DesignConfig = {
+        ...state.design,
+        fixtures: state.design.fixtures.map((f) =>
+          targets.includes(f.id) && !f.locked
+            ? {
+              ...f,
+              properties: {
+                ...(f.properties ?? {}),
+                ...(lengthFt !== undefined
+                  ? { lengthOverrideFt: Math.max(lengthFt, 0.5) }
+                  : null),
+                ...(widthFt !== undefined
+                  ? { widthOverrideFt: Math.max(widthFt, 0.5) }
+                  : null),
+              },
+            }
+            : f
+        ),
+      };
+      return withDesignChange(state, nextDesign);
+    }
+    // Clipboard actions
+    case "COPY_SELECTION": {
+      const payload = selectionPayload(state, action.footprints);
+      if (!payload) return state;
+      return { ...state, clipboard: payload };
+    }
+    case "PASTE": {
+      // The system clipboard keeps the spot the selection was copied from; when
+      // it holds the same selection, paste from the in-editor copy, which
+      // remembers where the last paste landed
+      const payload =
+        action.payload && state.clipboard && isSameClipboardSelection(action.payload, state.clipboard)
+          ? state.clipboard
+          : action.payload ?? state.clipboard;
+      if (!payload) return state;
+      const hasTarget = action.xFt !== undefined && action.yFt !== undefined;
+      // Without a target, cascade each paste down-right of the previous one
+      const { fixtures, originFt } = placeClipboardFixtures(
+        state,
+        payload,
+        hasTarget ? action.xFt! - payload.sizeFt.width / 2 : payload.originFt.x + PASTE_OFFSET_FT,
+        hasTarget ? action.yFt! - payload.sizeFt.height / 2 : payload.originFt.y + PASTE_OFFSET_FT
+      );
+      const nextDesign: DesignConfig = {
+        ...state.design,
+        fixtures: [...state.design.fixtures, ...fixtures],
+      };
+      const ids = fixtures.map((f) => f.id);
+      return {
+        ...withDesignChange(state, nextDesign),
+        clipboard: { ...payload, originFt },
+        selectedIds: ids,
+        primarySelectedId: ids[0],
+      };
+    }
+    case "DUPLICATE": {
+      const payload = selectionPayload(state, action.footprints);
+      if (!payload) return state;
+      const offset = action.offsetFt ?? PASTE_OFFSET_FT;
+      const { fixtures } = placeClipboardFixtures(
+        state,
+        payload,
+        payload.originFt.x + offset,
+        payload.originFt.y + offset
+      );
+      const nextDesign: DesignConfig = {
+        ...state.design,
+        fixtures: [...state.design.fixtures, ...fixtures],
+      };
+      const ids = fixtures.map((f) => f.id);
+      return {
+        ...withDesignChange(state, nextDesign),
+        selectedIds: ids,
+        primarySelectedId: ids[0],
+      };
+    }
+    case "ARRAY_PLACE": {
+      const payload = selectionPayload(state, action.footprints);
+      if (!payload) return state;
+      // Capped so the grid never holds more than MAX_ARRAY_COPIES copies
+      const columns = clamp(Math.floor(action.columns), 1, MAX_ARRAY_COPIES + 1);
+      const rows = clamp(Math.floor(action.rows), 1, Math.floor((MAX_ARRAY_COPIES + 1) / columns));
+      const stepX = payload.sizeFt.width + action.gapXFt;
+      const stepY = payload.sizeFt.height + action.gapYFt;
+      const bounds = getPlanBounds(state.design, state.activeLevel ?? 0);
+
+      // The selection itself is cell (0, 0); every other cell gets a copy.
+      // Cells that run past the plan are left out rather than clamped, so
+      // copies don't pile up against the end wall.
+      const copies: FixtureConfig[] = [];
+      for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < columns; col++) {
+          if (row === 0 && col === 0) continue;
+          const x = snapToIncrement(payload.originFt.x + col * stepX, state.snapIncrement);
+          const y = snapToIncrement(payload.originFt.y + row * stepY, state.snapIncrement);
+          const fits =
+            x >= bounds.x - ARRAY_FIT_TOLERANCE_FT &&
+            y >= bounds.y - ARRAY_FIT_TOLERANCE_FT &&
+            x + payload.sizeFt.width <= bounds.x + bounds.width + ARRAY_FIT_TOLERANCE_FT &&
+            y + payload.sizeFt.height <= bounds.y + bounds.height + ARRAY_FIT_TOLERANCE_FT;
+          if (!fits) continue;
+          copies.push(...placeClipboardFixtures(state, payload, x, y).fixtures);
+        }
+      }
+      if (copies.length === 0) return state;
+
+      const nextDesign: DesignConfig = {
+        ...state.design,
+        fixtures: [...state.design.fixtures, ...copies],
+      };
+      return {
+        ...withDesignChange(state, nextDesign),
+        selectedIds: [...state.selectedIds, ...copies.map((f) => f.id)],
+      };
+    }
     // Annotation actions
     case "ADD_ANNOTATION": {
       const { anchorFt, labelFt, text } = action;
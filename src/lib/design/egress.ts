@@ -0,0 +1,297 @@
+import type {
+  DesignConfig,
+  FixtureConfig,
+  ModuleCatalogItem,
+  OrientedRectFt,
+  RectFt,
+  ValidationIssue,
+  ValidationLevel,
+  ValidationRule,
+} from "@/types/design";
+import {
+  getFixtureLevel,
+  getLevels,
+  getPlacedShells,
+  getPlanBounds,
+  getPlanWalls,
+  isStairFixture,
+  planWallRect,
+  shellPlanRect,
+} from "./composition";
+import {
+  bodyRectFromFixture,
+  isDoorFixture,
+  rectCenter,
+  rectDistance,
+  rectFromFixture,
+  rectsOverlap,
+  zonesContainingRect,
+} from "./geometry";
+import { getOpeningKind } from "./openings";
+
+/**
+ * Tunable settings for the egress pathfinder (feet).
+ */
+export type EgressConfig = {
+  // Narrowest passage a route may squeeze through (30")
+  minClearWidthFt: number;
+  // Resolution of the walkable-space grid
+  gridFt: number;
+  // Severity of a bed with no route out
+  level: ValidationLevel;
+};
+
+export const DEFAULT_EGRESS_CONFIG: EgressConfig = {
+  minClearWidthFt: 2.5,
+  gridFt: 0.25,
+  level: "warning",
+};
+
+export type EgressRoute = {
+  bedId: string;
+  zoneName?: string;
+  reachable: boolean;
+  // Grid distance from the bed to the nearest exterior door, or to the top of
+  // stairs leading down to one
+  distanceFt?: number;
+};
+
+// Sofas and recliners share the sleep category, so match beds and bunks by key
+const isBedFixture = (cat: ModuleCatalogItem) =>
+  cat.category === "fixture-sleep" && /-(bed|bunk)-/.test(cat.key);
+
+// Exterior doors and the entry vestibule lead outside
+const isExitFixture = (fixture: FixtureConfig) =>
+  getOpeningKind(fixture) === "exterior-door" ||
+  fixture.catalogKey === "module-vestibule";
+
+/**
+ * Breadth-first route distances on one level, from the exits to each target.
+ *
+ * The level's bounding box is rasterized into a grid of blocked cells (floor
+ * areas outside every shell, floor-mounted fixtures and shared walls left
+ * standing, with door openings cut back out of the walls they sit in). A
+ * person is a `minClearWidthFt` square that may only stand where every cell
+ * under it is free. Returns each target's distance in feet, or undefined when
+ * no exit reaches it.
+ */
+function routeDistances(
+  design: DesignConfig,
+  catalog: Record<string, ModuleCatalogItem>,
+  level: number,
+  exits: RectFt[],
+  targets: RectFt[],
+  config: EgressConfig
+): (number | undefined)[] {
+  const { gridFt } = config;
+  const bounds = getPlanBounds(design, level);
+  const cols = Math.floor(bounds.width / gridFt);
+  const rows = Math.floor(bounds.height / gridFt);
+  const span = Math.ceil(config.minClearWidthFt / gridFt);
+  const shells = getPlacedShells(design)
+    .filter((p) => p.level === level)
+    .map(shellPlanRect);
+
+  const obstacles: (RectFt | OrientedRectFt)[] = getPlanWalls(design, level)
+    .filter((wall) => !wall.exterior)
+    .map((wall) => planWallRect(wall, gridFt));
+  const openings: RectFt[] = [];
+
+  for (const fixture of design.fixtures) {
+    const cat = catalog[fixture.catalogKey];
+    if (!cat || getFixtureLevel(fixture) !== level) continue;
+    if (isExitFixture(fixture) || isDoorFixture(fixture)) {
+      openings.push(rectFromFixture(fixture, cat));
+    } else if (cat.mount === "floor") {
+      obstacles.push(bodyRectFromFixture(fixture, cat));
+    }
+  }
+
+  const cellRect = (col: number, row: number, size = 1): RectFt => ({
+    x: bounds.x + col * gridFt,
+    y: bounds.y + row * gridFt,
+    width: size * gridFt,
+    height: size * gridFt,
+  });
+
+  // Summed-area table of blocked cells so each standing spot is an O(1) lookup
+  const sums = new Int32Array((cols + 1) * (rows + 1));
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const cell = cellRect(col, row);
+      const middle = rectCenter(cell);
+      const outside = !shells.some(
+        (r) => middle.x > r.x && middle.x < r.x + r.width && middle.y > r.y && middle.y < r.y + r.height
+      );
+      const blocked =
+        outside ||
+        (obstacles.some((r) => rectsOverlap(cell, r)) &&
+          !openings.some((r) => rectsOverlap(cell, r)));
+      sums[(row + 1) * (cols + 1) + col + 1] =
+        (blocked ? 1 : 0) +
+        sums[row * (cols + 1) + col + 1] +
+        sums[(row + 1) * (cols + 1) + col] -
+        sums[row * (cols + 1) + col];
+    }
+  }
+
+  const spotCols = cols - span + 1;
+  const spotRows = rows - span + 1;
+  if (spotCols <= 0 || spotRows <= 0) return targets.map(() => undefined);
+
+  const isFree = (col: number, row: number) => {
+    const w = cols + 1;
+    return (
+      sums[(row + span) * w + col + span] -
+        sums[row * w + col + span] -
+        sums[(row + span) * w + col] +
+        sums[row * w + col] ===
+      0
+    );
+  };
+
+  // Flood outward from every free spot touching an exit
+  const dist = new Int32Array(spotCols * spotRows).fill(-1);
+  const queue: number[] = [];
+  for (let row = 0; row < spotRows; row++) {
+    for (let col = 0; col < spotCols; col++) {
+      if (!isFree(col, row)) continue;
+      const spot = cellRect(col, row, span);
+      if (exits.some((r) => rectDistance(spot, r) <= gridFt)) {
+        dist[row * spotCols + col] = 0;
+        queue.push(row * spotCols + col);
+      }
+    }
+  }
+
+  for (let head = 0; head < queue.length; head++) {
+    const index = queue[head];
+    const col = index % spotCols;
+    const row = Math.floor(index / spotCols);
+    const neighbours = [
+      [col + 1, row],
+      [col - 1, row],
+      [col, row + 1],
+      [col, row - 1],
+    ];
+    for (const [nc, nr] of neighbours) {
+      if (nc < 0 || nr < 0 || nc >= spotCols || nr >= spotRows) continue;
+      const next = nr * spotCols + nc;
+      if (dist[next] !== -1 || !isFree(nc, nr)) continue;
+      dist[next] = dist[index] + 1;
+      queue.push(next);
+    }
+  }
+
+  return targets.map((rect) => {
+    let best = -1;
+    for (let row = 0; row < spotRows; row++) {
+      for (let col = 0; col < spotCols; col++) {
+        const d = dist[row * spotCols + col];
+        if (d === -1 || (best !== -1 && d >= best)) continue;
+        if (rectDistance(cellRect(col, row, span), rect) <= gridFt) best = d;
+      }
+    }
+    return best !== -1 ? best * gridFt : undefined;
+  });
+}
+
+/**
+ * Finds a walkable route from every bed to an exterior door.
+ *
+ * Each level is flooded on its own, lowest first: shells on a level are
+ * walkable where their shared walls were opened up, and only that level's
+ * fixtures and doors count. On upper levels, stairs rising from below lead out
+ * when the level below has a route from them to an exit.
+ */
+export function findEgressRoutes(
+  design: DesignConfig,
+  catalog: Record<string, ModuleCatalogItem>,
+  config: EgressConfig = DEFAULT_EGRESS_CONFIG
+): EgressRoute[] {
+  const bedLevels = design.fixtures
+    .filter((f) => catalog[f.catalogKey] && isBedFixture(catalog[f.catalogKey]))
+    .map(getFixtureLevel);
+  if (bedLevels.length === 0) return [];
+  const topLevel = Math.max(...bedLevels);
+
+  const routes: EgressRoute[] = [];
+  // Stairs on each level with a route out, which lead out of the level above
+  const stairsOut = new Map<number, RectFt[]>();
+
+  for (const level of getLevels(design)) {
+    if (level > topLevel) break;
+    const onLevel = design.fixtures.filter(
+      (f) => catalog[f.catalogKey] && getFixtureLevel(f) === level
+    );
+    const rectOf = (f: FixtureConfig) => rectFromFixture(f, catalog[f.catalogKey]);
+    const beds = onLevel.filter((f) => isBedFixture(catalog[f.catalogKey]));
+    const stairs = onLevel.filter(isStairFixture);
+    const exits = [
+      ...onLevel.filter(isExitFixture).map(rectOf),
+      ...(stairsOut.get(level - 1) ?? []),
+    ];
+    const targets = [...beds, ...stairs].map(rectOf);
+    const distances = exits.length > 0
+      ? routeDistances(design, catalog, level, exits, targets, config)
+      : targets.map(() => undefined);
+
+    beds.forEach((fixture, i) => {
+      routes.push({
+        bedId: fixture.id,
+        zoneName: zonesContainingRect(design.zones, targets[i])[0]?.name,
+        reachable: distances[i] !== undefined,
+        distanceFt: distances[i],
+      });
+    });
+    stairsOut.set(
+      level,
+      stairs.filter((_, i) => distances[beds.length + i] !== undefined).map(rectOf)
+    );
+  }
+
+  return routes;
+}
+
+/**
+ * Builds the egress validation rule: every bed needs a clear route of at
+ * least `minClearWidthFt` to an exterior door.
+ */
+export function createEgressRule(
+  overrides: Partial<EgressConfig> = {}
+): ValidationRule {
+  const config: EgressConfig = { ...DEFAULT_EGRESS_CONFIG, ...overrides };
+  const widthIn = Math.round(config.minClearWidthFt * 12);
+
+  return (design, catalog) => {
+    const routes = findEgressRoutes(design, catalog, config);
+    if (routes.length === 0) return [];
+
+    const hasExit = design.fixtures.some(
+      (f) => catalog[f.catalogKey] && isExitFixture(f)
+    );
+    if (!hasExit) {
+      return [{
+        id: "EGRESS_NO_EXIT",
+        level: config.level,
+        code: "EGRESS_NO_EXIT",
+        message: "The design has beds but no exterior door to escape through.",
+      }];
+    }
+
+    const issues: ValidationIssue[] = [];
+    for (const route of routes) {
+      if (route.reachable) continue;
+      const bed = design.fixtures.find((f) => f.id === route.bedId);
+      const label = (bed && catalog[bed.catalogKey]?.label) ?? "Bed";
+      issues.push({
+        id: `EGRESS_BLOCKED_${route.bedId}`,
+        fixtureId: route.bedId,
+        level: config.level,
+        code: "EGRESS_BLOCKED",
+        message: `${label}${route.zoneName ? ` in ${route.zoneName}` : ""} has no ${widthIn}" clear route to an exterior door.`,
+      });
+    }
+    return issues;
+  };
+}
@@ -5,11 +5,16 @@
 
 import XLSX from "xlsx-js-style";
 import type { BOMCalculation, BOMSelections } from "@/types/bom";
+import { getBOMAdjustmentLines } from "./discounts";
+import type { PanelSchedule } from "./panel-schedule";
+import { appendPanelScheduleSheet } from "./panel-schedule-sheet";
+import { appendPurchasingSheet } from "./purchasing-sheet";
 
 export type ExcelExportOptions = {
   designName: string;
   bom: BOMCalculation;
   selections: BOMSelections;
+  panelSchedule: PanelSchedule;
 };
 
 /**
@@ -17,7 +22,7 @@ export type ExcelExportOptions = {
  * Returns a Buffer that can be attached to emails
  */
 export function generateExcelBuffer(options: ExcelExportOptions): Buffer {
-  const { designName, bom, selections } = options;
+  const { designName, bom, panelSchedule } = options;
 
   // Style definitions
   const titleStyle = {
@@ -86,29 +91,34 @@ export function generateExcelBuffer(options: ExcelExportOptions): Buffer {
   // Header row (row 2)
   data.push(["Category", "Description", "Cost"]);
 
-  // Main cost items (rows 3-12)
+  // Main cost items (rows 3-14)
   data.push(["Container Shell", bom.container.details || "", formatCurrency(bom.container.costCents)]);
+  data.push(["Structural Reinforcement", bom.structural.details || "", formatCurrency(bom.structural.costCents)]);
   data.push(["Fixtures & Appliances", bom.fixtures.details || "", formatCurrency(bom.fixtures.costCents)]);
   data.push(["Walls & Insulation", bom.wallsInsulation.details || "", formatCurrency(bom.wallsInsulation.costCents)]);
   data.push(["Flooring", bom.flooring.details || "", formatCurrency(bom.flooring.costCents)]);
   data.push(["Electrical", bom.electrical.details || "", formatCurrency(bom.electrical.costCents)]);
   data.push(["Plumbing", bom.plumbing.details || "", formatCurrency(bom.plumbing.costCents)]);
+  data.push(["Water & Waste", bom.waterWaste.details || "", formatCurrency(bom.waterWaste.costCents)]);
   data.push(["Exterior Finish", bom.exteriorFinish.details || "", formatCurrency(bom.exteriorFinish.costCents)]);
   data.push(["Roofing", bom.roofing.details || "", formatCurrency(bom.roofing.costCents)]);
   data.push([
     "Labor",
-    `${bom.labor.totalHours} hours @ $${(selections.laborRateCents / 100).toFixed(2)}/hr`,
+    `${bom.labor.totalHours} hours @ $${(bom.labor.rateCents / 100).toFixed(2)}/hr`,
     formatCurrency(bom.labor.costCents),
   ]);
   data.push(["Delivery", bom.delivery.details || "", formatCurrency(bom.delivery.costCents)]);
 
-  // Empty row before totals (row 13)
+  // Empty row before totals (row 15)
   data.push([]);
 
-  // Totals section (rows 14-16)
+  // Totals section
   const subtotalRow = data.length;
   data.push(["Subtotal", "", formatCurrency(bom.subtotalCents)]);
   data.push(["Contingency (10%)", "", formatCurrency(bom.contingencyCents)]);
+  getBOMAdjustmentLines(bom).forEach((line) => {
+    data.push([line.label, "", line.cents < 0 ? `-${formatCurrency(-line.cents)}` : formatCurrency(line.cents)]);
+  });
   const grandTotalRow = data.length;
   data.push(["GRAND TOTAL", "", formatCurrency(bom.grandTotalCents)]);
 
@@ -140,19 +150,19 @@ export function generateExcelBuffer(options: ExcelExportOptions): Buffer {
     if (ws[cell]) ws[cell].s = headerStyle;
   });
 
-  // Data rows (rows 3-12)
-  for (let row = 4; row <= 13; row++) {
+  // Data rows (rows 3-14)
+  for (let row = 4; row <= 15; row++) {
     if (ws[`A${row}`]) ws[`A${row}`].s = { ...dataStyle, font: { ...dataStyle.font, bold: true } };
     if (ws[`B${row}`]) ws[`B${row}`].s = dataStyle;
     if (ws[`C${row}`]) ws[`C${row}`].s = costStyle;
   }
 
-  // Subtotal rows
-  const subtotalRowNum = subtotalRow + 1;
-  ["A", "B", "C"].forEach((col) => {
-    if (ws[`${col}${subtotalRowNum}`]) ws[`${col}${subtotalRowNum}`].s = subtotalStyle;
-    if (ws[`${col}${subtotalRowNum + 1}`]) ws[`${col}${subtotalRowNum + 1}`].s = subtotalStyle;
-  });
+  // Subtotal rows (subtotal through sales tax)
+  for (let row = subtotalRow + 1; row <= grandTotalRow; row++) {
+    ["A", "B", "C"].forEach((col) => {
+      if (ws[`${col}${row}`]) ws[`${col}${row}`].s = subtotalStyle;
+    });
+  }
 
   // Grand total row
   const grandTotalRowNum = grandTotalRow + 1;
@@ -200,6 +210,8 @@ export function generateExcelBuffer(options: ExcelExportOptions): Buffer {
 
   // Add worksheet to workbook
   XLSX.utils.book_append_sheet(wb, ws, "Bill of Materials");
+  appendPurchasingSheet(wb, designName, bom.takeoff);
+  appendPanelScheduleSheet(wb, designName, panelSchedule);
 
   // Generate buffer instead of writing to file
   const buffer = XLSX.write(wb, { type: "buffer", bookType: "xlsx" });
@@ -0,0 +1,153 @@
+/**
+ * Pier Foundations
+ *
+ * Containers bear on their corner castings, so piers (or helical piles) go
+ * under each casting of the ground-level shells, with intermediate pairs along
+ * the sides of long shells. Castings of neighbouring shells share a pier.
+ *
+ * Piers bear below the frost line: the design frost depth comes from the
+ * delivery ZIP, by state with ZIP prefixes overriding states that span
+ * several climates, longest prefix first (as with climate zones).
+ */
+
+import type { DesignConfig } from "@/types/design";
+import type { FoundationType, FrostDepth, PierLayout, PierPoint } from "@/types/bom";
+import { getPlacedShells, shellPlanRect } from "./composition";
+import { getZipLocationInfo } from "./zip-distance";
+
+// The shop's frost depth (central Iowa), used until a ZIP is entered
+export const HOME_FROST_DEPTH: FrostDepth = { depthIn: 48, label: "Central Iowa" };
+
+// Design frost depth (in) for each state's main population center
+export const STATE_FROST_DEPTH_IN: Record<string, number> = {
+  AL: 12, AK: 60, AZ: 12, AR: 12, CA: 12, CO: 36, CT: 42, DE: 30, DC: 30, FL: 0,
+  GA: 12, HI: 0, ID: 36, IL: 42, IN: 36, IA: 48, KS: 30, KY: 24, LA: 6, ME: 60,
+  MD: 30, MA: 48, MI: 42, MN: 60, MS: 12, MO: 30, MT: 48, NE: 42, NV: 24, NH: 48,
+  NJ: 36, NM: 18, NY: 48, NC: 18, ND: 72, OH: 36, OK: 18, OR: 18, PA: 36, RI: 36,
+  SC: 12, SD: 48, TN: 18, TX: 12, UT: 30, VT: 60, VA: 24, WA: 18, WV: 30, WI: 48,
+  WY: 48,
+};
+
+export const ZIP_PREFIX_FROST_DEPTH: Record<string, FrostDepth> = {
+  "100": { depthIn: 36, label: "New York City" },
+  "112": { depthIn: 36, label: "New York City" },
+  "556": { depthIn: 72, label: "Duluth, MN" },
+  "770": { depthIn: 6, label: "Houston, TX" },
+  "816": { depthIn: 60, label: "Colorado mountains" },
+  "860": { depthIn: 24, label: "Flagstaff, AZ" },
+  "900": { depthIn: 0, label: "Los Angeles, CA" },
+  "961": { depthIn: 36, label: "Sierra Nevada, CA" },
+  "992": { depthIn: 30, label: "Spokane, WA" },
+  "997": { depthIn: 96, label: "Fairbanks, AK" },
+};
+
+// Pier center from the outside corner: the middle of the casting
+const CASTING_INSET_FT = 0.5;
+// Longest clear span between piers along a shell's side
+const MAX_PIER_SPACING_FT = 20;
+// Castings closer than this sit on one shared pier
+const SHARED_PIER_FT = 2;
+// Concrete piers bear 6" below the frost line, and never shallower than 2 ft
+const CONCRETE_BELOW_FROST_IN = 6;
+const CONCRETE_MIN_DEPTH_FT = 2;
+// Helical piles are driven past the frost line to bearing soil, 7 ft at least
+const HELICAL_BELOW_FROST_IN = 12;
+const HELICAL_MIN_DEPTH_FT = 7;
+
+export function isPierFoundation(foundation: FoundationType): foundation is "piers" | "helical-piles" {
+  return foundation === "piers" || foundation === "helical-piles";
+}
+
+/**
+ * Frost depth for a delivery ZIP, or null when the ZIP can't be placed.
+ */
+export function getFrostDepth(zip: string): FrostDepth | null {
+  if (zip.length < 5) return null;
+
+  const prefix = Object.keys(ZIP_PREFIX_FROST_DEPTH)
+    .filter((match) => zip.startsWith(match))
+    .sort((a, b) => b.length - a.length)[0];
+  if (prefix) return ZIP_PREFIX_FROST_DEPTH[prefix];
+
+  const state = getZipLocationInfo(zip)?.state;
+  if (!state || STATE_FROST_DEPTH_IN[state] === undefined) return null;
+  return { depthIn: STATE_FROST_DEPTH_IN[state], label: state };
+}
+
+/**
+ * Depth below grade (ft) of a pier or pile for the frost depth, rounded up to
+ * the half foot.
+ */
+export function getPierDepthFt(foundation: "piers" | "helical-piles", frostDepthIn: number): number {
+  const depthFt = foundation === "helical-piles"
+    ? Math.max((frostDepthIn + HELICAL_BELOW_FROST_IN) / 12, HELICAL_MIN_DEPTH_FT)
+    : Math.max((frostDepthIn + CONCRETE_BELOW_FROST_IN) / 12, CONCRETE_MIN_DEPTH_FT);
+  return Math.ceil(depthFt * 2) / 2;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Piers under the ground-level shells: one under each corner casting, plus
+ * evenly spaced pairs along the long sides so no span passes
+ * MAX_PIER_SPACING_FT. A 20' shell sits on 4, a 40' on 6.
+ */
+export function layoutPiers(design: DesignConfig): PierPoint[] {
+  const piers: PierPoint[] = [];
+
+  for (const placed of getPlacedShells(design)) {
+    if (placed.level !== 0) continue;
+    const rect = shellPlanRect(placed);
+    const turned = placed.rotationDeg === 90;
+    // Along the shell's length, and across its width, on plan
+    const alongFt = (turned ? rect.height : rect.width) - 2 * CASTING_INSET_FT;
+    const bays = Math.max(1, Math.ceil(alongFt / MAX_PIER_SPACING_FT));
+    const sides = [CASTING_INSET_FT, (turned ? rect.width : rect.height) - CASTING_INSET_FT];
+
+    for (let i = 0; i <= bays; i++) {
+      const along = CASTING_INSET_FT + (alongFt * i) / bays;
+      for (const across of sides) {
+        const point = {
+          xFt: round2(rect.x + (turned ? across : along)),
+          yFt: round2(rect.y + (turned ? along : across)),
+        };
+        const corner = i === 0 || i === bays;
+        const shared = piers.find(
+          (pier) => Math.hypot(pier.xFt - point.xFt, pier.yFt - point.yFt) < SHARED_PIER_FT
+        );
+        if (shared) {
+          // Centered under both castings
+          shared.xFt = round2((shared.xFt + point.xFt) / 2);
+          shared.yFt = round2((shared.yFt + point.yFt) / 2);
+          shared.shellIds.push(placed.id);
+          shared.corner = shared.corner || corner;
+          continue;
+        }
+        piers.push({ id: `pier-${piers.length + 1}`, ...point, shellIds: [placed.id], corner });
+      }
+    }
+  }
+
+  return piers;
+}
+
+/**
+ * Pier layout for a pier or helical-pile foundation at the delivery ZIP (the
+ * shop's frost depth until one is entered), or null for pads and slabs.
+ */
+export function planPierFoundation(
+  design: DesignConfig,
+  foundation: FoundationType,
+  deliveryZip: string
+): PierLayout | null {
+  if (!isPierFoundation(foundation)) return null;
+  const frostDepth = getFrostDepth(deliveryZip) ?? HOME_FROST_DEPTH;
+  return {
+    foundation,
+    piers: layoutPiers(design),
+    depthFt: getPierDepthFt(foundation, frostDepth.depthIn),
+    frostDepth,
+  };
+}
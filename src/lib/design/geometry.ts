@@ -1,21 +1,35 @@
 import type {
+  DoorHingeSide,
+  DoorSwingDirection,
   FixtureConfig,
   ModuleCatalogItem,
+  OrientedRectFt,
   RectFt,
   ShellConfig,
   ZoneConfig,
 } from "@/types/design";
+import { getOpeningKind } from "./openings";
+
+// Smallest rotation step offered by the editor (Shift+R, inspector nudges)
+export const FINE_ROTATION_STEP_DEG = 15;
 
 /**
- * Converts a fixture configuration + catalog item into a rectangle in feet-space.
- * Handles rotation and footprint anchor positioning.
+ * Normalizes an angle in degrees to [0, 360). Missing rotations count as 0.
  */
-export function rectFromFixture(
+export function normalizeRotation(rotationDeg: number | undefined): number {
+  const deg = (rotationDeg ?? 0) % 360;
+  return deg < 0 ? deg + 360 : deg;
+}
+
+/**
+ * Footprint of a fixture before rotation: width along X and length along Y,
+ * with any size overrides applied.
+ */
+function fixtureFootprintFt(
   fixture: FixtureConfig,
   catalogItem: ModuleCatalogItem
-): RectFt {
-  const { footprintFt, footprintAnchor } = catalogItem;
-  const { xFt, yFt, rotationDeg } = fixture;
+): { width: number; length: number } {
+  const { footprintFt } = catalogItem;
   const overrides =
     (fixture.properties as {
       lengthOverrideFt?: number;
@@ -29,11 +43,55 @@ export function rectFromFixture(
     typeof overrides.widthOverrideFt === "number"
       ? Math.max(overrides.widthOverrideFt, 0.5)
       : footprintFt.width;
+  return { width: footprintWidth, length: footprintLength };
+}
 
-  // Handle rotation: swap dimensions if rotated 90/270
-  const isRotated = rotationDeg === 90 || rotationDeg === 270;
-  const width = isRotated ? footprintLength : footprintWidth;
-  const height = isRotated ? footprintWidth : footprintLength;
+// cos/sin of a rotation, exact for quarter turns
+function rotationCosSin(rotationDeg: number): { cos: number; sin: number } {
+  const deg = normalizeRotation(rotationDeg);
+  switch (deg) {
+    case 0:
+      return { cos: 1, sin: 0 };
+    case 90:
+      return { cos: 0, sin: 1 };
+    case 180:
+      return { cos: -1, sin: 0 };
+    case 270:
+      return { cos: 0, sin: -1 };
+  }
+  const rad = (deg * Math.PI) / 180;
+  return { cos: Math.cos(rad), sin: Math.sin(rad) };
+}
+
+/**
+ * Size of the axis-aligned box around a width × height rectangle turned by
+ * rotationDeg.
+ */
+export function rotatedBoundsSize(
+  width: number,
+  height: number,
+  rotationDeg: number
+): { width: number; height: number } {
+  const { cos, sin } = rotationCosSin(rotationDeg);
+  const c = Math.abs(cos);
+  const s = Math.abs(sin);
+  return { width: width * c + height * s, height: width * s + height * c };
+}
+
+/**
+ * Converts a fixture configuration + catalog item into a rectangle in feet-space.
+ * Handles rotation and footprint anchor positioning. For angles that aren't a
+ * quarter turn this is the axis-aligned bounding box of the turned footprint;
+ * use orientedRectFromFixture for the exact shape.
+ */
+export function rectFromFixture(
+  fixture: FixtureConfig,
+  catalogItem: ModuleCatalogItem
+): RectFt {
+  const { footprintAnchor } = catalogItem;
+  const { xFt, yFt, rotationDeg } = fixture;
+  const footprint = fixtureFootprintFt(fixture, catalogItem);
+  const { width, height } = rotatedBoundsSize(footprint.width, footprint.length, rotationDeg);
 
   let x = xFt;
   let y = yFt;
@@ -58,6 +116,45 @@ export function rectFromFixture(
   return { x, y, width, height };
 }
 
+/**
+ * The fixture's footprint as an oriented rectangle: unrotated width/length,
+ * turned about the center of its bounding box. Mirroring doesn't change it.
+ */
+export function orientedRectFromFixture(
+  fixture: FixtureConfig,
+  catalogItem: ModuleCatalogItem
+): OrientedRectFt {
+  const footprint = fixtureFootprintFt(fixture, catalogItem);
+  const center = rectCenter(rectFromFixture(fixture, catalogItem));
+  return {
+    cx: center.x,
+    cy: center.y,
+    width: footprint.width,
+    height: footprint.length,
+    rotationDeg: normalizeRotation(fixture.rotationDeg),
+  };
+}
+
+/**
+ * True when a fixture is the opposite-hand version of its catalog item.
+ * Mirroring both ways is just a half turn, so it keeps the original handing.
+ */
+export const isOppositeHand = (fixture: FixtureConfig) =>
+  !!fixture.mirrorX !== !!fixture.mirrorY;
+
+/**
+ * Exact footprint for collision checks: the plain rectangle for quarter turns
+ * (so existing layouts test exactly as before), the oriented one otherwise.
+ */
+export function bodyRectFromFixture(
+  fixture: FixtureConfig,
+  catalogItem: ModuleCatalogItem
+): RectFt | OrientedRectFt {
+  return normalizeRotation(fixture.rotationDeg) % 90 === 0
+    ? rectFromFixture(fixture, catalogItem)
+    : orientedRectFromFixture(fixture, catalogItem);
+}
+
 /**
  * Rotates clearance values based on the rotation degree.
  * Assumes:
@@ -71,22 +168,27 @@ export function rectFromFixture(
  */
 export function rotateClearance(
   clearance: { front?: number; back?: number; left?: number; right?: number },
-  rotationDeg: 0 | 90 | 180 | 270
+  rotationDeg: number,
+  mirror: { mirrorX?: boolean; mirrorY?: boolean } = {}
 ): { top: number; bottom: number; left: number; right: number } {
+  // Mirroring happens in the fixture's own frame, before it turns
   const c = {
-    front: clearance.front ?? 0,
-    back: clearance.back ?? 0,
-    left: clearance.left ?? 0,
-    right: clearance.right ?? 0,
+    front: (mirror.mirrorY ? clearance.back : clearance.front) ?? 0,
+    back: (mirror.mirrorY ? clearance.front : clearance.back) ?? 0,
+    left: (mirror.mirrorX ? clearance.right : clearance.left) ?? 0,
+    right: (mirror.mirrorX ? clearance.left : clearance.right) ?? 0,
   };
 
+  // Clearance zones stay axis-aligned, so free angles use the nearest quarter turn
+  const quarterTurn = (Math.round(normalizeRotation(rotationDeg) / 90) % 4) * 90;
+
   // Map "Front/Back/Left/Right" (relative to object) to "Top/Bottom/Left/Right" (absolute/screen)
   // Assuming 0 deg = Front faces +Y (Bottom), Back faces -Y (Top), Left faces -X (Left), Right faces +X (Right)
   // Note: This mapping depends on how "Front" is defined in the coordinate system.
   // In rectFromFixture, "front" is positive Y.
   // In standard screen coords, +Y is Down. So "Front" is Down. "Back" is Up.
 
-  switch (rotationDeg) {
+  switch (quarterTurn) {
     case 0:
       // Front -> +Y (Bottom), Back -> -Y (Top), Left -> -X (Left), Right -> +X (Right)
       return { top: c.back, bottom: c.front, left: c.left, right: c.right };
@@ -128,7 +230,7 @@ export function getClearanceRect(
   if (!catalogItem.minClearanceFt) return null;
 
   const rect = rectFromFixture(fixture, catalogItem);
-  const clearance = rotateClearance(catalogItem.minClearanceFt, fixture.rotationDeg);
+  const clearance = rotateClearance(catalogItem.minClearanceFt, fixture.rotationDeg, fixture);
 
   return {
     x: rect.x - clearance.left,
@@ -138,16 +240,110 @@ export function getClearanceRect(
   };
 }
 
+export type ClearanceSide = "front" | "back" | "left" | "right";
+
+/**
+ * Splits a fixture's clearance zone into one strip per fixture-relative side.
+ * Each strip sits flush against the fixture body, so the sides can be checked
+ * (and reported) independently.
+ */
+export function getClearanceStrips(
+  fixture: FixtureConfig,
+  catalogItem: ModuleCatalogItem
+): { side: ClearanceSide; rect: RectFt }[] {
+  if (!catalogItem.minClearanceFt) return [];
+
+  const rect = rectFromFixture(fixture, catalogItem);
+  const strips: { side: ClearanceSide; rect: RectFt }[] = [];
+
+  for (const side of ["front", "back", "left", "right"] as const) {
+    const depth = catalogItem.minClearanceFt[side] ?? 0;
+    if (depth <= 0) continue;
+
+    // Rotate a single-sided clearance to find which screen edge it lands on
+    const c = rotateClearance({ [side]: depth }, fixture.rotationDeg, fixture);
+    if (c.top > 0) {
+      strips.push({ side, rect: { x: rect.x, y: rect.y - c.top, width: rect.width, height: c.top } });
+    } else if (c.bottom > 0) {
+      strips.push({ side, rect: { x: rect.x, y: rect.y + rect.height, width: rect.width, height: c.bottom } });
+    } else if (c.left > 0) {
+      strips.push({ side, rect: { x: rect.x - c.left, y: rect.y, width: c.left, height: rect.height } });
+    } else if (c.right > 0) {
+      strips.push({ side, rect: { x: rect.x + rect.width, y: rect.y, width: c.right, height: rect.height } });
+    }
+  }
+
+  return strips;
+}
+
+const isOrientedRect = (rect: RectFt | OrientedRectFt): rect is OrientedRectFt =>
+  "rotationDeg" in rect;
+
+// Corners of a rectangle in feet-space, in order around the outline
+function rectCorners(rect: RectFt | OrientedRectFt): { x: number; y: number }[] {
+  if (!isOrientedRect(rect)) {
+    return [
+      { x: rect.x, y: rect.y },
+      { x: rect.x + rect.width, y: rect.y },
+      { x: rect.x + rect.width, y: rect.y + rect.height },
+      { x: rect.x, y: rect.y + rect.height },
+    ];
+  }
+  const { cos, sin } = rotationCosSin(rect.rotationDeg);
+  const hw = rect.width / 2;
+  const hh = rect.height / 2;
+  // Screen Y points down, so a clockwise turn maps (dx, dy) to (dx·cos − dy·sin, dx·sin + dy·cos)
+  return [
+    [-hw, -hh],
+    [hw, -hh],
+    [hw, hh],
+    [-hw, hh],
+  ].map(([dx, dy]) => ({
+    x: rect.cx + dx * cos - dy * sin,
+    y: rect.cy + dx * sin + dy * cos,
+  }));
+}
+
 /**
  * Checks if two rectangles overlap, with optional clearance requirement.
+ * Either rectangle may be oriented; those are tested with the separating axis
+ * theorem (a gap of at least `clearance` along any edge normal separates them).
  */
-export function rectsOverlap(a: RectFt, b: RectFt, clearance = 0): boolean {
-  return !(
-    a.x + a.width + clearance <= b.x ||
-    b.x + b.width + clearance <= a.x ||
-    a.y + a.height + clearance <= b.y ||
-    b.y + b.height + clearance <= a.y
-  );
+export function rectsOverlap(
+  a: RectFt | OrientedRectFt,
+  b: RectFt | OrientedRectFt,
+  clearance = 0
+): boolean {
+  if (!isOrientedRect(a) && !isOrientedRect(b)) {
+    return !(
+      a.x + a.width + clearance <= b.x ||
+      b.x + b.width + clearance <= a.x ||
+      a.y + a.height + clearance <= b.y ||
+      b.y + b.height + clearance <= a.y
+    );
+  }
+
+  const cornersA = rectCorners(a);
+  const cornersB = rectCorners(b);
+  for (const corners of [cornersA, cornersB]) {
+    for (let i = 0; i < 2; i++) {
+      const edgeX = corners[i + 1].x - corners[i].x;
+      const edgeY = corners[i + 1].y - corners[i].y;
+      const length = Math.hypot(edgeX, edgeY);
+      if (length === 0) continue;
+      const axis = { x: -edgeY / length, y: edgeX / length };
+      const project = (p: { x: number; y: number }) => p.x * axis.x + p.y * axis.y;
+      const projA = cornersA.map(project);
+      const projB = cornersB.map(project);
+      if (
+        Math.max(...projA) + clearance <= Math.min(...projB) ||
+        Math.max(...projB) + clearance <= Math.min(...projA)
+      ) {
+        return false;
+      }
+    }
+  }
+  return true;
 }
 
 /**
@@ -191,3 +387,122 @@ export function zonesContainingRect(
     );
   });
 }
+
+/**
+ * Returns the center point of a rectangle.
+ */
+export function rectCenter(rect: RectFt): { x: number; y: number } {
+  return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+}
+
+/**
+ * Shortest distance between the edges of two rectangles (0 if they touch or overlap).
+ */
+export function rectDistance(a: RectFt, b: RectFt): number {
+  const dx = Math.max(b.x - (a.x + a.width), a.x - (b.x + b.width), 0);
+  const dy = Math.max(b.y - (a.y + a.height), a.y - (b.y + b.height), 0);
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+/**
+ * A door's swing as a quarter circle in feet-space. The leaf pivots on `hinge`,
+ * lying along `closedDir` when shut and along `openDir` when fully open.
+ */
+export type DoorSwing = {
+  hinge: { x: number; y: number };
+  radiusFt: number;
+  closedDir: { x: number; y: number };
+  openDir: { x: number; y: number };
+};
+
+export const isDoorFixture = (fixture: FixtureConfig) => {
+  const kind = getOpeningKind(fixture);
+  return kind === "interior-door" || kind === "exterior-door";
+};
+
+/**
+ * Builds the swing of a door fixture from its `doorHinge` / `doorSwing` properties.
+ * The leaf spans the long side of the door rectangle; "in" swings toward the
+ * middle of the shell it stands in (`shellRect`, on plan). Defaults to a
+ * left-hinged door swinging in.
+ */
+export function getDoorSwing(
+  fixture: FixtureConfig,
+  catalogItem: ModuleCatalogItem,
+  shellRect: RectFt
+): DoorSwing {
+  const props =
+    (fixture.properties as {
+      doorHinge?: DoorHingeSide;
+      doorSwing?: DoorSwingDirection;
+    }) ?? {};
+  const rect = rectFromFixture(fixture, catalogItem);
+  const center = rectCenter(rect);
+  const alongX = rect.width >= rect.height;
+  const leafFt = alongX ? rect.width : rect.height;
+
+  // Face the swing toward the shell's center (or away from it for "out")
+  const middle = rectCenter(shellRect);
+  let sign = alongX
+    ? (middle.y >= center.y ? 1 : -1)
+    : (middle.x >= center.x ? 1 : -1);
+  // A front/back mirror flips the swing, a left/right mirror flips the hinge
+  const swingsOut = (props.doorSwing === "out") !== !!fixture.mirrorY;
+  if (swingsOut) sign = -sign;
+  const openDir = alongX ? { x: 0, y: sign } : { x: sign, y: 0 };
+
+  // Standing on the swing side facing the door; screen Y points down
+  const facing = { x: -openDir.x, y: -openDir.y };
+  const viewerLeft = { x: facing.y, y: -facing.x };
+  const hingeRight = (props.doorHinge === "right") !== !!fixture.mirrorX;
+  const hingeDir = hingeRight
+    ? { x: -viewerLeft.x, y: -viewerLeft.y }
+    : viewerLeft;
+
+  const faceX = openDir.x > 0 ? rect.x + rect.width : openDir.x < 0 ? rect.x : center.x;
+  const faceY = openDir.y > 0 ? rect.y + rect.height : openDir.y < 0 ? rect.y : center.y;
+
+  return {
+    hinge: {
+      x: faceX + hingeDir.x * (leafFt / 2),
+      y: faceY + hingeDir.y * (leafFt / 2),
+    },
+    radiusFt: leafFt,
+    closedDir: { x: -hingeDir.x, y: -hingeDir.y },
+    openDir,
+  };
+}
+
+/**
+ * Bounding square of a door swing.
+ */
+export function getDoorSwingRect(swing: DoorSwing): RectFt {
+  const { hinge, radiusFt, closedDir, openDir } = swing;
+  const dx = closedDir.x + openDir.x;
+  const dy = closedDir.y + openDir.y;
+  return {
+    x: dx < 0 ? hinge.x - radiusFt : hinge.x,
+    y: dy < 0 ? hinge.y - radiusFt : hinge.y,
+    width: radiusFt,
+    height: radiusFt,
+  };
+}
+
+/**
+ * Checks if a rectangle intersects the area swept by a door.
+ * The swing's quadrant is axis-aligned, so clip the rectangle to the bounding
+ * square and test the closest remaining point against the radius.
+ */
+export function doorSwingOverlapsRect(swing: DoorSwing, rect: RectFt): boolean {
+  const bounds = getDoorSwingRect(swing);
+  const eps = 0.01;
+  const x1 = Math.max(bounds.x, rect.x);
+  const y1 = Math.max(bounds.y, rect.y);
+  const x2 = Math.min(bounds.x + bounds.width, rect.x + rect.width);
+  const y2 = Math.min(bounds.y + bounds.height, rect.y + rect.height);
+  if (x2 - x1 <= eps || y2 - y1 <= eps) return false;
+
+  const nearestX = Math.min(Math.max(swing.hinge.x, x1), x2);
+  const nearestY = Math.min(Math.max(swing.hinge.y, y1), y2);
+  return Math.hypot(nearestX - swing.hinge.x, nearestY - swing.hinge.y) < swing.radiusFt - eps;
+}
@@ -0,0 +1,221 @@
+import type {
+  DesignConfig,
+  FixtureFootprint,
+  FixtureGroupConfig,
+  ModuleCatalogItem,
+  RectFt,
+} from "@/types/design";
+import { footprintRect } from "./clipboard";
+import { normalizeRotation, rectFromFixture } from "./geometry";
+
+export function getGroups(design: DesignConfig): FixtureGroupConfig[] {
+  return design.groups ?? [];
+}
+
+/**
+ * Every fixture in a group, including those in nested groups.
+ */
+export function getGroupFixtureIds(design: DesignConfig, groupId: string): string[] {
+  const groups = getGroups(design);
+  const group = groups.find((g) => g.id === groupId);
+  if (!group) return [];
+  return [
+    ...group.fixtureIds,
+    ...groups
+      .filter((g) => g.parentId === groupId)
+      .flatMap((child) => getGroupFixtureIds(design, child.id)),
+  ];
+}
+
+/**
+ * Outermost group that contains the fixture (directly or through nesting).
+ */
+export function getRootGroupId(design: DesignConfig, fixtureId: string): string | undefined {
+  const groups = getGroups(design);
+  let group = groups.find((g) => g.fixtureIds.includes(fixtureId));
+  while (group?.parentId) {
+    const parentId: string = group.parentId;
+    group = groups.find((g) => g.id === parentId);
+  }
+  return group?.id;
+}
+
+/**
+ * Widens a set of fixture ids so every grouped fixture brings its whole
+ * outermost group along. Order is kept; group members follow their first hit.
+ */
+export function expandToGroups(design: DesignConfig, ids: string[]): string[] {
+  const expanded: string[] = [];
+  for (const id of ids) {
+    const rootId = getRootGroupId(design, id);
+    const members = rootId ? [id, ...getGroupFixtureIds(design, rootId)] : [id];
+    for (const member of members) {
+      if (!expanded.includes(member)) expanded.push(member);
+    }
+  }
+  return expanded;
+}
+
+/**
+ * Groups the given fixtures. Fixtures that already belong to a group bring
+ * their outermost group in as a nested child instead of being pulled out of it.
+ * Returns the design unchanged when fewer than two members would result.
+ */
+export function createGroup(
+  design: DesignConfig,
+  fixtureIds: string[],
+  group: { id: string; name: string }
+): DesignConfig {
+  const groups = getGroups(design);
+  const childGroupIds: string[] = [];
+  const looseFixtureIds: string[] = [];
+  for (const id of fixtureIds) {
+    if (!design.fixtures.some((f) => f.id === id)) continue;
+    const rootId = getRootGroupId(design, id);
+    if (rootId) {
+      if (!childGroupIds.includes(rootId)) childGroupIds.push(rootId);
+    } else if (!looseFixtureIds.includes(id)) {
+      looseFixtureIds.push(id);
+    }
+  }
+  if (childGroupIds.length + looseFixtureIds.length < 2) return design;
+
+  return {
+    ...design,
+    groups: [
+      ...groups.map((g) => (childGroupIds.includes(g.id) ? { ...g, parentId: group.id } : g)),
+      { id: group.id, name: group.name, fixtureIds: looseFixtureIds },
+    ],
+  };
+}
+
+/**
+ * Removes one level of grouping: the group's fixtures and child groups move up
+ * into its parent (or become ungrouped at the top level).
+ */
+export function dissolveGroup(design: DesignConfig, groupId: string): DesignConfig {
+  const groups = getGroups(design);
+  const group = groups.find((g) => g.id === groupId);
+  if (!group) return design;
+
+  return {
+    ...design,
+    groups: groups
+      .filter((g) => g.id !== groupId)
+      .map((g) => {
+        if (g.parentId === groupId) return { ...g, parentId: group.parentId };
+        if (g.id === group.parentId) return { ...g, fixtureIds: [...g.fixtureIds, ...group.fixtureIds] };
+        return g;
+      }),
+  };
+}
+
+/**
+ * Drops deleted fixtures from their groups, then removes groups left with
+ * fewer than two members (a lone survivor moves up into the parent group).
+ */
+export function pruneGroups(design: DesignConfig): DesignConfig {
+  if (!design.groups) return design;
+  const fixtureIds = new Set(design.fixtures.map((f) => f.id));
+  let next: DesignConfig = {
+    ...design,
+    groups: design.groups.map((g) => ({
+      ...g,
+      fixtureIds: g.fixtureIds.filter((id) => fixtureIds.has(id)),
+    })),
+  };
+
+  for (;;) {
+    const groups = getGroups(next);
+    const degenerate = groups.find(
+      (g) => g.fixtureIds.length + groups.filter((c) => c.parentId === g.id).length < 2
+    );
+    if (!degenerate) break;
+    next = dissolveGroup(next, degenerate.id);
+  }
+  return next;
+}
+
+/**
+ * Bounding box of every fixture in the fixture's outermost group, or undefined
+ * when the fixture isn't grouped.
+ */
+export function getGroupBounds(
+  design: DesignConfig,
+  catalog: Record<string, ModuleCatalogItem>,
+  fixtureId: string
+): RectFt | undefined {
+  const rootId = getRootGroupId(design, fixtureId);
+  if (!rootId) return undefined;
+  const ids = getGroupFixtureIds(design, rootId);
+  const rects = design.fixtures.flatMap((f) => {
+    const cat = catalog[f.catalogKey];
+    return ids.includes(f.id) && cat ? [rectFromFixture(f, cat)] : [];
+  });
+  if (rects.length === 0) return undefined;
+  const minX = Math.min(...rects.map((r) => r.x));
+  const minY = Math.min(...rects.map((r) => r.y));
+  const maxX = Math.max(...rects.map((r) => r.x + r.width));
+  const maxY = Math.max(...rects.map((r) => r.y + r.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Rotates a group 90° clockwise (on screen) about the center of its bounding
+ * box. Each fixture turns in place and orbits the pivot; the result is shifted
+ * back inside the shell if the turn pushed it out. Locked fixtures stay put, and
+ * nothing moves when the turned group is too big for the shell.
+ */
+export function rotateGroup(
+  design: DesignConfig,
+  groupId: string,
+  footprints: Record<string, FixtureFootprint>
+): Record<string, { xFt: number; yFt: number; rotationDeg: number }> {
+  const ids = getGroupFixtureIds(design, groupId);
+  const members = design.fixtures.filter(
+    (f) => ids.includes(f.id) && !f.locked && footprints[f.id]
+  );
+  if (members.length === 0) return {};
+
+  const rects = members.map((f) => footprintRect(f.xFt, f.yFt, footprints[f.id]));
+  const pivotX = (Math.min(...rects.map((r) => r.x)) + Math.max(...rects.map((r) => r.x + r.width))) / 2;
+  const pivotY = (Math.min(...rects.map((r) => r.y)) + Math.max(...rects.map((r) => r.y + r.height))) / 2;
+
+  // Screen Y points down, so clockwise takes (dx, dy) to (-dy, dx)
+  const turned = members.map((fixture, i) => {
+    const rect = rects[i];
+    const centerX = pivotX - (rect.y + rect.height / 2 - pivotY);
+    const centerY = pivotY + (rect.x + rect.width / 2 - pivotX);
+    return {
+      fixture,
+      rect: {
+        x: centerX - rect.height / 2,
+        y: centerY - rect.width / 2,
+        width: rect.height,
+        height: rect.width,
+      },
+    };
+  });
+
+  const minX = Math.min(...turned.map((t) => t.rect.x));
+  const minY = Math.min(...turned.map((t) => t.rect.y));
+  const maxX = Math.max(...turned.map((t) => t.rect.x + t.rect.width));
+  const maxY = Math.max(...turned.map((t) => t.rect.y + t.rect.height));
+  // A group that can't fit the shell once turned is left as it is
+  if (maxX - minX > design.shell.lengthFt || maxY - minY > design.shell.widthFt) return {};
+  const shiftX = minX < 0 ? -minX : Math.min(0, design.shell.lengthFt - maxX);
+  const shiftY = minY < 0 ? -minY : Math.min(0, design.shell.widthFt - maxY);
+
+  const positions: Record<string, { xFt: number; yFt: number; rotationDeg: number }> = {};
+  for (const { fixture, rect } of turned) {
+    const isCenter = footprints[fixture.id].footprintAnchor === "center";
+    const x = rect.x + shiftX;
+    const y = rect.y + shiftY;
+    positions[fixture.id] = {
+      xFt: isCenter ? x + rect.width / 2 : x,
+      yFt: isCenter ? y + rect.height / 2 : y,
+      rotationDeg: normalizeRotation((fixture.rotationDeg || 0) + 90),
+    };
+  }
+  return positions;
+}
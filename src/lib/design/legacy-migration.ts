@@ -6,25 +6,18 @@ import type {
   ZoneConfig,
 } from "@/types/design";
 
+// First versioned DesignConfig shape: quarter-turn rotations only, no mirroring
+export type DesignConfigV1 = Omit<DesignConfig, "version"> & { version: 1 };
+
 /**
- * Converts legacy PlacedModule[] format to new DesignConfig format.
- * This handles backward compatibility when loading old designs.
+ * Converts legacy PlacedModule[] format (before configs carried a version) to
+ * a v1 DesignConfig. Versioned configs go through migrateDesign instead, which
+ * calls this as its first step.
  */
 export function migrateLegacyDesign(
   legacyConfig: unknown,
   shellLengthFt: number
-): DesignConfig {
-  // Check if it's already a DesignConfig
-  if (
-    legacyConfig &&
-    typeof legacyConfig === "object" &&
-    "version" in legacyConfig &&
-    "shell" in legacyConfig &&
-    "fixtures" in legacyConfig
-  ) {
-    return legacyConfig as DesignConfig;
-  }
-
+): DesignConfigV1 {
   // Check if it's the old format with modules array
   if (
     legacyConfig &&
@@ -0,0 +1,130 @@
+import type { DesignConfig } from "@/types/design";
+import { designConfigSchema } from "./design-schema";
+import { normalizeRotation } from "./geometry";
+import { migrateLegacyDesign } from "./legacy-migration";
+
+export const CURRENT_DESIGN_VERSION: DesignConfig["version"] = 2;
+
+// Configs mid-migration are plain JSON; only the final result is validated
+type RawDesignConfig = Record<string, unknown> & { version: number };
+
+type DesignMigration = {
+  // Version this step reads; it produces `from + 1`
+  from: number;
+  description: string;
+  migrate: (config: RawDesignConfig) => RawDesignConfig;
+};
+
+const MIGRATIONS: DesignMigration[] = [
+  {
+    from: 1,
+    description: "Free-angle rotation: normalize rotationDeg, drop group members that no longer exist",
+    migrate: (config) => {
+      const fixtures = Array.isArray(config.fixtures)
+        ? config.fixtures.map((fixture: Record<string, unknown>) => ({
+            ...fixture,
+            rotationDeg: normalizeRotation(
+              typeof fixture.rotationDeg === "number" ? fixture.rotationDeg : 0
+            ),
+          }))
+        : config.fixtures;
+      const fixtureIds = new Set(
+        Array.isArray(fixtures) ? fixtures.map((fixture) => fixture.id) : []
+      );
+      const groups = Array.isArray(config.groups)
+        ? config.groups.map((group: Record<string, unknown>) => ({
+            ...group,
+            fixtureIds: Array.isArray(group.fixtureIds)
+              ? group.fixtureIds.filter((id) => fixtureIds.has(id))
+              : group.fixtureIds,
+          }))
+        : config.groups;
+      return { ...config, version: 2, fixtures, groups };
+    },
+  },
+];
+
+export type DesignMigrationResult =
+  | {
+      ok: true;
+      design: DesignConfig;
+      // 0 for the legacy module list that predates versioning
+      fromVersion: number;
+      migrated: boolean;
+    }
+  | {
+      ok: false;
+      fromVersion: number | null;
+      error: string;
+      issues: string[];
+    };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Brings a stored or submitted config up to CURRENT_DESIGN_VERSION, one step at
+ * a time, then validates the result. Legacy module lists (no version) are
+ * converted to v1 first. Never throws; failures come back with the zod issues.
+ */
+export function migrateDesign(raw: unknown, shellLengthFt = 40): DesignMigrationResult {
+  if (!isRecord(raw)) {
+    return { ok: false, fromVersion: null, error: "Design config must be an object", issues: [] };
+  }
+
+  let config: RawDesignConfig;
+  let fromVersion: number;
+  if ("version" in raw) {
+    if (typeof raw.version !== "number" || !Number.isInteger(raw.version) || raw.version < 1) {
+      return { ok: false, fromVersion: null, error: "Design config has an invalid version", issues: [] };
+    }
+    config = raw as RawDesignConfig;
+    fromVersion = raw.version;
+  } else if (Array.isArray(raw.modules)) {
+    config = migrateLegacyDesign(raw, shellLengthFt);
+    fromVersion = 0;
+  } else {
+    return { ok: false, fromVersion: null, error: "Design config has no version", issues: [] };
+  }
+
+  if (fromVersion > CURRENT_DESIGN_VERSION) {
+    return {
+      ok: false,
+      fromVersion,
+      error: `Design version ${fromVersion} is newer than supported (${CURRENT_DESIGN_VERSION})`,
+      issues: [],
+    };
+  }
+
+  while (config.version < CURRENT_DESIGN_VERSION) {
+    const step = MIGRATIONS.find((migration) => migration.from === config.version);
+    if (!step) {
+      return {
+        ok: false,
+        fromVersion,
+        error: `No migration from design version ${config.version}`,
+        issues: [],
+      };
+    }
+    config = step.migrate(config);
+  }
+
+  const parsed = designConfigSchema.safeParse(config);
+  if (!parsed.success) {
+    return {
+      ok: false,
+      fromVersion,
+      error: "Design config failed validation",
+      issues: parsed.error.issues.map((issue) =>
+        issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+      ),
+    };
+  }
+
+  return {
+    ok: true,
+    design: parsed.data,
+    fromVersion,
+    migrated: fromVersion !== CURRENT_DESIGN_VERSION,
+  };
+}
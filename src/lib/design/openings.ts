@@ -0,0 +1,87 @@
+import type { DesignConfig, FixtureConfig, ModuleCatalogItem, OpeningSpec } from "@/types/design";
+
+// Used for catalog entries saved before openings carried their size (ft)
+const DEFAULT_WINDOW_OPENING = { heightFt: 3, sillFt: 3.5 };
+const DEFAULT_DOOR_OPENING = { heightFt: 80 / 12, sillFt: 0 };
+
+export type OpeningKind = "window" | "exterior-door" | "interior-door";
+
+export const OPENING_KIND_LABELS: Record<OpeningKind, string> = {
+  window: "Window",
+  "exterior-door": "Exterior Door",
+  "interior-door": "Interior Door",
+};
+
+/**
+ * One line of the door & window schedule: every fixture of a catalog item,
+ * tagged with a mark (D1, W1, ...) for the drawings.
+ */
+export type OpeningScheduleRow = {
+  mark: string;
+  kind: OpeningKind;
+  catalogKey: string;
+  label: string;
+  count: number;
+  spec: OpeningSpec;
+};
+
+export function getOpeningKind(fixture: Pick<FixtureConfig, "catalogKey">): OpeningKind | null {
+  const key = fixture.catalogKey.toLowerCase();
+  if (key.includes("window")) return "window";
+  if (key.includes("door")) return key.includes("interior") ? "interior-door" : "exterior-door";
+  return null;
+}
+
+/**
+ * Windows and doors that go through the steel skin (interior doors don't).
+ */
+export function isWallOpening(fixture: FixtureConfig): boolean {
+  const kind = getOpeningKind(fixture);
+  return kind === "window" || kind === "exterior-door";
+}
+
+/**
+ * Rough opening for a window or door. Comes from the catalog entry; entries
+ * without one fall back to the footprint length and a standard height.
+ */
+export function getOpeningSpec(catalogItem: ModuleCatalogItem): OpeningSpec {
+  if (catalogItem.opening) return catalogItem.opening;
+  const defaults = catalogItem.key.toLowerCase().includes("door") ? DEFAULT_DOOR_OPENING : DEFAULT_WINDOW_OPENING;
+  return { widthFt: catalogItem.footprintFt.length, ...defaults };
+}
+
+/**
+ * Door & window schedule for a design, doors first. Marks are numbered per
+ * type in order of first appearance.
+ */
+export function getOpeningSchedule(
+  design: DesignConfig,
+  catalog: Record<string, ModuleCatalogItem>
+): OpeningScheduleRow[] {
+  const rows: Omit<OpeningScheduleRow, "mark">[] = [];
+  for (const fixture of design.fixtures) {
+    const catalogItem = catalog[fixture.catalogKey];
+    const kind = getOpeningKind(fixture);
+    if (!catalogItem || !kind) continue;
+    const existing = rows.find((r) => r.catalogKey === fixture.catalogKey);
+    if (existing) {
+      existing.count++;
+    } else {
+      rows.push({ kind, catalogKey: fixture.catalogKey, label: catalogItem.label, count: 1, spec: getOpeningSpec(catalogItem) });
+    }
+  }
+
+  const doors = rows.filter((r) => r.kind !== "window");
+  const windows = rows.filter((r) => r.kind === "window");
+  return [
+    ...doors.map((r, i) => ({ ...r, mark: `D${i + 1}` })),
+    ...windows.map((r, i) => ({ ...r, mark: `W${i + 1}` })),
+  ];
+}
+
+/**
+ * Feet to whole inches for schedules, e.g. 3.5 -> 42"
+ */
+export function formatInches(ft: number): string {
+  return `${Math.round(ft * 12)}"`;
+}
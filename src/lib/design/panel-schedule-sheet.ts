@@ -0,0 +1,117 @@
+/**
+ * Panel schedule worksheet for the Excel exports
+ * One breaker per row in slot order, then the receptacle list
+ */
+
+import XLSX from "xlsx-js-style";
+import type { WorkBook } from "xlsx-js-style";
+import type { PanelSchedule } from "./panel-schedule";
+import { CIRCUIT_PROTECTION_LABELS, formatCircuitSlots } from "./panel-schedule";
+
+/**
+ * Add a "Panel Schedule" sheet to the workbook: slot, circuit, breaker, wire,
+ * load and protection for every circuit, and where each receptacle goes.
+ */
+export function appendPanelScheduleSheet(wb: WorkBook, designName: string, schedule: PanelSchedule): void {
+  const titleStyle = {
+    font: { bold: true, sz: 16, color: { rgb: "FFFFFF" } },
+    fill: { fgColor: { rgb: "2D5016" } }, // Forest green
+    alignment: { horizontal: "center", vertical: "center" },
+  };
+  const headerStyle = {
+    font: { bold: true, sz: 11, color: { rgb: "FFFFFF" } },
+    fill: { fgColor: { rgb: "4A7C23" } }, // Lighter green
+    alignment: { horizontal: "left" },
+    border: {
+      bottom: { style: "medium", color: { rgb: "2D5016" } },
+    },
+  };
+  const summaryStyle = {
+    font: { italic: true, sz: 10, color: { rgb: "666666" } },
+  };
+  const dataStyle = {
+    font: { sz: 10 },
+    alignment: { horizontal: "left", vertical: "center" },
+    border: {
+      bottom: { style: "thin", color: { rgb: "E0E0E0" } },
+    },
+  };
+  const numberStyle = {
+    ...dataStyle,
+    alignment: { horizontal: "right", vertical: "center" },
+  };
+
+  const columns = ["Slot", "Circuit", "Volts", "Breaker (A)", "Wire (AWG)", "Load (W)", "Protection", "Outlets"];
+  const data: (string | number)[][] = [];
+  data.push([`Panel Schedule - ${designName}`]);
+  data.push([
+    `${schedule.mainBreakerAmps}A main, ${schedule.spacesUsed} spaces, ${schedule.circuits.length} circuits, ${schedule.totalWatts}W connected`,
+  ]);
+  data.push([]);
+
+  const circuitHeaderRow = data.length;
+  data.push(columns);
+  const circuitRows: number[] = [];
+  for (const circuit of schedule.circuits) {
+    circuitRows.push(data.length);
+    data.push([
+      formatCircuitSlots(circuit),
+      circuit.label,
+      circuit.volts,
+      circuit.breakerAmps,
+      circuit.wireAwg,
+      circuit.loadWatts,
+      CIRCUIT_PROTECTION_LABELS[circuit.protection],
+      circuit.fixtureIds.length + circuit.receptacleIds.length,
+    ]);
+  }
+
+  data.push([]);
+  const receptacleColumns = ["Receptacle", "Type", "X (ft)", "Y (ft)", "Level", "Circuit"];
+  const receptacleHeaderRow = data.length;
+  data.push(receptacleColumns);
+  const receptacleRows: number[] = [];
+  for (const receptacle of schedule.receptacles) {
+    receptacleRows.push(data.length);
+    data.push([receptacle.id, receptacle.kind, receptacle.xFt, receptacle.yFt, receptacle.level, receptacle.circuit]);
+  }
+
+  const ws = XLSX.utils.aoa_to_sheet(data);
+  const cell = (col: number, row: number) => ws[XLSX.utils.encode_cell({ c: col, r: row })];
+
+  if (ws["A1"]) ws["A1"].s = titleStyle;
+  if (ws["A2"]) ws["A2"].s = summaryStyle;
+  columns.forEach((_, col) => {
+    if (cell(col, circuitHeaderRow)) cell(col, circuitHeaderRow).s = headerStyle;
+  });
+  for (const row of circuitRows) {
+    columns.forEach((_, col) => {
+      if (!cell(col, row)) return;
+      cell(col, row).s = col >= 2 && col <= 5 ? numberStyle : dataStyle;
+    });
+  }
+  receptacleColumns.forEach((_, col) => {
+    if (cell(col, receptacleHeaderRow)) cell(col, receptacleHeaderRow).s = headerStyle;
+  });
+  for (const row of receptacleRows) {
+    receptacleColumns.forEach((_, col) => {
+      if (!cell(col, row)) return;
+      cell(col, row).s = col >= 2 ? numberStyle : dataStyle;
+    });
+  }
+
+  ws["!cols"] = [
+    { wch: 12 }, // Slot / Receptacle
+    { wch: 40 }, // Circuit / Type
+    { wch: 8 },  // Volts / X
+    { wch: 12 }, // Breaker / Y
+    { wch: 12 }, // Wire / Level
+    { wch: 10 }, // Load / Circuit
+    { wch: 14 }, // Protection
+    { wch: 9 },  // Outlets
+  ];
+  ws["!rows"] = [{ hpt: 28 }];
+  ws["!merges"] = [0, 1].map((row) => ({ s: { r: row, c: 0 }, e: { r: row, c: columns.length - 1 } }));
+
+  XLSX.utils.book_append_sheet(wb, ws, "Panel Schedule");
+}
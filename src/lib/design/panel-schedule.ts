@@ -0,0 +1,448 @@
+/**
+ * Electrical Panel Schedule
+ *
+ * Turns the powered fixtures into branch circuits for the electrician:
+ * - Big or motor loads get a dedicated circuit; over 1920W they go 240V
+ * - Everything else shares 20A circuits per room, with receptacles placed at
+ *   code spacing (12' along walls, 4' along kitchen counters, one at each
+ *   bathroom vanity)
+ * - Breakers are sized at 125% of the load, wire gauge follows the breaker
+ * - GFCI and AFCI protection follows the room type from zone-utils
+ *
+ * Slots are numbered as on a panel: odd on the left, even on the right, with
+ * a 2-pole breaker taking two slots on one side (1/3).
+ */
+
+import type { DesignConfig, FixtureConfig, ModuleCatalogItem, ZoneConfig } from "@/types/design";
+import type { HvacEquipment } from "@/types/bom";
+import { BASE_LIGHTING_WATTS } from "@/types/bom";
+import { getFixtureWattage } from "./bom-calculator";
+import { getFixtureLevel, getPlacedShells, shellPlanRect } from "./composition";
+import { rectCenter, rectFromFixture, zonesContainingRect } from "./geometry";
+import { getZoneType, type ZoneType } from "./zone-utils";
+
+export type CircuitProtection = "gfci" | "afci" | "dual" | "none";
+
+export const CIRCUIT_PROTECTION_LABELS: Record<CircuitProtection, string> = {
+  gfci: "GFCI",
+  afci: "AFCI",
+  dual: "AFCI + GFCI",
+  none: "Standard",
+};
+
+export type ReceptacleKind = "wall" | "counter" | "vanity" | "hall";
+
+export type ReceptaclePoint = {
+  id: string;
+  kind: ReceptacleKind;
+  xFt: number;
+  yFt: number;
+  level: number;
+  zoneId: string | null;
+  // First slot of the circuit it's wired to
+  circuit: number;
+};
+
+export type PanelCircuit = {
+  // Panel slots, one per pole
+  slots: number[];
+  label: string;
+  zoneId: string | null;
+  zoneType: ZoneType | null;
+  dedicated: boolean;
+  volts: 120 | 240;
+  breakerAmps: number;
+  wireAwg: number;
+  loadWatts: number;
+  protection: CircuitProtection;
+  fixtureIds: string[];
+  receptacleIds: string[];
+};
+
+export type PanelSchedule = {
+  circuits: PanelCircuit[];
+  receptacles: ReceptaclePoint[];
+  mainBreakerAmps: number;
+  totalWatts: number;
+  spacesUsed: number;
+};
+
+const BREAKER_SIZES = [15, 20, 30, 40, 50, 60];
+const MAIN_BREAKER_SIZES = [100, 125, 150, 200];
+// Copper NM/THHN at 60°C; 50 and 60A share 6 AWG
+const WIRE_AWG_BY_BREAKER: Record<number, number> = { 15: 14, 20: 12, 30: 10, 40: 8, 50: 6, 60: 6 };
+// Continuous loads run breakers at no more than 80%
+const BREAKER_LOAD_FACTOR = 1.25;
+// A shared 20A circuit: 80% of 2400W, and no more than 10 outlets
+const SHARED_CIRCUIT_WATTS = 1920;
+const SHARED_CIRCUIT_MAX_POINTS = 10;
+// Load counted per general-purpose receptacle (NEC 220.14)
+const RECEPTACLE_VA = 180;
+// No point along a wall more than 6' from a receptacle, or 2' along a counter
+const WALL_RECEPTACLE_SPACING_FT = 12;
+const COUNTER_RECEPTACLE_SPACING_FT = 4;
+// Hallways this long need a receptacle
+const HALL_RECEPTACLE_MIN_FT = 10;
+// Kitchens need at least two small-appliance circuits
+const MIN_COUNTER_CIRCUITS = 2;
+// Drawn just inside the wall
+const RECEPTACLE_INSET_FT = 0.25;
+
+// Loads that want their own circuit whatever their size
+const DEDICATED_KEYS = ["fixture-fridge-24", "fixture-washer"];
+// Appliances wired 240V, and the breakers their nameplates call for
+const TWO_POLE_KEYS = ["fixture-range-30", "fixture-dryer", "fixture-water-heater", "fixture-mini-split"];
+const MIN_BREAKER_AMPS: Record<string, number> = {
+  "fixture-range-30": 40,
+  "fixture-dryer": 30,
+};
+const DEDICATED_MIN_WATTS = 1000;
+
+function isCounterKey(catalogKey: string): boolean {
+  return catalogKey.includes("cabinet-run") || catalogKey.includes("sink-base");
+}
+
+function isLaundryKey(catalogKey: string): boolean {
+  return (catalogKey.includes("washer") && !catalogKey.includes("dishwasher")) || catalogKey.includes("dryer");
+}
+
+function sizeBreaker(watts: number, volts: 120 | 240, minAmps = 0): number {
+  const amps = Math.max((watts / volts) * BREAKER_LOAD_FACTOR, minAmps);
+  return BREAKER_SIZES.find((size) => size >= amps) ?? BREAKER_SIZES[BREAKER_SIZES.length - 1];
+}
+
+function getProtection(zoneType: ZoneType | null, volts: 120 | 240, needsGfci: boolean): CircuitProtection {
+  const gfci = needsGfci || zoneType === "bathroom" || zoneType === "bath-hallway";
+  // AFCI covers 120V branch circuits in every living space but the bathroom
+  const afci = volts === 120 && zoneType !== "bathroom" && zoneType !== "bath-hallway";
+  if (gfci && afci) return "dual";
+  if (gfci) return "gfci";
+  if (afci) return "afci";
+  return "none";
+}
+
+// The room a fixture sits in: its assigned zone, or the zone under it
+function getFixtureZone(
+  design: DesignConfig,
+  fixture: FixtureConfig,
+  catalogItem: ModuleCatalogItem
+): ZoneConfig | null {
+  if (getFixtureLevel(fixture) !== 0) return null;
+  const assigned = fixture.zone ? design.zones.find((zone) => zone.id === fixture.zone) : undefined;
+  return assigned ?? zonesContainingRect(design.zones, rectFromFixture(fixture, catalogItem))[0] ?? null;
+}
+
+// Evenly spaced points around a rectangle's walls, no more than `spacing` apart
+function pointsAroundRect(
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  spacing: number
+): { xFt: number; yFt: number }[] {
+  const perimeter = 2 * (width + height);
+  const count = Math.max(1, Math.ceil(perimeter / spacing));
+  const step = perimeter / count;
+  const points: { xFt: number; yFt: number }[] = [];
+  for (let i = 0; i < count; i++) {
+    let s = (i + 0.5) * step;
+    if (s < width) {
+      points.push({ xFt: x + s, yFt: y + RECEPTACLE_INSET_FT });
+      continue;
+    }
+    s -= width;
+    if (s < height) {
+      points.push({ xFt: x + width - RECEPTACLE_INSET_FT, yFt: y + s });
+      continue;
+    }
+    s -= height;
+    if (s < width) {
+      points.push({ xFt: x + width - s, yFt: y + height - RECEPTACLE_INSET_FT });
+      continue;
+    }
+    s -= width;
+    points.push({ xFt: x + RECEPTACLE_INSET_FT, yFt: y + height - s });
+  }
+  return points;
+}
+
+type Area = {
+  zoneId: string | null;
+  zoneType: ZoneType | null;
+  label: string;
+};
+
+/**
+ * Receptacles for the design, by room: walls every 12' (bedrooms, living
+ * areas and shells without zones), counters every 4', one per bathroom vanity
+ * and one in long hallways.
+ */
+export function placeReceptacles(
+  design: DesignConfig,
+  catalog: Record<string, ModuleCatalogItem>
+): Omit<ReceptaclePoint, "circuit">[] {
+  const points: Omit<ReceptaclePoint, "circuit">[] = [];
+  const add = (kind: ReceptacleKind, at: { xFt: number; yFt: number }, level: number, zoneId: string | null) => {
+    points.push({
+      id: `rcpt-${points.length + 1}`,
+      kind,
+      xFt: Math.round(at.xFt * 100) / 100,
+      yFt: Math.round(at.yFt * 100) / 100,
+      level,
+      zoneId,
+    });
+  };
+
+  const fixturesIn = (zone: ZoneConfig) =>
+    design.fixtures.filter((fixture) => {
+      const catalogItem = catalog[fixture.catalogKey];
+      return catalogItem && getFixtureZone(design, fixture, catalogItem)?.id === zone.id;
+    });
+
+  for (const zone of design.zones) {
+    const zoneType = getZoneType(zone.id);
+    if (zoneType === "bathroom" || zoneType === "bath-hallway") {
+      const vanities = fixturesIn(zone).filter((fixture) => fixture.catalogKey.includes("vanity"));
+      for (const vanity of vanities) {
+        const center = rectCenter(rectFromFixture(vanity, catalog[vanity.catalogKey]));
+        add("vanity", { xFt: center.x, yFt: center.y }, 0, zone.id);
+      }
+      if (vanities.length === 0) {
+        add("vanity", { xFt: zone.xFt + zone.lengthFt / 2, yFt: zone.yFt + RECEPTACLE_INSET_FT }, 0, zone.id);
+      }
+      continue;
+    }
+    if (zoneType === "hallway") {
+      if (Math.max(zone.lengthFt, zone.widthFt) >= HALL_RECEPTACLE_MIN_FT) {
+        add("hall", { xFt: zone.xFt + zone.lengthFt / 2, yFt: zone.yFt + RECEPTACLE_INSET_FT }, 0, zone.id);
+      }
+      continue;
+    }
+
+    for (const at of pointsAroundRect(zone.xFt, zone.yFt, zone.lengthFt, zone.widthFt, WALL_RECEPTACLE_SPACING_FT)) {
+      add("wall", at, 0, zone.id);
+    }
+    if (zoneType === "kitchen-living") {
+      for (const counter of fixturesIn(zone).filter((fixture) => isCounterKey(fixture.catalogKey))) {
+        const rect = rectFromFixture(counter, catalog[counter.catalogKey]);
+        const alongX = rect.width >= rect.height;
+        const runFt = alongX ? rect.width : rect.height;
+        const count = Math.max(1, Math.ceil(runFt / COUNTER_RECEPTACLE_SPACING_FT));
+        for (let i = 0; i < count; i++) {
+          const offset = ((i + 0.5) * runFt) / count;
+          const center = rectCenter(rect);
+          add(
+            "counter",
+            alongX ? { xFt: rect.x + offset, yFt: center.y } : { xFt: center.x, yFt: rect.y + offset },
+            0,
+            zone.id
+          );
+        }
+      }
+    }
+  }
+
+  // Added shells aren't zoned; treat each as one room
+  for (const placed of getPlacedShells(design).slice(1)) {
+    const rect = shellPlanRect(placed);
+    for (const at of pointsAroundRect(rect.x, rect.y, rect.width, rect.height, WALL_RECEPTACLE_SPACING_FT)) {
+      add("wall", at, placed.level, placed.id);
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Panel schedule for a design: every powered fixture and receptacle on a
+ * circuit, plus the heating and cooling equipment from the thermal loads.
+ */
+export function getPanelSchedule(
+  design: DesignConfig,
+  catalog: Record<string, ModuleCatalogItem>,
+  hvacEquipment: HvacEquipment[] = []
+): PanelSchedule {
+  const circuits: Omit<PanelCircuit, "slots">[] = [];
+  const addDedicated = (
+    label: string,
+    watts: number,
+    volts: 120 | 240,
+    area: Area,
+    options: { minAmps?: number; needsGfci?: boolean; fixtureIds?: string[] } = {}
+  ) => {
+    const breakerAmps = sizeBreaker(watts, volts, options.minAmps);
+    circuits.push({
+      label,
+      zoneId: area.zoneId,
+      zoneType: area.zoneType,
+      dedicated: true,
+      volts,
+      breakerAmps,
+      wireAwg: WIRE_AWG_BY_BREAKER[breakerAmps],
+      loadWatts: watts,
+      protection: getProtection(area.zoneType, volts, options.needsGfci ?? false),
+      fixtureIds: options.fixtureIds ?? [],
+      receptacleIds: [],
+    });
+  };
+
+  const areas = new Map<string, Area>();
+  const areaFor = (zone: ZoneConfig | null): Area => {
+    if (!zone) return { zoneId: null, zoneType: null, label: "General" };
+    const area = areas.get(zone.id) ?? { zoneId: zone.id, zoneType: getZoneType(zone.id), label: zone.name };
+    areas.set(zone.id, area);
+    return area;
+  };
+  for (const placed of getPlacedShells(design).slice(1)) {
+    areas.set(placed.id, { zoneId: placed.id, zoneType: null, label: `${placed.shell.lengthFt}' shell (level ${placed.level})` });
+  }
+
+  // Shared loads collected per room before they're packed into circuits
+  const sharedLoads = new Map<string, { fixtureId?: string; receptacleId?: string; watts: number }[]>();
+  const addShared = (area: Area, load: { fixtureId?: string; receptacleId?: string; watts: number }) => {
+    const key = area.zoneId ?? "";
+    sharedLoads.set(key, [...(sharedLoads.get(key) ?? []), load]);
+    if (!area.zoneId) areas.set("", area);
+  };
+
+  for (const fixture of design.fixtures) {
+    const catalogItem = catalog[fixture.catalogKey];
+    if (!catalogItem?.requiresUtilities?.includes("power")) continue;
+    const watts = getFixtureWattage(fixture.catalogKey);
+    const area = areaFor(getFixtureZone(design, fixture, catalogItem));
+    const twoPole = TWO_POLE_KEYS.includes(fixture.catalogKey) || watts > SHARED_CIRCUIT_WATTS;
+
+    if (twoPole || watts >= DEDICATED_MIN_WATTS || DEDICATED_KEYS.includes(fixture.catalogKey)) {
+      addDedicated(fixture.name ?? catalogItem.label, watts, twoPole ? 240 : 120, area, {
+        minAmps: MIN_BREAKER_AMPS[fixture.catalogKey],
+        needsGfci: fixture.catalogKey.includes("dishwasher") || isLaundryKey(fixture.catalogKey),
+        fixtureIds: [fixture.id],
+      });
+    } else {
+      addShared(area, { fixtureId: fixture.id, watts });
+    }
+  }
+
+  // Heating and cooling: a circuit per unit, heaters split to stay within a 60A breaker
+  const maxTwoPoleWatts = (BREAKER_SIZES[BREAKER_SIZES.length - 1] * 240) / BREAKER_LOAD_FACTOR;
+  for (const equipment of hvacEquipment) {
+    const wattsEach = equipment.watts / equipment.quantity;
+    const runs = equipment.quantity * Math.ceil(wattsEach / maxTwoPoleWatts);
+    for (let i = 0; i < runs; i++) {
+      const label = runs > 1 ? `${equipment.label} (${i + 1} of ${runs})` : equipment.label;
+      addDedicated(label, Math.round(equipment.watts / runs), 240, { zoneId: null, zoneType: null, label: "HVAC" });
+    }
+  }
+
+  addDedicated("General lighting", BASE_LIGHTING_WATTS, 120, { zoneId: null, zoneType: null, label: "Lighting" });
+
+  const placed = placeReceptacles(design, catalog);
+  const counterCircuits = new Map<string, Omit<PanelCircuit, "slots">[]>();
+  for (const point of placed) {
+    const area =
+      (point.zoneId && areas.get(point.zoneId)) || areaFor(design.zones.find((z) => z.id === point.zoneId) ?? null);
+    if (point.kind !== "counter") {
+      addShared(area, { receptacleId: point.id, watts: RECEPTACLE_VA });
+      continue;
+    }
+    // Counter receptacles alternate across the small-appliance circuits
+    const key = area.zoneId ?? "";
+    if (!counterCircuits.has(key)) {
+      const counterPoints = placed.filter((p) => p.kind === "counter" && p.zoneId === point.zoneId).length;
+      const count = Math.max(MIN_COUNTER_CIRCUITS, Math.ceil((counterPoints * RECEPTACLE_VA) / SHARED_CIRCUIT_WATTS));
+      counterCircuits.set(
+        key,
+        Array.from({ length: count }, (_, i) => ({
+          label: `${area.label} counter ${i + 1}`,
+          zoneId: area.zoneId,
+          zoneType: area.zoneType,
+          dedicated: false,
+          volts: 120 as const,
+          breakerAmps: 20,
+          wireAwg: WIRE_AWG_BY_BREAKER[20],
+          loadWatts: 0,
+          protection: getProtection(area.zoneType, 120, true),
+          fixtureIds: [],
+          receptacleIds: [],
+        }))
+      );
+    }
+    const group = counterCircuits.get(key)!;
+    const circuit = group.reduce((least, c) => (c.loadWatts < least.loadWatts ? c : least));
+    circuit.loadWatts += RECEPTACLE_VA;
+    circuit.receptacleIds.push(point.id);
+  }
+  for (const group of counterCircuits.values()) circuits.push(...group);
+
+  // Pack each room's shared loads into 20A circuits
+  for (const [key, loads] of sharedLoads) {
+    const area = areas.get(key)!;
+    const roomCircuits: Omit<PanelCircuit, "slots">[] = [];
+    for (const load of loads) {
+      let circuit = roomCircuits[roomCircuits.length - 1];
+      const points = circuit ? circuit.fixtureIds.length + circuit.receptacleIds.length : 0;
+      if (!circuit || circuit.loadWatts + load.watts > SHARED_CIRCUIT_WATTS || points >= SHARED_CIRCUIT_MAX_POINTS) {
+        circuit = {
+          label: "",
+          zoneId: area.zoneId,
+          zoneType: area.zoneType,
+          dedicated: false,
+          volts: 120,
+          breakerAmps: 20,
+          wireAwg: WIRE_AWG_BY_BREAKER[20],
+          loadWatts: 0,
+          protection: getProtection(area.zoneType, 120, false),
+          fixtureIds: [],
+          receptacleIds: [],
+        };
+        roomCircuits.push(circuit);
+      }
+      circuit.loadWatts += load.watts;
+      if (load.fixtureId) circuit.fixtureIds.push(load.fixtureId);
+      if (load.receptacleId) circuit.receptacleIds.push(load.receptacleId);
+    }
+    roomCircuits.forEach((circuit, i) => {
+      circuit.label = roomCircuits.length > 1 ? `${area.label} general ${i + 1}` : `${area.label} general`;
+    });
+    circuits.push(...roomCircuits);
+  }
+
+  // 240V loads at the top of the panel, then dedicated, then shared circuits
+  const ordered = [
+    ...circuits.filter((c) => c.volts === 240),
+    ...circuits.filter((c) => c.volts === 120 && c.dedicated),
+    ...circuits.filter((c) => c.volts === 120 && !c.dedicated),
+  ];
+  const occupied = new Set<number>();
+  const scheduled: PanelCircuit[] = ordered.map((circuit) => {
+    const poles = circuit.volts === 240 ? 2 : 1;
+    let slot = 1;
+    while (occupied.has(slot) || (poles === 2 && occupied.has(slot + 2))) slot++;
+    const slots = poles === 2 ? [slot, slot + 2] : [slot];
+    slots.forEach((s) => occupied.add(s));
+    return { slots, ...circuit };
+  });
+
+  const circuitByReceptacle = new Map<string, number>();
+  for (const circuit of scheduled) {
+    for (const id of circuit.receptacleIds) circuitByReceptacle.set(id, circuit.slots[0]);
+  }
+  const receptacles = placed.map((point) => ({ ...point, circuit: circuitByReceptacle.get(point.id) ?? 0 }));
+
+  const totalWatts = scheduled.reduce((sum, circuit) => sum + circuit.loadWatts, 0);
+  const mainAmps = (totalWatts / 240) * BREAKER_LOAD_FACTOR;
+  return {
+    circuits: scheduled,
+    receptacles,
+    mainBreakerAmps: MAIN_BREAKER_SIZES.find((size) => size >= mainAmps) ?? MAIN_BREAKER_SIZES[MAIN_BREAKER_SIZES.length - 1],
+    totalWatts,
+    spacesUsed: occupied.size,
+  };
+}
+
+/**
+ * Slots as printed on the schedule: "5", or "1/3" for a 2-pole breaker.
+ */
+export function formatCircuitSlots(circuit: Pick<PanelCircuit, "slots">): string {
+  return circuit.slots.join("/");
+}
@@ -1,18 +1,26 @@
 /**
  * PDF Export for Design Studio
- * Generates a comprehensive PDF with floor plan, fixture list, and BOM breakdown
+ * Generates a comprehensive PDF with floor plan, fixture list, door & window schedule, and BOM breakdown
  */
 
 import jsPDF from "jspdf";
 import type { DesignConfig, ModuleCatalogItem } from "@/types/design";
-import type { BOMSelections, BOMCalculation } from "@/types/bom";
+import type { BOMSelections, BOMCalculation, Discount, PriceBook } from "@/types/bom";
 import { calculateBOM, getDesignAnalysis } from "./bom-calculator";
+import { getBOMAdjustmentLines } from "./discounts";
+import { isOppositeHand } from "./geometry";
+import { formatInches, getOpeningSchedule } from "./openings";
+import { CIRCUIT_PROTECTION_LABELS, formatCircuitSlots, getPanelSchedule } from "./panel-schedule";
+import { getShellSpec } from "./shell-catalog";
 
 export type PDFExportOptions = {
   designName: string;
   design: DesignConfig;
   catalog: Record<string, ModuleCatalogItem>;
   bomSelections: BOMSelections;
+  priceBook: PriceBook;
+  // Running discounts; the promo code in bomSelections picks among them
+  discounts: Discount[];
   canvasElement?: HTMLElement | null;
 };
 
@@ -189,7 +197,7 @@ function formatCurrency(cents: number): string {
  * Generate PDF export
  */
 export async function generatePDF(options: PDFExportOptions): Promise<void> {
-  const { designName, design, catalog, bomSelections, canvasElement } = options;
+  const { designName, design, catalog, bomSelections, priceBook, discounts, canvasElement } = options;
   
   const pdf = new jsPDF({
     orientation: "portrait",
@@ -203,7 +211,7 @@ export async function generatePDF(options: PDFExportOptions): Promise<void> {
   const contentWidth = pageWidth - margin * 2;
 
   // Calculate BOM data
-  const bom = calculateBOM(design, catalog, bomSelections);
+  const bom = calculateBOM(design, catalog, bomSelections, priceBook, discounts);
   const analysis = getDesignAnalysis(design, catalog);
 
   // ============================================
@@ -252,7 +260,7 @@ export async function generatePDF(options: PDFExportOptions): Promise<void> {
   pdf.setFont("helvetica", "normal");
   pdf.setFontSize(11);
   pdf.setTextColor(71, 85, 105); // slate-600
-  pdf.text(`${analysis.shellLengthFt}' × ${analysis.shellWidthFt}' × ${analysis.shellHeightFt}' High Cube Container`, margin + 8, 133);
+  pdf.text(`${getShellSpec(design.shell).label} Container (${analysis.shellLengthFt}' × ${analysis.shellWidthFt}' × ${analysis.shellHeightFt}')${analysis.shellCount > 1 ? ` + ${analysis.shellCount - 1} joined` : ""}`, margin + 8, 133);
   pdf.text(`Floor Area: ${analysis.floorSqft} sq ft  |  ${design.fixtures.length} Fixtures  |  ${design.zones.length} Zones`, margin + 8, 141);
 
   // Total Price Box
@@ -352,11 +360,13 @@ export async function generatePDF(options: PDFExportOptions): Promise<void> {
       fixturesByCategory[category] = [];
     }
     
-    const existing = fixturesByCategory[category].find(f => f.name === catalogItem.label);
+    // Mirrored (opposite-hand) units are ordered separately
+    const name = isOppositeHand(fixture) ? `${catalogItem.label} (mirrored)` : catalogItem.label;
+    const existing = fixturesByCategory[category].find(f => f.name === name);
     if (existing) {
       existing.count++;
     } else {
-      fixturesByCategory[category].push({ name: catalogItem.label, count: 1 });
+      fixturesByCategory[category].push({ name, count: 1 });
     }
   });
 
@@ -397,6 +407,53 @@ export async function generatePDF(options: PDFExportOptions): Promise<void> {
     yPos += 3;
   });
 
+  // Door & window schedule
+  const schedule = getOpeningSchedule(design, catalog);
+  if (schedule.length > 0) {
+    if (yPos > pageHeight - 60) {
+      pdf.addPage();
+      yPos = 30;
+    }
+    yPos += 6;
+    pdf.setTextColor(30, 41, 59);
+    pdf.setFontSize(12);
+    pdf.setFont("helvetica", "bold");
+    pdf.text("Door & Window Schedule", margin, yPos);
+    yPos += 5;
+
+    pdf.setFillColor(241, 245, 249);
+    pdf.rect(margin, yPos, contentWidth, 8, "F");
+    pdf.setTextColor(71, 85, 105);
+    pdf.setFontSize(10);
+    pdf.text("Mark", margin + 3, yPos + 5.5);
+    pdf.text("Item", margin + 20, yPos + 5.5);
+    pdf.text("Size (W x H)", margin + 85, yPos + 5.5);
+    pdf.text("Sill", margin + 125, yPos + 5.5);
+    pdf.text("Qty", pageWidth - margin - 15, yPos + 5.5);
+    yPos += 10;
+
+    pdf.setFont("helvetica", "normal");
+    schedule.forEach((row, index) => {
+      if (yPos > pageHeight - 30) {
+        pdf.addPage();
+        yPos = 30;
+      }
+
+      if (index % 2 === 0) {
+        pdf.setFillColor(248, 250, 252);
+        pdf.rect(margin, yPos - 3, contentWidth, 7, "F");
+      }
+
+      pdf.setTextColor(30, 41, 59);
+      pdf.text(row.mark, margin + 3, yPos + 1);
+      pdf.text(row.label, margin + 20, yPos + 1);
+      pdf.text(`${formatInches(row.spec.widthFt)} x ${formatInches(row.spec.heightFt)}`, margin + 85, yPos + 1);
+      pdf.text(row.kind === "window" ? formatInches(row.spec.sillFt) : "-", margin + 125, yPos + 1);
+      pdf.text(row.count.toString(), pageWidth - margin - 12, yPos + 1);
+      yPos += 7;
+    });
+  }
+
   // ============================================
   // PAGE 4+: BOM Breakdown
   // ============================================
@@ -415,11 +472,13 @@ export async function generatePDF(options: PDFExportOptions): Promise<void> {
 
   const bomItems = [
     { label: "Container Shell", cost: bom.container.costCents, details: bom.container.details },
+    { label: "Structural Reinforcement", cost: bom.structural.costCents, details: bom.structural.details },
     { label: "Fixtures & Appliances", cost: bom.fixtures.costCents, details: bom.fixtures.details },
     { label: "Walls & Insulation", cost: bom.wallsInsulation.costCents, details: bom.wallsInsulation.details },
     { label: "Flooring", cost: bom.flooring.costCents, details: bom.flooring.details },
     { label: "Electrical", cost: bom.electrical.costCents, details: bom.electrical.details },
     { label: "Plumbing", cost: bom.plumbing.costCents, details: bom.plumbing.details },
+    { label: "Water & Waste", cost: bom.waterWaste.costCents, details: bom.waterWaste.details },
     { label: "Exterior Finish", cost: bom.exteriorFinish.costCents, details: bom.exteriorFinish.details },
     { label: "Roofing", cost: bom.roofing.costCents, details: bom.roofing.details },
     { label: "Labor", cost: bom.labor.costCents, details: `${bom.labor.totalHours} hours` },
@@ -485,7 +544,19 @@ export async function generatePDF(options: PDFExportOptions): Promise<void> {
   // Contingency
   pdf.text("Contingency (10%)", margin + 3, yPos);
   pdf.text(formatCurrency(bom.contingencyCents), pageWidth - margin - 25, yPos);
-  yPos += 10;
+  yPos += 7;
+
+  // Discounts and sales tax
+  getBOMAdjustmentLines(bom).forEach((line) => {
+    pdf.text(line.label, margin + 3, yPos);
+    pdf.text(
+      line.cents < 0 ? `-${formatCurrency(-line.cents)}` : formatCurrency(line.cents),
+      pageWidth - margin - 25,
+      yPos
+    );
+    yPos += 7;
+  });
+  yPos += 3;
 
   // Grand Total
   pdf.setFillColor(245, 158, 11);
@@ -496,6 +567,68 @@ export async function generatePDF(options: PDFExportOptions): Promise<void> {
   pdf.text("GRAND TOTAL", margin + 5, yPos + 5);
   pdf.text(formatCurrency(bom.grandTotalCents), pageWidth - margin - 25, yPos + 5);
 
+  // ============================================
+  // Panel Schedule
+  // ============================================
+
+  const panel = getPanelSchedule(design, catalog, bom.electrical.thermal.equipment);
+  pdf.addPage();
+
+  // Header
+  pdf.setFillColor(15, 23, 42);
+  pdf.rect(0, 0, pageWidth, 25, "F");
+  pdf.setTextColor(255, 255, 255);
+  pdf.setFontSize(16);
+  pdf.setFont("helvetica", "bold");
+  pdf.text("Electrical Panel Schedule", margin, 17);
+
+  yPos = 35;
+  pdf.setTextColor(100, 116, 139);
+  pdf.setFontSize(10);
+  pdf.setFont("helvetica", "normal");
+  pdf.text(
+    `${panel.mainBreakerAmps}A main  |  ${panel.spacesUsed} spaces  |  ${panel.circuits.length} circuits  |  ${panel.receptacles.length} receptacles  |  ${(panel.totalWatts / 1000).toFixed(1)} kW connected`,
+    margin,
+    yPos
+  );
+  yPos += 6;
+
+  // Table header
+  pdf.setFillColor(241, 245, 249);
+  pdf.rect(margin, yPos, contentWidth, 8, "F");
+  pdf.setTextColor(71, 85, 105);
+  pdf.setFont("helvetica", "bold");
+  pdf.text("Slot", margin + 3, yPos + 5.5);
+  pdf.text("Circuit", margin + 20, yPos + 5.5);
+  pdf.text("Breaker", margin + 92, yPos + 5.5);
+  pdf.text("Wire", margin + 113, yPos + 5.5);
+  pdf.text("Load", margin + 130, yPos + 5.5);
+  pdf.text("Protection", margin + 148, yPos + 5.5);
+  yPos += 10;
+
+  pdf.setFont("helvetica", "normal");
+  panel.circuits.forEach((circuit, index) => {
+    if (yPos > pageHeight - 30) {
+      pdf.addPage();
+      yPos = 30;
+    }
+
+    if (index % 2 === 0) {
+      pdf.setFillColor(248, 250, 252);
+      pdf.rect(margin, yPos - 3, contentWidth, 7, "F");
+    }
+
+    pdf.setTextColor(30, 41, 59);
+    pdf.text(formatCircuitSlots(circuit), margin + 3, yPos + 1);
+    pdf.text(circuit.label, margin + 20, yPos + 1);
+    pdf.text(`${circuit.breakerAmps}A ${circuit.slots.length === 2 ? "2P" : "1P"}`, margin + 92, yPos + 1);
+    pdf.text(`${circuit.wireAwg} AWG`, margin + 113, yPos + 1);
+    pdf.text(`${circuit.loadWatts}W`, margin + 130, yPos + 1);
+    pdf.setTextColor(100, 116, 139);
+    pdf.text(CIRCUIT_PROTECTION_LABELS[circuit.protection], margin + 148, yPos + 1);
+    yPos += 7;
+  });
+
   // ============================================
   // Footer on all pages
   // ============================================
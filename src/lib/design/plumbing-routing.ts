@@ -0,0 +1,286 @@
+/**
+ * Plumbing Routing
+ *
+ * Lays out the rough-in under the floor from the utility entry (or the wet
+ * core when none is placed) to every wet fixture:
+ * - Supply: PEX home runs from a manifold at the entry, hot and cold to each
+ *   fixture, running along the length of the shell and then across
+ * - Drain: one building drain along the length at the entry, with a branch
+ *   across to each fixture; 3" once a toilet is on it. Dishwashers drain into
+ *   the nearest sink on their level and share its branch and vent
+ * - Vents: fixtures close together share a stack up through the roof
+ *
+ * Fixtures on upper levels drop a riser to the floor below. Pipe lengths are
+ * totalled by size and priced with the fittings from the price book.
+ */
+
+import type { DesignConfig, FixtureConfig, ModuleCatalogItem } from "@/types/design";
+import type {
+  FittingQuantity,
+  PipeQuantity,
+  PipeRun,
+  PlumbingPipePrices,
+  PlumbingRouting,
+  VentStack,
+} from "@/types/bom";
+import { getFixtureLevel, getLevels } from "./composition";
+import { rectCenter, rectFromFixture } from "./geometry";
+import { getWasteExitPoint } from "./utility-rules";
+
+type FixturePlumbing = {
+  drainIn: number;
+  hot: boolean;
+  cold: boolean;
+  // Toilets sit on a closet flange instead of a trap
+  trap: boolean;
+  // Drains through a sink's tailpiece rather than a branch of its own
+  intoSink?: boolean;
+};
+
+// Matched against the catalog key, first match wins
+const FIXTURE_PLUMBING: [match: string, spec: FixturePlumbing][] = [
+  ["toilet", { drainIn: 3, hot: false, cold: true, trap: false }],
+  ["shower", { drainIn: 2, hot: true, cold: true, trap: true }],
+  ["tub", { drainIn: 2, hot: true, cold: true, trap: true }],
+  // Dishwashers drain through the sink's tailpiece and take hot only; ahead of
+  // "washer", which their key also contains
+  ["dishwasher", { drainIn: 1.5, hot: true, cold: false, trap: false, intoSink: true }],
+  ["washer", { drainIn: 2, hot: true, cold: true, trap: true }],
+];
+const DEFAULT_FIXTURE_PLUMBING: FixturePlumbing = { drainIn: 1.5, hot: true, cold: true, trap: true };
+
+const SUPPLY_DIAMETER_IN = 0.5;
+// 3/4" service from the entry to the manifold and water heater
+const SERVICE_DIAMETER_IN = 0.75;
+const SERVICE_RUN_FT = 10;
+// Up through the floor and the wall to the stop valve
+const SUPPLY_STUB_FT = 2;
+// Trap arm from the fixture to the branch below the floor
+const TRAP_ARM_FT = 1.5;
+// From the building drain down through the floor framing to the exit
+const DRAIN_EXIT_DROP_FT = 2;
+// Fixtures whose drains are this close share a vent
+const VENT_SHARE_FT = 6;
+// Above the roof line
+const VENT_ROOF_EXTENSION_FT = 1.5;
+
+const PIPE_FRACTIONS: Record<number, string> = { 0.5: "1/2", 0.75: "3/4" };
+
+function getFixturePlumbing(catalogKey: string): FixturePlumbing {
+  return FIXTURE_PLUMBING.find(([match]) => catalogKey.includes(match))?.[1] ?? DEFAULT_FIXTURE_PLUMBING;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Pipe size as sold, e.g. 1.5 -> 1-1/2"
+ */
+export function formatPipeSize(diameterIn: number): string {
+  const whole = Math.floor(diameterIn);
+  const fraction = PIPE_FRACTIONS[diameterIn - whole] ?? "";
+  if (whole === 0) return `${fraction}"`;
+  return fraction ? `${whole}-${fraction}"` : `${whole}"`;
+}
+
+function pipeCentsPerFt(prices: PlumbingPipePrices, system: PipeQuantity["system"], diameterIn: number): number {
+  if (system === "supply") {
+    return diameterIn >= SERVICE_DIAMETER_IN ? prices.pexThreeQuarterInchCentsPerFt : prices.pexHalfInchCentsPerFt;
+  }
+  if (diameterIn >= 3) return prices.drainThreeInchCentsPerFt;
+  if (diameterIn >= 2) return prices.drainTwoInchCentsPerFt;
+  return prices.drainInchAndHalfCentsPerFt;
+}
+
+type WetFixture = {
+  fixture: FixtureConfig;
+  spec: FixturePlumbing;
+  at: { xFt: number; yFt: number };
+  level: number;
+  water: boolean;
+  waste: boolean;
+};
+
+/**
+ * Supply, drain and vent runs for the design's wet fixtures, with pipe
+ * lengths by size, fittings and their material cost.
+ */
+export function routePlumbing(
+  design: DesignConfig,
+  catalog: Record<string, ModuleCatalogItem>,
+  prices: PlumbingPipePrices
+): PlumbingRouting {
+  const exit = getWasteExitPoint(design);
+  const entry = { xFt: round1(exit.x), yFt: round1(exit.y) };
+  const storeyFt = design.shell.heightFt;
+  const topLevel = Math.max(...getLevels(design));
+
+  const wet: WetFixture[] = [];
+  for (const fixture of design.fixtures) {
+    const catalogItem = catalog[fixture.catalogKey];
+    const utilities = catalogItem?.requiresUtilities ?? [];
+    const water = utilities.includes("water");
+    const waste = utilities.includes("waste");
+    if (!catalogItem || (!water && !waste)) continue;
+    const center = rectCenter(rectFromFixture(fixture, catalogItem));
+    wet.push({
+      fixture,
+      spec: getFixturePlumbing(fixture.catalogKey),
+      at: { xFt: round1(center.x), yFt: round1(center.y) },
+      level: getFixtureLevel(fixture),
+      water,
+      waste,
+    });
+  }
+
+  const runs: PipeRun[] = [];
+  const fittings = new Map<string, number>();
+  const addFittings = (label: string, count: number) => fittings.set(label, (fittings.get(label) ?? 0) + count);
+
+  // Supply: home runs along the shell's length, then across to the fixture
+  for (const { fixture, spec, at, level, water } of wet) {
+    if (!water) continue;
+    const points = [entry, { xFt: at.xFt, yFt: entry.yFt }, at];
+    const planFt = Math.abs(at.xFt - entry.xFt) + Math.abs(at.yFt - entry.yFt);
+    const lengthFt = round1(planFt + 2 * SUPPLY_STUB_FT + level * storeyFt);
+    const lines = [...(spec.cold ? (["supply-cold"] as const) : []), ...(spec.hot ? (["supply-hot"] as const) : [])];
+    for (const system of lines) {
+      runs.push({ id: `${system}-${fixture.id}`, system, fixtureId: fixture.id, diameterIn: SUPPLY_DIAMETER_IN, points, lengthFt });
+      addFittings("PEX elbow", 2);
+      addFittings("Stub-out with stop valve", 1);
+    }
+  }
+  const supplyLines = runs.length;
+  if (supplyLines > 0) {
+    runs.push({
+      id: "supply-service",
+      system: "supply-cold",
+      fixtureId: null,
+      diameterIn: SERVICE_DIAMETER_IN,
+      points: [entry],
+      lengthFt: SERVICE_RUN_FT,
+    });
+  }
+
+  // Dishwashers tie into the nearest sink on their level; with no sink there
+  // they get a branch like any other fixture
+  const sinks = wet.filter((w) => w.waste && w.fixture.catalogKey.includes("sink"));
+  const sinkFor = (w: WetFixture) =>
+    sinks
+      .filter((sink) => sink.level === w.level)
+      .reduce<WetFixture | undefined>((best, sink) => {
+        const distanceFt = Math.abs(sink.at.xFt - w.at.xFt) + Math.abs(sink.at.yFt - w.at.yFt);
+        return !best || distanceFt < Math.abs(best.at.xFt - w.at.xFt) + Math.abs(best.at.yFt - w.at.yFt)
+          ? sink
+          : best;
+      }, undefined);
+  const intoSink = wet.filter((w) => w.waste && w.spec.intoSink && sinkFor(w));
+  if (intoSink.length > 0) addFittings("Dishwasher tailpiece", intoSink.length);
+
+  // Drain: a branch across to each fixture, joining the building drain
+  const drains = wet.filter((w) => w.waste && !intoSink.includes(w));
+  for (const { fixture, spec, at, level } of drains) {
+    const points = [at, { xFt: at.xFt, yFt: entry.yFt }];
+    const lengthFt = round1(Math.abs(at.yFt - entry.yFt) + TRAP_ARM_FT + level * storeyFt);
+    runs.push({ id: `drain-${fixture.id}`, system: "drain", fixtureId: fixture.id, diameterIn: spec.drainIn, points, lengthFt });
+    addFittings("DWV wye", 1);
+    addFittings("Long-sweep 90", 1);
+    addFittings(spec.trap ? "P-trap" : fixture.catalogKey.includes("toilet") ? "Closet flange" : "Tailpiece connection", 1);
+  }
+  if (drains.length > 0) {
+    const mainIn = Math.max(2, ...drains.map((d) => d.spec.drainIn));
+    const minX = Math.min(entry.xFt, ...drains.map((d) => d.at.xFt));
+    const maxX = Math.max(entry.xFt, ...drains.map((d) => d.at.xFt));
+    // Upstream ends on either side of the exit, each with a cleanout
+    for (const [id, endX] of [["drain-main-left", minX], ["drain-main-right", maxX]] as const) {
+      if (endX === entry.xFt) continue;
+      runs.push({
+        id,
+        system: "drain",
+        fixtureId: null,
+        diameterIn: mainIn,
+        points: [{ xFt: endX, yFt: entry.yFt }, entry],
+        lengthFt: round1(Math.abs(endX - entry.xFt)),
+      });
+      addFittings("Cleanout", 1);
+    }
+    runs.push({ id: "drain-exit", system: "drain", fixtureId: null, diameterIn: mainIn, points: [entry], lengthFt: DRAIN_EXIT_DROP_FT });
+    addFittings("Long-sweep 90", 1);
+  }
+
+  // Vents: each stack serves the drains within reach of the first one on it
+  const vents: VentStack[] = [];
+  for (const drain of drains) {
+    const shared = vents.find(
+      (v) => v.level === drain.level && Math.hypot(v.xFt - drain.at.xFt, v.yFt - drain.at.yFt) <= VENT_SHARE_FT
+    );
+    if (shared) {
+      shared.fixtureIds.push(drain.fixture.id);
+      shared.diameterIn = Math.max(shared.diameterIn, drain.spec.drainIn >= 3 ? 2 : 1.5);
+      continue;
+    }
+    vents.push({
+      id: `vent-${vents.length + 1}`,
+      xFt: drain.at.xFt,
+      yFt: drain.at.yFt,
+      level: drain.level,
+      diameterIn: drain.spec.drainIn >= 3 ? 2 : 1.5,
+      lengthFt: round1((topLevel - drain.level + 1) * storeyFt + VENT_ROOF_EXTENSION_FT),
+      fixtureIds: [drain.fixture.id],
+    });
+  }
+  for (const vent of vents) {
+    runs.push({
+      id: vent.id,
+      system: "vent",
+      fixtureId: null,
+      diameterIn: vent.diameterIn,
+      points: [{ xFt: vent.xFt, yFt: vent.yFt }],
+      lengthFt: vent.lengthFt,
+    });
+    addFittings("Vent tee", vent.fixtureIds.length);
+  }
+
+  // Totals by size
+  const pipeTotals = new Map<string, PipeQuantity>();
+  for (const run of runs) {
+    const system = run.system === "drain" || run.system === "vent" ? run.system : "supply";
+    const label = `${formatPipeSize(run.diameterIn)} ${system === "supply" ? "PEX" : "PVC DWV"}`;
+    const key = `${system}|${run.diameterIn}`;
+    const total = pipeTotals.get(key) ?? { label, system, diameterIn: run.diameterIn, lengthFt: 0, costCents: 0 };
+    total.lengthFt = round1(total.lengthFt + run.lengthFt);
+    pipeTotals.set(key, total);
+  }
+  const pipes = [...pipeTotals.values()].map((pipe) => ({
+    ...pipe,
+    lengthFt: Math.ceil(pipe.lengthFt),
+    costCents: Math.ceil(pipe.lengthFt) * pipeCentsPerFt(prices, pipe.system, pipe.diameterIn),
+  }));
+
+  const fittingQuantities: FittingQuantity[] = [...fittings].map(([label, count]) => ({
+    label,
+    count,
+    costCents: count * prices.fittingCents,
+  }));
+  if (supplyLines > 0) {
+    fittingQuantities.push({ label: `${supplyLines}-port PEX manifold`, count: 1, costCents: prices.manifoldCents });
+  }
+  if (vents.length > 0) {
+    fittingQuantities.push({ label: "Roof flashing", count: vents.length, costCents: vents.length * prices.roofFlashingCents });
+  }
+
+  const materialCents =
+    pipes.reduce((sum, pipe) => sum + pipe.costCents, 0) +
+    fittingQuantities.reduce((sum, fitting) => sum + fitting.costCents, 0);
+
+  return {
+    entry,
+    isDefaultEntry: !design.utilityEntry,
+    runs,
+    vents,
+    pipes,
+    fittings: fittingQuantities,
+    materialCents,
+  };
+}
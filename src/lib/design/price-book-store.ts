@@ -0,0 +1,28 @@
+import prisma from "@/lib/db";
+import type { PriceBook } from "@/types/bom";
+import { DEFAULT_PRICE_BOOK, priceBookFromRow } from "./price-book";
+
+/**
+ * The price book in effect at `at` (now by default): the one with the latest
+ * effective date that has passed, the highest version breaking a tie. Falls
+ * back to the built-in book when the table is empty.
+ */
+export async function getActivePriceBook(at: Date = new Date()): Promise<PriceBook> {
+  const row = await prisma.priceBook.findFirst({
+    where: { effectiveAt: { lte: at } },
+    orderBy: [{ effectiveAt: "desc" }, { version: "desc" }],
+  });
+  return row ? priceBookFromRow(row) : DEFAULT_PRICE_BOOK;
+}
+
+/**
+ * A specific price book version, e.g. the one a saved design was priced
+ * with. Unknown or missing versions resolve to the active book.
+ */
+export async function getPriceBookVersion(version: number | null | undefined): Promise<PriceBook> {
+  if (typeof version === "number") {
+    const row = await prisma.priceBook.findUnique({ where: { version } });
+    if (row) return priceBookFromRow(row);
+  }
+  return getActivePriceBook();
+}
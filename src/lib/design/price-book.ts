@@ -0,0 +1,252 @@
+/**
+ * Price Books
+ *
+ * Material prices, system tiers and labor rates for the estimators. Books are
+ * versioned rows in the database (PriceBook table); the newest version whose
+ * effective date has passed is the active one. DEFAULT_PRICE_BOOK seeds the
+ * first version and stands in when the table is empty.
+ *
+ * Only type imports here: prisma/seed.ts loads this file outside Next.
+ */
+
+import type { PriceBook, PriceTables } from "@/types/bom";
+
+export const DEFAULT_PRICE_BOOK: PriceBook = {
+  version: 1,
+  name: "Launch pricing",
+  effectiveAt: "2025-01-01T00:00:00.000Z",
+
+  // Container shells, delivered used one-trip units (cents each)
+  shells: {
+    "shell-10-std": { label: "10' Standard", baseCents: 250000 },   // $2,500
+    "shell-10": { label: "10' High Cube", baseCents: 270000 },      // $2,700
+    "shell-20-std": { label: "20' Standard", baseCents: 300000 },   // $3,000
+    "shell-20": { label: "20' High Cube", baseCents: 330000 },      // $3,300
+    "shell-40-std": { label: "40' Standard", baseCents: 400000 },   // $4,000
+    "shell-40": { label: "40' High Cube", baseCents: 450000 },      // $4,500
+    "shell-45": { label: "45' High Cube", baseCents: 600000 },      // $6,000
+  },
+
+  // Materials (cents per sqft)
+  insulation: {
+    "fiberglass-batts": { label: "Fiberglass Batts", centsPerSqft: 150 },
+    "spray-foam": { label: "Spray Foam (Open Cell)", centsPerSqft: 350 },
+    "rigid-board": { label: "Rigid Foam Board", centsPerSqft: 275 },
+  },
+  interiorFinish: {
+    "drywall": { label: '1/2" Drywall', centsPerSqft: 300 },
+    "plywood": { label: '3/4" Plywood', centsPerSqft: 450 },
+    "shiplap": { label: "Shiplap/Tongue & Groove", centsPerSqft: 800 },
+  },
+  flooring: {
+    "vinyl-plank": { label: "Vinyl Plank (LVP)", centsPerSqft: 400 },
+    "laminate": { label: "Laminate", centsPerSqft: 350 },
+    "engineered-hardwood": { label: "Engineered Hardwood", centsPerSqft: 800 },
+    "rubber": { label: "Rubber/Commercial", centsPerSqft: 600 },
+  },
+  exteriorFinish: {
+    "none": { label: "None (Raw Container)", centsPerSqft: 0 },
+    "paint": { label: "Primer + Paint", centsPerSqft: 250 },
+    "corrugated-metal": { label: "Corrugated Metal Panels", centsPerSqft: 600 },
+    "wood-siding": { label: "Wood Siding", centsPerSqft: 1200 },
+    "composite": { label: "Composite Panels", centsPerSqft: 900 },
+  },
+  roofing: {
+    "none": { label: "None", centsPerSqft: 0 },
+    "membrane": { label: "Membrane (TPO/EPDM)", centsPerSqft: 550 },  // $5.50/sqft for quality membrane
+  },
+  roofingDeckPrepCentsPerSqft: 300,     // +$3.00/sqft
+  roofingSolarRailsCentsPerSqft: 250,   // +$2.50/sqft
+
+  foundation: {
+    "none": { label: "None (Customer Provides)", baseCents: 0 },
+    "gravel": { label: "Compacted Gravel Pad", baseCents: 200000 },  // $2,000 flat
+    "slab": { label: "4\" Reinforced Concrete Slab", baseCents: 450000 },  // $4,500 flat
+    "piers": { label: "Concrete Piers", baseCents: 60000 },  // $600 auger mobilization
+    "helical-piles": { label: "Helical Piles", baseCents: 120000 },  // $1,200 drive rig mobilization
+  },
+  // 12" formed concrete pier $280 + $35/ft, dug, formed and poured in 3 hrs;
+  // helical pile $550 + $45/ft of extension, driven in 1.5 hrs
+  piers: {
+    concretePierCents: 28000,
+    concretePierCentsPerFtDepth: 3500,
+    concretePierHours: 3,
+    helicalPileCents: 55000,
+    helicalPileCentsPerFtDepth: 4500,
+    helicalPileHours: 1.5,
+  },
+
+  // Water and waste packages: equipment plus install hours
+  wellPump: {
+    "none": { label: "None", baseCents: 0, laborHours: 0 },
+    "jet": { label: "Shallow-Well Jet Pump + Pressure Tank", baseCents: 95000, laborHours: 6 },
+    "submersible": { label: "Submersible Well Pump + Pressure Tank", baseCents: 240000, laborHours: 10 },
+  },
+  cistern: {
+    "none": { label: "None", baseCents: 0, laborHours: 0 },
+    "small": { label: "500 gal Cistern + Booster Pump", baseCents: 120000, laborHours: 6 },
+    "medium": { label: "1,500 gal Cistern + Booster Pump", baseCents: 260000, laborHours: 8 },
+    "large": { label: "3,000 gal Cistern + Booster Pump", baseCents: 450000, laborHours: 12 },
+  },
+  wasteSystem: {
+    "septic": { label: "Septic / Sewer (By Others)", baseCents: 0, laborHours: 0 },
+    "holding-tank": { label: "300 gal Holding Tank + Level Alarm", baseCents: 160000, laborHours: 8 },
+    "composting": { label: "Composting Toilet + Vent Fan", baseCents: 190000, laborHours: 3 },
+  },
+  greywater: {
+    "none": { label: "None", baseCents: 0, laborHours: 0 },
+    "laundry": { label: "Laundry-to-Landscape Diversion", baseCents: 45000, laborHours: 4 },
+    "branched-drain": { label: "Branched-Drain Greywater System", baseCents: 180000, laborHours: 12 },
+  },
+
+  structural: {
+    steelCutCentsPerLinearFt: 1800,   // $18/lf plasma cut + grind through corrugated wall or floor
+    headerCentsPerLinearFt: 6500,     // $65/lf 4x4 steel tube header over a cut
+    jambCentsPerLinearFt: 3500,       // $35/lf 2x4 steel tube jamb
+    sillCentsPerLinearFt: 1500,       // $15/lf steel angle sill under a window
+    postCents: 45000,                 // $450 steel post at a cut end or under a point load
+    seamCentsPerLinearFt: 2500,       // $25/lf seam plate, weld and flashing between boxes
+    stackConnectionCents: 60000,      // $600 corner weld plates per stacked box
+  },
+
+  // $2,500 base panel (container requires steel cutting, weatherproofing), $150 per powered fixture
+  electrical: { baseCents: 250000, perFixtureCents: 15000 },
+  // $2,000 rough-in, $350 per wet fixture
+  plumbing: { baseCents: 200000, perFixtureCents: 35000 },
+  // Routed pipe: PEX supply $1.10-1.70/ft, PVC DWV $2.50-6/ft; $8 per fitting,
+  // $220 manifold, $45 roof boot per vent
+  plumbingPipe: {
+    pexHalfInchCentsPerFt: 110,
+    pexThreeQuarterInchCentsPerFt: 170,
+    drainInchAndHalfCentsPerFt: 250,
+    drainTwoInchCentsPerFt: 350,
+    drainThreeInchCentsPerFt: 600,
+    fittingCents: 800,
+    manifoldCents: 22000,
+    roofFlashingCents: 4500,
+  },
+  // Mini-split: $1,200 install + $90 per 1,000 BTU/h (12k = $2,280);
+  // wall heaters $120/kW installed
+  hvac: { miniSplitBaseCents: 120000, miniSplitCentsPerKBtu: 9000, heaterCentsPerKw: 12000 },
+  // $4.50/mile, $500 minimum
+  delivery: { centsPerMile: 450, minimumCents: 50000 },
+  // 20' and 40' shells come off a tilt-bed ($350/load), 45'+ need a $1,800 crane;
+  // 40'+ loads carry a $150 oversize permit per state, 45'+ a $2.25/mile escort
+  deliveryRules: {
+    tiltBedMaxLengthFt: 40,
+    tiltBedCentsPerLoad: 35000,
+    craneCents: 180000,
+    oversizeMinLengthFt: 40,
+    permitCentsPerState: 15000,
+    escortMinLengthFt: 45,
+    escortCentsPerMile: 225,
+  },
+
+  generatorTiers: [
+    { minWatts: 0, maxWatts: 3500, capacityKw: 5, label: "5kW Portable Generator", priceCents: 80000 },
+    { minWatts: 3501, maxWatts: 5500, capacityKw: 7.5, label: "7.5kW Generator", priceCents: 120000 },
+    { minWatts: 5501, maxWatts: 8000, capacityKw: 10, label: "10kW Generator", priceCents: 180000 },
+    { minWatts: 8001, maxWatts: 12000, capacityKw: 15, label: "15kW Standby Generator", priceCents: 350000 },
+    { minWatts: 12001, maxWatts: 20000, capacityKw: 22, label: "22kW Standby Generator", priceCents: 550000 },
+  ],
+  // $300/panel installed, $450/kWh LiFePO4, $250/kW inverter, $1,500 balance of system
+  solar: { panelCents: 30000, batteryCentsPerKwh: 45000, inverterCentsPerKw: 25000, balanceOfSystemCents: 150000 },
+
+  laborHours: {
+    exteriorFramingPerLinearFt: 0.5,
+    windowInstallationPerUnit: 4,
+    exteriorDoorPerUnit: 6,
+    interiorWallPerLinearFt: 0.2,
+    interiorDoorPerUnit: 2,
+    insulationPerSqft: 0.05,
+    wallFinishDrywallPerSqft: 0.08,
+    wallFinishWoodPerSqft: 0.12,
+    electricalBase: 10,
+    electricalPerFixture: 1.5,
+    plumbingBase: 4,
+    plumbingPerFixture: 3,
+    roofingPerSqft: 0.04,
+    roofingDeckPrepPerSqft: 0.05,
+    flooringPerSqft: 0.015,
+    exteriorFinishPaintPerSqft: 0.04,
+    exteriorFinishSidingPerSqft: 0.15,
+    fixtureInstallPerUnit: 1,
+    trimBaseHours: 8,
+    trimPerLinearFt: 0.1,
+    cleanupHours: 8,
+    steelCutPerLinearFt: 0.1,
+    headerPerLinearFt: 0.25,
+    jambPerLinearFt: 0.2,
+    sillPerLinearFt: 0.1,
+    postPerUnit: 3,
+    seamPerLinearFt: 0.15,
+    stackConnectionPerShell: 6,
+  },
+
+  // Install costs relative to Audubon, IA; ZIP prefixes override their state
+  regions: [
+    { match: "SD", label: "South Dakota", labor: 0.95, materials: 1, delivery: 1.05 },
+    { match: "MN", label: "Minnesota", labor: 1.12, materials: 1.02, delivery: 1 },
+    { match: "WI", label: "Wisconsin", labor: 1.08, materials: 1.02, delivery: 1 },
+    { match: "IL", label: "Illinois", labor: 1.15, materials: 1.03, delivery: 1 },
+    { match: "606", label: "Chicago metro", labor: 1.35, materials: 1.06, delivery: 1.15 },
+    { match: "CO", label: "Colorado", labor: 1.18, materials: 1.05, delivery: 1.05 },
+    { match: "802", label: "Denver metro", labor: 1.28, materials: 1.07, delivery: 1.1 },
+    { match: "TX", label: "Texas", labor: 0.98, materials: 1, delivery: 1 },
+    { match: "WA", label: "Washington", labor: 1.3, materials: 1.08, delivery: 1.1 },
+    { match: "CA", label: "California", labor: 1.45, materials: 1.15, delivery: 1.15 },
+    { match: "MA", label: "Massachusetts", labor: 1.38, materials: 1.1, delivery: 1.15 },
+    { match: "NY", label: "New York", labor: 1.3, materials: 1.08, delivery: 1.1 },
+    { match: "100", label: "New York City", labor: 1.65, materials: 1.2, delivery: 1.35 },
+    { match: "AK", label: "Alaska", labor: 1.5, materials: 1.3, delivery: 1.5 },
+    { match: "HI", label: "Hawaii", labor: 1.55, materials: 1.35, delivery: 2 },
+  ],
+
+  contingencyPct: 10,
+};
+
+/**
+ * The price tables of a book, without its version details (what's stored in
+ * PriceBook.pricesJson).
+ */
+export function getPriceTables(book: PriceBook): PriceTables {
+  const tables: Partial<PriceBook> = { ...book };
+  delete tables.version;
+  delete tables.name;
+  delete tables.effectiveAt;
+  return tables as PriceTables;
+}
+
+export type PriceBookRow = {
+  version: number;
+  name: string;
+  effectiveAt: Date | string;
+  pricesJson: unknown;
+};
+
+/**
+ * Build a PriceBook from a database row. Tables missing from older versions
+ * are taken from the default book, one table at a time. Shell sizes and
+ * foundation options are merged one at a time, since older books predate
+ * shell pricing and piers.
+ */
+export function priceBookFromRow(row: PriceBookRow): PriceBook {
+  const stored = (row.pricesJson ?? {}) as Partial<PriceTables>;
+  return {
+    ...getPriceTables(DEFAULT_PRICE_BOOK),
+    ...stored,
+    shells: { ...DEFAULT_PRICE_BOOK.shells, ...stored.shells },
+    foundation: { ...DEFAULT_PRICE_BOOK.foundation, ...stored.foundation },
+    version: row.version,
+    name: row.name,
+    effectiveAt: typeof row.effectiveAt === "string" ? row.effectiveAt : row.effectiveAt.toISOString(),
+  };
+}
+
+/**
+ * Price of a container shell (cents) by shell catalog key; 0 for a size the
+ * book doesn't list.
+ */
+export function getShellCostCents(book: PriceTables, shellKey: string): number {
+  return book.shells[shellKey]?.baseCents ?? 0;
+}
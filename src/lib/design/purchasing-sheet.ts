@@ -0,0 +1,105 @@
+/**
+ * Purchasing worksheet for the Excel exports
+ * Lists the material takeoff one SKU per row, grouped by category
+ */
+
+import XLSX from "xlsx-js-style";
+import type { WorkBook } from "xlsx-js-style";
+import type { TakeoffCategory, TakeoffLineItem } from "@/types/bom";
+import { TAKEOFF_CATEGORY_LABELS } from "@/types/bom";
+
+/**
+ * Add a "Purchasing" sheet to the workbook: SKU, description, measured
+ * quantity, waste allowance and the stock units to order.
+ */
+export function appendPurchasingSheet(wb: WorkBook, designName: string, items: TakeoffLineItem[]): void {
+  const titleStyle = {
+    font: { bold: true, sz: 16, color: { rgb: "FFFFFF" } },
+    fill: { fgColor: { rgb: "2D5016" } }, // Forest green
+    alignment: { horizontal: "center", vertical: "center" },
+  };
+  const headerStyle = {
+    font: { bold: true, sz: 11, color: { rgb: "FFFFFF" } },
+    fill: { fgColor: { rgb: "4A7C23" } }, // Lighter green
+    alignment: { horizontal: "left" },
+    border: {
+      bottom: { style: "medium", color: { rgb: "2D5016" } },
+    },
+  };
+  const categoryStyle = {
+    font: { bold: true, sz: 10, color: { rgb: "333333" } },
+    fill: { fgColor: { rgb: "E8E8E8" } },
+    border: {
+      bottom: { style: "thin", color: { rgb: "CCCCCC" } },
+    },
+  };
+  const dataStyle = {
+    font: { sz: 10 },
+    alignment: { horizontal: "left", vertical: "center" },
+    border: {
+      bottom: { style: "thin", color: { rgb: "E0E0E0" } },
+    },
+  };
+  const numberStyle = {
+    ...dataStyle,
+    alignment: { horizontal: "right", vertical: "center" },
+  };
+  const orderStyle = {
+    ...numberStyle,
+    font: { bold: true, sz: 10 },
+  };
+
+  const columns = ["SKU", "Description", "Net Qty", "Basis", "Waste %", "Order Qty", "Unit"];
+  const data: (string | number)[][] = [];
+  data.push([`Purchasing List - ${designName}`]);
+  data.push([]);
+  data.push(columns);
+
+  // Rows are styled by kind once the sheet exists
+  const categoryRows: number[] = [];
+  const itemRows: number[] = [];
+  let category: TakeoffCategory | null = null;
+  for (const item of items) {
+    if (item.category !== category) {
+      category = item.category;
+      categoryRows.push(data.length);
+      data.push([TAKEOFF_CATEGORY_LABELS[category]]);
+    }
+    itemRows.push(data.length);
+    data.push([item.sku, item.description, item.netQuantity, item.basis, item.wastePct, item.quantity, item.unit]);
+  }
+
+  const ws = XLSX.utils.aoa_to_sheet(data);
+  const cell = (col: number, row: number) => ws[XLSX.utils.encode_cell({ c: col, r: row })];
+
+  if (ws["A1"]) ws["A1"].s = titleStyle;
+  columns.forEach((_, col) => {
+    if (cell(col, 2)) cell(col, 2).s = headerStyle;
+  });
+  for (const row of categoryRows) {
+    columns.forEach((_, col) => {
+      if (cell(col, row)) cell(col, row).s = categoryStyle;
+    });
+  }
+  for (const row of itemRows) {
+    columns.forEach((_, col) => {
+      if (!cell(col, row)) return;
+      cell(col, row).s = col === 5 ? orderStyle : col === 2 || col === 4 ? numberStyle : dataStyle;
+    });
+  }
+
+  ws["!cols"] = [
+    { wch: 18 }, // SKU
+    { wch: 50 }, // Description
+    { wch: 10 }, // Net Qty
+    { wch: 8 },  // Basis
+    { wch: 9 },  // Waste %
+    { wch: 11 }, // Order Qty
+    { wch: 9 },  // Unit
+  ];
+  ws["!rows"] = [{ hpt: 28 }];
+  // Title and category rows span the table
+  ws["!merges"] = [0, ...categoryRows].map((row) => ({ s: { r: row, c: 0 }, e: { r: row, c: columns.length - 1 } }));
+
+  XLSX.utils.book_append_sheet(wb, ws, "Purchasing");
+}
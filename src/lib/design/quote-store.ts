@@ -0,0 +1,103 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "@/lib/db";
+import type { BOMCalculation, BOMSelections, Discount, PriceBook } from "@/types/bom";
+import type { DesignConfig, ModuleCatalogEntry, ModuleCatalogItem } from "@/types/design";
+import { calculateBOM } from "./bom-calculator";
+import { entriesToCatalogMap } from "./catalog-utils";
+import { getCatalogVersion, getQuoteExpiry, type QuoteSnapshot } from "./quote";
+
+type QuoteSnapshotRow = {
+  id: string;
+  submissionId: string;
+  priceBookVersion: number;
+  catalogVersion: string;
+  configJson: unknown;
+  selectionsJson: unknown;
+  bomJson: unknown;
+  grandTotalCents: number;
+  requestedBy: string;
+  expiresAt: Date;
+  createdAt: Date;
+};
+
+export function quoteSnapshotFromRow(row: QuoteSnapshotRow): QuoteSnapshot {
+  return {
+    id: row.id,
+    submissionId: row.submissionId,
+    priceBookVersion: row.priceBookVersion,
+    catalogVersion: row.catalogVersion,
+    design: row.configJson as DesignConfig,
+    selections: row.selectionsJson as BOMSelections,
+    bom: row.bomJson as BOMCalculation,
+    grandTotalCents: row.grandTotalCents,
+    requestedBy: row.requestedBy,
+    expiresAt: row.expiresAt.toISOString(),
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Price a submitted design against the current module catalog, the given
+ * price book and discounts, and store the result as a new snapshot. Returns
+ * the catalog too so callers can render exports from the same data. Pass `db`
+ * to write inside a transaction.
+ */
+export async function createQuoteSnapshot({
+  submissionId,
+  design,
+  selections,
+  priceBook,
+  discounts,
+  requestedBy,
+  db = prisma,
+}: {
+  submissionId: string;
+  design: DesignConfig;
+  selections: BOMSelections;
+  priceBook: PriceBook;
+  discounts: Discount[];
+  requestedBy: string;
+  db?: Prisma.TransactionClient;
+}): Promise<{ quote: QuoteSnapshot; catalog: Record<string, ModuleCatalogItem> }> {
+  const moduleCatalog = await db.moduleCatalog.findMany();
+  const entries: ModuleCatalogEntry[] = moduleCatalog.map((m) => ({
+    id: m.id,
+    key: m.key,
+    name: m.name,
+    category: m.category,
+    schemaJson: m.schemaJson as Record<string, unknown>,
+    priceRuleJson: m.priceRuleJson as Record<string, unknown>,
+    createdAt: m.createdAt.toISOString(),
+  }));
+  const catalog = entriesToCatalogMap(entries);
+  const bom = calculateBOM(design, catalog, selections, priceBook, discounts);
+  const quotedAt = new Date();
+
+  const row = await db.quoteSnapshot.create({
+    data: {
+      submissionId,
+      priceBookVersion: priceBook.version,
+      catalogVersion: getCatalogVersion(entries),
+      configJson: design,
+      selectionsJson: selections,
+      bomJson: bom,
+      grandTotalCents: bom.grandTotalCents,
+      requestedBy,
+      expiresAt: getQuoteExpiry(quotedAt),
+      createdAt: quotedAt,
+    },
+  });
+
+  return { quote: quoteSnapshotFromRow(row), catalog };
+}
+
+/**
+ * Snapshots for a submission, newest first.
+ */
+export async function getQuoteSnapshots(submissionId: string): Promise<QuoteSnapshot[]> {
+  const rows = await prisma.quoteSnapshot.findMany({
+    where: { submissionId },
+    orderBy: { createdAt: "desc" },
+  });
+  return rows.map(quoteSnapshotFromRow);
+}
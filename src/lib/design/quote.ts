@@ -0,0 +1,104 @@
+/**
+ * Quote Snapshots
+ *
+ * A quote is the BOM as priced for a submitted design, frozen with everything
+ * that produced it: the selections, the price book version and a fingerprint
+ * of the module catalog. Snapshots are never updated; re-quoting adds a new
+ * one and the two can be compared line by line.
+ */
+
+import type { BOMCalculation, BOMSelections } from "@/types/bom";
+import type { DesignConfig, ModuleCatalogEntry } from "@/types/design";
+
+// How long a quoted price is honored
+export const QUOTE_VALID_DAYS = 30;
+
+export type QuoteSnapshot = {
+  id: string;
+  submissionId: string;
+  priceBookVersion: number;
+  catalogVersion: string;
+  design: DesignConfig;
+  selections: BOMSelections;
+  bom: BOMCalculation;
+  grandTotalCents: number;
+  // "customer" for the submission itself, otherwise the admin who re-quoted
+  requestedBy: string;
+  expiresAt: string;
+  createdAt: string;
+};
+
+// The cost lines of a BOM, in the order the exports list them
+const QUOTE_CATEGORIES = [
+  "container",
+  "structural",
+  "fixtures",
+  "wallsInsulation",
+  "flooring",
+  "electrical",
+  "plumbing",
+  "waterWaste",
+  "exteriorFinish",
+  "roofing",
+  "foundation",
+  "labor",
+  "delivery",
+] as const satisfies ReadonlyArray<keyof BOMCalculation>;
+
+export type QuoteDiffLine = {
+  label: string;
+  previousCents: number;
+  nextCents: number;
+  deltaCents: number;
+};
+
+/**
+ * Fingerprint of the module catalog: changes whenever an entry is added,
+ * removed or has its schema or price rule edited.
+ */
+export function getCatalogVersion(entries: ModuleCatalogEntry[]): string {
+  const canonical = [...entries]
+    .sort((a, b) => a.key.localeCompare(b.key))
+    .map((entry) => `${entry.key}|${JSON.stringify(entry.schemaJson)}|${JSON.stringify(entry.priceRuleJson)}`)
+    .join("\n");
+  // FNV-1a, 32 bit
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < canonical.length; i++) {
+    hash ^= canonical.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${entries.length}-${(hash >>> 0).toString(16).padStart(8, "0")}`;
+}
+
+export function getQuoteExpiry(quotedAt: Date): Date {
+  return new Date(quotedAt.getTime() + QUOTE_VALID_DAYS * 24 * 60 * 60 * 1000);
+}
+
+export function isQuoteExpired(quote: Pick<QuoteSnapshot, "expiresAt">, at: Date = new Date()): boolean {
+  return new Date(quote.expiresAt).getTime() <= at.getTime();
+}
+
+/**
+ * Line-by-line comparison of two quotes: every BOM category, then subtotal,
+ * contingency, discounts, sales tax and grand total. Snapshots from before
+ * a category, discounts or tax existed compare as zero on those lines.
+ */
+export function diffQuotes(previous: BOMCalculation, next: BOMCalculation): QuoteDiffLine[] {
+  const line = (label: string, previousCents: number, nextCents: number): QuoteDiffLine => ({
+    label,
+    previousCents,
+    nextCents,
+    deltaCents: nextCents - previousCents,
+  });
+
+  return [
+    ...QUOTE_CATEGORIES.map((key) =>
+      line(next[key]?.label || previous[key]?.label, previous[key]?.costCents ?? 0, next[key]?.costCents ?? 0)
+    ),
+    line("Subtotal", previous.subtotalCents, next.subtotalCents),
+    line("Contingency", previous.contingencyCents, next.contingencyCents),
+    line("Discounts", 0 - (previous.discountCents ?? 0), 0 - (next.discountCents ?? 0)),
+    line("Sales Tax", previous.salesTax?.costCents ?? 0, next.salesTax?.costCents ?? 0),
+    line("Grand Total", previous.grandTotalCents, next.grandTotalCents),
+  ];
+}
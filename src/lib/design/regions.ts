@@ -0,0 +1,50 @@
+/**
+ * Regional Multipliers
+ *
+ * Prices in the price book are for installs near the Audubon, IA shop. A
+ * region multiplier scales labor, materials and delivery for the delivery
+ * ZIP: the longest matching ZIP prefix first, then the ZIP's state.
+ */
+
+import type { RegionAdjustment, RegionMultiplier } from "@/types/bom";
+import { getZipLocationInfo } from "./zip-distance";
+
+export const HOME_REGION: RegionAdjustment = {
+  match: null,
+  label: "Audubon, IA pricing",
+  labor: 1,
+  materials: 1,
+  delivery: 1,
+};
+
+export function isZipPrefixMatch(match: string): boolean {
+  return /^\d+$/.test(match);
+}
+
+/**
+ * The region adjustment for a delivery ZIP. Unknown or incomplete ZIPs, and
+ * regions not in the table, get the shop's home pricing.
+ */
+export function getRegionAdjustment(zip: string, regions: RegionMultiplier[]): RegionAdjustment {
+  if (zip.length < 5) return HOME_REGION;
+
+  const byPrefix = regions
+    .filter((region) => isZipPrefixMatch(region.match) && zip.startsWith(region.match))
+    .sort((a, b) => b.match.length - a.match.length)[0];
+  if (byPrefix) return byPrefix;
+
+  const state = getZipLocationInfo(zip)?.state;
+  const byState = state ? regions.find((region) => region.match.toUpperCase() === state) : undefined;
+  return byState ?? HOME_REGION;
+}
+
+/**
+ * "labor ×1.28, materials ×1.07, delivery ×1.1" for the multipliers that
+ * aren't 1.
+ */
+export function describeRegionAdjustment(region: RegionAdjustment): string {
+  const parts = (["labor", "materials", "delivery"] as const)
+    .filter((key) => region[key] !== 1)
+    .map((key) => `${key} ×${region[key]}`);
+  return parts.length > 0 ? parts.join(", ") : "no adjustment";
+}
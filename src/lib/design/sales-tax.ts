@@ -0,0 +1,118 @@
+/**
+ * Sales Tax
+ *
+ * State and local sales tax for the delivery ZIP. The state comes from the
+ * ZIP centroid data; the local rate is looked up by county, falling back to
+ * the state's average local rate for counties not in the table.
+ *
+ * Rates in percent. Local rates combine county, city and special district
+ * taxes at the county seat; the shop confirms the exact rate on the invoice.
+ */
+
+import type { SalesTaxResult } from "@/types/bom";
+import { getZipLocationInfo } from "./zip-distance";
+
+export const STATE_SALES_TAX_PCT: Record<string, number> = {
+  AL: 4, AK: 0, AZ: 5.6, AR: 6.5, CA: 7.25, CO: 2.9, CT: 6.35, DE: 0, DC: 6,
+  FL: 6, GA: 4, HI: 4, ID: 6, IL: 6.25, IN: 7, IA: 6, KS: 6.5, KY: 6,
+  LA: 5, ME: 5.5, MD: 6, MA: 6.25, MI: 6, MN: 6.875, MS: 7, MO: 4.225,
+  MT: 0, NE: 5.5, NV: 6.85, NH: 0, NJ: 6.625, NM: 4.875, NY: 4, NC: 4.75,
+  ND: 5, OH: 5.75, OK: 4.5, OR: 0, PA: 6, RI: 7, SC: 6, SD: 4.2, TN: 7,
+  TX: 6.25, UT: 6.1, VT: 6, VA: 5.3, WA: 6.5, WV: 6, WI: 5, WY: 4,
+};
+
+type LocalRates = {
+  // Average local rate across the state
+  defaultPct: number;
+  counties?: Record<string, number>;
+};
+
+export const LOCAL_SALES_TAX_PCT: Record<string, LocalRates> = {
+  AL: { defaultPct: 5.29 },
+  AK: { defaultPct: 1.82 },
+  AZ: { defaultPct: 2.77 },
+  AR: { defaultPct: 2.98 },
+  CA: { defaultPct: 1.6 },
+  CO: { defaultPct: 4.96 },
+  FL: { defaultPct: 1 },
+  GA: { defaultPct: 3.38 },
+  HI: { defaultPct: 0.5 },
+  ID: { defaultPct: 0.03 },
+  IL: { defaultPct: 2.64, counties: { "Cook County": 4 } },
+  IA: {
+    // Local option sales tax; a handful of counties levy none
+    defaultPct: 1,
+  },
+  KS: { defaultPct: 2.15, counties: { "Johnson County": 3.1, "Sedgwick County": 1 } },
+  LA: { defaultPct: 5.11 },
+  MN: { defaultPct: 1.17, counties: { "Hennepin County": 2.15, "Ramsey County": 2.5 } },
+  MS: { defaultPct: 0.07 },
+  MO: { defaultPct: 4.19, counties: { "Jackson County": 4.525, "St. Louis County": 4.763, "Boone County": 3.725 } },
+  NE: { defaultPct: 1.47, counties: { "Douglas County": 1.5, "Lancaster County": 1.75, "Sarpy County": 1.5 } },
+  NV: { defaultPct: 1.39 },
+  NM: { defaultPct: 2.76 },
+  NY: { defaultPct: 4.53 },
+  NC: { defaultPct: 2.25 },
+  ND: { defaultPct: 2.04 },
+  OH: { defaultPct: 1.5 },
+  OK: { defaultPct: 4.55 },
+  PA: { defaultPct: 0.34 },
+  SC: { defaultPct: 1.5 },
+  SD: { defaultPct: 1.9, counties: { "Minnehaha County": 2, "Pennington County": 2 } },
+  TN: { defaultPct: 2.56 },
+  TX: { defaultPct: 1.95 },
+  UT: { defaultPct: 1.2 },
+  VT: { defaultPct: 0.36 },
+  VA: { defaultPct: 0.47 },
+  WA: { defaultPct: 2.88 },
+  WV: { defaultPct: 0.59 },
+  WI: { defaultPct: 0.72, counties: { "Milwaukee County": 0.9, "Dane County": 0.5 } },
+  WY: { defaultPct: 1.44 },
+};
+
+export type SalesTaxRate = {
+  state: string;
+  county: string | null;
+  statePct: number;
+  localPct: number;
+};
+
+/**
+ * Tax rates for a delivery ZIP. Returns null when the ZIP (and so the state)
+ * is unknown, or the state has no rate in the table.
+ */
+export function getSalesTaxRate(zip: string): SalesTaxRate | null {
+  if (zip.length < 5) return null;
+  const location = getZipLocationInfo(zip);
+  const state = location?.state;
+  if (!state || STATE_SALES_TAX_PCT[state] === undefined) return null;
+
+  const local = LOCAL_SALES_TAX_PCT[state];
+  const county = location?.county ?? null;
+  const localPct = (county ? local?.counties?.[county] : undefined) ?? local?.defaultPct ?? 0;
+
+  return { state, county, statePct: STATE_SALES_TAX_PCT[state], localPct };
+}
+
+/**
+ * Sales tax on a taxable amount for the delivery ZIP. Unknown ZIPs are
+ * untaxed until the customer enters one we can place.
+ */
+export function calculateSalesTax(zip: string, taxableCents: number): SalesTaxResult {
+  const rate = getSalesTaxRate(zip);
+  const statePct = rate?.statePct ?? 0;
+  const localPct = rate?.localPct ?? 0;
+  const stateCents = Math.round(taxableCents * (statePct / 100));
+  const localCents = Math.round(taxableCents * (localPct / 100));
+
+  return {
+    state: rate?.state ?? null,
+    county: rate?.county ?? null,
+    statePct,
+    localPct,
+    taxableCents,
+    stateCents,
+    localCents,
+    costCents: stateCents + localCents,
+  };
+}
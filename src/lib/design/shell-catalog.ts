@@ -0,0 +1,165 @@
+import type {
+  DesignConfig,
+  FixtureFootprint,
+  ShellCatalogItem,
+  ShellConfig,
+} from "@/types/design";
+import { footprintRect } from "./clipboard";
+
+// ISO side-wall corrugation: trapezoidal, roughly 11" pitch, 1.4" deep
+const ISO_CORRUGATION = { pitchIn: 10.9, depthIn: 1.4 };
+
+/**
+ * Container sizes we build in. "shell-N" is an N' high cube - the id every
+ * design used before the catalog existed - and "-std" is standard height.
+ * Prices are in the price book (`shells`), keyed the same way.
+ */
+export const SHELL_CATALOG: ShellCatalogItem[] = [
+  {
+    key: "shell-10-std",
+    label: "10' Standard",
+    lengthFt: 10,
+    widthFt: 8,
+    heightFt: 8.5,
+    highCube: false,
+    tareWeightLbs: 2870,
+    corrugation: ISO_CORRUGATION,
+  },
+  {
+    key: "shell-10",
+    label: "10' High Cube",
+    lengthFt: 10,
+    widthFt: 8,
+    heightFt: 9.5,
+    highCube: true,
+    tareWeightLbs: 3000,
+    corrugation: ISO_CORRUGATION,
+  },
+  {
+    key: "shell-20-std",
+    label: "20' Standard",
+    lengthFt: 20,
+    widthFt: 8,
+    heightFt: 8.5,
+    highCube: false,
+    tareWeightLbs: 4850,
+    corrugation: ISO_CORRUGATION,
+  },
+  {
+    key: "shell-20",
+    label: "20' High Cube",
+    lengthFt: 20,
+    widthFt: 8,
+    heightFt: 9.5,
+    highCube: true,
+    tareWeightLbs: 5070,
+    corrugation: ISO_CORRUGATION,
+  },
+  {
+    key: "shell-40-std",
+    label: "40' Standard",
+    lengthFt: 40,
+    widthFt: 8,
+    heightFt: 8.5,
+    highCube: false,
+    tareWeightLbs: 8160,
+    corrugation: ISO_CORRUGATION,
+  },
+  {
+    key: "shell-40",
+    label: "40' High Cube",
+    lengthFt: 40,
+    widthFt: 8,
+    heightFt: 9.5,
+    highCube: true,
+    tareWeightLbs: 8750,
+    corrugation: ISO_CORRUGATION,
+  },
+  {
+    key: "shell-45",
+    label: "45' High Cube",
+    lengthFt: 45,
+    widthFt: 8,
+    heightFt: 9.5,
+    highCube: true,
+    tareWeightLbs: 10580,
+    corrugation: ISO_CORRUGATION,
+  },
+];
+
+export const DEFAULT_SHELL_KEY = "shell-40";
+
+export function getShellCatalogItem(key: string): ShellCatalogItem | undefined {
+  return SHELL_CATALOG.find((item) => item.key === key);
+}
+
+/**
+ * Catalog entry for a design's shell. Ids outside the catalog (hand-edited or
+ * legacy lengths) resolve to the nearest size with the same height class.
+ */
+export function getShellSpec(shell: ShellConfig): ShellCatalogItem {
+  const exact = getShellCatalogItem(shell.id);
+  if (exact) return exact;
+  const highCube = shell.heightFt >= 9;
+  const candidates = SHELL_CATALOG.filter((item) => item.highCube === highCube);
+  return candidates.reduce((best, item) =>
+    Math.abs(item.lengthFt - shell.lengthFt) < Math.abs(best.lengthFt - shell.lengthFt)
+      ? item
+      : best
+  );
+}
+
+export function shellConfigFromCatalog(item: ShellCatalogItem): ShellConfig {
+  return {
+    id: item.key,
+    lengthFt: item.lengthFt,
+    widthFt: item.widthFt,
+    heightFt: item.heightFt,
+  };
+}
+
+/**
+ * Moves a design into a different shell. Zones are stretched along the length
+ * (and width) so they still tile the shell, and fixtures, annotations and the
+ * utility entry keep their relative position. Fixtures don't change size; with
+ * footprints (keyed by fixture id) they are also pulled back inside the shell.
+ */
+export function fitDesignToShell(
+  design: DesignConfig,
+  item: ShellCatalogItem,
+  footprints: Record<string, FixtureFootprint> = {}
+): DesignConfig {
+  const shell = shellConfigFromCatalog(item);
+  const scaleX = shell.lengthFt / design.shell.lengthFt;
+  const scaleY = shell.widthFt / design.shell.widthFt;
+  const fitPoint = (xFt: number, yFt: number) => ({ xFt: xFt * scaleX, yFt: yFt * scaleY });
+
+  const fixtures = design.fixtures.map((fixture) => {
+    const { xFt, yFt } = fitPoint(fixture.xFt, fixture.yFt);
+    const footprint = footprints[fixture.id];
+    if (!footprint) return { ...fixture, xFt, yFt };
+    const rect = footprintRect(xFt, yFt, footprint);
+    const shiftX = rect.x < 0 ? -rect.x : Math.min(0, shell.lengthFt - (rect.x + rect.width));
+    const shiftY = rect.y < 0 ? -rect.y : Math.min(0, shell.widthFt - (rect.y + rect.height));
+    return { ...fixture, xFt: xFt + shiftX, yFt: yFt + shiftY };
+  });
+
+  return {
+    ...design,
+    shell,
+    zones: design.zones.map((zone) => ({
+      ...zone,
+      xFt: zone.xFt * scaleX,
+      yFt: zone.yFt * scaleY,
+      lengthFt: zone.lengthFt * scaleX,
+      widthFt: zone.widthFt * scaleY,
+    })),
+    fixtures,
+    annotations: design.annotations?.map((annotation) => ({
+      ...annotation,
+      anchorFt: { x: annotation.anchorFt.x * scaleX, y: annotation.anchorFt.y * scaleY },
+      labelFt: { x: annotation.labelFt.x * scaleX, y: annotation.labelFt.y * scaleY },
+    })),
+    utilityEntry: design.utilityEntry && fitPoint(design.utilityEntry.xFt, design.utilityEntry.yFt),
+  };
+}
@@ -0,0 +1,166 @@
+/**
+ * Solar + Battery Sizing
+ *
+ * Off-grid systems are sized from daily energy, not peak watts: fixture duty
+ * cycles plus heating and cooling give kWh per day, the site's latitude gives
+ * peak sun hours, and the autonomy setting gives the days of storage.
+ *
+ * - Panels cover the year-round average day at the annual sun hours
+ * - The battery carries that day for the autonomy days
+ * - The inverter carries the peak load
+ *
+ * December's short days usually leave a shortfall, reported rather than
+ * covered: a generator or conservation makes it up.
+ */
+
+import type {
+  DailyEnergyUse,
+  ElectricalLoadBreakdown,
+  SolarPrices,
+  SolarSizing,
+  ThermalLoadResult,
+} from "@/types/bom";
+import { BASE_LIGHTING_HOURS, FIXTURE_DAILY_HOURS } from "@/types/bom";
+import { AUDUBON_IA, getZipCoordinates } from "./zip-distance";
+
+const PANEL_WATTS = 400;
+// 400W panel footprint, and the share of a flat roof left after edge setbacks
+const PANEL_SQFT = 21.5;
+const ROOF_USABLE_FRACTION = 0.8;
+// Wiring, heat, dust and charge losses between panel rating and battery
+const SYSTEM_DERATE = 0.77;
+// LiFePO4: usable share of rated capacity, sold in 5 kWh modules
+const BATTERY_DEPTH_OF_DISCHARGE = 0.9;
+const BATTERY_MODULE_KWH = 5;
+const INVERTER_HEADROOM = 1.25;
+const MIN_INVERTER_KW = 3;
+
+// Peak sun hours (yearly average, December) by latitude, for a south-facing
+// array at a typical tilt. Interpolated between rows.
+const SUN_HOURS_BY_LATITUDE: [latitude: number, annual: number, winter: number][] = [
+  [20, 5.8, 4.9],
+  [25, 5.6, 4.6],
+  [30, 5.4, 4.0],
+  [35, 5.1, 3.4],
+  [40, 4.7, 2.8],
+  [45, 4.3, 2.1],
+  [50, 3.8, 1.4],
+  [60, 3.0, 0.6],
+  [70, 2.5, 0.1],
+];
+
+// Heat pump seasonal efficiency; electric heaters are 1
+const MINI_SPLIT_HEATING_COP = 2.5;
+const MINI_SPLIT_COOLING_COP = 3.2;
+// Mean winter temperature above the heating design temperature, and the
+// balance point below which the home needs heat (people and appliances cover the rest)
+const WINTER_MEAN_ABOVE_DESIGN_F = 25;
+const BALANCE_POINT_F = 65;
+// Share of the design cooling load the mini-split averages over a summer day
+const SUMMER_COOLING_DUTY = 0.35;
+const BTU_PER_KWH = 3412;
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export function getPeakSunHours(latitude: number): { annual: number; winter: number } {
+  const rows = SUN_HOURS_BY_LATITUDE;
+  if (latitude <= rows[0][0]) return { annual: rows[0][1], winter: rows[0][2] };
+  const last = rows[rows.length - 1];
+  if (latitude >= last[0]) return { annual: last[1], winter: last[2] };
+
+  const upper = rows.findIndex(([lat]) => lat >= latitude);
+  const [lat0, annual0, winter0] = rows[upper - 1];
+  const [lat1, annual1, winter1] = rows[upper];
+  const t = (latitude - lat0) / (lat1 - lat0);
+  return {
+    annual: round1(annual0 + (annual1 - annual0) * t),
+    winter: round1(winter0 + (winter1 - winter0) * t),
+  };
+}
+
+/**
+ * Daily kWh: each powered fixture's watts × its hours per day, base
+ * lighting, and heating/cooling from the design loads.
+ */
+export function calculateDailyEnergy(
+  loadBreakdown: ElectricalLoadBreakdown,
+  thermal: ThermalLoadResult
+): DailyEnergyUse {
+  const fixturesKwh = loadBreakdown.fixtureDetails.reduce(
+    (sum, fixture) =>
+      sum + (fixture.watts * (FIXTURE_DAILY_HOURS[fixture.catalogKey] ?? FIXTURE_DAILY_HOURS.default)) / 1000,
+    0
+  );
+  const lightingKwh = (loadBreakdown.lightingWatts * BASE_LIGHTING_HOURS) / 1000;
+
+  const hasMiniSplit = thermal.equipment.some((equipment) => equipment.kind === "mini-split");
+  const totalUA = thermal.conductance.reduce((sum, path) => sum + path.uaBtuPerHrF, 0);
+  const winterMeanF = thermal.climate.heatingDesignF + WINTER_MEAN_ABOVE_DESIGN_F;
+  const winterHeatBtu = totalUA * Math.max(0, BALANCE_POINT_F - winterMeanF) * 24;
+  const winterHvacKwh = winterHeatBtu / BTU_PER_KWH / (hasMiniSplit ? MINI_SPLIT_HEATING_COP : 1);
+  const summerHvacKwh = hasMiniSplit
+    ? (thermal.coolingBtuPerHr * SUMMER_COOLING_DUTY * 24) / BTU_PER_KWH / MINI_SPLIT_COOLING_COP
+    : 0;
+
+  const baseKwh = fixturesKwh + lightingKwh;
+  return {
+    fixturesKwh: round1(fixturesKwh),
+    lightingKwh: round1(lightingKwh),
+    winterHvacKwh: round1(winterHvacKwh),
+    summerHvacKwh: round1(summerHvacKwh),
+    winterKwh: round1(baseKwh + winterHvacKwh),
+    designKwh: round1(baseKwh + (winterHvacKwh + summerHvacKwh) / 2),
+  };
+}
+
+/**
+ * Panels, battery and inverter for the delivery ZIP, with the winter
+ * shortfall. With solar rails on the roof, also checks the array fits.
+ */
+export function sizeSolarSystem(options: {
+  loadBreakdown: ElectricalLoadBreakdown;
+  thermal: ThermalLoadResult;
+  deliveryZip: string;
+  autonomyDays: number;
+  roofSqft: number;
+  roofMounted: boolean;
+  prices: SolarPrices;
+}): SolarSizing {
+  const { loadBreakdown, thermal, deliveryZip, autonomyDays, roofSqft, roofMounted, prices } = options;
+  const latitude = getZipCoordinates(deliveryZip)?.lat ?? AUDUBON_IA.lat;
+  const sun = getPeakSunHours(latitude);
+  const energy = calculateDailyEnergy(loadBreakdown, thermal);
+
+  const panelCount = Math.max(1, Math.ceil((energy.designKwh * 1000) / (sun.annual * SYSTEM_DERATE * PANEL_WATTS)));
+  const arrayKw = (panelCount * PANEL_WATTS) / 1000;
+  const batteryKwh =
+    Math.ceil((energy.designKwh * autonomyDays) / BATTERY_DEPTH_OF_DISCHARGE / BATTERY_MODULE_KWH) * BATTERY_MODULE_KWH;
+  const inverterKw = Math.max(MIN_INVERTER_KW, Math.ceil((loadBreakdown.totalWatts * INVERTER_HEADROOM) / 1000));
+
+  const winterProductionKwh = round1(arrayKw * sun.winter * SYSTEM_DERATE);
+  const maxPanels = Math.floor((roofSqft * ROOF_USABLE_FRACTION) / PANEL_SQFT);
+
+  return {
+    latitude: round1(latitude),
+    annualSunHours: sun.annual,
+    winterSunHours: sun.winter,
+    autonomyDays,
+    energy,
+    panelCount,
+    panelWatts: PANEL_WATTS,
+    arrayKw,
+    batteryKwh,
+    inverterKw,
+    winterProductionKwh,
+    winterShortfallKwh: round1(Math.max(0, energy.winterKwh - winterProductionKwh)),
+    roof: roofMounted ? { maxPanels, fits: panelCount <= maxPanels } : null,
+    items: [
+      { label: `${panelCount} × ${PANEL_WATTS}W panels (${arrayKw} kW)`, costCents: panelCount * prices.panelCents },
+      { label: `${batteryKwh} kWh LiFePO4 battery`, costCents: batteryKwh * prices.batteryCentsPerKwh },
+      { label: `${inverterKw} kW inverter/charger`, costCents: inverterKw * prices.inverterCentsPerKw },
+      { label: "Charge controller & balance of system", costCents: prices.balanceOfSystemCents },
+    ],
+  };
+}
@@ -0,0 +1,40 @@
+import type { ValidationIssue, ValidationRule } from "@/types/design";
+import {
+  MAX_SIDEWALL_REMOVED_RATIO,
+  MIN_CORNER_POST_CLEARANCE_FT,
+  analyzeStructure,
+} from "./structural";
+
+/**
+ * Validation rule for steel cut into the shell: warns when windows and doors
+ * take out too much of a sidewall, or sit close enough to a corner post to cut
+ * into it.
+ */
+export const ruleStructural: ValidationRule = (design, catalog) => {
+  const issues: ValidationIssue[] = [];
+  const takeoff = analyzeStructure(design, catalog);
+
+  for (const wall of takeoff.walls) {
+    if (!wall.sidewall || wall.removedRatio <= MAX_SIDEWALL_REMOVED_RATIO) continue;
+    issues.push({
+      id: `SIDEWALL_OVERCUT_${wall.shellId}_${wall.wall}`,
+      fixtureId: wall.fixtureIds[0],
+      level: "warning",
+      code: "SIDEWALL_OVERCUT",
+      message: `Openings remove ${Math.round(wall.removedRatio * 100)}% of the ${wall.wall} sidewall (limit ${Math.round(MAX_SIDEWALL_REMOVED_RATIO * 100)}%); the wall will need an engineered frame.`,
+    });
+  }
+
+  for (const opening of takeoff.openings) {
+    if (opening.cornerClearanceFt >= MIN_CORNER_POST_CLEARANCE_FT) continue;
+    issues.push({
+      id: `OPENING_NEAR_CORNER_${opening.fixtureId}`,
+      fixtureId: opening.fixtureId,
+      level: "warning",
+      code: "OPENING_NEAR_CORNER",
+      message: `${opening.door ? "Door" : "Window"} is ${opening.cornerClearanceFt.toFixed(1)}' from a corner post; keep at least ${MIN_CORNER_POST_CLEARANCE_FT}' of steel.`,
+    });
+  }
+
+  return issues;
+};
@@ -0,0 +1,226 @@
+import type { DesignConfig, ModuleCatalogItem, PlacedShellConfig, RectFt } from "@/types/design";
+import { getFixtureLevel, getPlacedShells, getShellJoinWork, shellPlanRect } from "./composition";
+import type { ShellJoinWork, ShellWallSide } from "./composition";
+import { rectFromFixture } from "./geometry";
+import { getOpeningKind, getOpeningSpec, isWallOpening } from "./openings";
+
+// Corrugated panels carry load as a shear wall; past this share of a sidewall
+// cut away the box needs an engineered frame rather than opening headers.
+export const MAX_SIDEWALL_REMOVED_RATIO = 0.4;
+
+// Keep cuts clear of the corner posts so the post and its welds stay intact (ft)
+export const MIN_CORNER_POST_CLEARANCE_FT = 1.5;
+
+// Headers bear on the steel past each side of the opening (ft)
+const HEADER_BEARING_FT = 0.5;
+
+export type PlanWall = "north" | "south" | "east" | "west";
+
+/**
+ * One window or door cut through a shell wall, with the steel work it needs.
+ * startFt/endFt run along the wall in plan coordinates.
+ */
+export type WallOpeningCut = {
+  fixtureId: string;
+  shellId: string;
+  wall: PlanWall;
+  sidewall: boolean;
+  door: boolean;
+  startFt: number;
+  endFt: number;
+  widthFt: number;
+  heightFt: number;
+  sillFt: number;
+  cutLinearFt: number;
+  headerLinearFt: number;
+  jambLinearFt: number;
+  sillLinearFt: number;
+  // Distance from the opening to the nearer corner post
+  cornerClearanceFt: number;
+};
+
+export type WallCutSummary = {
+  shellId: string;
+  wall: PlanWall;
+  sidewall: boolean;
+  wallLengthFt: number;
+  removedFt: number;
+  removedRatio: number;
+  fixtureIds: string[];
+};
+
+export type StructuralTakeoff = {
+  openings: WallOpeningCut[];
+  walls: WallCutSummary[];
+  cutLinearFt: number;
+  headerLinearFt: number;
+  jambLinearFt: number;
+  sillLinearFt: number;
+  // Steel work joining the shells of a composition
+  join: ShellJoinWork;
+};
+
+/**
+ * An opening in one shell's own frame, as its 3D walls are laid out: the wall
+ * side, the offset along it from the shell's left (front/back walls) or back
+ * (left/right walls) end, and the sill height.
+ */
+export type ShellSideOpening = {
+  fixtureId: string;
+  side: ShellWallSide;
+  offsetFt: number;
+  widthFt: number;
+  heightFt: number;
+  sillFt: number;
+  door: boolean;
+};
+
+/**
+ * The wall an opening sits in: the nearest one running along the opening's
+ * long side. Returns the opening's span along that wall and the wall's ends.
+ */
+function nearestWall(
+  rect: RectFt,
+  widthFt: number,
+  shell: RectFt
+): { wall: PlanWall; distanceFt: number; startFt: number; endFt: number; wallStartFt: number; wallEndFt: number } {
+  const cx = rect.x + rect.width / 2;
+  const cy = rect.y + rect.height / 2;
+  if (rect.width >= rect.height) {
+    const span = { startFt: cx - widthFt / 2, endFt: cx + widthFt / 2, wallStartFt: shell.x, wallEndFt: shell.x + shell.width };
+    const north = Math.abs(cy - shell.y);
+    const south = Math.abs(shell.y + shell.height - cy);
+    return north <= south
+      ? { wall: "north", distanceFt: north, ...span }
+      : { wall: "south", distanceFt: south, ...span };
+  }
+  const span = { startFt: cy - widthFt / 2, endFt: cy + widthFt / 2, wallStartFt: shell.y, wallEndFt: shell.y + shell.height };
+  const west = Math.abs(cx - shell.x);
+  const east = Math.abs(shell.x + shell.width - cx);
+  return west <= east
+    ? { wall: "west", distanceFt: west, ...span }
+    : { wall: "east", distanceFt: east, ...span };
+}
+
+/**
+ * Steel cut-outs and reinforcement for every window and door, per wall totals,
+ * and the join work between shells.
+ *
+ * Each opening is cut on its perimeter (doors stop at the floor), gets a tube
+ * header bearing past both sides, tube jambs full height, and an angle sill
+ * under windows.
+ */
+export function analyzeStructure(
+  design: DesignConfig,
+  catalog: Record<string, ModuleCatalogItem>
+): StructuralTakeoff {
+  const placed = getPlacedShells(design);
+  const openings: WallOpeningCut[] = [];
+
+  for (const fixture of design.fixtures) {
+    const catalogItem = catalog[fixture.catalogKey];
+    if (!catalogItem || !isWallOpening(fixture)) continue;
+
+    const level = getFixtureLevel(fixture);
+    const rect = rectFromFixture(fixture, catalogItem);
+    const onLevel = placed.filter((p) => p.level === level);
+    if (onLevel.length === 0) continue;
+
+    // The wall of whichever shell on the level is nearest
+    const door = getOpeningKind(fixture) === "exterior-door";
+    const spec = getOpeningSpec(catalogItem);
+    const hits = onLevel.map((p) => ({ placed: p, ...nearestWall(rect, spec.widthFt, shellPlanRect(p)) }));
+    const hit = hits.reduce((best, h) => (h.distanceFt < best.distanceFt ? h : best));
+    const { heightFt, sillFt } = spec;
+    const startFt = Math.max(hit.startFt, hit.wallStartFt);
+    const endFt = Math.min(hit.endFt, hit.wallEndFt);
+    const widthFt = Math.max(0, endFt - startFt);
+    const wallLengthFt = hit.wallEndFt - hit.wallStartFt;
+
+    openings.push({
+      fixtureId: fixture.id,
+      shellId: hit.placed.id,
+      wall: hit.wall,
+      sidewall: Math.abs(wallLengthFt - hit.placed.shell.lengthFt) < 0.01,
+      door,
+      startFt,
+      endFt,
+      widthFt,
+      heightFt,
+      sillFt,
+      cutLinearFt: door ? widthFt + 2 * heightFt : 2 * (widthFt + heightFt),
+      headerLinearFt: widthFt + 2 * HEADER_BEARING_FT,
+      jambLinearFt: 2 * heightFt,
+      sillLinearFt: door ? 0 : widthFt,
+      cornerClearanceFt: Math.max(0, Math.min(startFt - hit.wallStartFt, hit.wallEndFt - endFt)),
+    });
+  }
+
+  const walls: WallCutSummary[] = [];
+  for (const opening of openings) {
+    let summary = walls.find((w) => w.shellId === opening.shellId && w.wall === opening.wall);
+    if (!summary) {
+      const shell = placed.find((p) => p.id === opening.shellId)!;
+      const rect = shellPlanRect(shell);
+      const wallLengthFt = opening.wall === "north" || opening.wall === "south" ? rect.width : rect.height;
+      summary = {
+        shellId: opening.shellId,
+        wall: opening.wall,
+        sidewall: opening.sidewall,
+        wallLengthFt,
+        removedFt: 0,
+        removedRatio: 0,
+        fixtureIds: [],
+      };
+      walls.push(summary);
+    }
+    summary.removedFt += opening.widthFt;
+    summary.removedRatio = summary.wallLengthFt > 0 ? summary.removedFt / summary.wallLengthFt : 0;
+    summary.fixtureIds.push(opening.fixtureId);
+  }
+
+  const sum = (pick: (o: WallOpeningCut) => number) => openings.reduce((total, o) => total + pick(o), 0);
+  return {
+    openings,
+    walls,
+    cutLinearFt: sum((o) => o.cutLinearFt),
+    headerLinearFt: sum((o) => o.headerLinearFt),
+    jambLinearFt: sum((o) => o.jambLinearFt),
+    sillLinearFt: sum((o) => o.sillLinearFt),
+    join: getShellJoinWork(design, catalog),
+  };
+}
+
+/**
+ * The openings cut into one shell, moved from plan walls into the shell's own
+ * frame. A turned shell runs its length along plan Y, so its front faces west.
+ */
+export function getShellSideOpenings(
+  takeoff: StructuralTakeoff,
+  placed: PlacedShellConfig
+): ShellSideOpening[] {
+  const rect = shellPlanRect(placed);
+  const turned = placed.rotationDeg === 90;
+  return takeoff.openings
+    .filter((o) => o.shellId === placed.id)
+    .map((o) => {
+      let side: ShellWallSide;
+      let offsetFt: number;
+      if (!turned) {
+        side = { north: "back", south: "front", west: "left", east: "right" }[o.wall] as ShellWallSide;
+        offsetFt = o.wall === "north" || o.wall === "south" ? o.startFt - rect.x : o.startFt - rect.y;
+      } else {
+        side = { north: "left", south: "right", west: "front", east: "back" }[o.wall] as ShellWallSide;
+        offsetFt = o.wall === "west" || o.wall === "east" ? o.startFt - rect.y : rect.x + rect.width - o.endFt;
+      }
+      return {
+        fixtureId: o.fixtureId,
+        side,
+        offsetFt,
+        widthFt: o.widthFt,
+        heightFt: o.heightFt,
+        sillFt: o.sillFt,
+        door: o.door,
+      };
+    });
+}
@@ -0,0 +1,179 @@
+import type { DesignConfig, ModuleCatalogItem } from "@/types/design";
+import type {
+  BOMSelections,
+  DesignAnalysis,
+  FlooringType,
+  InsulationType,
+  TakeoffCategory,
+  TakeoffLineItem,
+  TakeoffMaterial,
+} from "@/types/bom";
+import { TAKEOFF_MATERIALS, TAKEOFF_RATES } from "@/types/bom";
+import { planPierFoundation } from "./foundation";
+import { getOpeningKind, getOpeningSpec } from "./openings";
+import { analyzeStructure } from "./structural";
+
+const INSULATION_MATERIALS: Record<InsulationType, TakeoffMaterial> = {
+  "fiberglass-batts": TAKEOFF_MATERIALS.fiberglassBatts,
+  "spray-foam": TAKEOFF_MATERIALS.sprayFoamKit,
+  "rigid-board": TAKEOFF_MATERIALS.rigidBoard,
+};
+
+const FLOORING_MATERIALS: Record<FlooringType, TakeoffMaterial> = {
+  "vinyl-plank": TAKEOFF_MATERIALS.vinylPlank,
+  "laminate": TAKEOFF_MATERIALS.laminate,
+  "engineered-hardwood": TAKEOFF_MATERIALS.engineeredHardwood,
+  "rubber": TAKEOFF_MATERIALS.rubberRoll,
+};
+
+// Floating floors go down over a foam underlayment
+const UNDERLAID_FLOORING: FlooringType[] = ["laminate", "engineered-hardwood"];
+
+/**
+ * Lengths of the interior walls drawn in the design (ft), one per run.
+ */
+export function getInteriorWallRuns(
+  design: DesignConfig,
+  catalog: Record<string, ModuleCatalogItem>
+): number[] {
+  const runs: number[] = [];
+  for (const fixture of design.fixtures) {
+    const catalogItem = catalog[fixture.catalogKey];
+    if (!catalogItem || catalogItem.category !== "interior" || !fixture.catalogKey.includes("wall")) continue;
+    runs.push((fixture.properties?.lengthOverrideFt as number) || catalogItem.footprintFt.length);
+  }
+  return runs;
+}
+
+function takeoffLine(
+  category: TakeoffCategory,
+  material: TakeoffMaterial,
+  netQuantity: number
+): TakeoffLineItem {
+  return {
+    category,
+    sku: material.sku,
+    description: material.description,
+    unit: material.unit,
+    basis: material.basis,
+    netQuantity: Math.round(netQuantity * 10) / 10,
+    wastePct: material.wastePct,
+    quantity: Math.ceil((netQuantity * (1 + material.wastePct / 100)) / material.coverage),
+  };
+}
+
+/**
+ * Purchasing quantities for the build: concrete piers, framing, insulation,
+ * wall and ceiling finish, flooring, trim, fasteners and sealants, each
+ * rounded up to whole stock units with a waste allowance. Helical piles come
+ * with the installer, so aren't listed.
+ *
+ * Exterior walls get a stud wall furred inside the steel; interior walls are
+ * framed run by run. Every window and door adds a pair of jamb studs and a
+ * length of header track.
+ */
+export function calculateTakeoff(
+  design: DesignConfig,
+  catalog: Record<string, ModuleCatalogItem>,
+  analysis: DesignAnalysis,
+  selections: BOMSelections
+): TakeoffLineItem[] {
+  const M = TAKEOFF_MATERIALS;
+  const wallRuns = getInteriorWallRuns(design, catalog);
+  const interiorWallFt = wallRuns.reduce((sum, length) => sum + length, 0);
+
+  let openingCount = 0;
+  let openingWidthFt = 0;
+  // Door widths come out of the baseboard (interior doors on both faces)
+  let doorBaseFt = 0;
+  for (const fixture of design.fixtures) {
+    const catalogItem = catalog[fixture.catalogKey];
+    const kind = getOpeningKind(fixture);
+    if (!catalogItem || !kind) continue;
+    const { widthFt } = getOpeningSpec(catalogItem);
+    openingCount++;
+    openingWidthFt += widthFt;
+    if (kind === "exterior-door") doorBaseFt += widthFt;
+    if (kind === "interior-door") doorBaseFt += 2 * widthFt;
+  }
+
+  // Framing
+  const studsForRun = (lengthFt: number) => Math.ceil(lengthFt / TAKEOFF_RATES.studSpacingFt) + 1;
+  const exteriorStuds = Math.ceil(analysis.perimeterFt / TAKEOFF_RATES.studSpacingFt) + 4 * analysis.shellCount;
+  const studs = exteriorStuds + wallRuns.reduce((sum, length) => sum + studsForRun(length), 0) + 2 * openingCount;
+  const exteriorTrackFt = 2 * analysis.perimeterFt;
+  const trackFt = exteriorTrackFt + 2 * interiorWallFt + openingWidthFt;
+
+  // Surfaces
+  const netExteriorWallSqft = Math.max(0, analysis.externalWallSqft - analysis.openingsSqft);
+  const insulationSqft = netExteriorWallSqft + analysis.roofSqft;
+  const finishSqft = netExteriorWallSqft + analysis.interiorWallSqft + analysis.floorSqft;
+  const baseboardFt = Math.max(0, analysis.perimeterFt + 2 * interiorWallFt - doorBaseFt);
+
+  const items: TakeoffLineItem[] = [];
+
+  // Concrete piers, from below the frost line to just above grade
+  const piers = selections.foundation === "piers"
+    ? planPierFoundation(design, selections.foundation, selections.deliveryZip)
+    : null;
+  if (piers) {
+    const pierFt = piers.piers.length * (piers.depthFt + TAKEOFF_RATES.pierRevealFt);
+    items.push(
+      takeoffLine("foundation", M.pierTubeForm, pierFt),
+      takeoffLine("foundation", M.concreteMix, pierFt),
+      takeoffLine("foundation", M.rebar, pierFt * TAKEOFF_RATES.rebarPerPierFt),
+      takeoffLine("foundation", M.castingAnchorPlate, piers.piers.length)
+    );
+  }
+
+  items.push(
+    takeoffLine("framing", M.steelStud, studs),
+    takeoffLine("framing", M.steelTrack, trackFt),
+    takeoffLine("insulation", INSULATION_MATERIALS[selections.insulation], insulationSqft)
+  );
+
+  if (selections.interiorFinish === "drywall") {
+    items.push(
+      takeoffLine("wall-finish", M.drywall, finishSqft),
+      takeoffLine("wall-finish", M.jointCompound, finishSqft),
+      takeoffLine("wall-finish", M.jointTape, finishSqft)
+    );
+  } else if (selections.interiorFinish === "plywood") {
+    items.push(takeoffLine("wall-finish", M.plywood, finishSqft));
+  } else {
+    items.push(takeoffLine("wall-finish", M.shiplap, finishSqft));
+  }
+
+  items.push(takeoffLine("flooring", FLOORING_MATERIALS[selections.flooring], analysis.floorSqft));
+  if (UNDERLAID_FLOORING.includes(selections.flooring)) {
+    items.push(takeoffLine("flooring", M.underlayment, analysis.floorSqft));
+  }
+
+  items.push(
+    takeoffLine("trim", M.casing, analysis.trimLinearFt),
+    takeoffLine("trim", M.baseboard, baseboardFt)
+  );
+
+  // Fasteners follow the stock counts they hold together
+  items.push(
+    takeoffLine("fasteners", M.framingScrews, studs * TAKEOFF_RATES.framingScrewsPerStud),
+    takeoffLine("fasteners", M.tekScrews, exteriorTrackFt * TAKEOFF_RATES.tekScrewsPerTrackFt)
+  );
+  if (selections.interiorFinish === "shiplap") {
+    const boards = Math.ceil(finishSqft / M.shiplap.coverage);
+    items.push(takeoffLine("fasteners", M.finishNails, boards * TAKEOFF_RATES.nailsPerBoard));
+  } else {
+    const sheets = Math.ceil(finishSqft / M.drywall.coverage);
+    items.push(takeoffLine("fasteners", M.panelScrews, sheets * TAKEOFF_RATES.panelScrewsPerSheet));
+  }
+
+  // Sealants: every cut through the steel and every seam between boxes is
+  // sealed outside; interior walls get a bead under both tracks
+  const structure = analyzeStructure(design, catalog);
+  items.push(
+    takeoffLine("sealants", M.exteriorSealant, structure.cutLinearFt + structure.join.seamLinearFt),
+    takeoffLine("sealants", M.acousticalSealant, 2 * interiorWallFt)
+  );
+
+  return items.filter((item) => item.quantity > 0);
+}
@@ -1,4 +1,12 @@
-import type { DesignConfig, ZoneConfig, FixtureConfig } from "@/types/design";
+import type {
+  DesignConfig,
+  ZoneConfig,
+  FixtureConfig,
+  ModuleCatalogItem,
+  ShellCatalogItem,
+} from "@/types/design";
+import { getFixtureFootprints } from "./clipboard";
+import { DEFAULT_SHELL_KEY, fitDesignToShell } from "./shell-catalog";
 
 export type ZoneType = "kitchen-living" | "bath-hallway" | "hallway" | "bedroom";
 export type TemplateTier = "basic" | "standard" | "ultimate";
@@ -798,9 +806,13 @@ export function calculateTotalPrice(selections: Record<ZoneType, TemplateTier |
   return total;
 }
 
-// Build a complete design from zone selections
+// Build a complete design from zone selections. Zone templates are laid out for
+// a 40' high cube; other shells get the layout stretched to fit, and with a
+// catalog the fixtures are also kept inside the shell.
 export function buildDesignFromZoneSelections(
-  selections: Record<ZoneType, TemplateTier>
+  selections: Record<ZoneType, TemplateTier>,
+  shell?: ShellCatalogItem,
+  catalog?: Record<string, ModuleCatalogItem>
 ): DesignConfig {
   // Zone order determines x positions - hallway runs parallel to bath-hallway
   const mainZoneOrder: ZoneType[] = ["kitchen-living", "bath-hallway", "bedroom"];
@@ -878,8 +890,8 @@ export function buildDesignFromZoneSelections(
     }
   }
 
-  return {
-    version: 1,
+  const design: DesignConfig = {
+    version: 2,
     shell: {
       id: "shell-40",
       lengthFt: 40,
@@ -889,5 +901,10 @@ export function buildDesignFromZoneSelections(
     zones,
     fixtures,
   };
+  if (!shell || shell.key === DEFAULT_SHELL_KEY) return design;
+  const footprints = catalog
+    ? getFixtureFootprints(design, fixtures.map((f) => f.id), catalog)
+    : undefined;
+  return fitDesignToShell(design, shell, footprints);
 }
 
@@ -0,0 +1,189 @@
+/**
+ * Heating & Cooling Loads
+ *
+ * Design-day heat loss and gain for the insulated shells, in the manner of a
+ * Manual J block load: envelope UA (area / R for walls, roof and floor,
+ * area × U for windows and doors) plus air leakage, times the difference
+ * between indoor and outdoor design temperatures for the site's climate.
+ * Cooling adds sun on the steel roof and through the glass, people and
+ * appliances, and an allowance for humidity.
+ *
+ * The larger load sizes a ductless mini-split; where summers never need
+ * cooling, electric wall heaters instead.
+ */
+
+import type { DesignConfig, ModuleCatalogItem } from "@/types/design";
+import type {
+  DesignAnalysis,
+  HvacEquipment,
+  HvacPrices,
+  InsulationThermal,
+  InsulationType,
+  ThermalConductance,
+  ThermalLoadResult,
+} from "@/types/bom";
+import { HOME_CLIMATE, getClimateZone } from "./climate";
+import { getPlacedShells } from "./composition";
+import { getOpeningKind, getOpeningSpec } from "./openings";
+
+// Effective assembly values, matching the takeoff materials: R-13 batts lose
+// some to the studs, 3" open-cell foam seals the skin, 2" XPS has taped seams
+export const INSULATION_THERMAL: Record<InsulationType, InsulationThermal> = {
+  "fiberglass-batts": { rValue: 11, airChangesPerHour: 0.6 },
+  "spray-foam": { rValue: 11, airChangesPerHour: 0.3 },
+  "rigid-board": { rValue: 10, airChangesPerHour: 0.45 },
+};
+
+// Double-pane low-E windows and insulated steel doors, for catalog entries
+// without their own U-factor
+export const DEFAULT_WINDOW_U_FACTOR = 0.3;
+export const DEFAULT_DOOR_U_FACTOR = 0.35;
+
+const INDOOR_HEATING_F = 70;
+const INDOOR_COOLING_F = 75;
+// Heat capacity of air: BTU/h per (cu ft/h · °F), per air change
+const AIR_HEAT_CAPACITY = 0.018;
+// Sun on a bare steel roof raises its outside surface well over air temperature
+const ROOF_SOLAR_DELTA_F = 35;
+// Peak solar gain per sqft of low-E glass (mixed orientations)
+const WINDOW_SOLAR_BTU_PER_SQFT = 40;
+// Two occupants plus lighting and plug loads
+const INTERNAL_GAINS_BTU = 1600;
+// Latent (moisture) load on top of sensible cooling
+const LATENT_FACTOR = 1.3;
+
+// Single-zone ductless sizes; bigger loads take several of the largest
+const MINI_SPLIT_SIZES_BTU = [9000, 12000, 18000, 24000, 36000];
+// Cold-climate heat pumps hold full output down to about -13°F
+const MINI_SPLIT_MIN_OUTDOOR_F = -13;
+// Below this cooling design temperature there's no need for AC
+const COOLING_MIN_DESIGN_F = 80;
+// Input at design conditions: cooling EER and heating COP at the low end
+const MINI_SPLIT_EER = 11;
+const MINI_SPLIT_HEATING_COP = 2;
+const BTU_PER_WATT = 3.412;
+
+function conductance(label: string, areaSqft: number, uaBtuPerHrF: number): ThermalConductance {
+  return { label, areaSqft: Math.round(areaSqft), uaBtuPerHrF: Math.round(uaBtuPerHrF * 10) / 10 };
+}
+
+function sizeEquipment(
+  heatingBtuPerHr: number,
+  coolingBtuPerHr: number,
+  heatingDesignF: number,
+  coolingDesignF: number,
+  prices: HvacPrices
+): HvacEquipment[] {
+  const heater = (label: string): HvacEquipment => {
+    const kw = Math.max(1, Math.ceil(heatingBtuPerHr / (BTU_PER_WATT * 1000)));
+    return {
+      kind: "electric-heater",
+      label: `${kw} kW ${label}`,
+      quantity: 1,
+      capacityBtuPerHr: Math.round(kw * 1000 * BTU_PER_WATT),
+      watts: kw * 1000,
+      costCents: kw * prices.heaterCentsPerKw,
+    };
+  };
+
+  if (coolingDesignF < COOLING_MIN_DESIGN_F) {
+    return [heater("electric wall heaters")];
+  }
+
+  const requiredBtu = Math.max(heatingBtuPerHr, coolingBtuPerHr);
+  const largest = MINI_SPLIT_SIZES_BTU[MINI_SPLIT_SIZES_BTU.length - 1];
+  const size = MINI_SPLIT_SIZES_BTU.find((btu) => btu >= requiredBtu) ?? largest;
+  const quantity = Math.max(1, Math.ceil(requiredBtu / size));
+  const wattsEach = Math.max(size / MINI_SPLIT_EER, size / (BTU_PER_WATT * MINI_SPLIT_HEATING_COP));
+
+  const equipment: HvacEquipment[] = [
+    {
+      kind: "mini-split",
+      label: `${size.toLocaleString("en-US")} BTU/h ductless mini-split`,
+      quantity,
+      capacityBtuPerHr: size,
+      watts: Math.round(wattsEach * quantity),
+      costCents: quantity * (prices.miniSplitBaseCents + Math.round((size / 1000) * prices.miniSplitCentsPerKBtu)),
+    },
+  ];
+  // Too cold for the heat pump alone on the design day
+  if (heatingDesignF < MINI_SPLIT_MIN_OUTDOOR_F) {
+    equipment.push(heater("backup wall heaters"));
+  }
+  return equipment;
+}
+
+/**
+ * Design heating and cooling loads (BTU/h) for the delivery ZIP's climate,
+ * and the equipment to meet them. Unplaced ZIPs use the shop's climate.
+ */
+export function calculateThermalLoads(
+  design: DesignConfig,
+  catalog: Record<string, ModuleCatalogItem>,
+  analysis: DesignAnalysis,
+  insulation: InsulationType,
+  deliveryZip: string,
+  prices: HvacPrices
+): ThermalLoadResult {
+  const zoneClimate = getClimateZone(deliveryZip);
+  const climate = zoneClimate ?? HOME_CLIMATE;
+  const { rValue, airChangesPerHour } = INSULATION_THERMAL[insulation];
+
+  const placed = getPlacedShells(design);
+  const volumeCuFt = placed.reduce((sum, { shell }) => sum + shell.lengthFt * shell.widthFt * shell.heightFt, 0);
+  // Only the bottom level's floors face the outside
+  const groundFloorSqft = placed
+    .filter((p) => p.level === 0)
+    .reduce((sum, { shell }) => sum + shell.lengthFt * shell.widthFt, 0);
+
+  let windowUA = 0;
+  let doorUA = 0;
+  let doorSqft = 0;
+  for (const fixture of design.fixtures) {
+    const catalogItem = catalog[fixture.catalogKey];
+    const kind = getOpeningKind(fixture);
+    if (!catalogItem || (kind !== "window" && kind !== "exterior-door")) continue;
+    const spec = getOpeningSpec(catalogItem);
+    const areaSqft = spec.widthFt * spec.heightFt;
+    if (kind === "window") {
+      windowUA += areaSqft * (spec.uFactor ?? DEFAULT_WINDOW_U_FACTOR);
+    } else {
+      doorSqft += areaSqft;
+      doorUA += areaSqft * (spec.uFactor ?? DEFAULT_DOOR_U_FACTOR);
+    }
+  }
+
+  const netWallSqft = Math.max(0, analysis.externalWallSqft - analysis.openingsSqft);
+  const walls = conductance("Walls", netWallSqft, netWallSqft / rValue);
+  const roof = conductance("Roof", analysis.roofSqft, analysis.roofSqft / rValue);
+  const floor = conductance("Floor", groundFloorSqft, groundFloorSqft / rValue);
+  const windows = conductance("Windows", analysis.windowSqft, windowUA);
+  const doors = conductance("Exterior doors", doorSqft, doorUA);
+  const infiltration = conductance(
+    `Air leakage (${airChangesPerHour} ACH)`,
+    0,
+    AIR_HEAT_CAPACITY * volumeCuFt * airChangesPerHour
+  );
+  const paths = [walls, roof, floor, windows, doors, infiltration];
+  const totalUA = paths.reduce((sum, path) => sum + path.uaBtuPerHrF, 0);
+
+  const heatingBtuPerHr = Math.max(0, Math.round(totalUA * (INDOOR_HEATING_F - climate.heatingDesignF)));
+
+  const coolingDeltaF = climate.coolingDesignF - INDOOR_COOLING_F;
+  const sensibleBtu =
+    (totalUA - roof.uaBtuPerHrF) * coolingDeltaF +
+    roof.uaBtuPerHrF * (coolingDeltaF + ROOF_SOLAR_DELTA_F) +
+    analysis.windowSqft * WINDOW_SOLAR_BTU_PER_SQFT +
+    INTERNAL_GAINS_BTU;
+  const coolingBtuPerHr = Math.max(0, Math.round(sensibleBtu * LATENT_FACTOR));
+
+  return {
+    climate,
+    isDefaultClimate: zoneClimate === null,
+    insulationRValue: rValue,
+    conductance: paths.filter((path) => path.uaBtuPerHrF > 0),
+    heatingBtuPerHr,
+    coolingBtuPerHr,
+    equipment: sizeEquipment(heatingBtuPerHr, coolingBtuPerHr, climate.heatingDesignF, climate.coolingDesignF, prices),
+  };
+}
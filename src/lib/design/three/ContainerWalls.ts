@@ -1,16 +1,18 @@
 /**
- * ContainerWalls - Renders solid container walls with windows
+ * ContainerWalls - Renders solid container walls with window and door cut-outs
  * Creates 3 solid walls (back, left, right) with the front open for viewing
  */
 
 import * as THREE from "three";
 import { ENVIRONMENT_COLORS, ftToUnits } from "./constants";
-import type { FixtureConfig, ModuleCatalogItem } from "@/types/design";
+import type { CorrugationProfile } from "@/types/design";
 
 type ShellDimensions = {
   lengthFt: number;
   widthFt: number;
   heightFt: number;
+  // Flat walls when omitted
+  corrugation?: CorrugationProfile;
 };
 
 export type WallSide = "front" | "back" | "left" | "right";
@@ -22,32 +24,34 @@ export type WindowOpening = {
   heightFt: number;
 };
 
+export type WallOpening = WindowOpening & { side: WallSide };
+
+// An opening in a wall's local frame (scene units)
+type WallCutout = { x0: number; x1: number; y0: number; y1: number };
+
 /**
  * ContainerWallsRenderer manages the solid container walls
  */
 export class ContainerWallsRenderer {
   private wallGroup: THREE.Group;
   private walls: Map<WallSide, THREE.Mesh> = new Map();
-  private windowFrames: THREE.Group;
   private openSides: Set<WallSide> = new Set(["front"]);
   private floor: THREE.Mesh | null = null;
   
   constructor(wallGroup: THREE.Group) {
     this.wallGroup = wallGroup;
-    this.windowFrames = new THREE.Group();
-    this.windowFrames.name = "WindowFrames";
-    this.wallGroup.add(this.windowFrames);
   }
   
   /**
    * Render container walls
+   * @param openings - Window and door cut-outs, positioned along each wall from
+   *                   its left end (front/back) or back end (left/right)
    * @param openSides - Can be a single side or array of sides to leave open
    *                    Default is ["front", "right"] for good camera visibility
    */
   render(
     shell: ShellDimensions,
-    fixtures: FixtureConfig[],
-    catalog: Record<string, ModuleCatalogItem>,
+    openings: WallOpening[],
     openSides: WallSide | WallSide[] = ["front", "right"]
   ): void {
     this.clear();
@@ -64,27 +68,17 @@ export class ContainerWallsRenderer {
     this.floor = this.createFloor(lengthUnits, widthUnits, floorY);
     this.wallGroup.add(this.floor);
     
-    // Find window/door fixtures
-    const windows = this.findWindowOpenings(fixtures, catalog, shell);
-    
-    // Create walls and window frames
+    // Create walls with cut-outs; window and door fixtures draw their own frames
     const sides: WallSide[] = ["front", "back", "left", "right"];
     
     for (const side of sides) {
-      const sideWindows = windows.filter(w => w.side === side);
-      
       // Only create solid wall if not an open side
       if (!this.openSides.has(side)) {
-        const wall = this.createWall(side, lengthUnits, widthUnits, heightUnits, floorY, sideWindows);
+        const sideOpenings = openings.filter(o => o.side === side);
+        const wall = this.createWall(side, lengthUnits, widthUnits, heightUnits, floorY, sideOpenings, shell.corrugation);
         this.walls.set(side, wall);
         this.wallGroup.add(wall);
       }
-      
-      // Always render window frames (even on open walls)
-      for (const win of sideWindows) {
-        const frame = this.createWindowFrame(side, win, lengthUnits, widthUnits, heightUnits, floorY);
-        this.windowFrames.add(frame);
-      }
     }
   }
   
@@ -103,6 +97,10 @@ export class ContainerWallsRenderer {
     this.walls.forEach((wall) => {
       this.wallGroup.remove(wall);
       wall.geometry.dispose();
+      // Corrugation ribs share the wall's materials
+      wall.children.forEach((child) => {
+        if (child instanceof THREE.Mesh) child.geometry.dispose();
+      });
       if (Array.isArray(wall.material)) {
         wall.material.forEach(m => m.dispose());
       } else {
@@ -110,19 +108,6 @@ export class ContainerWallsRenderer {
       }
     });
     this.walls.clear();
-    
-    // Clear window frames
-    this.windowFrames.traverse((child) => {
-      if (child instanceof THREE.Mesh) {
-        child.geometry?.dispose();
-        if (Array.isArray(child.material)) {
-          child.material.forEach(m => m.dispose());
-        } else {
-          (child.material as THREE.Material)?.dispose();
-        }
-      }
-    });
-    this.windowFrames.clear();
   }
   
   /**
@@ -133,22 +118,7 @@ export class ContainerWallsRenderer {
   }
   
   /**
-   * Find door openings from fixtures (for wall cutouts)
-   * Note: Windows are now rendered as floating fixtures and are not attached to walls
-   */
-  private findWindowOpenings(
-    _fixtures: FixtureConfig[],
-    _catalog: Record<string, ModuleCatalogItem>,
-    _shell: ShellDimensions
-  ): Array<WindowOpening & { side: WallSide }> {
-    // Windows are now floating fixtures - they no longer auto-attach to walls
-    // This function now returns empty array since windows render their own geometry
-    // Door openings could be added here in the future if needed
-    return [];
-  }
-  
-  /**
-   * Create a wall with optional window cutouts
+   * Create a wall with window and door cutouts
    */
   private createWall(
     side: WallSide,
@@ -156,7 +126,8 @@ export class ContainerWallsRenderer {
     widthUnits: number,
     heightUnits: number,
     floorY: number,
-    windows: WindowOpening[]
+    openings: WindowOpening[],
+    corrugation?: CorrugationProfile
   ): THREE.Mesh {
     const wallThickness = 0.1;
     
@@ -191,8 +162,24 @@ export class ContainerWallsRenderer {
         break;
     }
     
-    // Create wall geometry (simple box for now, could add window cutouts via CSG later)
-    const geometry = new THREE.BoxGeometry(wallWidth, heightUnits, wallDepth);
+    // Openings as rectangles in the wall's local X/Y (Y from the wall's center).
+    // Side walls are turned 90°, so their local X runs front to back.
+    const cutouts: WallCutout[] = openings.map((opening) => {
+      const along = ftToUnits(opening.xFt);
+      const width = ftToUnits(opening.widthFt);
+      const x0 = side === "left" || side === "right" ? wallWidth / 2 - along - width : -wallWidth / 2 + along;
+      const y0 = -heightUnits / 2 + ftToUnits(opening.yFt);
+      return {
+        x0: Math.max(x0, -wallWidth / 2),
+        x1: Math.min(x0 + width, wallWidth / 2),
+        y0: Math.max(y0, -heightUnits / 2),
+        y1: Math.min(y0 + ftToUnits(opening.heightFt), heightUnits / 2),
+      };
+    }).filter((c) => c.x1 > c.x0 && c.y1 > c.y0);
+    
+    const geometry = cutouts.length > 0
+      ? this.createCutWallGeometry(wallWidth, heightUnits, wallDepth, cutouts)
+      : new THREE.BoxGeometry(wallWidth, heightUnits, wallDepth);
     
     // Create corrugated metal material for exterior
     const exteriorMaterial = new THREE.MeshStandardMaterial({
@@ -242,9 +229,110 @@ export class ContainerWallsRenderer {
     wall.receiveShadow = true;
     wall.name = `Wall_${side}`;
     
+    if (corrugation) {
+      wall.add(this.createCorrugation(side, wallWidth, heightUnits, wallThickness, exteriorMaterial, corrugation, cutouts));
+    }
+    
     return wall;
   }
   
+  /**
+   * Build a wall with rectangular holes out of solid boxes: full-height piers
+   * between openings, plus the panels above and below each one. The boxes keep
+   * their per-face material groups so the interior/exterior split still applies.
+   */
+  private createCutWallGeometry(
+    wallWidth: number,
+    heightUnits: number,
+    wallDepth: number,
+    cutouts: WallCutout[]
+  ): THREE.BufferGeometry {
+    const top = heightUnits / 2;
+    const bottom = -heightUnits / 2;
+    const pieces: WallCutout[] = [];
+    let cursor = -wallWidth / 2;
+    
+    for (const cut of [...cutouts].sort((a, b) => a.x0 - b.x0)) {
+      const x0 = Math.max(cut.x0, cursor);
+      if (cut.x1 <= x0) continue;
+      if (x0 > cursor) pieces.push({ x0: cursor, x1: x0, y0: bottom, y1: top });
+      if (cut.y0 > bottom) pieces.push({ x0, x1: cut.x1, y0: bottom, y1: cut.y0 });
+      if (cut.y1 < top) pieces.push({ x0, x1: cut.x1, y0: cut.y1, y1: top });
+      cursor = cut.x1;
+    }
+    if (cursor < wallWidth / 2) pieces.push({ x0: cursor, x1: wallWidth / 2, y0: bottom, y1: top });
+    
+    const positions: number[] = [];
+    const normals: number[] = [];
+    const uvs: number[] = [];
+    const indices: number[] = [];
+    const geometry = new THREE.BufferGeometry();
+    
+    for (const piece of pieces) {
+      const box = new THREE.BoxGeometry(piece.x1 - piece.x0, piece.y1 - piece.y0, wallDepth);
+      box.translate((piece.x0 + piece.x1) / 2, (piece.y0 + piece.y1) / 2, 0);
+      const vertexOffset = positions.length / 3;
+      const indexStart = indices.length;
+      positions.push(...box.attributes.position.array);
+      normals.push(...box.attributes.normal.array);
+      uvs.push(...box.attributes.uv.array);
+      box.index?.array.forEach((i) => indices.push(i + vertexOffset));
+      for (const group of box.groups) {
+        geometry.addGroup(indexStart + group.start, group.count, group.materialIndex);
+      }
+      box.dispose();
+    }
+    
+    geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setAttribute("normal", new THREE.Float32BufferAttribute(normals, 3));
+    geometry.setAttribute("uv", new THREE.Float32BufferAttribute(uvs, 2));
+    geometry.setIndex(indices);
+    return geometry;
+  }
+  
+  /**
+   * Create the vertical ribs on a wall's exterior face, one per corrugation pitch
+   */
+  private createCorrugation(
+    side: WallSide,
+    wallWidth: number,
+    heightUnits: number,
+    wallThickness: number,
+    material: THREE.Material,
+    profile: CorrugationProfile,
+    cutouts: WallCutout[] = []
+  ): THREE.InstancedMesh {
+    const pitch = ftToUnits(profile.pitchIn / 12);
+    const depth = ftToUnits(profile.depthIn / 12);
+    const total = Math.max(0, Math.floor(wallWidth / pitch));
+    
+    // Ribs that would cross an opening are left off
+    const start = -((total - 1) * pitch) / 2;
+    const ribXs: number[] = [];
+    for (let i = 0; i < total; i++) {
+      const x = start + i * pitch;
+      if (!cutouts.some((c) => x + pitch / 4 > c.x0 && x - pitch / 4 < c.x1)) ribXs.push(x);
+    }
+    
+    // Each rib covers half a pitch and stops short of the top and bottom rails
+    const geometry = new THREE.BoxGeometry(pitch / 2, heightUnits * 0.92, depth);
+    const ribs = new THREE.InstancedMesh(geometry, material, ribXs.length);
+    
+    // Same face convention as the wall materials: local +Z is the exterior
+    // for front/right walls, -Z for back/left
+    const outward = side === "front" || side === "right" ? 1 : -1;
+    const matrix = new THREE.Matrix4();
+    ribXs.forEach((x, i) => {
+      matrix.makeTranslation(x, 0, (outward * (wallThickness + depth)) / 2);
+      ribs.setMatrixAt(i, matrix);
+    });
+    
+    ribs.castShadow = true;
+    ribs.receiveShadow = true;
+    ribs.name = `Corrugation_${side}`;
+    return ribs;
+  }
+  
   /**
    * Create a wood floor for the container interior
    */
@@ -274,120 +362,6 @@ export class ContainerWallsRenderer {
     return floor;
   }
   
-  /**
-   * Create a window frame with glass
-   */
-  private createWindowFrame(
-    side: WallSide,
-    opening: WindowOpening,
-    lengthUnits: number,
-    widthUnits: number,
-    heightUnits: number,
-    floorY: number
-  ): THREE.Group {
-    const frame = new THREE.Group();
-    frame.name = `WindowFrame_${side}`;
-    
-    const frameWidth = ftToUnits(opening.widthFt);
-    const frameHeight = ftToUnits(opening.heightFt);
-    const frameDepth = 0.15;
-    const frameThickness = 0.05;
-    
-    // Calculate position based on wall side
-    let x: number, y: number, z: number;
-    let rotationY = 0;
-    
-    const posAlongWall = ftToUnits(opening.xFt);
-    const posHeight = floorY + ftToUnits(opening.yFt) + frameHeight / 2;
-    
-    switch (side) {
-      case "front":
-        x = -lengthUnits / 2 + posAlongWall + frameWidth / 2;
-        y = posHeight;
-        z = widthUnits / 2;
-        break;
-      case "back":
-        x = -lengthUnits / 2 + posAlongWall + frameWidth / 2;
-        y = posHeight;
-        z = -widthUnits / 2;
-        break;
-      case "left":
-        x = -lengthUnits / 2;
-        y = posHeight;
-        z = -widthUnits / 2 + posAlongWall + frameWidth / 2;
-        rotationY = Math.PI / 2;
-        break;
-      case "right":
-        x = lengthUnits / 2;
-        y = posHeight;
-        z = -widthUnits / 2 + posAlongWall + frameWidth / 2;
-        rotationY = Math.PI / 2;
-        break;
-    }
-    
-    frame.position.set(x, y, z);
-    frame.rotation.y = rotationY;
-    
-    // Frame material
-    const frameMaterial = new THREE.MeshStandardMaterial({
-      color: ENVIRONMENT_COLORS.WINDOW_FRAME,
-      roughness: 0.5,
-      metalness: 0.0,
-    });
-    
-    // Glass material
-    const glassMaterial = new THREE.MeshStandardMaterial({
-      color: ENVIRONMENT_COLORS.WINDOW_GLASS,
-      transparent: true,
-      opacity: 0.3,
-      roughness: 0.1,
-      metalness: 0.1,
-      side: THREE.DoubleSide,
-    });
-    
-    // Create frame pieces (4 sides)
-    // Top
-    const topFrame = new THREE.Mesh(
-      new THREE.BoxGeometry(frameWidth, frameThickness, frameDepth),
-      frameMaterial
-    );
-    topFrame.position.y = frameHeight / 2 - frameThickness / 2;
-    frame.add(topFrame);
-    
-    // Bottom
-    const bottomFrame = new THREE.Mesh(
-      new THREE.BoxGeometry(frameWidth, frameThickness, frameDepth),
-      frameMaterial
-    );
-    bottomFrame.position.y = -frameHeight / 2 + frameThickness / 2;
-    frame.add(bottomFrame);
-    
-    // Left
-    const leftFrame = new THREE.Mesh(
-      new THREE.BoxGeometry(frameThickness, frameHeight, frameDepth),
-      frameMaterial
-    );
-    leftFrame.position.x = -frameWidth / 2 + frameThickness / 2;
-    frame.add(leftFrame);
-    
-    // Right
-    const rightFrame = new THREE.Mesh(
-      new THREE.BoxGeometry(frameThickness, frameHeight, frameDepth),
-      frameMaterial
-    );
-    rightFrame.position.x = frameWidth / 2 - frameThickness / 2;
-    frame.add(rightFrame);
-    
-    // Glass pane
-    const glass = new THREE.Mesh(
-      new THREE.PlaneGeometry(frameWidth - frameThickness * 2, frameHeight - frameThickness * 2),
-      glassMaterial
-    );
-    frame.add(glass);
-    
-    return frame;
-  }
-  
   /**
    * Set which side is open (for camera viewing)
    */
@@ -6,6 +6,8 @@
 import * as THREE from "three";
 import type { FixtureConfig, ModuleCatalogItem } from "@/types/design";
 import { rectFromFixture } from "@/lib/design/geometry";
+import { getFixtureLevel } from "@/lib/design/composition";
+import { getOpeningKind, getOpeningSpec } from "@/lib/design/openings";
 import { modelCache } from "./ModelCache";
 import {
   COLORS,
@@ -43,7 +45,7 @@ type RenderedFixture = {
  */
 function fixtureHash(fixture: FixtureConfig, isSelected: boolean): string {
   const props = fixture.properties as { lengthOverrideFt?: number; widthOverrideFt?: number; material?: string; transparent3D?: boolean } | undefined;
-  return `${fixture.xFt}:${fixture.yFt}:${fixture.rotationDeg}:${fixture.catalogKey}:${isSelected}:${props?.lengthOverrideFt ?? ''}:${props?.widthOverrideFt ?? ''}:${props?.material ?? ''}:${props?.transparent3D ?? ''}`;
+  return `${fixture.xFt}:${fixture.yFt}:${fixture.rotationDeg}:${fixture.mirrorX ?? ''}:${fixture.mirrorY ?? ''}:${fixture.catalogKey}:${isSelected}:${props?.lengthOverrideFt ?? ''}:${props?.widthOverrideFt ?? ''}:${props?.material ?? ''}:${props?.transparent3D ?? ''}:${fixture.level ?? 0}`;
 }
 
 /**
@@ -293,7 +295,7 @@ export class FixtureRenderer {
     // 2D origin is bottom-left; 3D origin is center
     const xPos = -lengthUnits / 2 + (rect.x + rect.width / 2) * ftToUnits(1) / ftToUnits(1) * ftToUnits(1);
     const zPos = -widthUnits / 2 + (rect.y + rect.height / 2) * ftToUnits(1) / ftToUnits(1) * ftToUnits(1);
-    const yPos = -heightUnits / 2; // Floor level
+    const yPos = -heightUnits / 2 + getFixtureLevel(fixture) * heightUnits; // Floor of the fixture's storey
 
     // Simplified position calculation
     const xPosFinal = -lengthUnits / 2 + ftToUnits(rect.x + rect.width / 2);
@@ -301,6 +303,8 @@ export class FixtureRenderer {
 
     object.position.set(xPosFinal, yPos, zPosFinal);
     object.rotation.y = -THREE.MathUtils.degToRad(fixture.rotationDeg || 0);
+    // Mirror in the fixture's own frame: width runs along X, length along Z
+    object.scale.set(fixture.mirrorX ? -1 : 1, 1, fixture.mirrorY ? -1 : 1);
   }
 
   private createFixtureGroup(
@@ -335,7 +339,11 @@ export class FixtureRenderer {
     // Use shell height for walls and vestibule so they extend floor to ceiling
     const isWall = catalogItem.key.includes('wall') || catalogItem.key.includes('vestibule');
     const isWindow = catalogItem.key.includes('window');
-    const heightFt = isWall ? this.config.shellHeightFt : getFixtureHeightFt(catalogItem.category);
+    // Windows and doors take their height and sill from the catalog opening
+    const opening = getOpeningKind(fixture) ? getOpeningSpec(catalogItem) : undefined;
+    const heightFt = isWall
+      ? this.config.shellHeightFt
+      : opening?.heightFt ?? getFixtureHeightFt(catalogItem.category);
 
     log(`[FixtureRenderer] Creating ${fixture.catalogKey} - Size: ${footprintWidth.toFixed(2)}x${heightFt.toFixed(2)}x${footprintLength.toFixed(2)} ft`);
 
@@ -344,12 +352,9 @@ export class FixtureRenderer {
     const hitBoxWidth = ftToUnits(footprintWidth);
     const hitBoxLength = ftToUnits(footprintLength);
     
-    // Windows have their geometry elevated to sill height (4ft) with a 3-4ft tall frame
-    // Calculate hitbox height and position accordingly
-    const windowSillHeight = 4; // Standard window sill height in feet
-    const windowFrameHeight = footprintLength <= 2 ? 3 : 4; // 3ft for 24x36, 4ft for 36x48
-    const hitBoxHeight = isWindow ? ftToUnits(windowFrameHeight) : ftToUnits(heightFt);
-    const hitBoxYOffset = isWindow ? ftToUnits(windowSillHeight) + hitBoxHeight / 2 : hitBoxHeight / 2;
+    // Windows have their geometry elevated to the sill, so the hitbox is too
+    const hitBoxHeight = ftToUnits(heightFt);
+    const hitBoxYOffset = ftToUnits(opening?.sillFt ?? 0) + hitBoxHeight / 2;
     
     // Add some padding to make selection even easier
     const hitPadding = ftToUnits(INTERACTION_SETTINGS.HIT_AREA_PADDING_FT);
@@ -376,7 +381,12 @@ export class FixtureRenderer {
     
     // Create detailed fixture geometry
     // Pass fixture properties for wall-specific customization
-    const fixtureGeometry = geometryCreator(footprintWidth, footprintLength, heightFt, fixture.properties);
+    const fixtureGeometry = geometryCreator(
+      footprintWidth,
+      footprintLength,
+      heightFt,
+      opening ? { ...fixture.properties, sillFt: opening.sillFt } : fixture.properties
+    );
     
     // Apply selection styling to all meshes in the geometry
     if (isSelected) {
@@ -4,6 +4,7 @@
  */
 
 import * as THREE from "three";
+import { rotatedBoundsSize } from "@/lib/design/geometry";
 import {
   COLORS,
   INTERACTION_SETTINGS,
@@ -19,11 +20,22 @@ export type DragState = {
   offset: THREE.Vector3;
 };
 
+// Fixtures dragged together with the picked one (its group) and their
+// combined floor footprint in feet
+export type DragGroup = {
+  fixtureIds: string[];
+  boundsFt: { x: number; y: number; width: number; height: number };
+};
+
 export type FloorPlaneDragCallbacks = {
   onDragStart?: (fixtureId: string) => void;
   onDragMove?: (fixtureId: string, positionFt: { x: number; y: number }) => void;
   onDragEnd?: (fixtureId: string, positionFt: { x: number; y: number }) => void;
   canDrag?: (fixtureId: string) => boolean;
+  // Returns the group to move along with a fixture, or null to drag it alone
+  getDragGroup?: (fixtureId: string) => DragGroup | null;
+  // Called instead of onDragEnd when a group was dragged
+  onGroupDragEnd?: (fixtureIds: string[], deltaFt: { x: number; y: number }) => void;
 };
 
 /**
@@ -61,6 +73,10 @@ export class FloorPlaneDragController {
   private draggedFixtureSizeFt: { widthFt: number; lengthFt: number } = { widthFt: 0, lengthFt: 0 };
   // Footprint anchor for proper clamping ("center" or "front-left")
   private draggedFixtureAnchor: string = "center";
+
+  // Group members moving with the dragged fixture, with their start positions
+  private dragGroup: DragGroup | null = null;
+  private groupObjects: { object: THREE.Object3D; start: THREE.Vector3 }[] = [];
   
   // Callbacks
   private callbacks: FloorPlaneDragCallbacks = {};
@@ -170,6 +186,7 @@ export class FloorPlaneDragController {
     this.dragState.startPosition.copy(fixtureObject.position);
     this.dragState.currentPosition.copy(fixtureObject.position);
     this.draggedObject = fixtureObject;
+    this.beginGroupDrag(fixtureId);
 
     // Get fixture footprint dimensions and anchor from userData (set by FixtureRenderer)
     const userData = fixtureObject.userData as { 
@@ -181,14 +198,10 @@ export class FloorPlaneDragController {
     const baseLength = userData.footprintLengthFt ?? 1;
     this.draggedFixtureAnchor = userData.footprintAnchor ?? "center";
     
-    // Check if fixture is rotated 90 or 270 degrees - if so, swap width/length
-    const rotationDeg = Math.round(THREE.MathUtils.radToDeg(-fixtureObject.rotation.y)) % 360;
-    const isRotated90or270 = rotationDeg === 90 || rotationDeg === 270 || 
-                             rotationDeg === -90 || rotationDeg === -270;
-    
-    this.draggedFixtureSizeFt = isRotated90or270
-      ? { widthFt: baseLength, lengthFt: baseWidth }
-      : { widthFt: baseWidth, lengthFt: baseLength };
+    // Clamp with the rotated footprint's bounding box (width/length swap at 90/270)
+    const rotationDeg = THREE.MathUtils.radToDeg(-fixtureObject.rotation.y);
+    const bounds = rotatedBoundsSize(baseWidth, baseLength, Math.round(rotationDeg * 1000) / 1000);
+    this.draggedFixtureSizeFt = { widthFt: bounds.width, lengthFt: bounds.height };
 
     // Show snap grid
     this.snapGridGroup.visible = true;
@@ -308,6 +321,30 @@ export class FloorPlaneDragController {
     this.snapGridGroup.add(this.snapPoints);
   }
 
+  private beginGroupDrag(fixtureId: string): void {
+    this.dragGroup = this.callbacks.getDragGroup?.(fixtureId) ?? null;
+    this.groupObjects = [];
+    if (!this.dragGroup) return;
+    for (const id of this.dragGroup.fixtureIds) {
+      if (id === fixtureId) continue;
+      const object = this.findFixtureObject(id);
+      if (object) this.groupObjects.push({ object, start: object.position.clone() });
+    }
+  }
+
+  /**
+   * Clamps a drag offset (feet) so the dragged group's footprint stays in the shell
+   */
+  private clampGroupDelta(deltaFt: { x: number; y: number }): { x: number; y: number } {
+    if (!this.dragGroup) return deltaFt;
+    const { lengthFt, widthFt } = this.shellBounds;
+    const { x, y, width, height } = this.dragGroup.boundsFt;
+    return {
+      x: Math.max(-x, Math.min(lengthFt - x - width, deltaFt.x)),
+      y: Math.max(-y, Math.min(widthFt - y - height, deltaFt.y)),
+    };
+  }
+
   private updateMousePosition(event: PointerEvent): void {
     const rect = this.domElement.getBoundingClientRect();
     this.mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
@@ -408,6 +445,7 @@ export class FloorPlaneDragController {
       this.dragState.startPosition.copy(hit.object.position);
       this.dragState.currentPosition.copy(hit.object.position);
       this.draggedObject = hit.object;
+      this.beginGroupDrag(hit.fixtureId);
 
       // Get fixture footprint dimensions and anchor from userData (set by FixtureRenderer)
       // This uses the actual catalog footprint, not the visual bounding box
@@ -420,15 +458,11 @@ export class FloorPlaneDragController {
       const baseLength = userData.footprintLengthFt ?? 1;
       this.draggedFixtureAnchor = userData.footprintAnchor ?? "center";
       
-      // Check if fixture is rotated 90 or 270 degrees - if so, swap width/length
-      // Rotation is stored in radians, so 90° = π/2, 270° = 3π/2
-      const rotationDeg = Math.round(THREE.MathUtils.radToDeg(-hit.object.rotation.y)) % 360;
-      const isRotated90or270 = rotationDeg === 90 || rotationDeg === 270 || 
-                               rotationDeg === -90 || rotationDeg === -270;
-      
-      this.draggedFixtureSizeFt = isRotated90or270
-        ? { widthFt: baseLength, lengthFt: baseWidth }  // Swap dimensions
-        : { widthFt: baseWidth, lengthFt: baseLength }; // Keep as-is
+      // Clamp with the rotated footprint's bounding box (width/length swap at 90/270)
+      // Rotation is stored in radians, so round off float noise before converting
+      const rotationDeg = THREE.MathUtils.radToDeg(-hit.object.rotation.y);
+      const bounds = rotatedBoundsSize(baseWidth, baseLength, Math.round(rotationDeg * 1000) / 1000);
+      this.draggedFixtureSizeFt = { widthFt: bounds.width, lengthFt: bounds.height };
 
       // Show snap grid
       this.snapGridGroup.visible = true;
@@ -481,13 +515,27 @@ export class FloorPlaneDragController {
       };
     }
     
-    const clampedCenterFt = this.clampToShell(snappedCenterFt.x, snappedCenterFt.y);
+    let clampedCenterFt = this.clampToShell(snappedCenterFt.x, snappedCenterFt.y);
 
     // Convert back to scene coordinates for visual feedback
     const { lengthFt: shellLengthFt, widthFt: shellWidthFt } = this.shellBounds;
     const lengthUnits = ftToUnits(shellLengthFt);
     const widthUnits = ftToUnits(shellWidthFt);
 
+    if (this.dragGroup) {
+      // Move the whole group by the dragged fixture's offset
+      const startFt = this.sceneToFloorFt(this.dragState.startPosition);
+      const deltaFt = this.clampGroupDelta({
+        x: clampedCenterFt.x - startFt.x,
+        y: clampedCenterFt.y - startFt.y,
+      });
+      clampedCenterFt = { x: startFt.x + deltaFt.x, y: startFt.y + deltaFt.y };
+      for (const { object, start } of this.groupObjects) {
+        object.position.x = start.x + ftToUnits(deltaFt.x);
+        object.position.z = start.z + ftToUnits(deltaFt.y);
+      }
+    }
+
     this.draggedObject.position.x = -lengthUnits / 2 + ftToUnits(clampedCenterFt.x);
     this.draggedObject.position.z = -widthUnits / 2 + ftToUnits(clampedCenterFt.y);
 
@@ -504,6 +552,25 @@ export class FloorPlaneDragController {
 
     const fixtureId = this.dragState.fixtureId!;
     const centerFt = this.sceneToFloorFt(this.dragState.currentPosition);
+
+    if (this.dragGroup) {
+      // Positions were snapped and clamped while moving; report the group's offset
+      const startFt = this.sceneToFloorFt(this.dragState.startPosition);
+      const group = this.dragGroup;
+      this.dragGroup = null;
+      this.groupObjects = [];
+      this.snapGridGroup.visible = false;
+      this.domElement.style.cursor = "";
+      this.dragState.isDragging = false;
+      this.dragState.fixtureId = null;
+      this.draggedObject = null;
+      // Round off float noise from the scene-unit round trip
+      this.callbacks.onGroupDragEnd?.(group.fixtureIds, {
+        x: Math.round((centerFt.x - startFt.x) * 1000) / 1000,
+        y: Math.round((centerFt.y - startFt.y) * 1000) / 1000,
+      });
+      return;
+    }
     
     // For non-center anchor fixtures, snap the ANCHOR position (corner), not the center
     // This prevents drift when reducer snaps the anchor again
@@ -0,0 +1,137 @@
+/**
+ * PlumbingRenderer - Draws the plumbing rough-in under the floor
+ *
+ * Supply and drain runs lie flat below the floor, drawn through it so they
+ * stay visible from above; vent stacks rise from the drains through the roof.
+ */
+
+import * as THREE from "three";
+import type { PipeRun, PipeSystem, PlumbingRouting } from "@/types/bom";
+import { ftToUnits, PLUMBING_SETTINGS } from "./constants";
+
+const SYSTEM_COLORS: Record<PipeSystem, number> = {
+  "supply-cold": PLUMBING_SETTINGS.COLD_COLOR,
+  "supply-hot": PLUMBING_SETTINGS.HOT_COLOR,
+  drain: PLUMBING_SETTINGS.DRAIN_COLOR,
+  vent: PLUMBING_SETTINGS.VENT_COLOR,
+};
+
+export class PlumbingRenderer {
+  private group: THREE.Group;
+  private meshes: THREE.Mesh[] = [];
+  private materials = new Map<PipeSystem, THREE.MeshStandardMaterial>();
+
+  constructor(group: THREE.Group) {
+    this.group = group;
+  }
+
+  /**
+   * Replace the drawn runs with the given routing
+   */
+  render(routing: PlumbingRouting, shell: { lengthFt: number; widthFt: number; heightFt: number }): void {
+    this.clear();
+
+    const toX = (xFt: number) => ftToUnits(xFt - shell.lengthFt / 2);
+    const toZ = (yFt: number) => ftToUnits(yFt - shell.widthFt / 2);
+    const floorFt = -shell.heightFt / 2;
+
+    for (const run of routing.runs) {
+      if (run.system === "vent") continue;
+      const depthFt = run.system === "drain" ? PLUMBING_SETTINGS.DRAIN_DEPTH_FT : PLUMBING_SETTINGS.SUPPLY_DEPTH_FT;
+      const y = ftToUnits(floorFt - depthFt);
+      const offsetFt = this.supplyOffsetFt(run);
+      const points = run.points.map((p) => new THREE.Vector3(toX(p.xFt + offsetFt), y, toZ(p.yFt + offsetFt)));
+
+      for (let i = 0; i < points.length - 1; i++) {
+        this.addPipe(run.system, run.diameterIn, points[i], points[i + 1]);
+      }
+
+      // Up through the floor at the fixture, or down to the exit at the entry
+      if (run.fixtureId && points.length > 1) {
+        const end = run.system === "drain" ? points[0] : points[points.length - 1];
+        this.addPipe(run.system, run.diameterIn, end, new THREE.Vector3(end.x, ftToUnits(floorFt), end.z));
+      } else if (run.id === "drain-exit") {
+        const start = points[0];
+        this.addPipe(run.system, run.diameterIn, start, new THREE.Vector3(start.x, y - ftToUnits(run.lengthFt), start.z));
+      }
+    }
+
+    for (const vent of routing.vents) {
+      const baseFt = floorFt + vent.level * shell.heightFt - PLUMBING_SETTINGS.DRAIN_DEPTH_FT;
+      const x = toX(vent.xFt);
+      const z = toZ(vent.yFt);
+      this.addPipe(
+        "vent",
+        vent.diameterIn,
+        new THREE.Vector3(x, ftToUnits(baseFt), z),
+        new THREE.Vector3(x, ftToUnits(baseFt + vent.lengthFt), z)
+      );
+    }
+  }
+
+  /**
+   * Remove all pipes
+   */
+  clear(): void {
+    this.meshes.forEach((mesh) => {
+      mesh.geometry.dispose();
+      this.group.remove(mesh);
+    });
+    this.meshes = [];
+    this.materials.forEach((material) => material.dispose());
+    this.materials.clear();
+  }
+
+  /**
+   * Dispose all resources
+   */
+  dispose(): void {
+    this.clear();
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private supplyOffsetFt(run: PipeRun): number {
+    if (run.system === "supply-cold") return -PLUMBING_SETTINGS.HOT_COLD_GAP_FT / 2;
+    if (run.system === "supply-hot") return PLUMBING_SETTINGS.HOT_COLD_GAP_FT / 2;
+    return 0;
+  }
+
+  private getMaterial(system: PipeSystem): THREE.MeshStandardMaterial {
+    let material = this.materials.get(system);
+    if (!material) {
+      material = new THREE.MeshStandardMaterial({
+        color: SYSTEM_COLORS[system],
+        roughness: 0.5,
+        metalness: 0.1,
+        // Under-floor runs show through the floor and ground
+        depthTest: system === "vent",
+        transparent: system !== "vent",
+        opacity: system === "vent" ? 1 : 0.9,
+      });
+      this.materials.set(system, material);
+    }
+    return material;
+  }
+
+  /**
+   * Cylinder between two points
+   */
+  private addPipe(system: PipeSystem, diameterIn: number, start: THREE.Vector3, end: THREE.Vector3): void {
+    const direction = new THREE.Vector3().subVectors(end, start);
+    const length = direction.length();
+    if (length === 0) return;
+
+    const radius = ftToUnits(Math.max(diameterIn / 24, PLUMBING_SETTINGS.MIN_RADIUS_FT));
+    const geometry = new THREE.CylinderGeometry(radius, radius, length, 12);
+    const mesh = new THREE.Mesh(geometry, this.getMaterial(system));
+    mesh.position.copy(start).addScaledVector(direction, 0.5);
+    mesh.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), direction.normalize());
+    mesh.renderOrder = system === "vent" ? 0 : 1;
+
+    this.group.add(mesh);
+    this.meshes.push(mesh);
+  }
+}
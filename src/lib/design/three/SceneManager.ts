@@ -13,13 +13,20 @@ import {
 } from "./constants";
 import { ZoneWallRenderer } from "./ZoneWallRenderer";
 import { EnvironmentManager } from "./Environment";
-import { ContainerWallsRenderer, WallSide } from "./ContainerWalls";
-import type { ZoneConfig, FixtureConfig, ModuleCatalogItem } from "@/types/design";
+import { ContainerWallsRenderer, WallOpening, WallSide } from "./ContainerWalls";
+import { PlumbingRenderer } from "./PlumbingRenderer";
+import type {
+  CorrugationProfile,
+  ZoneConfig,
+  PlacedShellConfig,
+} from "@/types/design";
+import type { PlumbingRouting } from "@/types/bom";
 
 export type ShellDimensions = {
   lengthFt: number;
   widthFt: number;
   heightFt: number;
+  corrugation?: CorrugationProfile;
 };
 
 export type SceneManagerConfig = {
@@ -58,6 +65,11 @@ export class SceneManager {
   public environmentManager: EnvironmentManager;
   public containerWallsRenderer: ContainerWallsRenderer;
   public containerWallsGroup: THREE.Group;
+  // Extra shells of a multi-container composition, one renderer each
+  private additionalShells: Array<{ group: THREE.Group; renderer: ContainerWallsRenderer }> = [];
+  // Plumbing rough-in, shown when the plumbing view is on
+  public plumbingGroup: THREE.Group;
+  private plumbingRenderer: PlumbingRenderer;
 
   // Scene elements
   private gridHelper: THREE.GridHelper;
@@ -117,6 +129,11 @@ export class SceneManager {
     this.containerWallsGroup = new THREE.Group();
     this.containerWallsGroup.name = "ContainerWalls";
     this.containerWallsRenderer = new ContainerWallsRenderer(this.containerWallsGroup);
+
+    // Create plumbing group and renderer
+    this.plumbingGroup = new THREE.Group();
+    this.plumbingGroup.name = "Plumbing";
+    this.plumbingRenderer = new PlumbingRenderer(this.plumbingGroup);
     
     // Create environment manager
     const floorY = -ftToUnits(config.shell.heightFt) / 2;
@@ -142,6 +159,7 @@ export class SceneManager {
     this.scene.add(this.moduleGroup);
     this.scene.add(this.wallGroup);
     this.scene.add(this.containerWallsGroup);
+    this.scene.add(this.plumbingGroup);
     this.scene.add(this.helperGroup);
     this.scene.add(this.debugGroup);
   }
@@ -290,15 +308,60 @@ export class SceneManager {
   }
 
   /**
-   * Update container walls based on fixtures (for window/door openings)
+   * Update container walls with their window/door cut-outs
    * @param openSides - Sides to leave open for viewing. Default is ["front", "right"] for good camera visibility.
    */
   updateContainerWalls(
-    fixtures: FixtureConfig[],
-    catalog: Record<string, ModuleCatalogItem>,
+    openings: WallOpening[],
     openSides: WallSide | WallSide[] = ["front", "right"]
   ): void {
-    this.containerWallsRenderer.render(this.config.shell, fixtures, catalog, openSides);
+    this.containerWallsRenderer.render(this.config.shell, openings, openSides);
+  }
+
+  /**
+   * Render the other shells of a composition around the main one. Shells are
+   * placed by their plan offset (the main shell's back-left corner is plan
+   * origin) and stacked one main-shell height per level.
+   */
+  updateAdditionalShells(
+    shells: Array<{
+      placed: PlacedShellConfig;
+      corrugation?: CorrugationProfile;
+      openings: WallOpening[];
+      openSides: WallSide[];
+    }>
+  ): void {
+    this.clearAdditionalShells();
+
+    const { lengthFt, widthFt, heightFt } = this.config.shell;
+    for (const { placed, corrugation, openings, openSides } of shells) {
+      const turned = placed.rotationDeg === 90;
+      const planLengthFt = turned ? placed.shell.widthFt : placed.shell.lengthFt;
+      const planWidthFt = turned ? placed.shell.lengthFt : placed.shell.widthFt;
+
+      const group = new THREE.Group();
+      group.name = `ContainerWalls-${placed.id}`;
+      group.position.set(
+        ftToUnits(placed.xFt + planLengthFt / 2 - lengthFt / 2),
+        ftToUnits(-heightFt / 2 + placed.level * heightFt + placed.shell.heightFt / 2),
+        ftToUnits(placed.yFt + planWidthFt / 2 - widthFt / 2)
+      );
+      // Turned shells run their length along plan Y
+      group.rotation.y = turned ? -Math.PI / 2 : 0;
+
+      const renderer = new ContainerWallsRenderer(group);
+      renderer.render({ ...placed.shell, corrugation }, openings, openSides);
+      this.containerWallsGroup.add(group);
+      this.additionalShells.push({ group, renderer });
+    }
+  }
+
+  private clearAdditionalShells(): void {
+    for (const { group, renderer } of this.additionalShells) {
+      renderer.dispose();
+      this.containerWallsGroup.remove(group);
+    }
+    this.additionalShells = [];
   }
 
   /**
@@ -308,6 +371,17 @@ export class SceneManager {
     this.containerWallsGroup.visible = visible;
   }
 
+  /**
+   * Draw the plumbing rough-in, or remove it when null
+   */
+  updatePlumbing(routing: PlumbingRouting | null): void {
+    if (routing) {
+      this.plumbingRenderer.render(routing, this.config.shell);
+    } else {
+      this.plumbingRenderer.clear();
+    }
+  }
+
   /**
    * Toggle environment visibility (sky, ground, trees)
    */
@@ -504,8 +578,12 @@ export class SceneManager {
     // Dispose zone wall renderer
     this.zoneWallRenderer.dispose();
     
-    // Dispose container walls renderer
+    // Dispose container walls renderers
     this.containerWallsRenderer.dispose();
+    this.clearAdditionalShells();
+
+    // Dispose plumbing renderer
+    this.plumbingRenderer.dispose();
     
     // Dispose environment
     this.environmentManager.dispose();
@@ -514,6 +592,7 @@ export class SceneManager {
     this.moduleGroup.clear();
     this.wallGroup.clear();
     this.containerWallsGroup.clear();
+    this.plumbingGroup.clear();
     this.helperGroup.clear();
     this.debugGroup.clear();
   }
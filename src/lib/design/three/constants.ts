@@ -272,6 +272,21 @@ export const ZONE_WALL_SETTINGS = {
   DOOR_GAP_FT: 3,         // Gap for doorways
 } as const;
 
+// ============================================================================
+// Plumbing Settings
+// ============================================================================
+
+export const PLUMBING_SETTINGS = {
+  SUPPLY_DEPTH_FT: 0.4,   // Below the floor surface
+  DRAIN_DEPTH_FT: 0.8,    // Under the supply lines
+  HOT_COLD_GAP_FT: 0.2,   // Hot and cold side by side
+  MIN_RADIUS_FT: 0.06,    // Oversized so 1/2" lines read at room scale
+  COLD_COLOR: 0x60A5FA,
+  HOT_COLOR: 0xF87171,
+  DRAIN_COLOR: 0x94A3B8,
+  VENT_COLOR: 0x34D399,
+} as const;
+
 // ============================================================================
 // Environment Settings (Forest Scene)
 // ============================================================================
@@ -319,7 +319,7 @@ export function createInteriorWallGeometry(
 export function createInteriorDoorGeometry(
   widthFt: number,
   lengthFt: number,
-  _heightFt: number
+  heightFt: number
 ): THREE.Group {
   const group = new THREE.Group();
 
@@ -329,7 +329,7 @@ export function createInteriorDoorGeometry(
   const openingWidth = ftToUnits(lengthFt);
   const frameDepth = ftToUnits(widthFt);     // Use actual footprint width for frame depth
   const doorThickness = ftToUnits(0.125);    // Door panel thickness
-  const doorHeight = ftToUnits(7);           // Standard 7ft door
+  const doorHeight = ftToUnits(heightFt);    // Opening height from the catalog
   const frameThickness = ftToUnits(0.08);    // Frame member thickness
 
   // Door material - rich wood brown
@@ -425,7 +425,7 @@ export function createInteriorDoorGeometry(
 export function createExteriorDoorGeometry(
   widthFt: number,
   lengthFt: number,
-  _heightFt: number
+  heightFt: number
 ): THREE.Group {
   const group = new THREE.Group();
 
@@ -435,7 +435,7 @@ export function createExteriorDoorGeometry(
   const openingWidth = ftToUnits(lengthFt);
   const frameDepth = ftToUnits(widthFt);     // Use actual footprint width for frame depth
   const doorThickness = ftToUnits(0.15);     // Door thickness
-  const doorHeight = ftToUnits(7);           // Standard 7ft door
+  const doorHeight = ftToUnits(heightFt);    // Opening height from the catalog
   const frameThickness = ftToUnits(0.08);    // Frame member thickness
 
   // Door material - deep brown/burgundy (classic exterior door)
@@ -540,7 +540,7 @@ export function createExteriorDoorGeometry(
 export function createWindowGeometry(
   widthFt: number,
   lengthFt: number,
-  _heightFt: number,
+  heightFt: number,
   properties?: Record<string, unknown>
 ): THREE.Group {
   const group = new THREE.Group();
@@ -551,17 +551,13 @@ export function createWindowGeometry(
   const windowWidth = ftToUnits(lengthFt);
   const frameDepth = ftToUnits(widthFt);   // Use actual footprint width for frame depth
   
-  // Derive window height from width ratio (standard window proportions)
-  // 24x36 = 2ft wide × 3ft tall (1:1.5 ratio)
-  // 36x48 = 3ft wide × 4ft tall (1:1.33 ratio)
-  // Default to 3ft tall for 2ft wide, 4ft tall for 3ft wide
-  const windowHeightFt = lengthFt <= 2 ? 3 : 4;
-  const windowHeight = ftToUnits(windowHeightFt);
+  // heightFt = window height, properties.sillFt = sill height above the floor
+  // (both from the catalog opening)
+  const windowHeight = ftToUnits(heightFt);
   
   const frameThickness = ftToUnits(0.08);  // Frame member thickness
   
-  // Standard window sill height (4ft from floor)
-  const sillHeight = ftToUnits(4);
+  const sillHeight = ftToUnits(typeof properties?.sillFt === "number" ? properties.sillFt : 3.5);
 
   // Frame material - white
   const frameMat = createMaterial(0xF5F5F0, {
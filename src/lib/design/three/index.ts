@@ -21,13 +21,15 @@ export type { ModelConfig } from "./ModelCache";
 
 export { ZoneWallRenderer } from "./ZoneWallRenderer";
 
+export { PlumbingRenderer } from "./PlumbingRenderer";
+
 export { EnvironmentManager, createSkyDome, createForestGround, createForest } from "./Environment";
 
 export { ContainerWallsRenderer } from "./ContainerWalls";
-export type { WallSide, WindowOpening } from "./ContainerWalls";
+export type { WallOpening, WallSide, WindowOpening } from "./ContainerWalls";
 
 export { FloorPlaneDragController } from "./FloorPlaneDragController";
-export type { DragState, FloorPlaneDragCallbacks } from "./FloorPlaneDragController";
+export type { DragState, DragGroup, FloorPlaneDragCallbacks } from "./FloorPlaneDragController";
 
 // Fixture geometry factories
 export { 
@@ -0,0 +1,95 @@
+/**
+ * Water & Waste Packages
+ *
+ * Off-grid builds bring their own water and take away their own waste:
+ * - Water: a well pump and/or a cistern with a booster pump
+ * - Waste: a holding tank or a composting toilet in place of a septic/sewer hookup
+ * - Greywater: sink, shower and laundry water diverted to the landscape
+ *
+ * A composting toilet needs no water or drain, but does need its vent fan
+ * ducted outside and powered, so the catalog's toilets are re-tagged before
+ * validation and plumbing routing.
+ */
+
+import type { ModuleCatalogItem, UtilityType } from "@/types/design";
+import type {
+  BOMSelections,
+  CisternSize,
+  PriceTables,
+  UtilityPackageLineItem,
+  WasteSystem,
+  WellPumpType,
+} from "@/types/bom";
+
+const TOILET_KEY = "fixture-toilet";
+const COMPOSTING_TOILET_UTILITIES: UtilityType[] = ["vent", "power"];
+
+// Quote request answers (see WATER_OPTIONS / SEPTIC_OPTIONS) as package selections.
+// Hauled-in water is stored in a cistern.
+const WATER_PREFERENCE_SELECTIONS: Record<string, { wellPump: WellPumpType; cistern: CisternSize }> = {
+  well: { wellPump: "submersible", cistern: "none" },
+  cistern: { wellPump: "none", cistern: "medium" },
+  "haul-in": { wellPump: "none", cistern: "medium" },
+  existing: { wellPump: "none", cistern: "none" },
+};
+const SEPTIC_SITUATION_SELECTIONS: Record<string, WasteSystem> = {
+  septic: "septic",
+  holding: "holding-tank",
+  composting: "composting",
+  planning: "septic",
+};
+
+/**
+ * The catalog as the selected waste system sees it: with a composting toilet,
+ * toilets take a vent and power instead of water and waste. Returns the same
+ * catalog object otherwise.
+ */
+export function applyWasteSystem(
+  catalog: Record<string, ModuleCatalogItem>,
+  wasteSystem: WasteSystem
+): Record<string, ModuleCatalogItem> {
+  const toilet = catalog[TOILET_KEY];
+  if (wasteSystem !== "composting" || !toilet) return catalog;
+
+  const kept = (toilet.requiresUtilities ?? []).filter((utility) => utility !== "water" && utility !== "waste");
+  return {
+    ...catalog,
+    [TOILET_KEY]: {
+      ...toilet,
+      requiresUtilities: [...new Set([...kept, ...COMPOSTING_TOILET_UTILITIES])],
+    },
+  };
+}
+
+/**
+ * The selected packages that cost something, each with its install hours.
+ */
+export function getUtilityPackageItems(
+  selections: BOMSelections,
+  prices: Pick<PriceTables, "wellPump" | "cistern" | "wasteSystem" | "greywater">
+): UtilityPackageLineItem[] {
+  return [
+    prices.wellPump[selections.wellPump],
+    prices.cistern[selections.cistern],
+    prices.wasteSystem[selections.wasteSystem],
+    prices.greywater[selections.greywater],
+  ]
+    .filter((price) => price && (price.baseCents > 0 || price.laborHours > 0))
+    .map(({ label, baseCents, laborHours }) => ({ label, costCents: baseCents, laborHours }));
+}
+
+/**
+ * Package selections for a design started from a quote request. Unknown or
+ * missing answers leave the defaults.
+ */
+export function getUtilitySelectionsFromQuote(quote: {
+  waterPreference?: string | null;
+  septicSituation?: string | null;
+}): Partial<BOMSelections> {
+  const water = quote.waterPreference ? WATER_PREFERENCE_SELECTIONS[quote.waterPreference] : undefined;
+  const wasteSystem = quote.septicSituation ? SEPTIC_SITUATION_SELECTIONS[quote.septicSituation] : undefined;
+  return {
+    ...water,
+    ...(wasteSystem ? { wasteSystem } : {}),
+  };
+}
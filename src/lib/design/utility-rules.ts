@@ -0,0 +1,206 @@
+import type {
+  DesignConfig,
+  FixtureConfig,
+  ModuleCatalogItem,
+  RectFt,
+  ValidationIssue,
+  ValidationRule,
+} from "@/types/design";
+import { distanceToPlanWall, getFixtureLevel } from "./composition";
+import {
+  rectCenter,
+  rectDistance,
+  rectFromFixture,
+} from "./geometry";
+import { getZoneType, type ZoneType } from "./zone-utils";
+
+/**
+ * Tunable limits for the utility rules. All distances are in feet unless noted.
+ */
+export type UtilityRuleConfig = {
+  // Max distance from a wet fixture to a plumbing wall or wet-core zone
+  maxSupplyRunFt: number;
+  // Required fall on waste lines (inches per foot of run)
+  wasteSlopeInPerFt: number;
+  // Vertical drop available in the under-floor chase (inches)
+  availableDropIn: number;
+  // Drop consumed by the trap arm before the run starts (inches)
+  trapDropIn: number;
+  // Max distance from a powered fixture to a wall that can carry a receptacle
+  maxPowerReachFt: number;
+  // Max duct run from a vented fixture to an exterior wall
+  maxVentRunFt: number;
+  // Zone types treated as the wet core
+  wetCoreZoneTypes: ZoneType[];
+};
+
+export const DEFAULT_UTILITY_RULE_CONFIG: UtilityRuleConfig = {
+  maxSupplyRunFt: 16,
+  wasteSlopeInPerFt: 0.25, // 1/4" per foot
+  availableDropIn: 8,
+  trapDropIn: 1.5,
+  maxPowerReachFt: 6,
+  maxVentRunFt: 10,
+  wetCoreZoneTypes: ["bathroom", "bath-hallway"],
+};
+
+const isWallFixture = (fixture: FixtureConfig) =>
+  fixture.catalogKey === "fixture-wall";
+
+/**
+ * Interior walls the user has flagged as plumbing walls (wet walls).
+ */
+function getPlumbingWallRects(
+  design: DesignConfig,
+  catalog: Record<string, ModuleCatalogItem>
+): RectFt[] {
+  return design.fixtures
+    .filter((f) => isWallFixture(f) && f.properties?.plumbingWall === true)
+    .flatMap((f) => {
+      const cat = catalog[f.catalogKey];
+      return cat ? [rectFromFixture(f, cat)] : [];
+    });
+}
+
+function getWetCoreRects(design: DesignConfig, config: UtilityRuleConfig): RectFt[] {
+  return design.zones
+    .filter((zone) => {
+      const zoneType = getZoneType(zone.id);
+      return zoneType !== null && config.wetCoreZoneTypes.includes(zoneType);
+    })
+    .map((zone) => ({
+      x: zone.xFt,
+      y: zone.yFt,
+      width: zone.lengthFt,
+      height: zone.widthFt,
+    }));
+}
+
+/**
+ * Resolves the point where the waste line leaves the shell.
+ * Uses the design's utility entry when set, otherwise the center of the wet core
+ * (or of the shell when there is no wet core).
+ */
+export function getWasteExitPoint(
+  design: DesignConfig,
+  config: UtilityRuleConfig = DEFAULT_UTILITY_RULE_CONFIG
+): { x: number; y: number } {
+  if (design.utilityEntry) {
+    return { x: design.utilityEntry.xFt, y: design.utilityEntry.yFt };
+  }
+
+  const wetCore = getWetCoreRects(design, config);
+  if (wetCore.length > 0) {
+    const minX = Math.min(...wetCore.map((r) => r.x));
+    const maxX = Math.max(...wetCore.map((r) => r.x + r.width));
+    const minY = Math.min(...wetCore.map((r) => r.y));
+    const maxY = Math.max(...wetCore.map((r) => r.y + r.height));
+    return { x: (minX + maxX) / 2, y: (minY + maxY) / 2 };
+  }
+
+  return { x: design.shell.lengthFt / 2, y: design.shell.widthFt / 2 };
+}
+
+/**
+ * Builds the utility validation rule. Checks every fixture against the utilities
+ * listed in its catalog item's `requiresUtilities`:
+ * - water: within `maxSupplyRunFt` of a plumbing wall or wet-core zone
+ * - waste: the run to the exit point can hold slope within the available drop
+ * - power: close enough to a wall for a receptacle
+ * - vent: close enough to an exterior wall to duct out
+ */
+export function createUtilityRule(
+  overrides: Partial<UtilityRuleConfig> = {}
+): ValidationRule {
+  const config: UtilityRuleConfig = { ...DEFAULT_UTILITY_RULE_CONFIG, ...overrides };
+
+  return (design, catalog) => {
+    const issues: ValidationIssue[] = [];
+    const wetTargets = [
+      ...getPlumbingWallRects(design, catalog),
+      ...getWetCoreRects(design, config),
+    ];
+    const interiorWalls = design.fixtures
+      .filter(isWallFixture)
+      .flatMap((f) => {
+        const cat = catalog[f.catalogKey];
+        return cat ? [{ level: getFixtureLevel(f), rect: rectFromFixture(f, cat) }] : [];
+      });
+    const exit = getWasteExitPoint(design, config);
+
+    for (const fixture of design.fixtures) {
+      const cat = catalog[fixture.catalogKey];
+      const utilities = cat?.requiresUtilities;
+      if (!cat || !utilities || utilities.length === 0) continue;
+
+      const rect = rectFromFixture(fixture, cat);
+      const level = getFixtureLevel(fixture);
+
+      if (utilities.includes("water")) {
+        const runFt = wetTargets.length > 0
+          ? Math.min(...wetTargets.map((target) => rectDistance(rect, target)))
+          : Infinity;
+        if (runFt > config.maxSupplyRunFt) {
+          issues.push({
+            id: `UTILITY_WATER_RUN_${fixture.id}`,
+            fixtureId: fixture.id,
+            level: "warning",
+            code: "UTILITY_WATER_RUN",
+            message: wetTargets.length === 0
+              ? `${cat.label} needs water but the design has no plumbing wall or wet-core zone.`
+              : `${cat.label} is ${runFt.toFixed(1)}' from the nearest plumbing wall or wet core (max ${config.maxSupplyRunFt}').`,
+          });
+        }
+      }
+
+      if (utilities.includes("waste")) {
+        // Drain lines run orthogonally under the floor, so use Manhattan distance
+        const drain = rectCenter(rect);
+        const runFt = Math.abs(drain.x - exit.x) + Math.abs(drain.y - exit.y);
+        const requiredDropIn = config.trapDropIn + runFt * config.wasteSlopeInPerFt;
+        if (requiredDropIn > config.availableDropIn) {
+          issues.push({
+            id: `UTILITY_WASTE_SLOPE_${fixture.id}`,
+            fixtureId: fixture.id,
+            level: "error",
+            code: "UTILITY_WASTE_SLOPE",
+            message: `${cat.label} drain needs ${requiredDropIn.toFixed(1)}" of fall over ${runFt.toFixed(1)}' to the waste exit, but only ${config.availableDropIn}" is available.`,
+          });
+        }
+      }
+
+      if (utilities.includes("power")) {
+        const reachFt = Math.min(
+          distanceToPlanWall(design, rect, level),
+          ...interiorWalls
+            .filter((wall) => wall.level === level)
+            .map((wall) => rectDistance(rect, wall.rect))
+        );
+        if (reachFt > config.maxPowerReachFt) {
+          issues.push({
+            id: `UTILITY_POWER_ACCESS_${fixture.id}`,
+            fixtureId: fixture.id,
+            level: "warning",
+            code: "UTILITY_POWER_ACCESS",
+            message: `${cat.label} is ${reachFt.toFixed(1)}' from the nearest wall; it needs a floor box or a receptacle within ${config.maxPowerReachFt}'.`,
+          });
+        }
+      }
+
+      if (utilities.includes("vent")) {
+        const ventRunFt = distanceToPlanWall(design, rect, level, true);
+        if (ventRunFt > config.maxVentRunFt) {
+          issues.push({
+            id: `UTILITY_VENT_RUN_${fixture.id}`,
+            fixtureId: fixture.id,
+            level: "error",
+            code: "UTILITY_VENT_RUN",
+            message: `${cat.label} is ${ventRunFt.toFixed(1)}' from an exterior wall; vent runs are limited to ${config.maxVentRunFt}'.`,
+          });
+        }
+      }
+    }
+
+    return issues;
+  };
+}
@@ -1,15 +1,37 @@
 import type {
   DesignConfig,
+  FixtureConfig,
   ModuleCatalogItem,
+  RectFt,
   ValidationIssue,
+  ValidationLevel,
   ValidationRule,
 } from "@/types/design";
 import {
-  isInsideShell,
+  bodyRectFromFixture,
+  doorSwingOverlapsRect,
+  getClearanceStrips,
+  getDoorSwing,
+  getDoorSwingRect,
+  isDoorFixture,
   rectFromFixture,
   rectsOverlap,
   zonesContainingRect,
 } from "./geometry";
+import { createCodeRulePackRule, type CodeRulePack } from "./code-rules";
+import { getFixtureLevel, getFixtureShellRect, isInsideComposition } from "./composition";
+import { ruleComposition } from "./composition-rules";
+import { ruleStructural } from "./structural-rules";
+import { createEgressRule, type EgressConfig } from "./egress";
+import { getOpeningKind } from "./openings";
+import { createUtilityRule, type UtilityRuleConfig } from "./utility-rules";
+
+export type ValidationOptions = {
+  utilities?: Partial<UtilityRuleConfig>;
+  egress?: Partial<EgressConfig>;
+  // Residential code checks; skipped when no pack applies (e.g. unknown location)
+  codeRulePack?: CodeRulePack | null;
+};
 
 /**
  * Validates a design configuration against a catalog.
@@ -17,20 +39,29 @@ import {
  */
 export function validateDesign(
   design: DesignConfig,
-  catalog: Record<string, ModuleCatalogItem>
+  catalog: Record<string, ModuleCatalogItem>,
+  options: ValidationOptions = {}
 ): ValidationIssue[] {
   const rules: ValidationRule[] = [
     ruleBounds,
     ruleOverlap,
     ruleZoneAllowed,
-    // Phase 2: ruleUtilities, ruleClearances, etc.
+    ruleClearances,
+    ruleDoorSwing,
+    ruleComposition,
+    ruleStructural,
+    createUtilityRule(options.utilities),
+    createEgressRule(options.egress),
   ];
+  if (options.codeRulePack) {
+    rules.push(createCodeRulePackRule(options.codeRulePack));
+  }
 
   return rules.flatMap((rule) => rule(design, catalog));
 }
 
 /**
- * Validation rule: All fixtures must be fully inside the shell bounds.
+ * Validation rule: All fixtures must be fully inside the shells on their level.
  */
 const ruleBounds: ValidationRule = (design, catalog) => {
   const issues: ValidationIssue[] = [];
@@ -49,7 +80,7 @@ const ruleBounds: ValidationRule = (design, catalog) => {
     }
 
     const rect = rectFromFixture(fixture, cat);
-    if (!isInsideShell(design.shell, rect)) {
+    if (!isInsideComposition(design, rect, getFixtureLevel(fixture))) {
       issues.push({
         id: `OUT_OF_BOUNDS_${fixture.id}`,
         fixtureId: fixture.id,
@@ -65,7 +96,7 @@ const ruleBounds: ValidationRule = (design, catalog) => {
 
 /**
  * Validation rule: Fixtures should not overlap.
- * Note: Buffer/clearance zones are no longer checked.
+ * Note: Clearance zones are checked separately by ruleClearances.
  * Walls can intersect with walls, and doors can intersect with walls.
  */
 const ruleOverlap: ValidationRule = (design, catalog) => {
@@ -76,7 +107,8 @@ const ruleOverlap: ValidationRule = (design, catalog) => {
     const catA = catalog[fixtureA.catalogKey];
     if (!catA) continue;
 
-    const rectA = rectFromFixture(fixtureA, catA);
+    // Oriented footprints so fixtures at free angles only clash where they really touch
+    const rectA = bodyRectFromFixture(fixtureA, catA);
 
     for (let j = i + 1; j < design.fixtures.length; j++) {
       const fixtureB = design.fixtures[j];
@@ -84,7 +116,9 @@ const ruleOverlap: ValidationRule = (design, catalog) => {
       if (!catB) continue;
 
       // Ignore collisions between items on different mounts (e.g. Floor vs Wall)
+      // or on different storeys
       if (catA.mount !== catB.mount) continue;
+      if (getFixtureLevel(fixtureA) !== getFixtureLevel(fixtureB)) continue;
 
       // Check if either fixture is a wall or door
       const keyA = fixtureA.catalogKey.toLowerCase();
@@ -100,7 +134,7 @@ const ruleOverlap: ValidationRule = (design, catalog) => {
       // Allow doors to intersect with walls (in either direction)
       if ((isDoorA && isWallB) || (isWallA && isDoorB)) continue;
 
-      const rectB = rectFromFixture(fixtureB, catB);
+      const rectB = bodyRectFromFixture(fixtureB, catB);
 
       // Only check body overlap, no clearance zones
       if (rectsOverlap(rectA, rectB)) {
@@ -126,6 +160,169 @@ const ruleOverlap: ValidationRule = (design, catalog) => {
   return issues;
 };
 
+type ClearanceEntry = {
+  fixture: FixtureConfig;
+  cat: ModuleCatalogItem;
+  rect: RectFt;
+  strips: ReturnType<typeof getClearanceStrips>;
+  level: ValidationLevel;
+};
+
+/**
+ * Validation rule: Catalog items with a `clearanceLevel` have their clearance
+ * enforced. The checked strips (front only unless the item lists `clearanceSides`)
+ * must stay inside the shell and free of other fixtures.
+ * Two fixtures' clearances may only overlap when they share a `clearanceShareGroup`
+ * (e.g. base cabinets facing the same aisle).
+ * Doors are skipped here; their swing is checked by ruleDoorSwing.
+ */
+const ruleClearances: ValidationRule = (design, catalog) => {
+  const issues: ValidationIssue[] = [];
+
+  const entries: ClearanceEntry[] = design.fixtures.flatMap((fixture) => {
+    const cat = catalog[fixture.catalogKey];
+    if (!cat || isDoorFixture(fixture)) return [];
+    const sides = cat.clearanceSides ?? ["front"];
+    return [{
+      fixture,
+      cat,
+      rect: rectFromFixture(fixture, cat),
+      strips: cat.clearanceLevel
+        ? getClearanceStrips(fixture, cat).filter((s) => sides.includes(s.side))
+        : [],
+      level: cat.clearanceLevel ?? "warning",
+    }];
+  });
+
+  for (const a of entries) {
+    if (a.strips.length === 0) continue;
+
+    for (const strip of a.strips) {
+      const depth = a.cat.minClearanceFt?.[strip.side] ?? 0;
+
+      // Openings sit in the shell wall, so one face always points outside
+      if (
+        a.cat.category !== "opening" &&
+        !isInsideComposition(design, strip.rect, getFixtureLevel(a.fixture))
+      ) {
+        issues.push({
+          id: `CLEARANCE_OUTSIDE_SHELL_${a.fixture.id}_${strip.side}`,
+          fixtureId: a.fixture.id,
+          level: a.level,
+          code: "CLEARANCE_OUTSIDE_SHELL",
+          message: `${a.cat.label} needs ${depth}' clear at the ${strip.side}, but faces the container wall.`,
+        });
+      }
+
+      for (const b of entries) {
+        if (b === a || b.cat.mount !== a.cat.mount) continue;
+        if (getFixtureLevel(b.fixture) !== getFixtureLevel(a.fixture)) continue;
+        if (!rectsOverlap(strip.rect, b.rect)) continue;
+
+        issues.push({
+          id: `CLEARANCE_BLOCKED_${a.fixture.id}_${strip.side}_${b.fixture.id}`,
+          fixtureId: a.fixture.id,
+          level: a.level,
+          code: "CLEARANCE_BLOCKED",
+          message: `${a.cat.label} needs ${depth}' clear at the ${strip.side}; blocked by ${b.cat.label}.`,
+        });
+      }
+    }
+  }
+
+  // Clearance zones overlapping each other
+  for (let i = 0; i < entries.length; i++) {
+    const a = entries[i];
+    if (a.strips.length === 0) continue;
+
+    for (let j = i + 1; j < entries.length; j++) {
+      const b = entries[j];
+      if (b.strips.length === 0 || b.cat.mount !== a.cat.mount) continue;
+      if (getFixtureLevel(b.fixture) !== getFixtureLevel(a.fixture)) continue;
+      if (
+        a.cat.clearanceShareGroup &&
+        a.cat.clearanceShareGroup === b.cat.clearanceShareGroup
+      ) {
+        continue;
+      }
+
+      const shared = a.strips.some((sa) =>
+        b.strips.some((sb) => rectsOverlap(sa.rect, sb.rect))
+      );
+      if (!shared) continue;
+
+      const level: ValidationLevel =
+        a.level === "error" || b.level === "error" ? "error" : "warning";
+      issues.push({
+        id: `CLEARANCE_SHARED_${a.fixture.id}_${b.fixture.id}`,
+        fixtureId: a.fixture.id,
+        level,
+        code: "CLEARANCE_SHARED",
+        message: `${a.cat.label} and ${b.cat.label} cannot share clearance space.`,
+      });
+      issues.push({
+        id: `CLEARANCE_SHARED_${b.fixture.id}_${a.fixture.id}`,
+        fixtureId: b.fixture.id,
+        level,
+        code: "CLEARANCE_SHARED",
+        message: `${b.cat.label} and ${a.cat.label} cannot share clearance space.`,
+      });
+    }
+  }
+
+  return issues;
+};
+
+/**
+ * Validation rule: Nothing on the floor may sit inside a door's swing arc.
+ * Walls never block (doors are set into them), and only exterior doors may
+ * swing out through the shell.
+ */
+const ruleDoorSwing: ValidationRule = (design, catalog) => {
+  const issues: ValidationIssue[] = [];
+
+  for (const door of design.fixtures) {
+    const doorCat = catalog[door.catalogKey];
+    if (!doorCat || !isDoorFixture(door)) continue;
+
+    const swing = getDoorSwing(door, doorCat, getFixtureShellRect(design, door, doorCat));
+    const level = doorCat.clearanceLevel ?? "error";
+
+    if (
+      getOpeningKind(door) !== "exterior-door" &&
+      !isInsideComposition(design, getDoorSwingRect(swing), getFixtureLevel(door))
+    ) {
+      issues.push({
+        id: `DOOR_SWING_OUTSIDE_SHELL_${door.id}`,
+        fixtureId: door.id,
+        level,
+        code: "DOOR_SWING_OUTSIDE_SHELL",
+        message: `${doorCat.label} swings into the container wall; flip its swing direction.`,
+      });
+    }
+
+    for (const other of design.fixtures) {
+      if (other === door) continue;
+      const otherCat = catalog[other.catalogKey];
+      if (!otherCat || otherCat.mount !== "floor") continue;
+      if (other.catalogKey.includes("wall")) continue;
+      if (getFixtureLevel(other) !== getFixtureLevel(door)) continue;
+
+      if (doorSwingOverlapsRect(swing, rectFromFixture(other, otherCat))) {
+        issues.push({
+          id: `DOOR_SWING_BLOCKED_${door.id}_${other.id}`,
+          fixtureId: door.id,
+          level,
+          code: "DOOR_SWING_BLOCKED",
+          message: `${doorCat.label} swing is blocked by ${otherCat.label}.`,
+        });
+      }
+    }
+  }
+
+  return issues;
+};
+
 /**
  * Validation rule: Fixtures must be placed in allowed zones (if specified).
  */
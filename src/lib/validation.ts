@@ -76,6 +76,299 @@ export const adminLoginSchema = z.object({
   password: z.string().min(8, "Password is required"),
 });
 
+export const OPENING_KIND_OPTIONS = ["window", "exterior-door", "interior-door"] as const;
+
+// Admin catalog entry for a window or door size. Sizes are in inches, as on the
+// manufacturer's sheet; doors sit on the floor.
+export const openingCatalogSchema = z
+  .object({
+    kind: z.enum(OPENING_KIND_OPTIONS),
+    name: z.string().min(2, "Name is required"),
+    widthIn: z.number({ invalid_type_error: "Enter a width" }).int().min(12, "At least 12\"").max(96, "At most 96\""),
+    heightIn: z.number({ invalid_type_error: "Enter a height" }).int().min(12, "At least 12\"").max(96, "At most 96\""),
+    sillIn: z.number({ invalid_type_error: "Enter a sill height" }).int().min(0).max(72, "At most 72\""),
+    priceDollars: z.number({ invalid_type_error: "Enter a price" }).min(0),
+    uFactor: z
+      .number({ invalid_type_error: "Enter a U-factor" })
+      .min(0.1, "At least 0.1")
+      .max(1.5, "At most 1.5"),
+  })
+  .refine((data) => data.kind === "window" || data.sillIn === 0, {
+    message: "Doors have no sill",
+    path: ["sillIn"],
+  });
+
+const centsSchema = z.number({ invalid_type_error: "Enter an amount" }).int("Whole cents").min(0);
+const rateSchema = z.number({ invalid_type_error: "Enter a rate" }).min(0);
+const wattsSchema = z.number({ invalid_type_error: "Enter watts" }).int().min(0);
+const feetSchema = z.number({ invalid_type_error: "Enter a length" }).min(0);
+
+const materialPriceSchema = z.object({
+  label: z.string().min(1, "Label is required"),
+  centsPerSqft: centsSchema,
+});
+
+const foundationPriceSchema = z.object({
+  label: z.string().min(1, "Label is required"),
+  baseCents: centsSchema,
+});
+
+const shellPriceSchema = z.object({
+  label: z.string().min(1, "Label is required"),
+  baseCents: centsSchema,
+});
+
+const utilityPackagePriceSchema = z.object({
+  label: z.string().min(1, "Label is required"),
+  baseCents: centsSchema,
+  laborHours: rateSchema,
+});
+
+const basePerFixtureSchema = z.object({ baseCents: centsSchema, perFixtureCents: centsSchema });
+
+// Tiers are picked by the first one whose max covers the load, so they must climb
+function tiersInOrder(tiers: { minWatts: number; maxWatts: number }[]) {
+  return tiers.every((tier, i) => tier.maxWatts > tier.minWatts && (i === 0 || tier.minWatts > tiers[i - 1].maxWatts));
+}
+
+const multiplierSchema = z
+  .number({ invalid_type_error: "Enter a multiplier" })
+  .min(0.1, "At least 0.1")
+  .max(5, "At most 5");
+
+// A state code ("CO") or ZIP prefix ("802") with its multipliers
+const regionMultiplierSchema = z.object({
+  match: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^([A-Z]{2}|\d{1,5})$/, "State code or ZIP prefix"),
+  label: z.string().min(1, "Label is required"),
+  labor: multiplierSchema,
+  materials: multiplierSchema,
+  delivery: multiplierSchema,
+});
+
+// Every table in a price book (cents, hours, percent); mirrors PriceTables
+export const priceTablesSchema = z.object({
+  shells: z.object({
+    "shell-10-std": shellPriceSchema,
+    "shell-10": shellPriceSchema,
+    "shell-20-std": shellPriceSchema,
+    "shell-20": shellPriceSchema,
+    "shell-40-std": shellPriceSchema,
+    "shell-40": shellPriceSchema,
+    "shell-45": shellPriceSchema,
+  }),
+  insulation: z.object({
+    "fiberglass-batts": materialPriceSchema,
+    "spray-foam": materialPriceSchema,
+    "rigid-board": materialPriceSchema,
+  }),
+  interiorFinish: z.object({
+    drywall: materialPriceSchema,
+    plywood: materialPriceSchema,
+    shiplap: materialPriceSchema,
+  }),
+  flooring: z.object({
+    "vinyl-plank": materialPriceSchema,
+    laminate: materialPriceSchema,
+    "engineered-hardwood": materialPriceSchema,
+    rubber: materialPriceSchema,
+  }),
+  exteriorFinish: z.object({
+    none: materialPriceSchema,
+    paint: materialPriceSchema,
+    "corrugated-metal": materialPriceSchema,
+    "wood-siding": materialPriceSchema,
+    composite: materialPriceSchema,
+  }),
+  roofing: z.object({
+    none: materialPriceSchema,
+    membrane: materialPriceSchema,
+  }),
+  roofingDeckPrepCentsPerSqft: centsSchema,
+  roofingSolarRailsCentsPerSqft: centsSchema,
+  foundation: z.object({
+    none: foundationPriceSchema,
+    gravel: foundationPriceSchema,
+    slab: foundationPriceSchema,
+    piers: foundationPriceSchema,
+    "helical-piles": foundationPriceSchema,
+  }),
+  piers: z.object({
+    concretePierCents: centsSchema,
+    concretePierCentsPerFtDepth: centsSchema,
+    concretePierHours: rateSchema,
+    helicalPileCents: centsSchema,
+    helicalPileCentsPerFtDepth: centsSchema,
+    helicalPileHours: rateSchema,
+  }),
+  wellPump: z.object({
+    none: utilityPackagePriceSchema,
+    jet: utilityPackagePriceSchema,
+    submersible: utilityPackagePriceSchema,
+  }),
+  cistern: z.object({
+    none: utilityPackagePriceSchema,
+    small: utilityPackagePriceSchema,
+    medium: utilityPackagePriceSchema,
+    large: utilityPackagePriceSchema,
+  }),
+  wasteSystem: z.object({
+    septic: utilityPackagePriceSchema,
+    "holding-tank": utilityPackagePriceSchema,
+    composting: utilityPackagePriceSchema,
+  }),
+  greywater: z.object({
+    none: utilityPackagePriceSchema,
+    laundry: utilityPackagePriceSchema,
+    "branched-drain": utilityPackagePriceSchema,
+  }),
+  structural: z.object({
+    steelCutCentsPerLinearFt: centsSchema,
+    headerCentsPerLinearFt: centsSchema,
+    jambCentsPerLinearFt: centsSchema,
+    sillCentsPerLinearFt: centsSchema,
+    postCents: centsSchema,
+    seamCentsPerLinearFt: centsSchema,
+    stackConnectionCents: centsSchema,
+  }),
+  electrical: basePerFixtureSchema,
+  plumbing: basePerFixtureSchema,
+  plumbingPipe: z.object({
+    pexHalfInchCentsPerFt: centsSchema,
+    pexThreeQuarterInchCentsPerFt: centsSchema,
+    drainInchAndHalfCentsPerFt: centsSchema,
+    drainTwoInchCentsPerFt: centsSchema,
+    drainThreeInchCentsPerFt: centsSchema,
+    fittingCents: centsSchema,
+    manifoldCents: centsSchema,
+    roofFlashingCents: centsSchema,
+  }),
+  hvac: z.object({
+    miniSplitBaseCents: centsSchema,
+    miniSplitCentsPerKBtu: centsSchema,
+    heaterCentsPerKw: centsSchema,
+  }),
+  delivery: z.object({ centsPerMile: centsSchema, minimumCents: centsSchema }),
+  deliveryRules: z.object({
+    tiltBedMaxLengthFt: feetSchema,
+    tiltBedCentsPerLoad: centsSchema,
+    craneCents: centsSchema,
+    oversizeMinLengthFt: feetSchema,
+    permitCentsPerState: centsSchema,
+    escortMinLengthFt: feetSchema,
+    escortCentsPerMile: centsSchema,
+  }),
+  generatorTiers: z
+    .array(
+      z.object({
+        minWatts: wattsSchema,
+        maxWatts: wattsSchema,
+        capacityKw: rateSchema,
+        label: z.string().min(1, "Label is required"),
+        priceCents: centsSchema,
+      }),
+    )
+    .min(1)
+    .refine(tiersInOrder, "Tiers must climb in watts without overlapping"),
+  solar: z.object({
+    panelCents: centsSchema,
+    batteryCentsPerKwh: centsSchema,
+    inverterCentsPerKw: centsSchema,
+    balanceOfSystemCents: centsSchema,
+  }),
+  laborHours: z.object({
+    exteriorFramingPerLinearFt: rateSchema,
+    windowInstallationPerUnit: rateSchema,
+    exteriorDoorPerUnit: rateSchema,
+    interiorWallPerLinearFt: rateSchema,
+    interiorDoorPerUnit: rateSchema,
+    insulationPerSqft: rateSchema,
+    wallFinishDrywallPerSqft: rateSchema,
+    wallFinishWoodPerSqft: rateSchema,
+    electricalBase: rateSchema,
+    electricalPerFixture: rateSchema,
+    plumbingBase: rateSchema,
+    plumbingPerFixture: rateSchema,
+    roofingPerSqft: rateSchema,
+    roofingDeckPrepPerSqft: rateSchema,
+    flooringPerSqft: rateSchema,
+    exteriorFinishPaintPerSqft: rateSchema,
+    exteriorFinishSidingPerSqft: rateSchema,
+    fixtureInstallPerUnit: rateSchema,
+    trimBaseHours: rateSchema,
+    trimPerLinearFt: rateSchema,
+    cleanupHours: rateSchema,
+    steelCutPerLinearFt: rateSchema,
+    headerPerLinearFt: rateSchema,
+    jambPerLinearFt: rateSchema,
+    sillPerLinearFt: rateSchema,
+    postPerUnit: rateSchema,
+    seamPerLinearFt: rateSchema,
+    stackConnectionPerShell: rateSchema,
+  }),
+  regions: z
+    .array(regionMultiplierSchema)
+    .refine(
+      (regions) => new Set(regions.map((region) => region.match)).size === regions.length,
+      "Each state or ZIP prefix can only be listed once",
+    ),
+  contingencyPct: rateSchema.max(100, "At most 100%"),
+});
+
+// A new price book version from the admin. Versions are never edited in place;
+// each save adds the next version, effective from the given date (now if blank).
+export const priceBookSchema = z.object({
+  name: z.string().min(2, "Name is required"),
+  notes: optionalTrimmedString,
+  effectiveAt: optionalTrimmedString.refine(
+    (value) => !value || !Number.isNaN(Date.parse(value)),
+    "Enter a valid date",
+  ),
+  prices: priceTablesSchema,
+});
+
+export const DISCOUNT_KIND_OPTIONS = ["percent", "fixed"] as const;
+
+const optionalDateString = optionalTrimmedString.refine(
+  (value) => !value || !Number.isNaN(Date.parse(value)),
+  "Enter a valid date",
+);
+
+// A discount from the admin. `value` is the percent off, or dollars off for
+// fixed discounts. A code makes it a promo code; without one it applies to
+// every quote while it runs.
+export const discountSchema = z
+  .object({
+    label: z.string().min(2, "Label is required"),
+    code: optionalTrimmedString.refine(
+      (value) => !value || /^[A-Za-z0-9_-]{3,32}$/.test(value),
+      "3-32 letters, numbers, - or _",
+    ),
+    kind: z.enum(DISCOUNT_KIND_OPTIONS),
+    value: z.number({ invalid_type_error: "Enter an amount" }).positive("Must be more than zero"),
+    startsAt: optionalDateString,
+    endsAt: optionalDateString,
+  })
+  .refine((data) => data.kind === "fixed" || data.value <= 100, {
+    message: "At most 100%",
+    path: ["value"],
+  })
+  .refine((data) => !data.startsAt || !data.endsAt || Date.parse(data.endsAt) > Date.parse(data.startsAt), {
+    message: "Ends after it starts",
+    path: ["endsAt"],
+  });
+
+export const discountUpdateSchema = z.object({
+  active: z.boolean(),
+});
+
+export const promoCodeSchema = z.object({
+  code: z.string().trim().min(1, "Enter a promo code").max(32),
+});
+
 export const userRegisterSchema = z.object({
   email: z.string().email("Enter a valid email"),
   password: z.string().min(8, "Password must be at least 8 characters"),
@@ -102,6 +395,7 @@ export const designSaveSchema = z.object({
   configJson: z.unknown().optional(), // New format: DesignConfig
   bomSelectionsJson: z.unknown().optional(), // BOM material selections
   priceCents: z.coerce.number().int().min(0),
+  priceBookVersion: z.number().int().min(1).optional(), // Price book the priceCents came from
   previewImageUrl: optionalTrimmedString,
 });
 
@@ -117,3 +411,6 @@ export type QuoteRequestInput = z.infer<typeof quoteRequestSchema>;
 export type ConsultationRequestInput = z.infer<typeof consultationRequestSchema>;
 export type ReservationInput = z.infer<typeof reservationSchema>;
 export type AdminLoginInput = z.infer<typeof adminLoginSchema>;
+export type OpeningCatalogInput = z.infer<typeof openingCatalogSchema>;
+export type PriceBookInput = z.infer<typeof priceBookSchema>;
+export type DiscountInput = z.infer<typeof discountSchema>;
@@ -15,73 +15,93 @@ export type ExteriorFinish = "none" | "paint" | "corrugated-metal" | "wood-sidin
 export type RoofingType = "none" | "membrane";
 
 // ============================================
-// Material Pricing (cents per sqft)
+// Price Tables
 // ============================================
+// Prices and labor rates live in versioned price books in the database
+// (see lib/design/price-book.ts). The types below describe one book.
 
-export const INSULATION_PRICES: Record<InsulationType, { label: string; centsPerSqft: number }> = {
-  "fiberglass-batts": { label: "Fiberglass Batts", centsPerSqft: 150 },
-  "spray-foam": { label: "Spray Foam (Open Cell)", centsPerSqft: 350 },
-  "rigid-board": { label: "Rigid Foam Board", centsPerSqft: 275 },
-};
+export type MaterialPrice = { label: string; centsPerSqft: number };
 
-export const INTERIOR_FINISH_PRICES: Record<InteriorWallFinish, { label: string; centsPerSqft: number }> = {
-  "drywall": { label: '1/2" Drywall', centsPerSqft: 300 },
-  "plywood": { label: '3/4" Plywood', centsPerSqft: 450 },
-  "shiplap": { label: "Shiplap/Tongue & Groove", centsPerSqft: 800 },
-};
+export type FoundationType = "none" | "gravel" | "slab" | "piers" | "helical-piles";
 
-export const FLOORING_PRICES: Record<FlooringType, { label: string; centsPerSqft: number }> = {
-  "vinyl-plank": { label: "Vinyl Plank (LVP)", centsPerSqft: 400 },
-  "laminate": { label: "Laminate", centsPerSqft: 350 },
-  "engineered-hardwood": { label: "Engineered Hardwood", centsPerSqft: 800 },
-  "rubber": { label: "Rubber/Commercial", centsPerSqft: 600 },
-};
+// Flat price; for piers and helical piles it's the rig mobilization, with the
+// piers themselves priced per pier from PierPrices
+export type FoundationPrice = { label: string; baseCents: number };
 
-export const EXTERIOR_FINISH_PRICES: Record<ExteriorFinish, { label: string; centsPerSqft: number }> = {
-  "none": { label: "None (Raw Container)", centsPerSqft: 0 },
-  "paint": { label: "Primer + Paint", centsPerSqft: 250 },
-  "corrugated-metal": { label: "Corrugated Metal Panels", centsPerSqft: 600 },
-  "wood-siding": { label: "Wood Siding", centsPerSqft: 1200 },
-  "composite": { label: "Composite Panels", centsPerSqft: 900 },
-};
+// A container shell, delivered used one-trip, keyed by shell catalog key
+export type ShellPrice = { label: string; baseCents: number };
 
-export const ROOFING_PRICES: Record<RoofingType, { label: string; centsPerSqft: number }> = {
-  "none": { label: "None", centsPerSqft: 0 },
-  "membrane": { label: "Membrane (TPO/EPDM)", centsPerSqft: 550 },  // $5.50/sqft for quality membrane
+// Per pier/pile, plus per foot of depth below grade (set by the frost depth)
+export type PierPrices = {
+  concretePierCents: number;            // Tube form, footing pad, rebar and anchor plate
+  concretePierCentsPerFtDepth: number;
+  concretePierHours: number;
+  helicalPileCents: number;             // Lead section, pile cap and anchor plate
+  helicalPileCentsPerFtDepth: number;   // Extensions
+  helicalPileHours: number;
 };
 
-// ============================================
-// Foundation Options
-// ============================================
+// Off-grid water and waste packages. "septic" is a conventional flush
+// toilet draining to a septic system or sewer built by others.
+export type WellPumpType = "none" | "jet" | "submersible";
 
-export type FoundationType = "none" | "gravel" | "slab";
+export type CisternSize = "none" | "small" | "medium" | "large";
 
-export const FOUNDATION_PRICES: Record<FoundationType, { label: string; baseCents: number }> = {
-  "none": { label: "None (Customer Provides)", baseCents: 0 },
-  "gravel": { label: "Compacted Gravel Pad", baseCents: 200000 },  // $2,000 flat
-  "slab": { label: "4\" Reinforced Concrete Slab", baseCents: 450000 },  // $4,500 flat
-};
+export type WasteSystem = "septic" | "holding-tank" | "composting";
 
-// ============================================
-// Fixed Costs (cents)
-// ============================================
+export type GreywaterSystem = "none" | "laundry" | "branched-drain";
 
-export const CONTAINER_COST_CENTS = 450000; // $4,500 for 40' High Cube
+export type UtilityPackagePrice = { label: string; baseCents: number; laborHours: number };
 
-export const ELECTRICAL_BASE_CENTS = 250000; // $2,500 base panel (container requires steel cutting, weatherproofing)
-export const ELECTRICAL_PER_FIXTURE_CENTS = 15000; // $150 per powered fixture
+// Steel cut-outs and reinforcement (per linear ft / per unit)
+export type StructuralPrices = {
+  steelCutCentsPerLinearFt: number;
+  headerCentsPerLinearFt: number;
+  jambCentsPerLinearFt: number;
+  sillCentsPerLinearFt: number;
+  postCents: number;
+  seamCentsPerLinearFt: number;
+  stackConnectionCents: number;
+};
 
-export const PLUMBING_BASE_CENTS = 200000; // $2,000 rough-in
-export const PLUMBING_PER_FIXTURE_CENTS = 35000; // $350 per wet fixture
+export type BaseAndPerFixturePrice = { baseCents: number; perFixtureCents: number };
 
-export const ROOFING_BASE_CENTS_PER_SQFT = 400; // $4.00/sqft base membrane
-export const ROOFING_DECK_PREP_CENTS_PER_SQFT = 300; // +$3.00/sqft
-export const ROOFING_SOLAR_RAILS_CENTS_PER_SQFT = 250; // +$2.50/sqft
+export type DeliveryPrices = { centsPerMile: number; minimumCents: number };
 
-export const DELIVERY_RATE_CENTS_PER_MILE = 450; // $4.50/mile
-export const DELIVERY_MINIMUM_CENTS = 50000; // $500 minimum
+// Installed mini-splits (line set, pad, disconnect + per-capacity) and
+// electric wall heaters
+export type HvacPrices = {
+  miniSplitBaseCents: number;
+  miniSplitCentsPerKBtu: number;
+  heaterCentsPerKw: number;
+};
 
-export const DEFAULT_LABOR_RATE_CENTS = 4500; // $45/hr default
+// Routed supply, drain and vent pipe (per ft) and the parts that join it
+export type PlumbingPipePrices = {
+  pexHalfInchCentsPerFt: number;
+  pexThreeQuarterInchCentsPerFt: number;
+  drainInchAndHalfCentsPerFt: number;
+  drainTwoInchCentsPerFt: number;
+  drainThreeInchCentsPerFt: number;
+  fittingCents: number;         // Elbows, tees, wyes, traps, cleanouts (average)
+  manifoldCents: number;        // PEX home-run manifold at the utility entry
+  roofFlashingCents: number;    // Boot where a vent leaves the roof
+};
+
+// Unloading, permit and escort rules by shell length (one load per shell)
+export type DeliveryRules = {
+  // Shells up to this length come off a tilt-bed; longer ones need a crane
+  tiltBedMaxLengthFt: number;
+  tiltBedCentsPerLoad: number;
+  // Crane day on site, shared by every shell in the delivery
+  craneCents: number;
+  // Loads this long need an oversize permit in every state on the route
+  oversizeMinLengthFt: number;
+  permitCentsPerState: number;
+  // Loads this long travel with a pilot car, billed per road mile
+  escortMinLengthFt: number;
+  escortCentsPerMile: number;
+};
 
 // ============================================
 // Electrical Power Source Options
@@ -110,6 +130,7 @@ export const FIXTURE_WATTAGES: Record<string, number> = {
   "fixture-dryer": 3000,           // Electric dryer
   // Bath
   "fixture-water-heater": 4500,    // Electric water heater (tankless)
+  "fixture-toilet": 40,            // Composting toilet vent fan (only powered as one)
   // HVAC/Comfort
   "fixture-mini-split": 1500,      // Mini-split AC/heat (12k BTU)
   // Lighting (per fixture, estimated)
@@ -118,91 +139,354 @@ export const FIXTURE_WATTAGES: Record<string, number> = {
   "default": 200,
 };
 
-// Heating load: ~10W per sqft for electric space heating
-export const HEATING_WATTS_PER_SQFT = 10;
-
 // Base lighting load (watts) - general lighting for the container
 export const BASE_LIGHTING_WATTS = 300;
 
 // ============================================
-// Generator Pricing (cents) - tiered by kW capacity
+// Fixture Duty Cycles (hours/day at the wattage above) for daily energy
 // ============================================
 
-export type GeneratorTier = {
-  minWatts: number;
-  maxWatts: number;
-  capacityKw: number;
+export const FIXTURE_DAILY_HOURS: Record<string, number> = {
+  "fixture-fridge-24": 10,         // Compressor cycles on and off
+  "fixture-range-30": 1,
+  "fixture-dishwasher": 0.75,      // One load
+  "fixture-microwave": 0.25,
+  "fixture-washer": 0.5,
+  "fixture-dryer": 0.75,
+  "fixture-water-heater": 1,       // Showers and dishes
+  "fixture-toilet": 24,            // Composting vent fan runs constantly
+  "fixture-mini-split": 8,
+  "default": 2,
+};
+
+export const BASE_LIGHTING_HOURS = 5;
+
+// ============================================
+// Climate & Thermal Loads
+// ============================================
+
+// IECC climate zone with ASHRAE design temperatures (°F) for the site
+export type ClimateZone = {
+  zone: number;           // IECC 1 (hot-humid) to 8 (subarctic)
+  label: string;          // Area the design temperatures are for
+  heatingDesignF: number; // 99% heating dry bulb
+  coolingDesignF: number; // 1% cooling dry bulb
+};
+
+// Envelope performance of each insulation as installed in a container:
+// effective R-value of the wall/roof/floor assembly and air leakage
+export type InsulationThermal = { rValue: number; airChangesPerHour: number };
+
+export type HvacEquipmentKind = "mini-split" | "electric-heater";
+
+export type HvacEquipment = {
+  kind: HvacEquipmentKind;
   label: string;
-  priceCents: number;
+  quantity: number;
+  capacityBtuPerHr: number; // Each
+  watts: number;            // Total input at design conditions
+  costCents: number;
+};
+
+// One heat-flow path through the envelope (UA = area / R, or area × U)
+export type ThermalConductance = {
+  label: string;
+  areaSqft: number;
+  uaBtuPerHrF: number;
 };
 
-export const GENERATOR_TIERS: GeneratorTier[] = [
-  { minWatts: 0, maxWatts: 3500, capacityKw: 5, label: "5kW Portable Generator", priceCents: 80000 },
-  { minWatts: 3501, maxWatts: 5500, capacityKw: 7.5, label: "7.5kW Generator", priceCents: 120000 },
-  { minWatts: 5501, maxWatts: 8000, capacityKw: 10, label: "10kW Generator", priceCents: 180000 },
-  { minWatts: 8001, maxWatts: 12000, capacityKw: 15, label: "15kW Standby Generator", priceCents: 350000 },
-  { minWatts: 12001, maxWatts: 20000, capacityKw: 22, label: "22kW Standby Generator", priceCents: 550000 },
-];
+export type ThermalLoadResult = {
+  climate: ClimateZone;
+  // The delivery ZIP couldn't be placed; the shop's climate was used
+  isDefaultClimate: boolean;
+  insulationRValue: number;
+  conductance: ThermalConductance[];
+  heatingBtuPerHr: number;
+  coolingBtuPerHr: number;
+  equipment: HvacEquipment[];
+};
 
 // ============================================
-// Solar + Battery Pricing (cents) - tiered by system size
+// Plumbing Routing - supply, drain and vent runs from the utility entry
 // ============================================
 
-export type SolarBatteryTier = {
+export type PipeSystem = "supply-cold" | "supply-hot" | "drain" | "vent";
+
+// One run of pipe. Points are on plan (ft) and run under the ground floor;
+// lengthFt adds the stub-ups, risers from upper levels and the exit drop.
+export type PipeRun = {
+  id: string;
+  system: PipeSystem;
+  fixtureId: string | null;
+  diameterIn: number;
+  points: { xFt: number; yFt: number }[];
+  lengthFt: number;
+};
+
+// A vent stack up through the roof, shared by the fixtures near it
+export type VentStack = {
+  id: string;
+  xFt: number;
+  yFt: number;
+  level: number;
+  diameterIn: number;
+  lengthFt: number;
+  fixtureIds: string[];
+};
+
+export type PipeQuantity = {
+  label: string;             // e.g. 1/2" PEX, 3" PVC DWV
+  system: "supply" | "drain" | "vent";
+  diameterIn: number;
+  lengthFt: number;
+  costCents: number;
+};
+
+export type FittingQuantity = {
+  label: string;
+  count: number;
+  costCents: number;
+};
+
+export type PlumbingRouting = {
+  entry: { xFt: number; yFt: number };
+  // No utility entry placed; routed to the wet core instead
+  isDefaultEntry: boolean;
+  runs: PipeRun[];
+  vents: VentStack[];
+  pipes: PipeQuantity[];
+  fittings: FittingQuantity[];
+  materialCents: number;
+};
+
+// ============================================
+// Foundation - piers under the corner castings, below the frost line
+// ============================================
+
+export type FrostDepth = {
+  depthIn: number;  // Design frost depth below grade
+  label: string;    // Area the depth is for
+};
+
+// A pier on plan (ft) under the ground-level shells. Corner piers carry the
+// castings; long shells get intermediate pairs along their sides. Castings of
+// neighbouring shells close together share one pier.
+export type PierPoint = {
+  id: string;
+  xFt: number;
+  yFt: number;
+  shellIds: string[];
+  corner: boolean;
+};
+
+export type PierLayout = {
+  foundation: "piers" | "helical-piles";
+  piers: PierPoint[];
+  // Bottom of the pier or pile below grade
+  depthFt: number;
+  frostDepth: FrostDepth;
+};
+
+// ============================================
+// Generator Tiers - sized by kW capacity, priced in the price book
+// ============================================
+
+export type GeneratorTier = {
   minWatts: number;
   maxWatts: number;
-  solarKw: number;
-  batteryKwh: number;
+  capacityKw: number;
   label: string;
   priceCents: number;
 };
 
-export const SOLAR_BATTERY_TIERS: SolarBatteryTier[] = [
-  { minWatts: 0, maxWatts: 3000, solarKw: 3, batteryKwh: 10, label: "3kW Solar + 10kWh Battery", priceCents: 800000 },
-  { minWatts: 3001, maxWatts: 5000, solarKw: 5, batteryKwh: 15, label: "5kW Solar + 15kWh Battery", priceCents: 1200000 },
-  { minWatts: 5001, maxWatts: 8000, solarKw: 8, batteryKwh: 20, label: "8kW Solar + 20kWh Battery", priceCents: 1800000 },
-  { minWatts: 8001, maxWatts: 12000, solarKw: 10, batteryKwh: 30, label: "10kW Solar + 30kWh Battery", priceCents: 2500000 },
-  { minWatts: 12001, maxWatts: 20000, solarKw: 15, batteryKwh: 40, label: "15kW Solar + 40kWh Battery", priceCents: 3500000 },
-];
+// ============================================
+// Solar + Battery - sized from daily energy and the site's sun
+// ============================================
+
+// Installed prices for each part of an off-grid solar system
+export type SolarPrices = {
+  panelCents: number;           // Per 400W panel, racking included
+  batteryCentsPerKwh: number;
+  inverterCentsPerKw: number;
+  balanceOfSystemCents: number; // Charge controller, combiner, disconnects
+};
+
+// Daily energy use (kWh) on a typical winter and summer day; design is the
+// year-round average the array is sized for
+export type DailyEnergyUse = {
+  fixturesKwh: number;
+  lightingKwh: number;
+  winterHvacKwh: number;
+  summerHvacKwh: number;
+  winterKwh: number;
+  designKwh: number;
+};
+
+export type SolarSizing = {
+  latitude: number;
+  // Peak sun hours per day: yearly average and December
+  annualSunHours: number;
+  winterSunHours: number;
+  autonomyDays: number;
+  energy: DailyEnergyUse;
+  panelCount: number;
+  panelWatts: number;
+  arrayKw: number;
+  batteryKwh: number;
+  inverterKw: number;
+  winterProductionKwh: number;
+  // Daily energy the array can't make in December (generator or conservation)
+  winterShortfallKwh: number;
+  // Roof-mounted arrays only (solar rails selected)
+  roof: { maxPanels: number; fits: boolean } | null;
+  items: { label: string; costCents: number }[];
+};
 
 // ============================================
 // Electrical Load Calculation Result
 // ============================================
 
 export type ElectricalLoadBreakdown = {
+  // Heating & cooling equipment draw at design conditions (see ThermalLoadResult)
   heatingWatts: number;
   fixtureWatts: number;
   lightingWatts: number;
   totalWatts: number;
-  fixtureDetails: { label: string; watts: number }[];
+  fixtureDetails: { catalogKey: string; label: string; watts: number }[];
 };
 
 // ============================================
 // Labor Hour Rates
 // ============================================
 
-export const LABOR_HOURS = {
-  exteriorFramingPerLinearFt: 0.5,
-  windowInstallationPerUnit: 4,
-  exteriorDoorPerUnit: 6,
-  interiorWallPerLinearFt: 0.2,
-  interiorDoorPerUnit: 2,
-  insulationPerSqft: 0.05,
-  wallFinishDrywallPerSqft: 0.08,
-  wallFinishWoodPerSqft: 0.12,
-  electricalBase: 10,
-  electricalPerFixture: 1.5,
-  plumbingBase: 4,
-  plumbingPerFixture: 3,
-  roofingPerSqft: 0.04,
-  roofingDeckPrepPerSqft: 0.05,
-  flooringPerSqft: 0.015,
-  exteriorFinishPaintPerSqft: 0.04,
-  exteriorFinishSidingPerSqft: 0.15,
-  fixtureInstallPerUnit: 1,
-  trimBaseHours: 8,
-  trimPerOpening: 1,
-  cleanupHours: 8,
+export type LaborHourRates = {
+  exteriorFramingPerLinearFt: number;
+  windowInstallationPerUnit: number;
+  exteriorDoorPerUnit: number;
+  interiorWallPerLinearFt: number;
+  interiorDoorPerUnit: number;
+  insulationPerSqft: number;
+  wallFinishDrywallPerSqft: number;
+  wallFinishWoodPerSqft: number;
+  electricalBase: number;
+  electricalPerFixture: number;
+  plumbingBase: number;
+  plumbingPerFixture: number;
+  roofingPerSqft: number;
+  roofingDeckPrepPerSqft: number;
+  flooringPerSqft: number;
+  exteriorFinishPaintPerSqft: number;
+  exteriorFinishSidingPerSqft: number;
+  fixtureInstallPerUnit: number;
+  trimBaseHours: number;
+  trimPerLinearFt: number;
+  cleanupHours: number;
+  steelCutPerLinearFt: number;
+  headerPerLinearFt: number;
+  jambPerLinearFt: number;
+  sillPerLinearFt: number;
+  postPerUnit: number;
+  seamPerLinearFt: number;
+  stackConnectionPerShell: number;
+};
+
+// ============================================
+// Regional Multipliers
+// ============================================
+
+// Cost adjustment for installs in a region, relative to Audubon, IA pricing.
+// `match` is a state code ("CO") or a ZIP prefix ("802"); the longest
+// matching ZIP prefix wins, then the state.
+export type RegionMultiplier = {
+  match: string;
+  label: string;
+  labor: number;
+  materials: number;
+  delivery: number;
+};
+
+// The multipliers a BOM was priced with (all 1 for the shop's home pricing)
+export type RegionAdjustment = Omit<RegionMultiplier, "match"> & {
+  match: string | null;
+};
+
+// ============================================
+// Price Book
+// ============================================
+
+// Everything the estimators price with, as stored in one price book version
+export type PriceTables = {
+  shells: Record<string, ShellPrice>;
+  insulation: Record<InsulationType, MaterialPrice>;
+  interiorFinish: Record<InteriorWallFinish, MaterialPrice>;
+  flooring: Record<FlooringType, MaterialPrice>;
+  exteriorFinish: Record<ExteriorFinish, MaterialPrice>;
+  roofing: Record<RoofingType, MaterialPrice>;
+  roofingDeckPrepCentsPerSqft: number;
+  roofingSolarRailsCentsPerSqft: number;
+  foundation: Record<FoundationType, FoundationPrice>;
+  piers: PierPrices;
+  wellPump: Record<WellPumpType, UtilityPackagePrice>;
+  cistern: Record<CisternSize, UtilityPackagePrice>;
+  wasteSystem: Record<WasteSystem, UtilityPackagePrice>;
+  greywater: Record<GreywaterSystem, UtilityPackagePrice>;
+  structural: StructuralPrices;
+  electrical: BaseAndPerFixturePrice;
+  plumbing: BaseAndPerFixturePrice;
+  plumbingPipe: PlumbingPipePrices;
+  hvac: HvacPrices;
+  delivery: DeliveryPrices;
+  deliveryRules: DeliveryRules;
+  generatorTiers: GeneratorTier[];
+  solar: SolarPrices;
+  laborHours: LaborHourRates;
+  regions: RegionMultiplier[];
+  contingencyPct: number;
+};
+
+// A price book version: its tables plus when they take effect. Saved designs
+// record the version their price came from.
+export type PriceBook = PriceTables & {
+  version: number;
+  name: string;
+  effectiveAt: string;
+};
+
+// ============================================
+// Discounts & Sales Tax
+// ============================================
+
+export type DiscountKind = "percent" | "fixed";
+
+// A discount set up by an admin. Discounts without a code apply to every
+// quote while they run; coded ones only once the customer enters the code.
+export type Discount = {
+  id: string;
+  label: string;
+  code: string | null;
+  kind: DiscountKind;
+  // Percent off for "percent", cents off for "fixed"
+  value: number;
+};
+
+// One discount as taken off a quote
+export type BOMDiscountLine = {
+  label: string;
+  code: string | null;
+  amountCents: number;
+};
+
+// Sales tax for the delivery ZIP, split into the state rate and the local
+// (county and city) rate
+export type SalesTaxResult = {
+  state: string | null;
+  county: string | null;
+  statePct: number;
+  localPct: number;
+  taxableCents: number;
+  stateCents: number;
+  localCents: number;
+  costCents: number;
 };
 
 // ============================================
@@ -223,6 +507,7 @@ export type LaborCategory =
   | "flooring"
   | "exterior-finish"
   | "fixture-install"
+  | "utility-packages"
   | "trim-finish"
   | "cleanup";
 
@@ -237,6 +522,9 @@ export type LaborBreakdownItem = {
 // BOM State
 // ============================================
 
+export const DEFAULT_LABOR_RATE_CENTS = 4500; // $45/hr default
+export const DEFAULT_SOLAR_AUTONOMY_DAYS = 2;
+
 export type BOMSelections = {
   insulation: InsulationType;
   interiorFinish: InteriorWallFinish;
@@ -249,6 +537,14 @@ export type BOMSelections = {
   deliveryZip: string;
   electricalPowerSource: ElectricalPowerSource;
   foundation: FoundationType;
+  // Days the battery carries the home without sun (solar + battery)
+  solarAutonomyDays: number;
+  wellPump: WellPumpType;
+  cistern: CisternSize;
+  wasteSystem: WasteSystem;
+  greywater: GreywaterSystem;
+  // Promo code the customer entered (normalized), "" for none
+  promoCode: string;
 };
 
 export const DEFAULT_BOM_SELECTIONS: BOMSelections = {
@@ -263,6 +559,12 @@ export const DEFAULT_BOM_SELECTIONS: BOMSelections = {
   deliveryZip: "",
   electricalPowerSource: "grid",
   foundation: "none",
+  solarAutonomyDays: DEFAULT_SOLAR_AUTONOMY_DAYS,
+  wellPump: "none",
+  cistern: "none",
+  wasteSystem: "septic",
+  greywater: "none",
+  promoCode: "",
 };
 
 // ============================================
@@ -275,27 +577,88 @@ export type BOMCategoryResult = {
   details?: string;
 };
 
+// A trip from the shop, as worked out by a distance provider
+export type DeliveryRoute = {
+  miles: number;
+  // States driven through, the shop's first and the destination's last
+  states: string[];
+  provider: string;
+};
+
+// One line of the delivery breakdown: hauling, unloading, permits, escorts
+export type DeliveryLineItem = {
+  label: string;
+  quantity: number;
+  unit: "mi" | "ea" | "state";
+  costCents: number;
+};
+
+// A selected water or waste package: its material and install hours
+export type UtilityPackageLineItem = {
+  label: string;
+  costCents: number;
+  laborHours: number;
+};
+
 export type ElectricalSystemInfo = {
   powerSource: ElectricalPowerSource;
   loadBreakdown: ElectricalLoadBreakdown;
   systemLabel?: string;         // e.g., "10kW Generator" or "5kW Solar + 15kWh Battery"
   systemCostCents: number;      // Cost of generator/solar+battery system (0 for grid)
+  solar: SolarSizing | null;    // Solar + battery only
+};
+
+// One line of the structural (or pier foundation) takeoff: material plus install hours
+export type StructuralLineItem = {
+  label: string;
+  quantity: number;
+  unit: "lf" | "ea";
+  materialCents: number;
+  hours: number;
 };
 
 export type BOMCalculation = {
   container: BOMCategoryResult;
+  structural: BOMCategoryResult & {
+    items: StructuralLineItem[];
+    materialCents: number;
+    laborHours: number;
+    laborCents: number;
+  };
   fixtures: BOMCategoryResult;
   wallsInsulation: BOMCategoryResult;
   flooring: BOMCategoryResult;
-  electrical: BOMCategoryResult & { systemInfo: ElectricalSystemInfo };
-  plumbing: BOMCategoryResult;
+  electrical: BOMCategoryResult & { systemInfo: ElectricalSystemInfo; thermal: ThermalLoadResult };
+  plumbing: BOMCategoryResult & { routing: PlumbingRouting };
+  waterWaste: BOMCategoryResult & { items: UtilityPackageLineItem[] };
   exteriorFinish: BOMCategoryResult;
   roofing: BOMCategoryResult;
-  foundation: BOMCategoryResult;
-  labor: BOMCategoryResult & { breakdown: LaborBreakdownItem[]; totalHours: number };
-  delivery: BOMCategoryResult & { distanceMiles: number | null };
+  // layout is null for pads and slabs; piers carry their own install labor
+  foundation: BOMCategoryResult & {
+    layout: PierLayout | null;
+    items: StructuralLineItem[];
+    materialCents: number;
+    laborHours: number;
+    laborCents: number;
+  };
+  // rateCents is the hourly rate after the regional multiplier
+  labor: BOMCategoryResult & { breakdown: LaborBreakdownItem[]; totalHours: number; rateCents: number };
+  delivery: BOMCategoryResult & {
+    distanceMiles: number | null;
+    route: DeliveryRoute | null;
+    loads: number;
+    items: DeliveryLineItem[];
+  };
+  // Regional multipliers applied to labor, materials and delivery above
+  region: RegionAdjustment;
+  // Purchasing quantities (not priced; the categories above carry the cost)
+  takeoff: TakeoffLineItem[];
   subtotalCents: number;
   contingencyCents: number;
+  // Taken off subtotal + contingency, before tax
+  discounts: BOMDiscountLine[];
+  discountCents: number;
+  salesTax: SalesTaxResult;
   grandTotalCents: number;
 };
 
@@ -319,7 +682,118 @@ export type DesignAnalysis = {
   poweredFixtureCount: number;
   wetFixtureCount: number;
   totalFixtureCount: number;
+  // Fixtures placed as the opposite-hand (mirrored) version of their catalog item
+  mirroredFixtureCount: number;
+  // Window and exterior door area cut out of the exterior walls
   openingsSqft: number;
+  // Window share of openingsSqft (solar gain)
+  windowSqft: number;
+  // Casing around every window and door
+  trimLinearFt: number;
+  // Shells in a multi-container composition (1 for a single box)
+  shellCount: number;
+};
+
+
+
+// ============================================
+// Material Takeoff (purchasing quantities)
+// ============================================
+
+export type TakeoffCategory =
+  | "foundation"
+  | "framing"
+  | "insulation"
+  | "wall-finish"
+  | "flooring"
+  | "trim"
+  | "fasteners"
+  | "sealants";
+
+export const TAKEOFF_CATEGORY_LABELS: Record<TakeoffCategory, string> = {
+  "foundation": "Foundation",
+  "framing": "Framing",
+  "insulation": "Insulation",
+  "wall-finish": "Wall & Ceiling Finish",
+  "flooring": "Flooring",
+  "trim": "Trim",
+  "fasteners": "Fasteners",
+  "sealants": "Sealants",
 };
 
+// How the measured quantity is counted before it's turned into stock units
+export type TakeoffBasis = "sqft" | "lf" | "ea";
+
+// A stock item the shop orders: the supplier SKU, what one unit covers
+// (in the basis it is measured in) and the waste to allow for offcuts
+export type TakeoffMaterial = {
+  sku: string;
+  description: string;
+  unit: "sheet" | "stick" | "bundle" | "kit" | "box" | "roll" | "bucket" | "piece" | "tube" | "bag";
+  basis: TakeoffBasis;
+  coverage: number;
+  wastePct: number;
+};
+
+export const TAKEOFF_MATERIALS = {
+  // Foundation: 12" concrete piers, four #4 verticals each (per lf of pier)
+  pierTubeForm: { sku: "FDN-TUBE-12-12", description: '12" concrete tube form, 12\'', unit: "tube", basis: "lf", coverage: 12, wastePct: 10 },
+  concreteMix: { sku: "FDN-CONC-80", description: '80 lb concrete mix (0.75 lf of 12" pier)', unit: "bag", basis: "lf", coverage: 0.75, wastePct: 10 },
+  rebar: { sku: "FDN-RB4-20", description: "#4 rebar, 20'", unit: "stick", basis: "lf", coverage: 20, wastePct: 10 },
+  castingAnchorPlate: { sku: "FDN-AP-CC", description: "Corner casting anchor plate with J-bolts", unit: "piece", basis: "ea", coverage: 1, wastePct: 0 },
+  // Framing: steel studs at 16" o.c. with top and bottom track
+  steelStud: { sku: "CS-362S125-10", description: '3-5/8" 20ga steel stud, 10\'', unit: "stick", basis: "ea", coverage: 1, wastePct: 5 },
+  steelTrack: { sku: "CS-362T125-10", description: '3-5/8" 20ga steel track, 10\'', unit: "stick", basis: "lf", coverage: 10, wastePct: 10 },
+  // Insulation (walls and ceiling)
+  fiberglassBatts: { sku: "INS-R13-1593", description: 'R-13 fiberglass batts, 15" x 93" (40 sqft)', unit: "bundle", basis: "sqft", coverage: 40, wastePct: 5 },
+  sprayFoamKit: { sku: "INS-SPF-600", description: "Open-cell spray foam kit, 600 bd ft (200 sqft @ 3\")", unit: "kit", basis: "sqft", coverage: 200, wastePct: 10 },
+  rigidBoard: { sku: "INS-XPS-2-48", description: '2" XPS foam board, 4\' x 8\'', unit: "sheet", basis: "sqft", coverage: 32, wastePct: 10 },
+  // Wall & ceiling finish
+  drywall: { sku: "DW-12-48-96", description: '1/2" drywall, 4\' x 8\'', unit: "sheet", basis: "sqft", coverage: 32, wastePct: 12 },
+  jointCompound: { sku: "DW-JC-45", description: "All-purpose joint compound, 4.5 gal", unit: "bucket", basis: "sqft", coverage: 450, wastePct: 0 },
+  jointTape: { sku: "DW-TAPE-500", description: "Paper joint tape, 500'", unit: "roll", basis: "sqft", coverage: 1200, wastePct: 0 },
+  plywood: { sku: "PLY-34-48-96", description: '3/4" sanded plywood, 4\' x 8\'', unit: "sheet", basis: "sqft", coverage: 32, wastePct: 10 },
+  shiplap: { sku: "SHIP-1X6-8", description: "1x6 shiplap board, 8' (3.7 sqft)", unit: "piece", basis: "sqft", coverage: 3.7, wastePct: 15 },
+  // Flooring (coverage per box/roll)
+  vinylPlank: { sku: "FLR-LVP-20", description: "Vinyl plank, 20 sqft box", unit: "box", basis: "sqft", coverage: 20, wastePct: 10 },
+  laminate: { sku: "FLR-LAM-22", description: "Laminate, 22 sqft box", unit: "box", basis: "sqft", coverage: 22, wastePct: 10 },
+  engineeredHardwood: { sku: "FLR-EHW-20", description: "Engineered hardwood, 20 sqft box", unit: "box", basis: "sqft", coverage: 20, wastePct: 12 },
+  rubberRoll: { sku: "FLR-RUB-425", description: "Rubber flooring roll, 4' x 25'", unit: "roll", basis: "sqft", coverage: 100, wastePct: 5 },
+  underlayment: { sku: "FLR-UL-100", description: "Foam underlayment roll, 100 sqft", unit: "roll", basis: "sqft", coverage: 100, wastePct: 5 },
+  // Trim
+  casing: { sku: "TRM-CAS-7", description: "Door/window casing, 7'", unit: "piece", basis: "lf", coverage: 7, wastePct: 15 },
+  baseboard: { sku: "TRM-BASE-16", description: "Baseboard, 16'", unit: "piece", basis: "lf", coverage: 16, wastePct: 10 },
+  // Fasteners
+  framingScrews: { sku: "FAS-PH8-1000", description: '#8 x 1/2" pan head framing screws, 1000 ct', unit: "box", basis: "ea", coverage: 1000, wastePct: 10 },
+  tekScrews: { sku: "FAS-TEK12-250", description: '#12 x 1" self-drilling screws, 250 ct', unit: "box", basis: "ea", coverage: 250, wastePct: 10 },
+  panelScrews: { sku: "FAS-BUG6-1000", description: '#6 x 1-1/4" fine thread panel screws, 1000 ct', unit: "box", basis: "ea", coverage: 1000, wastePct: 10 },
+  finishNails: { sku: "FAS-BRAD18-1000", description: '18ga x 1-1/2" brad nails, 1000 ct', unit: "box", basis: "ea", coverage: 1000, wastePct: 10 },
+  // Sealants
+  exteriorSealant: { sku: "SEAL-PU-10", description: "Polyurethane sealant, 10 oz (20 lf bead)", unit: "tube", basis: "lf", coverage: 20, wastePct: 10 },
+  acousticalSealant: { sku: "SEAL-AC-28", description: "Acoustical sealant, 28 oz (30 lf bead)", unit: "tube", basis: "lf", coverage: 30, wastePct: 10 },
+} satisfies Record<string, TakeoffMaterial>;
+
+// Fastener schedule
+export const TAKEOFF_RATES = {
+  studSpacingFt: 16 / 12,
+  framingScrewsPerStud: 4,          // stud to top and bottom track, both flanges
+  tekScrewsPerTrackFt: 0.5,         // track to container steel, 24" o.c. on exterior walls
+  panelScrewsPerSheet: 32,          // 4x8 sheet at 12" o.c. field, 8" edges
+  nailsPerBoard: 12,                // shiplap board, two nails at each stud
+  pierRevealFt: 1,                  // concrete pier top above grade
+  rebarPerPierFt: 4,                // four vertical bars
+};
 
+// One line of the purchasing list
+export type TakeoffLineItem = {
+  category: TakeoffCategory;
+  sku: string;
+  description: string;
+  unit: TakeoffMaterial["unit"];
+  basis: TakeoffBasis;
+  // Measured amount before waste, in the basis (sqft, lf or count)
+  netQuantity: number;
+  wastePct: number;
+  // Stock units to order, waste included
+  quantity: number;
+};
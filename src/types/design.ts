@@ -14,6 +14,16 @@ export type UtilityType = "water" | "waste" | "power" | "vent";
 
 export type FootprintAnchor = "center" | "front-left" | "back-left";
 
+// Rough opening a window or door needs in the wall (ft). Width runs along the
+// wall, sill is the height of the bottom of the opening above the floor (0 for doors).
+export type OpeningSpec = {
+  widthFt: number;
+  heightFt: number;
+  sillFt: number;
+  // Whole-unit U-factor (BTU/h·sqft·°F); defaults by kind when missing
+  uFactor?: number;
+};
+
 export type ModuleCatalogItem = {
   key: string;
   label: string;
@@ -24,10 +34,17 @@ export type ModuleCatalogItem = {
   allowedZones?: string[];
   requiresUtilities?: UtilityType[];
   minClearanceFt?: { front?: number; back?: number; left?: number; right?: number };
+  // Clearance enforcement: severity, which sides are checked (default front only),
+  // and a group name - fixtures in the same group may share clearance space
+  clearanceLevel?: ValidationLevel;
+  clearanceSides?: ("front" | "back" | "left" | "right")[];
+  clearanceShareGroup?: string;
   priceRule: {
     baseCents: number;
     perLinearFtCents?: number;
   };
+  // Windows and doors: the opening cut in the wall
+  opening?: OpeningSpec;
   // 3D Model support
   modelUrl?: string;
   modelScale?: number;
@@ -54,9 +71,16 @@ export type FixtureConfig = {
   name?: string;
   xFt: number;
   yFt: number;
-  rotationDeg: 0 | 90 | 180 | 270;
+  // Clockwise on screen, in degrees [0, 360)
+  rotationDeg: number;
+  // Mirrored across the fixture's own vertical axis (left/right handed)
+  mirrorX?: boolean;
+  // Mirrored across the fixture's own horizontal axis (front/back flipped)
+  mirrorY?: boolean;
   zone?: string;
   locked?: boolean;
+  // Storey in a stacked composition (0 = ground, the default)
+  level?: number;
   properties?: Record<string, unknown>;
 };
 
@@ -93,12 +117,77 @@ export type ShellConfig = {
   heightFt: number;
 };
 
+// Side-wall corrugation of a shell (inches), drawn by the 3D walls
+export type CorrugationProfile = {
+  pitchIn: number;
+  depthIn: number;
+};
+
+// A container size the designer can build in. `key` becomes ShellConfig.id;
+// dimensions are interior (ft)
+export type ShellCatalogItem = {
+  key: string;
+  label: string;
+  lengthFt: number;
+  widthFt: number;
+  heightFt: number;
+  highCube: boolean;
+  tareWeightLbs: number;
+  corrugation: CorrugationProfile;
+};
+
+// A further container joined to the primary shell. (xFt, yFt) is its top-left
+// corner on plan in the primary shell's coordinates; level 1 sits on level 0.
+// Turned 90°, its length runs along Y (the leg of an L).
+export type PlacedShellConfig = {
+  id: string;
+  shell: ShellConfig;
+  xFt: number;
+  yFt: number;
+  level: number;
+  rotationDeg: 0 | 90;
+};
+
+// How a new shell is placed against the existing ones
+export type ShellArrangement = "side-by-side" | "end-to-end" | "l-shape" | "stacked";
+
+// Steel cut through the touching walls of two shells on the same level.
+// offsetFt/lengthFt run along the shared seam from its start (lowest X or Y);
+// a cut the full seam length removes the shared wall.
+export type ShellOpeningConfig = {
+  id: string;
+  shellIds: [string, string];
+  offsetFt: number;
+  lengthFt: number;
+};
+
+// Where water, waste and power enter/leave the shell (feet, interior coords)
+export type UtilityEntryConfig = {
+  xFt: number;
+  yFt: number;
+};
+
+// Fixtures that move and rotate as one unit. A group nests inside another
+// through parentId; a fixture belongs directly to at most one group.
+export type FixtureGroupConfig = {
+  id: string;
+  name: string;
+  fixtureIds: string[];
+  parentId?: string;
+};
+
+// Bump `version` together with a new step in lib/design/migrations.ts
 export type DesignConfig = {
-  version: 1;
+  version: 2;
   shell: ShellConfig;
   fixtures: FixtureConfig[];
   zones: ZoneConfig[];
   annotations?: AnnotationConfig[];
+  utilityEntry?: UtilityEntryConfig;
+  groups?: FixtureGroupConfig[];
+  // Multi-container builds: shells beyond `shell` and the cuts joining them
+  additionalShells?: PlacedShellConfig[];
+  shellOpenings?: ShellOpeningConfig[];
 };
 
 // Legacy support - old linear module placement
@@ -120,6 +209,15 @@ export type RectFt = {
   height: number;
 };
 
+// Rectangle rotated clockwise (on screen) about its center
+export type OrientedRectFt = {
+  cx: number;
+  cy: number;
+  width: number;
+  height: number;
+  rotationDeg: number;
+};
+
 // Validation types
 export type ValidationLevel = "error" | "warning";
 
@@ -129,6 +227,8 @@ export type ValidationIssue = {
   level: ValidationLevel;
   code: string;
   message: string;
+  // Code section the issue comes from (residential code rule packs)
+  citation?: string;
 };
 
 export type ValidationRule = (
@@ -165,6 +265,10 @@ export type DragState = {
   fixtureWidth: number;
   fixtureHeight: number;
   footprintAnchor: "center" | "front-left" | "back-left";
+  // Start positions of the other fixtures in the dragged fixture's group
+  groupStarts?: Record<string, { xFt: number; yFt: number }>;
+  // Bounding box of the whole group at drag start, used to keep it in the shell
+  groupBoundsFt?: RectFt;
 };
 
 export type MarqueeState = {
@@ -193,6 +297,12 @@ export type ZoneResizeState = {
 // Wall material types
 export type WallMaterial = "drywall" | "plywood" | "wood" | "steel";
 
+// Door handing, stored in fixture.properties (doorHinge / doorSwing)
+// Hinge side is as seen standing on the side the door swings toward.
+// "in" swings toward the middle of the container, "out" away from it.
+export type DoorHingeSide = "left" | "right";
+export type DoorSwingDirection = "in" | "out";
+
 // Wall drawing state for click-to-draw tool
 export type WallDrawState = {
   startPoint: { xFt: number; yFt: number };
@@ -218,6 +328,44 @@ export type AnnotationDragState = {
   pointerStartPx: { x: number; y: number };
 };
 
+// Footprint of a fixture as the editor sees it (rotation applied), passed with
+// actions that need to clamp fixtures into the shell
+export type FixtureFootprint = {
+  widthFt: number;
+  heightFt: number;
+  footprintAnchor: FootprintAnchor;
+};
+
+// A copied fixture; positions are relative to the copied selection's bounding box
+export type ClipboardFixture = Omit<FixtureConfig, "id"> & {
+  footprint: FixtureFootprint;
+};
+
+// Clipboard payload, also written to the system clipboard as JSON so fixtures
+// can be pasted into another design
+export type ClipboardPayload = {
+  format: "readybuilt-fixtures";
+  version: 1;
+  // Bounding box of the copied selection in the source design
+  originFt: { x: number; y: number };
+  sizeFt: { width: number; height: number };
+  fixtures: ClipboardFixture[];
+};
+
+// Edge or center line the selection is aligned to (screen orientation: top = low Y)
+export type AlignMode =
+  | "left"
+  | "right"
+  | "top"
+  | "bottom"
+  | "center-x"
+  | "center-y";
+
+export type DistributeAxis = "horizontal" | "vertical";
+
+// Direction the selection slides in until it touches a neighbour or the shell
+export type ButtDirection = "left" | "right" | "up" | "down";
+
 export type DesignEditorState = {
   design: DesignConfig;
   primarySelectedId?: string;
@@ -235,10 +383,14 @@ export type DesignEditorState = {
   future: DesignConfig[];
   viewport: ViewportState;
   snapIncrement: number;
+  clipboard?: ClipboardPayload;
+  // Storey being edited in a stacked composition; new fixtures land on it
+  activeLevel?: number;
 };
 
 export type DesignAction =
-  | { type: "SELECT_FIXTURE"; id?: string; append?: boolean }
+  // Selecting a grouped fixture selects its whole group unless ignoreGroups is set
+  | { type: "SELECT_FIXTURE"; id?: string; append?: boolean; ignoreGroups?: boolean }
   | { type: "SELECT_FIXTURES"; ids: string[] }
   | { type: "TOGGLE_FIXTURE_SELECTION"; id: string }
   | { type: "CLEAR_SELECTION" }
@@ -248,7 +400,7 @@ export type DesignAction =
     zoneId?: string;
     xFt?: number;
     yFt?: number;
-    rotationDeg?: 0 | 90 | 180 | 270;
+    rotationDeg?: number;
   }
   | { type: "REMOVE_FIXTURE"; id: string }
   | {
@@ -263,8 +415,9 @@ export type DesignAction =
   | {
     type: "UPDATE_FIXTURE_ROTATION";
     id: string;
-    rotationDeg: 0 | 90 | 180 | 270;
+    rotationDeg: number;
   }
+  | { type: "TOGGLE_FIXTURE_MIRROR"; id: string; axis: "x" | "y" }
   | {
     type: "UPDATE_FIXTURE_SIZE";
     id: string;
@@ -278,6 +431,7 @@ export type DesignAction =
     fixtureWidth?: number;
     fixtureHeight?: number;
     footprintAnchor?: "center" | "front-left" | "back-left";
+    groupBoundsFt?: RectFt;
   }
   | {
     type: "UPDATE_DRAG";
@@ -338,6 +492,18 @@ export type DesignAction =
   | { type: "REDO" }
   | { type: "UPDATE_DESIGN"; design: DesignConfig }
   | { type: "LOAD_DESIGN"; design: DesignConfig }
+  // Swap the shell for a catalog size and re-fit zones and fixtures to it
+  // (footprints keyed by fixture id keep fixtures inside the new shell)
+  | { type: "SET_SHELL"; shellKey: string; footprints: Record<string, FixtureFootprint> }
+  // Where water, waste and power come in; null returns to the default
+  | { type: "SET_UTILITY_ENTRY"; utilityEntry: UtilityEntryConfig | null }
+  // Multi-container composition actions
+  | { type: "ADD_SHELL"; shellKey: string; arrangement: ShellArrangement }
+  | { type: "UPDATE_SHELL"; id: string; updates: Partial<Omit<PlacedShellConfig, "id" | "shell">> }
+  | { type: "REMOVE_SHELL"; id: string }
+  | { type: "ADD_SHELL_OPENING"; shellIds: [string, string]; offsetFt: number; lengthFt: number }
+  | { type: "REMOVE_SHELL_OPENING"; id: string }
+  | { type: "SET_ACTIVE_LEVEL"; level: number }
   // Wall drawing actions
   | { type: "START_WALL_DRAW"; startPoint: { xFt: number; yFt: number } }
   | { type: "UPDATE_WALL_DRAW"; currentPoint: { xFt: number; yFt: number } }
@@ -351,6 +517,31 @@ export type DesignAction =
   | { type: "UPDATE_FIXTURE_PROPERTIES"; id: string; properties: Record<string, unknown> }
   // Fixture lock action
   | { type: "TOGGLE_FIXTURE_LOCK"; id: string }
+  // Group actions
+  | { type: "GROUP"; name?: string }
+  | { type: "UNGROUP"; groupId?: string }
+  | { type: "SELECT_GROUP"; id: string; append?: boolean }
+  | { type: "RENAME_GROUP"; id: string; name: string }
+  | { type: "ROTATE_GROUP"; id: string; footprints: Record<string, FixtureFootprint> }
+  | { type: "MOVE_FIXTURES"; ids: string[]; deltaXFt: number; deltaYFt: number }
+  // Arrange actions (footprints keyed by fixture id; for BUTT_SELECTION, entries
+  // outside the selection are the neighbours it can butt against)
+  | { type: "ALIGN_SELECTION"; mode: AlignMode; footprints: Record<string, FixtureFootprint> }
+  | { type: "DISTRIBUTE_SELECTION"; axis: DistributeAxis; footprints: Record<string, FixtureFootprint> }
+  | { type: "BUTT_SELECTION"; direction: ButtDirection; footprints: Record<string, FixtureFootprint> }
+  | { type: "MATCH_SIZE"; lengthFt?: number; widthFt?: number }
+  // Clipboard actions (footprints keyed by fixture id, for every selected fixture)
+  | { type: "COPY_SELECTION"; footprints: Record<string, FixtureFootprint> }
+  | { type: "PASTE"; payload?: ClipboardPayload; xFt?: number; yFt?: number }
+  | { type: "DUPLICATE"; footprints: Record<string, FixtureFootprint>; offsetFt?: number }
+  | {
+      type: "ARRAY_PLACE";
+      footprints: Record<string, FixtureFootprint>;
+      columns: number;
+      rows: number;
+      gapXFt: number;
+      gapYFt: number;
+    }
   // Annotation actions
   | { type: "ADD_ANNOTATION"; anchorFt: { x: number; y: number }; labelFt: { x: number; y: number }; text?: string }
   | { type: "UPDATE_ANNOTATION"; id: string; anchorFt?: { x: number; y: number }; labelFt?: { x: number; y: number }; text?: string; color?: string }